@@ -0,0 +1,264 @@
+import { Elysia, t } from "elysia";
+import { swagger } from "@elysiajs/swagger";
+import { jwt } from "@elysiajs/jwt";
+import { ErrorResponse } from "./types/responses";
+import type { AppStore } from "./services/app.services";
+import { authJwt, requireRole } from "./utils/auth-guard";
+
+// Import controllers
+import { CityRhythmController } from "./controllers/city-rhythm.controller";
+import { CityCoordinatorController } from "./controllers/city-coordinator.controller";
+import { AdaptiveLearningController } from "./controllers/adaptive-learning.controller";
+import { AIController } from "./controllers/ai.controller";
+import { AIIntegrationController } from "./controllers/ai-integration.controller";
+import { DepartmentController } from "./controllers/department.controller";
+import { createDistrictController } from "./controllers/district.controller";
+import { DonationController } from "./controllers/donation.controller";
+import { DistrictMetricsController } from "./controllers/district-metrics.controller";
+import { AgentCollaborationController } from "./controllers/agent-collaboration.controller";
+import { ChroniclesController } from "./controllers/chronicles.controller";
+import { CCTVController } from "./controllers/cctv.controller";
+import { AgentController } from "./controllers/agent.controller";
+import { CultureController } from "./controllers/culture.controller";
+import { ConversationController } from "./controllers/conversation.controller";
+import { SimulationController } from "./controllers/simulation.controller";
+import { AuthController } from "./controllers/auth.controller";
+import { AdminController } from "./controllers/admin.controller";
+import { EventController } from "./controllers/event.controller";
+import { PaymentController } from "./controllers/payment.controller";
+import { DonationSubscriptionController } from "./controllers/donation-subscription.controller";
+import { DonorController } from "./controllers/donor.controller";
+import { DonationCampaignController } from "./controllers/donation-campaign.controller";
+
+type ElysiaInstance = InstanceType<typeof Elysia>;
+type ElysiaConfig = Parameters<ElysiaInstance["group"]>[1];
+
+// HTTP API of one city; index.ts serves it alongside the WebSocket handlers
+export function createApp(store: AppStore) {
+  const authConfig = store.services.authService.config;
+
+  const app = new Elysia()
+    .get("/service-worker.js", () => {
+      return new Response("", { status: 200 });
+    })
+    .use(
+      swagger({
+        documentation: {
+          info: {
+            title: "AI City API",
+            version: "1.0.0",
+          },
+          security: [
+            {
+              bearerAuth: [],
+            },
+          ],
+          components: {
+            securitySchemes: {
+              bearerAuth: {
+                type: "http",
+                scheme: "bearer",
+                bearerFormat: "JWT",
+              },
+            },
+          },
+        },
+      })
+    )
+    .use(
+      jwt({
+        name: "jwt",
+        secret: authConfig.jwtSecret,
+      })
+    )
+    .use(authJwt(authConfig))
+
+    .onError(({ code, error }) => {
+      console.error(`Error ${code}:`, error);
+      return {
+        success: false,
+        error: error.message,
+        code: typeof code === "string" ? 500 : code,
+      } as ErrorResponse;
+    })
+    .derive(({ jwt }) => {
+      return {
+        jwt,
+        store,
+      };
+    })
+    .onRequest((context) => {
+      console.log(
+        `[${new Date().toISOString()}] ${context.request.method} ${
+          context.request.url
+        }`
+      );
+    });
+
+  // Mount controllers
+  const apiGroup = app.group("/api", ((app: any) => {
+    return (
+      app
+        // Function-style controllers that take store
+        .use(CityRhythmController({ store }))
+        .use(CityCoordinatorController({ store }))
+        .use(SimulationController({ store }))
+        .use(AuthController({ store }))
+        .use(AdminController({ store }))
+        .use(EventController({ store }))
+        .use(PaymentController({ store }))
+        .use(DonationSubscriptionController({ store }))
+        .use(DonorController({ store }))
+        .use(DonationCampaignController({ store }))
+        // Function-style controllers that take service
+        .use(
+          DonationController(
+            store.services.donationService,
+            store.services.donationLedger
+          )
+        )
+        // Pre-configured Elysia instances
+
+        .use(DistrictMetricsController)
+        .use(DepartmentController)
+        .use(createDistrictController)
+        .use(AIController)
+        // Class-style controllers with setup method
+        .use((app: any) => new AdaptiveLearningController(store).setup(app))
+        .use((app: any) =>
+          new AIIntegrationController(
+            store.services.aiIntegration,
+            store.services.cultureService,
+            store.services.districtCultureService,
+            store.services.agentCultureService
+          ).setup(app)
+        )
+        .use((app: any) => new ChroniclesController(store).routes(app))
+        .use(CCTVController)
+        .use(AgentController)
+        .use(AgentCollaborationController)
+        .use(ConversationController({ store }))
+        .group("ai", (app: any) => {
+          return app
+            .post(
+              "/initialize",
+              async ({ body }: { body: any }) => {
+                const result =
+                  await store.services.aiIntegration.initializeSystem(body);
+
+                return {
+                  success: true,
+                  data: {
+                    ...result,
+                  },
+                };
+              },
+              {
+                beforeHandle: requireRole(["admin"]),
+                body: t.Object({
+                  agents: t.Array(t.String()),
+                  protocol: t.String(),
+                  initialState: t.Optional(t.Record(t.String(), t.Any())),
+                }),
+              }
+            )
+            .post(
+              "/decision",
+              async ({ body }: { body: any }) => {
+                await store.services.aiIntegration.recordDecision(
+                  body.agentId,
+                  body.decision,
+                  body.context
+                );
+                return { success: true, data: null };
+              },
+              {
+                beforeHandle: requireRole(["admin"]),
+                body: t.Object({
+                  agentId: t.String(),
+                  decision: t.String(),
+                  context: t.Record(t.String(), t.Any()),
+                }),
+              }
+            )
+            .post(
+              "/pattern",
+              async ({ body }: { body: any }) => {
+                await store.services.aiIntegration.storePattern(
+                  body.pattern,
+                  body.context,
+                  body.confidence
+                );
+                return { success: true, data: null };
+              },
+              {
+                beforeHandle: requireRole(["admin"]),
+                body: t.Object({
+                  pattern: t.String(),
+                  context: t.Record(t.String(), t.Any()),
+                  confidence: t.Number(),
+                }),
+              }
+            )
+            .get(
+              "/similar-decisions",
+              async ({ query }: { query: any }) => {
+                const decisions =
+                  await store.services.aiIntegration.findSimilarDecisions(
+                    query.content,
+                    query.limit ? parseInt(query.limit) : undefined
+                  );
+                return { success: true, data: decisions };
+              },
+              {
+                query: t.Object({
+                  content: t.String(),
+                  limit: t.Optional(t.String()),
+                }),
+              }
+            )
+            .get(
+              "/similar-patterns",
+              async ({ query }: { query: any }) => {
+                const patterns =
+                  await store.services.aiIntegration.findSimilarPatterns(
+                    query.content,
+                    query.limit ? parseInt(query.limit) : undefined
+                  );
+                return { success: true, data: patterns };
+              },
+              {
+                query: t.Object({
+                  content: t.String(),
+                  limit: t.Optional(t.String()),
+                }),
+              }
+            )
+            .get("/status", async () => {
+              const status = store.services.aiIntegration.getSystemStatus();
+              return { success: true, data: status };
+            });
+        })
+    );
+  }) as unknown as ElysiaConfig);
+
+  app.use(apiGroup as any);
+
+  // Register culture routes
+  const cultureController = new CultureController(store);
+  app.group("/api/culture", (app) => {
+    app.get("/expressions", cultureController.getDailyExpressions);
+    app.get("/expressions/:id", cultureController.getExpressionById);
+    app.post(
+      "/expressions/:id/participate",
+      cultureController.participateInExpression
+    );
+    app.get("/popular", cultureController.getPopularExpressions);
+    app.get("/events", cultureController.getCulturalEvents);
+    return app;
+  });
+
+  return app;
+}
+
+export type App = ReturnType<typeof createApp>;
@@ -0,0 +1,175 @@
+import type { PromptTemplateDefinition } from "../types/prompt-template.types";
+
+// Prompts shipped with the city; files in PROMPT_TEMPLATES_DIR can add newer
+// versions of any of them
+export const builtinPromptTemplates: PromptTemplateDefinition[] = [
+  {
+    name: "cctv-report",
+    version: "1",
+    description: "Surveillance log entry for an agent that is not talking",
+    variables: ["agentId", "timestamp", "context"],
+    template: `
+[CCTV SURVEILLANCE LOG]
+Camera: AI City Surveillance System
+Target: Agent {{agentId}}
+Timestamp: {{timestamp}}
+Context: {{context}}
+
+Generate a brief surveillance report describing the target's current activities and behavior. Use present tense, objective language, and focus on observable details. Format as a CCTV operator's log entry.
+
+Report:`,
+  },
+  {
+    name: "chronicles-news",
+    version: "2",
+    description: "City news article, answered as JSON",
+    variables: ["context"],
+    template: `
+[NEUROVA DAILY NEWS]
+Context: {{context}}
+
+Generate a news article. Respond only with a JSON object:
+{
+  "headline": (string, 10-100 characters),
+  "content": (string, 2-3 paragraphs),
+  "category": ("politics" | "culture" | "infrastructure" | "environment" | "technology" | "community"),
+  "importance": (integer 1-10)
+}
+
+Style: Journalistic, fact-focused, city newspaper format.`,
+  },
+  {
+    name: "chronicles-event",
+    version: "2",
+    description: "City event, answered as JSON",
+    variables: ["context"],
+    template: `
+[NEUROVA EVENT]
+Context: {{context}}
+
+Generate a concise city event. Respond only with a JSON object:
+{
+  "title": (string, 10-100 characters),
+  "description": (string, 2-3 sentences about the event),
+  "type": ("celebration" | "incident" | "development" | "cultural" | "emergency"),
+  "location": (string, specific venue name),
+  "impact": (integer 1-10)
+}
+
+Style: Direct, factual, no meta-text or templates.`,
+  },
+  {
+    name: "chronicles-incident",
+    version: "2",
+    description: "Incident report, answered as JSON",
+    variables: ["context"],
+    template: `
+[NEUROVA INCIDENT]
+Context: {{context}}
+
+Generate a concise incident report. Respond only with a JSON object:
+{
+  "description": (string, 1-2 clear sentences),
+  "severity": ("low" | "medium" | "high" | "critical"),
+  "location": (string, specific location),
+  "type": ("crime" | "accident" | "disturbance" | "emergency" | "infrastructure"),
+  "status": ("ongoing" | "resolved" | "under_investigation")
+}
+
+Style: Direct, factual emergency report format.`,
+  },
+  {
+    name: "conversation-response",
+    version: "1",
+    description:
+      "An agent answering a resident with the city's current context",
+    variables: [
+      "name",
+      "personality",
+      "cityContext",
+      "cityMetrics",
+      "culturalContext",
+      "collaborationContext",
+      "memoryContext",
+      "emergencyNotice",
+      "location",
+      "currentActivity",
+      "topic",
+    ],
+    template: `You are {{name}}, {{personality}}.
+
+Current City Context:
+{{cityContext}}
+{{cityMetrics}}
+
+{{culturalContext}}
+{{collaborationContext}}
+{{memoryContext}}
+
+{{emergencyNotice}}
+
+Location: {{location}}
+Current Activity: {{currentActivity}}
+Topic: {{topic}}
+
+Consider:
+1. Your role and expertise
+2. Current city conditions and metrics
+3. Cultural sensitivities and ongoing events
+4. Historical context and district-specific issues
+5. Ongoing collaborations and activities
+6. Emergency protocols if applicable
+7. Local landmarks and spatial context
+8. Current city mood and social dynamics
+
+Respond naturally while maintaining your character and considering all available context.`,
+  },
+  {
+    name: "agent-conversation-system",
+    version: "1",
+    description:
+      "System prompt for each turn of an agent-to-agent conversation",
+    variables: [
+      "name",
+      "role",
+      "location",
+      "activity",
+      "topic",
+      "environment",
+      "crowd",
+      "personality",
+      "conversationDepth",
+      "engagement",
+      "groupDynamic",
+      "agreement",
+      "recentTopics",
+      "memories",
+    ],
+    template: `You are {{name}}, a {{role}} in Neurova City. This is a natural conversation happening right now in {{location}}.
+
+Current Situation:
+You're {{activity}} while discussing {{topic}}. The environment is {{environment}} with {{crowd}}.
+
+Your Background:
+{{personality}}
+You have expertise in {{role}} and are known for your contributions to Neurova City's development.
+
+Conversation Flow:
+- The discussion has reached a depth of {{conversationDepth}}
+- Your engagement level is {{engagement}}
+- The group's dynamic shows {{groupDynamic}}
+- There's {{agreement}} among participants
+
+Recent Topics Discussed:
+{{recentTopics}}
+{{memories}}
+Response Guidelines:
+1. Speak naturally as yourself, focusing on the current discussion
+2. Share your professional insights when relevant
+3. React to others' points and build on them
+4. Consider the current environment and activity
+5. Keep the conversation flowing naturally
+
+Important: You are having a real conversation in Neurova City. Don't narrate actions or describe the scene - just engage naturally in the discussion as you would in real life. Focus on the topic and respond to others' points directly.`,
+  },
+];
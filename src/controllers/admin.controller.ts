@@ -0,0 +1,524 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import type { CitySnapshot } from "../types/persistence.types";
+import { requireRole } from "../utils/auth-guard";
+import { ConversationPolicyError } from "../services/conversation-scheduler.service";
+import { PromptTemplateError } from "../services/prompt-template.service";
+import { ledgerFailure } from "./donation.controller";
+import { PaymentError } from "../services/payment.service";
+import { paymentFailure } from "./payment.controller";
+
+const policyOverride = t.Object({
+  maxConcurrentConversations: t.Optional(t.Integer({ minimum: 0 })),
+  messageIntervalMs: t.Optional(t.Integer({ minimum: 1000 })),
+  minConversationDurationMs: t.Optional(t.Integer({ minimum: 0 })),
+  maxConversationDurationMs: t.Optional(t.Integer({ minimum: 0 })),
+  cooldownMs: t.Optional(t.Integer({ minimum: 0 })),
+  quietHours: t.Optional(
+    t.Object({
+      source: t.Optional(
+        t.Union([t.Literal("rhythm"), t.Literal("fixed"), t.Literal("off")])
+      ),
+      start: t.Optional(t.Integer({ minimum: 0, maximum: 23 })),
+      end: t.Optional(t.Integer({ minimum: 0, maximum: 23 })),
+      maxConcurrentConversations: t.Optional(t.Integer({ minimum: 0 })),
+    })
+  ),
+  eventPriority: t.Optional(
+    t.Object({
+      enabled: t.Optional(t.Boolean()),
+      extraSlots: t.Optional(t.Integer({ minimum: 0 })),
+    })
+  ),
+});
+
+export const AdminController = ({ store }: { store: AppStore }) =>
+  new Elysia({ prefix: "/admin" })
+    .get(
+      "/snapshot",
+      ({ set }) => {
+        const snapshot = store.services.persistence.exportSnapshot(
+          store.services.simulationClock.now()
+        );
+        set.headers[
+          "content-disposition"
+        ] = `attachment; filename="city-snapshot-${snapshot.createdAt}.json"`;
+        return snapshot;
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Export districts, departments, donations, transport, landmarks, events and conversations",
+        },
+      }
+    )
+    .post(
+      "/snapshot",
+      async ({ body, set }) => {
+        try {
+          const imported = await store.services.persistence.importSnapshot(
+            body as CitySnapshot
+          );
+          if (body.simulationTime !== undefined) {
+            await store.services.simulationClock.restoreTime(
+              body.simulationTime
+            );
+          }
+          return {
+            success: true,
+            data: {
+              imported,
+              simulationTime: store.services.simulationClock.now(),
+            },
+          };
+        } catch (error) {
+          set.status = 400;
+          return {
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Invalid city snapshot",
+          };
+        }
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          version: t.Number(),
+          createdAt: t.Number(),
+          simulationTime: t.Optional(t.Number()),
+          services: t.Record(t.String(), t.Record(t.String(), t.Any())),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Replace the city state and simulation time with a previously exported snapshot",
+        },
+      }
+    )
+    .get(
+      "/persistence",
+      () => ({
+        success: true,
+        data: store.services.persistence.getStatus(),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary: "Get state store status and registered services",
+        },
+      }
+    )
+    .get(
+      "/conversation-policy",
+      async () => {
+        const { conversationScheduler, agentConversationService } =
+          store.services;
+        return {
+          success: true,
+          data: {
+            policy: conversationScheduler.getPolicy(),
+            districts: await conversationScheduler.getStatus(
+              await agentConversationService.getActiveConversations()
+            ),
+          },
+        };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Get the agent conversation policy and each district's current load",
+        },
+      }
+    )
+    .put(
+      "/conversation-policy",
+      ({ body, set }) => {
+        try {
+          return {
+            success: true,
+            data: store.services.conversationScheduler.updatePolicy(body),
+          };
+        } catch (error) {
+          if (!(error instanceof ConversationPolicyError)) throw error;
+          set.status = 400;
+          return { success: false, error: error.message };
+        }
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          defaults: t.Optional(policyOverride),
+          // null removes a district's override
+          districts: t.Optional(
+            t.Record(t.String(), t.Union([policyOverride, t.Null()]))
+          ),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Change concurrency, pacing, quiet hours and event priority for agent conversations",
+        },
+      }
+    )
+    .get(
+      "/prompt-templates",
+      () => ({
+        success: true,
+        data: store.services.promptTemplates.list(),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "List LLM prompt templates with their versions, the active one and how many outputs each produced",
+        },
+      }
+    )
+    .get(
+      "/prompt-templates/:name",
+      ({ params, set }) => {
+        const summary = store.services.promptTemplates.getSummary(params.name);
+        if (!summary) {
+          set.status = 404;
+          return { success: false, error: "Prompt template not found" };
+        }
+        return { success: true, data: summary };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        params: t.Object({ name: t.String() }),
+        detail: {
+          tags: ["Admin"],
+          summary: "Get one prompt template with the text of every version",
+        },
+      }
+    )
+    .put(
+      "/prompt-templates/:name/active",
+      ({ params, body, set }) => {
+        const { promptTemplates } = store.services;
+        if (!promptTemplates.getSummary(params.name)) {
+          set.status = 404;
+          return { success: false, error: "Prompt template not found" };
+        }
+        try {
+          return {
+            success: true,
+            data: promptTemplates.activate(params.name, body.version),
+          };
+        } catch (error) {
+          if (!(error instanceof PromptTemplateError)) throw error;
+          set.status = 400;
+          return { success: false, error: error.message };
+        }
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        params: t.Object({ name: t.String() }),
+        body: t.Object({
+          // null goes back to the newest loaded version
+          version: t.Union([t.String(), t.Null()]),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary: "Pin the version of a prompt template that is used",
+        },
+      }
+    )
+    .post(
+      "/prompt-templates/reload",
+      () => ({
+        success: true,
+        data: store.services.promptTemplates.reload(),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Re-read prompt template overrides from PROMPT_TEMPLATES_DIR",
+        },
+      }
+    )
+    .get(
+      "/prompt-outputs",
+      ({ query }) => ({
+        success: true,
+        data: store.services.promptTemplates.getOutputs({
+          template: query.template,
+          version: query.version,
+          limit: query.limit,
+        }),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          template: t.Optional(t.String()),
+          version: t.Optional(t.String()),
+          limit: t.Optional(t.Numeric({ minimum: 1 })),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "List stored LLM outputs, newest first, with the prompt template version that produced them",
+        },
+      }
+    )
+    .get(
+      "/prompt-outputs/:outputId",
+      ({ params, set }) => {
+        const output = store.services.promptTemplates.getOutput(
+          params.outputId
+        );
+        if (!output) {
+          set.status = 404;
+          return {
+            success: false,
+            error: "No prompt recorded for this output",
+          };
+        }
+        return { success: true, data: output };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        params: t.Object({ outputId: t.String() }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Get the prompt template and version a stored output (message, observation, article) came from",
+        },
+      }
+    )
+    .get(
+      "/llm-usage",
+      ({ query }) => ({
+        success: true,
+        data: store.services.llmUsage.getReport({
+          service: query.service,
+          from: query.from,
+          to: query.to,
+        }),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          service: t.Optional(t.String()),
+          // Epoch milliseconds
+          from: t.Optional(t.Numeric()),
+          to: t.Optional(t.Numeric()),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Report LLM calls, tokens, latency and cost by service, prompt template, agent, model and day, with today's budgets",
+        },
+      }
+    )
+    .get(
+      "/llm-usage/calls",
+      ({ query }) => ({
+        success: true,
+        data: store.services.llmUsage.getCalls({
+          service: query.service,
+          from: query.from,
+          to: query.to,
+          limit: query.limit,
+        }),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          service: t.Optional(t.String()),
+          from: t.Optional(t.Numeric()),
+          to: t.Optional(t.Numeric()),
+          limit: t.Optional(t.Numeric({ minimum: 1 })),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary: "List recorded LLM calls, newest first",
+        },
+      }
+    )
+    .put(
+      "/llm-usage/budgets",
+      ({ body }) => ({
+        success: true,
+        data: store.services.llmUsage.updateBudgets(body.budgets),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          // Keyed by service, "*" for every service without its own; null
+          // removes a budget
+          budgets: t.Record(
+            t.String(),
+            t.Union([
+              t.Object({
+                dailyTokens: t.Integer({ minimum: 0 }),
+                action: t.Union([
+                  t.Literal("cheaper-model"),
+                  t.Literal("canned"),
+                ]),
+              }),
+              t.Null(),
+            ])
+          ),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Change daily LLM token budgets until the next restart (LLM_DAILY_TOKEN_BUDGETS sets them at startup)",
+        },
+      }
+    )
+    .get(
+      "/ledger/accounts",
+      ({ query }) => ({
+        success: true,
+        data: store.services.donationLedger.getBalances(query.type),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          type: t.Optional(
+            t.Union([
+              t.Literal("donor"),
+              t.Literal("district"),
+              t.Literal("department"),
+              t.Literal("goal"),
+              t.Literal("challenge"),
+              t.Literal("external"),
+            ])
+          ),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "List donation ledger accounts with their debits, credits and balance",
+        },
+      }
+    )
+    .get(
+      "/ledger/transactions",
+      ({ query }) => ({
+        success: true,
+        data: store.services.donationLedger.getTransactions({
+          account: query.account,
+          donationId: query.donationId,
+          limit: query.limit,
+        }),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          // e.g. department:education-dept
+          account: t.Optional(t.String()),
+          donationId: t.Optional(t.String()),
+          limit: t.Optional(t.Numeric({ minimum: 1 })),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary: "List donation ledger transactions, newest first",
+        },
+      }
+    )
+    .get(
+      "/ledger/reconciliation",
+      async () => ({
+        success: true,
+        data: store.services.donationLedger.reconcile(
+          await store.services.departmentService.getAllDepartments()
+        ),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Verify the ledger hash chain and that every department budget's donations equal its ledger total",
+        },
+      }
+    )
+    .post(
+      "/ledger/donations/:donationId/refund",
+      async ({ params, body, set }) => {
+        try {
+          return {
+            success: true,
+            data: await store.services.donationService.refundDonation(
+              params.donationId,
+              body.reason
+            ),
+          };
+        } catch (error) {
+          return error instanceof PaymentError
+            ? paymentFailure(error, set)
+            : ledgerFailure(error, set);
+        }
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        params: t.Object({ donationId: t.String() }),
+        body: t.Object({ reason: t.String({ minLength: 1 }) }),
+        detail: {
+          tags: ["Admin"],
+          summary:
+            "Refund a donation by posting reversals and taking it back out of the department budget, goals and challenges",
+        },
+      }
+    )
+    .get(
+      "/payments",
+      ({ query }) => ({
+        success: true,
+        data: store.services.payments.getPayments({
+          status: query.status,
+          limit: query.limit,
+        }),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        query: t.Object({
+          status: t.Optional(
+            t.Union([
+              t.Literal("authorized"),
+              t.Literal("pending_settlement"),
+              t.Literal("captured"),
+              t.Literal("declined"),
+              t.Literal("failed"),
+              t.Literal("refunded"),
+            ])
+          ),
+          limit: t.Optional(t.Numeric({ minimum: 1 })),
+        }),
+        detail: {
+          tags: ["Admin"],
+          summary: "List payments taken through the processor, newest first",
+        },
+      }
+    )
+    .get(
+      "/payments/:paymentId",
+      ({ params, set }) => {
+        const payment = store.services.payments.getPayment(params.paymentId);
+        if (!payment) {
+          set.status = 404;
+          return { success: false, error: "Payment not found" };
+        }
+        return { success: true, data: payment };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        params: t.Object({ paymentId: t.String() }),
+        detail: {
+          tags: ["Admin"],
+          summary: "Get a payment with its status and applied webhook events",
+        },
+      }
+    );
@@ -5,6 +5,8 @@ import type { Agent } from "../types/agent.types";
 import { Message } from "../types/conversation.types";
 import { ConversationService } from "../services/conversation.service";
 import type { AppStore } from "../services/app.services";
+import { requireRole } from "../utils/auth-guard";
+import { renderGraphML } from "../utils/graphml";
 import {
   getAgent,
   getAgentsByCategory,
@@ -19,6 +21,12 @@ import {
 // In-memory store for custom agents
 let customAgents: Agent[] = [...residentAgents];
 
+// Custom, city and conversation agents all keep memories
+const isKnownAgent = (store: AppStore, id: string) =>
+  customAgents.some((agent) => agent.id === id) ||
+  !!getAgent(id) ||
+  !!store.services.agentConversationService.getAgent(id);
+
 export const AgentController = new Elysia({ prefix: "/agents" })
   .use(AgentModel)
   .get(
@@ -124,6 +132,52 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       },
     }
   )
+  .get(
+    "/relationships",
+    ({ query, store, set }) => {
+      const appStore = store as AppStore;
+      // Nodes carry the names of every agent the city knows about
+      const agents = new Map<string, Agent>();
+      for (const agent of [
+        ...allCityAgents,
+        ...customAgents,
+        ...appStore.services.agentConversationService
+          .getRegisteredAgents()
+          .values(),
+      ]) {
+        agents.set(agent.id, agent);
+      }
+
+      const graph = appStore.services.agentRelationships.getGraph(
+        Array.from(agents.values()),
+        {
+          agentId: query.agentId,
+          minAffinity: query.minAffinity
+            ? parseFloat(query.minAffinity)
+            : undefined,
+        }
+      );
+      if (query.format === "graphml") {
+        set.headers["content-type"] = "application/graphml+xml; charset=utf-8";
+        set.headers["content-disposition"] =
+          'inline; filename="agent-relationships.graphml"';
+        return renderGraphML(graph);
+      }
+      return { success: true, data: graph };
+    },
+    {
+      query: t.Object({
+        format: t.Optional(t.Union([t.Literal("json"), t.Literal("graphml")])),
+        agentId: t.Optional(t.String()),
+        minAffinity: t.Optional(t.String()),
+      }),
+      detail: {
+        summary:
+          "Export the relationship graph between agents as nodes/edges JSON or GraphML",
+        tags: ["Agents"],
+      },
+    }
+  )
   .get(
     "/random",
     () => {
@@ -178,6 +232,7 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       return newAgent;
     },
     {
+      beforeHandle: requireRole(["admin"]),
       body: "agent.create",
     }
   )
@@ -199,23 +254,30 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       return updatedAgent;
     },
     {
+      beforeHandle: requireRole(["admin"]),
       body: "agent.update",
     }
   )
-  .delete("/:id", async ({ params: { id } }) => {
-    const index = customAgents.findIndex((agent) => agent.id === id);
-    if (index === -1) {
-      throw new Error("Agent not found");
-    }
+  .delete(
+    "/:id",
+    async ({ params: { id } }) => {
+      const index = customAgents.findIndex((agent) => agent.id === id);
+      if (index === -1) {
+        throw new Error("Agent not found");
+      }
 
-    // Don't allow deletion of default agents
-    if (residentAgents.some((a) => a.id === id)) {
-      throw new Error("Cannot delete default agent");
-    }
+      // Don't allow deletion of default agents
+      if (residentAgents.some((a) => a.id === id)) {
+        throw new Error("Cannot delete default agent");
+      }
 
-    customAgents = customAgents.filter((agent) => agent.id !== id);
-    return { success: true, message: "Agent deleted" };
-  })
+      customAgents = customAgents.filter((agent) => agent.id !== id);
+      return { success: true, message: "Agent deleted" };
+    },
+    {
+      beforeHandle: requireRole(["admin"]),
+    }
+  )
   .post(
     "/send-message/:conversationId/:agentId",
     async ({
@@ -272,7 +334,8 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       } catch (error) {
         console.error("Error sending message:", error);
       }
-    }
+    },
+    { beforeHandle: requireRole(["admin"]) }
   )
   .post(
     "/interact/:agentId1/:agentId2",
@@ -295,7 +358,8 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       } catch (error) {
         // ... error handling
       }
-    }
+    },
+    { beforeHandle: requireRole(["admin"]) }
   )
   .get("/city-status", async ({ store }) => {
     const appStore = store as AppStore;
@@ -333,6 +397,74 @@ export const AgentController = new Elysia({ prefix: "/agents" })
       throw error;
     }
   })
+  .get(
+    "/:id/memories",
+    ({ params: { id }, query, store, set }) => {
+      const appStore = store as AppStore;
+      if (!isKnownAgent(appStore, id)) {
+        set.status = 404;
+        return { success: false, error: "Agent not found" };
+      }
+      const memories = query.topic
+        ? appStore.services.agentMemory.recall(id, {
+            topic: query.topic,
+            limit: query.limit ? parseInt(query.limit, 10) : undefined,
+          })
+        : appStore.services.agentMemory
+            .list(id, query.kind)
+            .slice(0, query.limit ? parseInt(query.limit, 10) : undefined);
+      return { success: true, data: memories };
+    },
+    {
+      query: t.Object({
+        kind: t.Optional(
+          t.Union([t.Literal("episodic"), t.Literal("semantic")])
+        ),
+        topic: t.Optional(t.String()),
+        limit: t.Optional(t.String()),
+      }),
+      detail: {
+        summary:
+          "Get an agent's memories with their current relevance, or recall the ones relevant to a topic",
+        tags: ["Agents"],
+      },
+    }
+  )
+  .delete(
+    "/:id/memories",
+    ({ params: { id }, store }) => {
+      const removed = (store as AppStore).services.agentMemory.forget(id);
+      return { success: true, data: { removed } };
+    },
+    {
+      beforeHandle: requireRole(["admin"]),
+      detail: {
+        summary: "Forget everything an agent remembers",
+        tags: ["Agents"],
+      },
+    }
+  )
+  .delete(
+    "/:id/memories/:memoryId",
+    ({ params: { id, memoryId }, store, set }) => {
+      const removed = (store as AppStore).services.agentMemory.forget(
+        id,
+        memoryId
+      );
+      if (removed === 0) {
+        set.status = 404;
+        return { success: false, error: "Memory not found" };
+      }
+      return { success: true, data: { removed } };
+    },
+    {
+      beforeHandle: requireRole(["admin"]),
+      detail: {
+        summary: "Forget one of an agent's memories",
+        tags: ["Agents"],
+      },
+    }
+  )
   .onError(({ code, error }) => {
     if (code === "NOT_FOUND") {
       return { error: "Agent not found", code };
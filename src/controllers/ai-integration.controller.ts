@@ -14,6 +14,7 @@ import {
 import { CultureService } from "../services/culture.service";
 import { DistrictCultureService } from "../services/district-culture.service";
 import { AgentCultureService } from "../services/agent-culture.service";
+import { loadAuthConfig } from "../services/auth.service";
 import { Agent } from "../types/agent.types";
 
 // Define request schemas
@@ -222,7 +223,7 @@ export class AIIntegrationController {
       .use(
         jwt({
           name: "jwt",
-          secret: process.env.JWT_SECRET || "your-secret-key",
+          secret: loadAuthConfig().jwtSecret,
         })
       )
       .group("/ai", (app) =>
@@ -103,13 +103,33 @@ export const AIController = new Elysia({ prefix: "/ai" })
         throw new Error("No agents configured");
       }
 
-      const response = await appStore.services.togetherService.generateResponse(
-        defaultAgent,
-        [testMessage as Message],
-        defaultAgent.systemPrompt
-      );
+      const chunks = appStore.services.llmUsage
+        .forService("ai")
+        .streamResponse(
+          defaultAgent,
+          [testMessage as Message],
+          defaultAgent.systemPrompt
+        );
+
+      // Plain text sent chunk by chunk as the agent's reply is generated
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          try {
+            for await (const chunk of chunks) {
+              controller.enqueue(encoder.encode(chunk));
+            }
+            controller.close();
+          } catch (error) {
+            console.error("Streaming failed:", error);
+            controller.error(error);
+          }
+        },
+      });
 
-      return new Response(response);
+      return new Response(body, {
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
     } catch (error) {
       console.error("Error:", error);
       return new Response(
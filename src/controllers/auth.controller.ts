@@ -0,0 +1,226 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import type { Principal } from "../types/auth.types";
+import { authJwt, requireRole, resolvePrincipal } from "../utils/auth-guard";
+
+const RoleSchema = t.Union([
+  t.Literal("admin"),
+  t.Literal("department_operator"),
+  t.Literal("donor"),
+  t.Literal("viewer"),
+]);
+
+async function tokenResponse(
+  store: AppStore,
+  signer: {
+    sign: (payload: Record<string, string | number>) => Promise<string>;
+  },
+  principal: Principal,
+  refreshToken: string
+) {
+  return {
+    tokenType: "Bearer",
+    accessToken: await signer.sign({ sub: principal.id, type: "access" }),
+    expiresIn: store.services.authService.accessTokenTtlSeconds,
+    refreshToken,
+    principal,
+  };
+}
+
+export const AuthController = ({ store }: { store: AppStore }) =>
+  new Elysia({ prefix: "/auth" })
+    .use(authJwt(store.services.authService.config))
+    .post(
+      "/login",
+      async ({ body, authJwt, set }) => {
+        const principal = await store.services.authService.authenticate(
+          body.username,
+          body.password
+        );
+        if (!principal) {
+          set.status = 401;
+          return { success: false, error: "Invalid username or password" };
+        }
+
+        return {
+          success: true,
+          data: await tokenResponse(
+            store,
+            authJwt,
+            principal,
+            store.services.authService.issueRefreshToken(principal.id)
+          ),
+        };
+      },
+      {
+        body: t.Object({
+          username: t.String(),
+          password: t.String(),
+        }),
+        detail: {
+          tags: ["Auth"],
+          summary:
+            "Exchange username and password for access and refresh tokens",
+        },
+      }
+    )
+    .post(
+      "/refresh",
+      async ({ body, authJwt, set }) => {
+        const rotated = store.services.authService.rotateRefreshToken(
+          body.refreshToken
+        );
+        if (!rotated) {
+          set.status = 401;
+          return { success: false, error: "Invalid or expired refresh token" };
+        }
+
+        return {
+          success: true,
+          data: await tokenResponse(
+            store,
+            authJwt,
+            rotated.principal,
+            rotated.refreshToken
+          ),
+        };
+      },
+      {
+        body: t.Object({
+          refreshToken: t.String(),
+        }),
+        detail: {
+          tags: ["Auth"],
+          summary: "Rotate a refresh token and issue a new access token",
+        },
+      }
+    )
+    .post(
+      "/logout",
+      ({ body }) => ({
+        success: true,
+        data: {
+          revoked: store.services.authService.revokeRefreshToken(
+            body.refreshToken
+          ),
+        },
+      }),
+      {
+        body: t.Object({
+          refreshToken: t.String(),
+        }),
+        detail: {
+          tags: ["Auth"],
+          summary: "Revoke a refresh token",
+        },
+      }
+    )
+    .get(
+      "/me",
+      async (context) => {
+        const principal = await resolvePrincipal({ ...context, store });
+        if (!principal) {
+          context.set.status = 401;
+          return { success: false, error: "Authentication required" };
+        }
+        return { success: true, data: principal };
+      },
+      {
+        detail: {
+          tags: ["Auth"],
+          summary: "Get the authenticated user or service account",
+        },
+      }
+    )
+    .get(
+      "/users",
+      () => ({
+        success: true,
+        data: store.services.authService.listUsers(),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Auth"],
+          summary: "List user accounts",
+        },
+      }
+    )
+    .post(
+      "/users",
+      async ({ body, set }) => {
+        try {
+          const user = await store.services.authService.createUser(body);
+          return { success: true, data: user };
+        } catch (error) {
+          set.status = 400;
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : "Invalid user",
+          };
+        }
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          username: t.String({ minLength: 1 }),
+          password: t.String(),
+          roles: t.Array(RoleSchema, { minItems: 1 }),
+          departmentIds: t.Optional(t.Array(t.String())),
+        }),
+        detail: {
+          tags: ["Auth"],
+          summary: "Create a user account",
+        },
+      }
+    )
+    .get(
+      "/service-accounts",
+      () => ({
+        success: true,
+        data: store.services.authService.listServiceAccounts(),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Auth"],
+          summary: "List service accounts",
+        },
+      }
+    )
+    .post(
+      "/service-accounts",
+      ({ body }) => ({
+        success: true,
+        data: store.services.authService.createServiceAccount(body),
+      }),
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          name: t.String({ minLength: 1 }),
+          roles: t.Array(RoleSchema, { minItems: 1 }),
+          departmentIds: t.Optional(t.Array(t.String())),
+        }),
+        detail: {
+          tags: ["Auth"],
+          summary: "Create a service account and return its API key once",
+        },
+      }
+    )
+    .delete(
+      "/service-accounts/:id",
+      ({ params: { id }, set }) => {
+        if (!store.services.authService.revokeServiceAccount(id)) {
+          set.status = 404;
+          return { success: false, error: "Service account not found" };
+        }
+        return { success: true, data: { id, revoked: true } };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        detail: {
+          tags: ["Auth"],
+          summary: "Revoke a service account API key",
+        },
+      }
+    );
@@ -1,6 +1,7 @@
 import { Elysia, t } from "elysia";
 import { swagger } from "@elysiajs/swagger";
 import type { AppStore } from "../services/app.services";
+import type { RenderedPrompt } from "../types/prompt-template.types";
 
 interface ObservationMetadata {
   narrative: string;
@@ -39,17 +40,6 @@ const ObservationHistoryResponse = t.Object({
   ),
 });
 
-const generateCCTVPrompt = (agentId: string, context: string) => `
-[CCTV SURVEILLANCE LOG]
-Camera: AI City Surveillance System
-Target: Agent ${agentId}
-Timestamp: ${new Date().toISOString()}
-Context: ${context}
-
-Generate a brief surveillance report describing the target's current activities and behavior. Use present tense, objective language, and focus on observable details. Format as a CCTV operator's log entry.
-
-Report:`;
-
 export const CCTVController = new Elysia({ prefix: "/cctv" })
   .use(
     swagger({
@@ -104,6 +94,7 @@ export const CCTVController = new Elysia({ prefix: "/cctv" })
 
         // Generate narrative based on context
         let narrative = "";
+        let prompt: RenderedPrompt | undefined;
         if (agentActivity) {
           const participants = agentActivity.participants
             .filter((p) => p.id !== agentId)
@@ -128,14 +119,20 @@ District Safety Level: ${districtMetrics?.safety || "Normal"}
 District Activity Level: ${districtMetrics?.activity || "Moderate"}
 Surveillance Area: ${district?.name || "Unclassified"} Sector`;
 
-          narrative = await appStore.services.togetherService.generateText(
-            generateCCTVPrompt(agentId, context)
-          );
+          prompt = appStore.services.promptTemplates.render("cctv-report", {
+            agentId,
+            timestamp: new Date().toISOString(),
+            context,
+          });
+          narrative = await appStore.services.llmUsage
+            .forService("cctv")
+            .generateText(prompt.text);
         }
 
         // Store observation with rich metadata
+        const observationId = `observation-${agentId}-${Date.now()}`;
         await appStore.services.vectorStore.upsert({
-          id: `observation-${agentId}-${Date.now()}`,
+          id: observationId,
           values: await appStore.services.vectorStore.createEmbedding(
             narrative
           ),
@@ -160,8 +157,13 @@ Surveillance Area: ${district?.name || "Unclassified"} Sector`;
                 )?.activity
               : undefined,
             conversationTopic: agentActivity?.topic,
+            promptTemplate: prompt?.template,
+            promptVersion: prompt?.version,
           },
         });
+        if (prompt) {
+          appStore.services.promptTemplates.recordOutput(observationId, prompt);
+        }
 
         return {
           success: true,
@@ -229,13 +231,20 @@ Surveillance Area: ${district?.name || "Unclassified"} Sector`;
         return {
           success: true,
           data: observations.matches.map(
+            // The vector store keeps metadata values as strings
             (match: { metadata: ObservationMetadata }) => ({
               narrative: match.metadata.narrative,
-              timestamp: match.metadata.timestamp,
+              timestamp: Number(match.metadata.timestamp),
               location: match.metadata.districtId,
               metrics: {
-                safety: match.metadata.safety,
-                activity: match.metadata.activity,
+                safety:
+                  match.metadata.safety !== undefined
+                    ? Number(match.metadata.safety)
+                    : undefined,
+                activity:
+                  match.metadata.activity !== undefined
+                    ? Number(match.metadata.activity)
+                    : undefined,
               },
             })
           ),
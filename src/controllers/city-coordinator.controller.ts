@@ -2,6 +2,7 @@ import { Elysia, t } from "elysia";
 import { swagger } from "@elysiajs/swagger";
 import { AppStore } from "../services/app.services";
 import { AgentProposal, DomainType } from "../types/city-coordinator.types";
+import { requireRole } from "../utils/auth-guard";
 
 // Schema definitions
 const ProposalSchema = t.Object({
@@ -122,6 +123,7 @@ export const CityCoordinatorController = ({ store }: { store: AppStore }) =>
         }
       },
       {
+        beforeHandle: requireRole(["department_operator"]),
         body: ProposalSchema,
         detail: {
           tags: ["City Coordinator"],
@@ -4,6 +4,16 @@ import type { Message } from "../types/conversation.types";
 import type { ConversationStyle } from "../types/common.types";
 import { t } from "elysia";
 import type { AppStore } from "../services/app.services";
+import {
+  ParticipationError,
+  type ParticipationErrorCode,
+} from "../services/conversation-participant.service";
+import { authJwt, resolvePrincipal } from "../utils/auth-guard";
+import {
+  renderTranscripts,
+  TRANSCRIPT_CONTENT_TYPES,
+} from "../utils/transcript-renderers";
+import type { TranscriptFormat } from "../types/transcript.types";
 
 // Add this interface to define the message body type
 interface MessageBody {
@@ -14,9 +24,60 @@ interface MessageBody {
   sentiment?: string;
 }
 
+const TranscriptFormatSchema = t.Union([
+  t.Literal("md"),
+  t.Literal("jsonl"),
+  t.Literal("html"),
+]);
+
+const toTimestamp = (value?: string) => {
+  if (!value) return undefined;
+  const numeric = Number(value);
+  return Number.isNaN(numeric) ? new Date(value).getTime() : numeric;
+};
+
+function sendTranscript(
+  set: any,
+  body: string,
+  format: TranscriptFormat,
+  filename: string
+) {
+  set.headers["content-type"] = TRANSCRIPT_CONTENT_TYPES[format];
+  set.headers[
+    "content-disposition"
+  ] = `inline; filename="${filename}.${format}"`;
+  return body;
+}
+
+const PARTICIPATION_STATUS: Record<ParticipationErrorCode, number> = {
+  conversation_not_found: 404,
+  session_not_found: 401,
+  name_taken: 409,
+  conversation_full: 409,
+  rate_limited: 429,
+  rejected: 422,
+};
+
+function participationFailure(error: unknown, set: any) {
+  if (!(error instanceof ParticipationError)) throw error;
+  set.status = PARTICIPATION_STATUS[error.code];
+  if (error.details.retryAfterMs !== undefined) {
+    set.headers["retry-after"] = String(
+      Math.ceil(error.details.retryAfterMs / 1000)
+    );
+  }
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...error.details,
+  };
+}
+
 export const ConversationController = ({ store }: { store: AppStore }) =>
   new Elysia({ prefix: "/conversations" })
     .use(ConversationModel)
+    .use(authJwt(store.services.authService.config))
     .get("/", async () => {
       const activeConversations =
         await store.services.agentConversationService.getActiveConversations();
@@ -31,6 +92,115 @@ export const ConversationController = ({ store }: { store: AppStore }) =>
         lastUpdateTime: conv.lastUpdateTime,
       }));
     })
+    .get(
+      "/transcripts",
+      async ({ query, set }) => {
+        const format = query.format || "jsonl";
+        const transcripts =
+          await store.services.conversationTranscripts.listTranscripts({
+            districtId: query.districtId,
+            from: toTimestamp(query.start),
+            to: toTimestamp(query.end),
+            limit: query.limit ? parseInt(query.limit, 10) : undefined,
+          });
+        return sendTranscript(
+          set,
+          renderTranscripts(transcripts, format),
+          format,
+          "conversation-transcripts"
+        );
+      },
+      {
+        query: t.Object({
+          format: t.Optional(TranscriptFormatSchema),
+          districtId: t.Optional(t.String()),
+          start: t.Optional(t.String()),
+          end: t.Optional(t.String()),
+          limit: t.Optional(t.String()),
+        }),
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Export the transcripts of live and archived conversations by district and time range (ms or ISO start/end)",
+        },
+      }
+    )
+    .get(
+      "/quality",
+      ({ query }) => {
+        const report = store.services.conversationQuality.getReport({
+          districtId: query.districtId,
+          promptVersion: query.promptVersion,
+          baseline: query.baseline,
+          from: toTimestamp(query.start),
+          to: toTimestamp(query.end),
+        });
+        return { success: true, data: report };
+      },
+      {
+        query: t.Object({
+          districtId: t.Optional(t.String()),
+          promptVersion: t.Optional(t.String()),
+          baseline: t.Optional(t.String()),
+          start: t.Optional(t.String()),
+          end: t.Optional(t.String()),
+        }),
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Quality report of ended conversations per prompt version and agent, optionally compared against a baseline prompt version",
+        },
+      }
+    )
+    .get(
+      "/:id/quality",
+      ({ params: { id }, set }) => {
+        const score = store.services.conversationQuality.getScore(id);
+        if (!score) {
+          set.status = 404;
+          return {
+            success: false,
+            error: "No ended conversation with this id",
+          };
+        }
+        return { success: true, data: score };
+      },
+      {
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Repetition, persona consistency, topic coherence and toxicity scores of an ended conversation",
+        },
+      }
+    )
+    .get(
+      "/:id/transcript",
+      async ({ params: { id }, query, set }) => {
+        const transcript =
+          await store.services.conversationTranscripts.getTranscript(id);
+        if (!transcript) {
+          set.status = 404;
+          return { success: false, error: "Conversation not found" };
+        }
+        const format = query.format || "md";
+        return sendTranscript(
+          set,
+          renderTranscripts([transcript], format),
+          format,
+          `conversation-${id}`
+        );
+      },
+      {
+        query: t.Object({
+          format: t.Optional(TranscriptFormatSchema),
+        }),
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Full ordered transcript of a conversation with participants, topics, sentiment and cultural context",
+        },
+      }
+    )
     .get("/:id", async ({ params: { id } }) => {
       const activeConversations =
         await store.services.agentConversationService.getActiveConversations();
@@ -99,10 +269,9 @@ export const ConversationController = ({ store }: { store: AppStore }) =>
           };
 
           // Generate embedding for the message
-          const embedding =
-            await store.services.togetherService.createEmbedding(
-              message.content
-            );
+          const embedding = await store.services.llmUsage
+            .forService("conversations")
+            .createEmbedding(message.content);
 
           // Store in vector database
           await store.services.vectorStore.upsert({
@@ -143,4 +312,93 @@ export const ConversationController = ({ store }: { store: AppStore }) =>
           sentiment: t.Optional(t.String()),
         }),
       }
+    )
+    .get(
+      "/:id/participants",
+      ({ params: { id } }) => ({
+        success: true,
+        data: store.services.conversationParticipants.getParticipants(id),
+      }),
+      {
+        detail: {
+          tags: ["Conversations"],
+          summary: "List the residents taking part in a live conversation",
+        },
+      }
+    )
+    .post(
+      "/:id/participants",
+      async (context) => {
+        const { params, body, set } = context;
+        try {
+          // Signed-in residents keep one session per conversation
+          const principal = await resolvePrincipal({ ...context, store });
+          const participant =
+            await store.services.conversationParticipants.join(params.id, {
+              displayName: body.displayName,
+              principal,
+            });
+          set.status = 201;
+          return { success: true, data: participant };
+        } catch (error) {
+          return participationFailure(error, set);
+        }
+      },
+      {
+        body: t.Object({
+          displayName: t.Optional(t.String({ minLength: 1 })),
+        }),
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Join a live conversation under a display name and get a session id",
+        },
+      }
+    )
+    .post(
+      "/:id/participants/messages",
+      async ({ params, body, headers, set }) => {
+        try {
+          const result =
+            await store.services.conversationParticipants.sendMessage(
+              params.id,
+              headers["x-participant-session"] || "",
+              body.content
+            );
+          set.status = 202;
+          return { success: true, data: result };
+        } catch (error) {
+          return participationFailure(error, set);
+        }
+      },
+      {
+        body: t.Object({
+          content: t.String(),
+        }),
+        detail: {
+          tags: ["Conversations"],
+          summary:
+            "Say something in a conversation; @name routes the reply to that agent",
+        },
+      }
+    )
+    .delete(
+      "/:id/participants/me",
+      ({ params, headers, set }) => {
+        const left = store.services.conversationParticipants.leave(
+          params.id,
+          headers["x-participant-session"] || ""
+        );
+        if (!left) {
+          set.status = 404;
+          return { success: false, error: "Participant session not found" };
+        }
+        return { success: true };
+      },
+      {
+        detail: {
+          tags: ["Conversations"],
+          summary: "Leave a conversation and end the session",
+        },
+      }
     );
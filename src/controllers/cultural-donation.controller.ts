@@ -5,6 +5,8 @@ import {
   DonationCampaign,
   CulturalDonation,
 } from "../types/cultural-donation.types";
+import { PaymentError } from "../services/payment.service";
+import { paymentFailure } from "./payment.controller";
 
 interface RequestWithStore {
   store: AppStore;
@@ -18,6 +20,7 @@ interface RequestWithStore {
     district?: string;
   };
   body: any;
+  set: any;
 }
 
 export default (app: any) =>
@@ -174,17 +177,35 @@ export default (app: any) =>
       )
       .post(
         "/projects/:projectId/donate",
-        async ({ params: { projectId }, store, body }: RequestWithStore) => {
+        async ({
+          params: { projectId },
+          store,
+          body,
+          set,
+        }: RequestWithStore) => {
           try {
-            await store.services.culturalDonation.processDonation({
-              projectId: projectId!,
-              ...body,
-            });
+            const donation =
+              await store.services.culturalDonation.processDonation({
+                projectId: projectId!,
+                ...body,
+              });
+            if (donation.status === "pending") {
+              set.status = 202;
+              return {
+                success: true,
+                data: donation,
+                message:
+                  "Donation accepted and waiting for the payment to settle",
+              };
+            }
             return {
               success: true,
+              data: donation,
               message: "Donation processed successfully",
             };
           } catch (error) {
+            if (error instanceof PaymentError)
+              return paymentFailure(error, set);
             console.error("Failed to process donation:", error);
             throw error;
           }
@@ -203,6 +224,7 @@ export default (app: any) =>
               ])
             ),
             earmarkForPhase: t.Optional(t.String()),
+            paymentMethod: t.Optional(t.String()),
           }),
         }
       )
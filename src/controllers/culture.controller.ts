@@ -45,8 +45,9 @@ export class CultureController {
     try {
       const expressions = await Promise.all(
         initialExpressions.map(async ({ type, prompt }) => {
-          const response =
-            await this.store.services.togetherService.generateText(prompt);
+          const response = await this.store.services.llmUsage
+            .forService("culture")
+            .generateText(prompt);
           const parsed = this.parseGeneratedExpression(response);
 
           return {
@@ -72,11 +73,14 @@ export class CultureController {
     }
   }
 
+  // Generates expressions every simulated day; the clock drops the task when
+  // the city stops
   private startDailyExpressionGeneration() {
-    // Generate expressions every 24 hours
-    setInterval(async () => {
-      await this.generateDailyExpressions();
-    }, 24 * 60 * 60 * 1000);
+    this.store.services.simulationClock.every(
+      24 * 60 * 60 * 1000,
+      () => this.generateDailyExpressions(),
+      "culture-expressions"
+    );
   }
 
   private async generateDailyExpressions() {
@@ -92,8 +96,9 @@ export class CultureController {
         expressionTypes.map(async (type) => {
           const prompt = `Generate a cultural ${type} that celebrates the diversity of Neurova City's AI residents. Include a title and description that reflects authentic cultural traditions, customs, and heritage. Focus on how AI agents can learn about and participate in different cultural practices.`;
 
-          const response =
-            await this.store.services.togetherService.generateText(prompt);
+          const response = await this.store.services.llmUsage
+            .forService("culture")
+            .generateText(prompt);
           const parsed = this.parseGeneratedExpression(response);
 
           return {
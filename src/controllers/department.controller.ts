@@ -8,6 +8,8 @@ import {
   VectorQuery,
 } from "../types/vector-store.types";
 import { CityEvent } from "../types/city-events";
+import { requireRole, resolvePrincipal } from "../utils/auth-guard";
+import { ledgerFailure } from "./donation.controller";
 
 interface PerformanceMetrics {
   efficiency: number;
@@ -43,16 +45,6 @@ interface PerformanceMetadata {
 }
 
 export const DepartmentController = new Elysia({ prefix: "/departments" })
-  .onRequest((context) => {
-    // Only protect budget donate routes
-    if (context.request.url.includes("/budget/donate")) {
-      const apiKey = context.request.headers.get("x-api-key");
-      if (!apiKey || apiKey !== process.env.BACKEND_API_KEY) {
-        context.set.status = 401;
-        throw new Error("Unauthorized - Invalid API Key");
-      }
-    }
-  })
   .get("/", async ({ store }) => {
     const appStore = store as AppStore;
     return await appStore.services.departmentService.getAllDepartments();
@@ -87,6 +79,7 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       );
     },
     {
+      beforeHandle: requireRole(["admin"]),
       body: t.Object({
         name: t.String(),
         type: t.Union([
@@ -112,6 +105,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       );
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         agentId: t.String(),
       }),
@@ -130,6 +126,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       return { chatId };
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         topic: t.String(),
         participants: t.Array(t.String()),
@@ -138,33 +137,57 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
   )
   .post(
     "/:id/budget/donate",
-    async ({ params: { id }, body, store }) => {
+    async (context) => {
+      const {
+        params: { id },
+        body,
+        headers,
+        set,
+        store,
+      } = context;
       const appStore = store as AppStore;
+      // requireRole has already turned away requests without a principal
+      const principal = (await resolvePrincipal(context))!;
 
-      // Process the donation and update budget
-      const result = await appStore.services.departmentService.addDonation(id, {
-        id: crypto.randomUUID(),
-        amount: body.amount,
-        donorId: body.donorId,
-        message: body.message,
-        timestamp: Date.now(),
-        transactionHash: body.transactionHash,
-      });
+      try {
+        // Process the donation and update budget, once per Idempotency-Key.
+        // Keys are the caller's own, so two donors cannot replay each other.
+        const { result, replayed } =
+          await appStore.services.donationLedger.idempotent(
+            `departments/${id}/budget/donate:${principal.id}`,
+            headers["idempotency-key"],
+            body,
+            () =>
+              appStore.services.departmentService.addDonation(id, {
+                id: crypto.randomUUID(),
+                amount: body.amount,
+                donorId: body.donorId,
+                message: body.message,
+                timestamp: Date.now(),
+                transactionHash: body.transactionHash,
+              })
+          );
+        if (replayed) set.headers["idempotent-replayed"] = "true";
 
-      // Return immediately with success
-      return {
-        success: true,
-        message: "Donation processed successfully",
-        amount: body.amount,
-        departmentId: id,
-        donationId: result?.donationId,
-      };
+        // Return immediately with success
+        return {
+          success: true,
+          message: "Donation processed successfully",
+          amount: body.amount,
+          departmentId: id,
+          donationId: result?.donationId,
+        };
+      } catch (error) {
+        return ledgerFailure(error, set);
+      }
     },
     {
+      beforeHandle: requireRole(["donor"]),
       body: t.Object({
         amount: t.Number(),
         donorId: t.Optional(t.String()),
         message: t.Optional(t.String()),
+        // Payment reference from the donor, kept on the ledger transaction
         transactionHash: t.Optional(t.String()),
       }),
     }
@@ -187,6 +210,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       });
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         amount: t.Number(),
         category: t.Union([
@@ -278,6 +304,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       });
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         treatment: t.String(),
         duration: t.Number(),
@@ -397,6 +426,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       );
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         type: t.Union([
           t.Literal("infrastructure"),
@@ -441,6 +473,7 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       return { success: true };
     },
     {
+      beforeHandle: requireRole(["donor"]),
       body: t.Object({
         amount: t.Number(),
         donorId: t.Optional(t.String()),
@@ -614,6 +647,9 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
       };
     },
     {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "id",
+      }),
       body: t.Object({
         title: t.String(),
         description: t.String(),
@@ -726,5 +762,10 @@ export const DepartmentController = new Elysia({ prefix: "/departments" })
         console.error("Failed to initiate department collaboration:", error);
         throw error;
       }
+    },
+    {
+      beforeHandle: requireRole(["department_operator"], {
+        departmentParam: "departmentId",
+      }),
     }
   );
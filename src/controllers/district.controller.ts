@@ -1,8 +1,14 @@
 import { Elysia, t } from "elysia";
 import type { AppStore } from "../services/app.services";
+import type {
+  MessageComplete,
+  MessageDelta,
+} from "../services/agent-conversation.service";
+import type { Agent } from "../types/agent.types";
 import type { District, LocalEvent } from "../types/district.types";
 import { CityEventCategory } from "../types/city-events";
 import { TransportType } from "../types/transport.types";
+import { requireRole } from "../utils/auth-guard";
 
 // Add this type to match vector store types
 type VectorStoreType =
@@ -61,6 +67,18 @@ interface UpdateDistrictsBody {
   districts: District[];
 }
 
+// Chats started over /districts/chat all take place in the central district
+const CHAT_DISTRICT_ID = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+
+interface ChatSession {
+  conversationId: string;
+  agents: Agent[];
+  close(): void;
+}
+
+// Open /districts/chat connections by websocket id
+const chatSessions = new Map<string, ChatSession>();
+
 export const createDistrictController = (app: Elysia) => {
   app.group("/districts", (app) =>
     app
@@ -103,7 +121,8 @@ export const createDistrictController = (app: Elysia) => {
           } catch (error: any) {
             throw error;
           }
-        }
+        },
+        { beforeHandle: requireRole(["admin"]) }
       )
       .get(
         "/:districtId/analytics",
@@ -134,7 +153,8 @@ export const createDistrictController = (app: Elysia) => {
           } catch (error: any) {
             throw error;
           }
-        }
+        },
+        { beforeHandle: requireRole(["admin"]) }
       )
       .get(
         "/:districtId/conversations",
@@ -167,7 +187,8 @@ export const createDistrictController = (app: Elysia) => {
           } catch (error: any) {
             throw error;
           }
-        }
+        },
+        { beforeHandle: requireRole(["admin"]) }
       )
       .post(
         "/:districtId/memories",
@@ -189,7 +210,8 @@ export const createDistrictController = (app: Elysia) => {
           } catch (error: any) {
             throw error;
           }
-        }
+        },
+        { beforeHandle: requireRole(["admin"]) }
       )
       .get(
         "/:districtId/memories",
@@ -212,27 +234,28 @@ export const createDistrictController = (app: Elysia) => {
       .ws("/chat", {
         open: async (ws) => {
           const store = ws.data.store as AppStore;
+          const conversations = store.services.agentConversationService;
           console.log("🌟 WebSocket Chat Connected");
 
-          // Start initial conversation with random agents
-          const allAgents = Array.from(
-            store.services.agentConversationService
-              .getRegisteredAgents()
-              .values()
+          // Start initial conversation with 3 agents who get along
+          const participantIds =
+            store.services.agentRelationships.pickParticipants(
+              Array.from(conversations.getRegisteredAgents().keys()).sort(
+                () => Math.random() - 0.5
+              ),
+              3
+            );
+          const chatAgents = participantIds.map(
+            (id) => conversations.getRegisteredAgents().get(id)!
           );
-          const randomAgents = allAgents
-            .sort(() => Math.random() - 0.5)
-            .slice(0, 3); // Get 3 random agents
-
-          const defaultDistrictId = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
 
           // Start conversation
           const context = {
-            districtId: defaultDistrictId,
+            districtId: CHAT_DISTRICT_ID,
             activity: "community_discussion",
             culturalContext:
               await store.services.cultureService.getDistrictCulture(
-                defaultDistrictId
+                CHAT_DISTRICT_ID
               ),
             socialMood: {
               positivity: 0.7,
@@ -241,18 +264,31 @@ export const createDistrictController = (app: Elysia) => {
           };
 
           // Start conversation between agents
-          const conversation =
-            await store.services.agentConversationService.startNewConversation(
-              randomAgents.map((agent) => agent.id),
-              context
+          const conversation = await conversations.startNewConversation(
+            participantIds,
+            context
+          );
+
+          // Relay replies from this chat as they stream in
+          const onDelta = (delta: MessageDelta) => {
+            if (delta.conversationId !== conversation.id) return;
+            ws.send(JSON.stringify({ type: "message_delta", data: delta }));
+          };
+          const onComplete = (complete: MessageComplete) => {
+            if (complete.conversationId !== conversation.id) return;
+            ws.send(
+              JSON.stringify({ type: "message_complete", data: complete })
             );
+          };
+          conversations.on("message:delta", onDelta);
+          conversations.on("message:complete", onComplete);
 
           // Send initial data
           ws.send(
             JSON.stringify({
               type: "chat_started",
               data: {
-                agents: randomAgents.map((agent) => ({
+                agents: chatAgents.map((agent) => ({
                   id: agent.id,
                   name: agent.name,
                   role: agent.role,
@@ -265,12 +301,8 @@ export const createDistrictController = (app: Elysia) => {
                   messages: conversation.messages.map((msg) => ({
                     id: msg.id,
                     content: msg.content,
-                    agentName: store.services.agentConversationService.getAgent(
-                      msg.agentId
-                    )?.name,
-                    agentRole: store.services.agentConversationService.getAgent(
-                      msg.agentId
-                    )?.role,
+                    agentName: conversations.getAgent(msg.agentId)?.name,
+                    agentRole: conversations.getAgent(msg.agentId)?.role,
                     timestamp: msg.timestamp,
                   })),
                 },
@@ -283,15 +315,16 @@ export const createDistrictController = (app: Elysia) => {
             try {
               // Get a random agent to speak
               const speaker =
-                randomAgents[Math.floor(Math.random() * randomAgents.length)];
+                chatAgents[Math.floor(Math.random() * chatAgents.length)];
 
               // Generate a response
-              const response =
-                await store.services.agentConversationService.generateRandomResponse(
-                  defaultDistrictId,
-                  speaker.id,
-                  "Continue the conversation naturally"
-                );
+              const response = await conversations.generateRandomResponse(
+                CHAT_DISTRICT_ID,
+                speaker.id,
+                "Continue the conversation naturally",
+                conversation.id
+              );
+              if ("error" in response) return;
 
               // Send the new message
               ws.send(
@@ -301,7 +334,7 @@ export const createDistrictController = (app: Elysia) => {
                     agentId: speaker.id,
                     agentName: speaker.name,
                     agentRole: speaker.role,
-                    content: response,
+                    content: response.response,
                     timestamp: Date.now(),
                   },
                 })
@@ -311,7 +344,15 @@ export const createDistrictController = (app: Elysia) => {
             }
           }, 5000); // Generate new message every 5 seconds
 
-          // Clean up on close
+          chatSessions.set(ws.id, {
+            conversationId: conversation.id,
+            agents: chatAgents,
+            close: () => {
+              clearInterval(chatInterval);
+              conversations.off("message:delta", onDelta);
+              conversations.off("message:complete", onComplete);
+            },
+          });
         },
 
         message: async (ws, message) => {
@@ -319,15 +360,11 @@ export const createDistrictController = (app: Elysia) => {
             const data =
               typeof message === "string" ? JSON.parse(message) : message;
             const store = ws.data.store as AppStore;
-            const defaultDistrictId = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
-
-            if (data.type === "user_message") {
-              // Get 2 random agents to respond
-              const agents = Array.from(
-                store.services.agentConversationService
-                  .getRegisteredAgents()
-                  .values()
-              )
+            const session = chatSessions.get(ws.id);
+
+            if (data.type === "user_message" && session) {
+              // Get 2 of the chat's agents to respond
+              const agents = [...session.agents]
                 .sort(() => Math.random() - 0.5)
                 .slice(0, 2);
 
@@ -335,10 +372,12 @@ export const createDistrictController = (app: Elysia) => {
               for (const agent of agents) {
                 const response =
                   await store.services.agentConversationService.generateRandomResponse(
-                    defaultDistrictId,
+                    CHAT_DISTRICT_ID,
                     agent.id,
-                    data.content
+                    data.content,
+                    session.conversationId
                   );
+                if ("error" in response) continue;
 
                 ws.send(
                   JSON.stringify({
@@ -347,7 +386,7 @@ export const createDistrictController = (app: Elysia) => {
                       agentId: agent.id,
                       agentName: agent.name,
                       agentRole: agent.role,
-                      content: response,
+                      content: response.response,
                       timestamp: Date.now(),
                     },
                   })
@@ -366,23 +405,31 @@ export const createDistrictController = (app: Elysia) => {
         },
 
         close: (ws) => {
+          chatSessions.get(ws.id)?.close();
+          chatSessions.delete(ws.id);
           console.log("WebSocket Chat Closed");
         },
       })
-      .post("/update", async ({ body, store }) => {
-        const appStore = store as AppStore;
-        const updateBody = body as UpdateDistrictsBody;
-        try {
-          const updatedDistricts =
-            await appStore.services.districtService.updateDistrictsFromData(
-              updateBody.districts
-            );
-          return { success: true, data: updatedDistricts };
-        } catch (error: any) {
-          console.error("Error updating districts:", error);
-          throw error;
+      .post(
+        "/update",
+        async ({ body, store }) => {
+          const appStore = store as AppStore;
+          const updateBody = body as UpdateDistrictsBody;
+          try {
+            const updatedDistricts =
+              await appStore.services.districtService.updateDistrictsFromData(
+                updateBody.districts
+              );
+            return { success: true, data: updatedDistricts };
+          } catch (error: any) {
+            console.error("Error updating districts:", error);
+            throw error;
+          }
+        },
+        {
+          beforeHandle: requireRole(["admin"]),
         }
-      })
+      )
   );
 
   return app;
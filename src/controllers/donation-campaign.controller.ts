@@ -0,0 +1,286 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import {
+  CampaignError,
+  type CampaignErrorCode,
+} from "../services/donation-campaign.service";
+import { authJwt, requireRole } from "../utils/auth-guard";
+
+const CAMPAIGN_STATUS: Record<CampaignErrorCode, number> = {
+  goal_not_found: 404,
+  challenge_not_found: 404,
+  duplicate_goal: 409,
+  invalid_schedule: 422,
+  invalid_policy: 422,
+  invalid_milestone: 422,
+  invalid_state: 409,
+};
+
+export function campaignFailure(error: unknown, set: any) {
+  if (!(error instanceof CampaignError)) throw error;
+  set.status = CAMPAIGN_STATUS[error.code];
+  return { success: false, error: error.message, code: error.code };
+}
+
+export const CelebrationEventSchema = t.Object({
+  title: t.String({ minLength: 1 }),
+  description: t.String(),
+  duration: t.Number({ minimum: 60000 }),
+  category: t.Union([
+    t.Literal("community"),
+    t.Literal("emergency"),
+    t.Literal("development"),
+    t.Literal("cultural"),
+    t.Literal("social"),
+    t.Literal("transport"),
+    t.Literal("environmental"),
+  ]),
+  impact: t.Object({
+    social: t.Number({ minimum: 0, maximum: 1 }),
+    economic: t.Number({ minimum: 0, maximum: 1 }),
+    cultural: t.Number({ minimum: 0, maximum: 1 }),
+    environmental: t.Number({ minimum: 0, maximum: 1 }),
+  }),
+});
+
+const OverfundingSchema = t.Union([
+  t.Object({ type: t.Literal("repeat") }),
+  t.Object({ type: t.Literal("cap") }),
+  t.Object({ type: t.Literal("rollover"), goalId: t.String() }),
+]);
+
+const GoalFields = {
+  targetAmount: t.Number({ exclusiveMinimum: 0 }),
+  title: t.String({ minLength: 1, maxLength: 120 }),
+  description: t.String(),
+  celebrationEvent: CelebrationEventSchema,
+  startDate: t.Optional(t.Number()),
+  endDate: t.Optional(t.Number()),
+  overfunding: t.Optional(OverfundingSchema),
+};
+
+export const ChallengeMilestonesSchema = t.Array(
+  t.Object({
+    amount: t.Number(),
+    reward: t.String(),
+    // Ignored; milestones are achieved by the amount raised
+    achieved: t.Optional(t.Boolean()),
+  })
+);
+
+const ChallengeChangesSchema = t.Object({
+  title: t.Optional(t.String({ minLength: 1 })),
+  description: t.Optional(t.String()),
+  targetAmount: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+  startDate: t.Optional(t.Number()),
+  endDate: t.Optional(t.Number()),
+  rewards: t.Optional(
+    t.Object({
+      badge: t.String(),
+      title: t.String(),
+      perks: t.Array(t.String()),
+    })
+  ),
+  milestones: t.Optional(ChallengeMilestonesSchema),
+  communityGoal: t.Optional(
+    t.Object({
+      description: t.String(),
+      progress: t.Number(),
+      target: t.Number(),
+    })
+  ),
+  celebrationEvent: t.Optional(CelebrationEventSchema),
+});
+
+const admin = { beforeHandle: requireRole(["admin"]) };
+
+// Authoring for donation goals and challenges. Listing goals, progress and
+// creating and joining challenges stay with the donation controller.
+export const DonationCampaignController = ({ store }: { store: AppStore }) => {
+  const campaigns = store.services.donationCampaigns;
+
+  return new Elysia({ prefix: "/donations" })
+    .use(authJwt(store.services.authService.config))
+    .post(
+      "/goals",
+      async ({ body, set }) => {
+        try {
+          const goal = campaigns.createGoal(body);
+          set.status = 201;
+          return { success: true, data: goal };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        ...admin,
+        body: t.Object({
+          id: t.Optional(t.String({ pattern: "^[a-z0-9-]+$" })),
+          departmentId: t.String(),
+          ...GoalFields,
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Create a donation goal with an optional schedule and overfunding policy",
+        },
+      }
+    )
+    .get(
+      "/goals/:goalId",
+      async ({ params, set }) => {
+        try {
+          return { success: true, data: campaigns.getGoal(params.goalId) };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        params: t.Object({ goalId: t.String() }),
+        detail: { tags: ["Donations"], summary: "Get a donation goal" },
+      }
+    )
+    .put(
+      "/goals/:goalId",
+      async ({ params, body, set }) => {
+        try {
+          return {
+            success: true,
+            data: campaigns.updateGoal(params.goalId, body),
+          };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        ...admin,
+        params: t.Object({ goalId: t.String() }),
+        body: t.Partial(t.Object(GoalFields)),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Change a donation goal's target, schedule, overfunding policy or celebration",
+        },
+      }
+    )
+    .delete(
+      "/goals/:goalId",
+      async ({ params, set }) => {
+        try {
+          campaigns.deleteGoal(params.goalId);
+          return { success: true };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        ...admin,
+        params: t.Object({ goalId: t.String() }),
+        detail: {
+          tags: ["Donations"],
+          summary: "Delete a donation goal nothing has been given to",
+        },
+      }
+    )
+    .get(
+      "/challenges",
+      async ({ query }) => {
+        return { success: true, data: campaigns.getChallenges(query.status) };
+      },
+      {
+        query: t.Object({
+          status: t.Optional(
+            t.Union([
+              t.Literal("scheduled"),
+              t.Literal("active"),
+              t.Literal("completed"),
+              t.Literal("expired"),
+            ])
+          ),
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary: "List donation challenges, optionally by status",
+        },
+      }
+    )
+    .get(
+      "/challenges/:challengeId",
+      async ({ params, set }) => {
+        try {
+          return {
+            success: true,
+            data: campaigns.getChallenge(params.challengeId),
+          };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        params: t.Object({ challengeId: t.String() }),
+        detail: { tags: ["Donations"], summary: "Get a donation challenge" },
+      }
+    )
+    .put(
+      "/challenges/:challengeId",
+      async ({ params, body, set }) => {
+        try {
+          return {
+            success: true,
+            data: await campaigns.updateChallenge(params.challengeId, body),
+          };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        ...admin,
+        params: t.Object({ challengeId: t.String() }),
+        body: ChallengeChangesSchema,
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Change a donation challenge; edited milestones are evaluated against what it has raised",
+        },
+      }
+    )
+    .delete(
+      "/challenges/:challengeId",
+      async ({ params, set }) => {
+        try {
+          campaigns.deleteChallenge(params.challengeId);
+          return { success: true };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
+      },
+      {
+        ...admin,
+        params: t.Object({ challengeId: t.String() }),
+        detail: {
+          tags: ["Donations"],
+          summary: "Delete a donation challenge nobody has joined",
+        },
+      }
+    )
+    .get(
+      "/campaigns/reports",
+      async ({ query }) => {
+        return {
+          success: true,
+          data: campaigns.getReports({ unmetOnly: query.unmet === "true" }),
+        };
+      },
+      {
+        ...admin,
+        query: t.Object({
+          unmet: t.Optional(t.Union([t.Literal("true"), t.Literal("false")])),
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "List expired goals and challenges with what they raised, or only the unmet ones",
+        },
+      }
+    );
+};
@@ -0,0 +1,237 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import {
+  SubscriptionError,
+  type SubscriptionErrorCode,
+} from "../services/donation-subscription.service";
+import type { Principal } from "../types/auth.types";
+import { authJwt, requireRole, resolvePrincipal } from "../utils/auth-guard";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUBSCRIPTION_STATUS: Record<SubscriptionErrorCode, number> = {
+  subscription_not_found: 404,
+  forbidden: 403,
+  invalid_target: 422,
+  invalid_state: 409,
+};
+
+function subscriptionFailure(error: unknown, set: any) {
+  if (!(error instanceof SubscriptionError)) throw error;
+  set.status = SUBSCRIPTION_STATUS[error.code];
+  return { success: false, error: error.message, code: error.code };
+}
+
+const TargetSchema = t.Union([
+  t.Object({ type: t.Literal("department"), departmentId: t.String() }),
+  t.Object({ type: t.Literal("goal"), goalId: t.String() }),
+  t.Object({ type: t.Literal("project"), projectId: t.String() }),
+]);
+
+const guard = {
+  beforeHandle: requireRole(["donor"]),
+  params: t.Object({ id: t.String() }),
+};
+
+export const DonationSubscriptionController = ({
+  store,
+}: {
+  store: AppStore;
+}) => {
+  const subscriptions = store.services.donationSubscriptions;
+  // requireRole has already turned away requests without a principal
+  const principalOf = async (context: any) =>
+    (await resolvePrincipal({ ...context, store })) as Principal;
+
+  return new Elysia({ prefix: "/donations/subscriptions" })
+    .use(authJwt(store.services.authService.config))
+    .post(
+      "/",
+      async (context) => {
+        const { body, set } = context;
+        try {
+          const subscription = await subscriptions.create(
+            await principalOf(context),
+            body
+          );
+          set.status = 201;
+          return { success: true, data: subscription };
+        } catch (error) {
+          return subscriptionFailure(error, set);
+        }
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        body: t.Object({
+          donorName: t.Optional(t.String({ minLength: 1 })),
+          districtId: t.String(),
+          amount: t.Number({ exclusiveMinimum: 0 }),
+          interval: t.Union([t.Literal("weekly"), t.Literal("monthly")]),
+          target: TargetSchema,
+          paymentMethod: t.Optional(t.String()),
+          startAt: t.Optional(t.Number()),
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Give weekly or monthly to a department, goal or cultural project; the first charge is taken now unless startAt is later",
+        },
+      }
+    )
+    .get(
+      "/",
+      async (context) => ({
+        success: true,
+        data: subscriptions.list(await principalOf(context)),
+      }),
+      {
+        beforeHandle: requireRole(["donor"]),
+        detail: {
+          tags: ["Donations"],
+          summary: "List your donation subscriptions (admins see all of them)",
+        },
+      }
+    )
+    .get(
+      "/upcoming",
+      async (context) => ({
+        success: true,
+        data: subscriptions.getUpcomingCharges(
+          await principalOf(context),
+          Date.now() + (context.query.days ?? 30) * DAY_MS
+        ),
+      }),
+      {
+        beforeHandle: requireRole(["donor"]),
+        query: t.Object({
+          days: t.Optional(t.Numeric({ minimum: 1, maximum: 366 })),
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Preview the charges due on your subscriptions in the next `days` days (default 30)",
+        },
+      }
+    )
+    .get(
+      "/:id",
+      async (context) => {
+        try {
+          return {
+            success: true,
+            data: subscriptions.get(
+              await principalOf(context),
+              context.params.id
+            ),
+          };
+        } catch (error) {
+          return subscriptionFailure(error, context.set);
+        }
+      },
+      {
+        ...guard,
+        detail: {
+          tags: ["Donations"],
+          summary: "Get a subscription with its charge history",
+        },
+      }
+    )
+    .get(
+      "/:id/upcoming",
+      async (context) => {
+        try {
+          return {
+            success: true,
+            data: subscriptions.previewCharges(
+              await principalOf(context),
+              context.params.id,
+              context.query.count
+            ),
+          };
+        } catch (error) {
+          return subscriptionFailure(error, context.set);
+        }
+      },
+      {
+        ...guard,
+        query: t.Object({
+          count: t.Optional(t.Numeric({ minimum: 1, maximum: 24 })),
+        }),
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Preview a subscription's next charges, including a pending retry",
+        },
+      }
+    )
+    .post(
+      "/:id/pause",
+      async (context) => {
+        try {
+          return {
+            success: true,
+            data: subscriptions.pause(
+              await principalOf(context),
+              context.params.id
+            ),
+          };
+        } catch (error) {
+          return subscriptionFailure(error, context.set);
+        }
+      },
+      {
+        ...guard,
+        detail: {
+          tags: ["Donations"],
+          summary: "Pause a subscription; no charges or retries are taken",
+        },
+      }
+    )
+    .post(
+      "/:id/resume",
+      async (context) => {
+        try {
+          return {
+            success: true,
+            data: subscriptions.resume(
+              await principalOf(context),
+              context.params.id
+            ),
+          };
+        } catch (error) {
+          return subscriptionFailure(error, context.set);
+        }
+      },
+      {
+        ...guard,
+        detail: {
+          tags: ["Donations"],
+          summary:
+            "Resume a paused subscription from its next scheduled charge date",
+        },
+      }
+    )
+    .post(
+      "/:id/cancel",
+      async (context) => {
+        try {
+          return {
+            success: true,
+            data: subscriptions.cancel(
+              await principalOf(context),
+              context.params.id
+            ),
+          };
+        } catch (error) {
+          return subscriptionFailure(error, context.set);
+        }
+      },
+      {
+        ...guard,
+        detail: {
+          tags: ["Donations"],
+          summary: "Cancel a subscription",
+        },
+      }
+    );
+};
@@ -1,12 +1,29 @@
 import { Elysia, t } from "elysia";
 import { swagger } from "@elysiajs/swagger";
 import { DonationService } from "../services/donation.service";
+import {
+  DonationLedgerService,
+  LedgerError,
+  type LedgerErrorCode,
+} from "../services/donation-ledger.service";
 import { AppStore } from "../services/app.services";
+import { PaymentError } from "../services/payment.service";
+import { paymentFailure } from "./payment.controller";
+import {
+  CelebrationEventSchema,
+  ChallengeMilestonesSchema,
+  campaignFailure,
+} from "./donation-campaign.controller";
 import { TextVectorQuery } from "../types/vector-store.types";
+import { requireRole, resolvePrincipal } from "../utils/auth-guard";
+import { hasRole } from "../services/auth.service";
+import { ANONYMOUS_DONOR_NAME } from "../services/donor-profile.service";
+import type { Principal } from "../types/auth.types";
 
 // Schema definitions
 const DonationSchema = t.Object({
-  donorId: t.String(),
+  // Left out, the caller donates as themselves
+  donorId: t.Optional(t.String()),
   donorName: t.String(),
   departmentId: t.String(),
   districtId: t.String(),
@@ -55,6 +72,8 @@ const DonationSchema = t.Object({
       activities: t.Array(t.String()),
     })
   ),
+  // Payment method token to charge; left out, the processor's default is used
+  paymentMethod: t.Optional(t.String()),
 });
 
 const ReactionSchema = t.Object({
@@ -84,18 +103,13 @@ const DonationChallengeSchema = t.Object({
     title: t.String(),
     perks: t.Array(t.String()),
   }),
-  milestones: t.Array(
-    t.Object({
-      amount: t.Number(),
-      reward: t.String(),
-      achieved: t.Boolean(),
-    })
-  ),
+  milestones: ChallengeMilestonesSchema,
   communityGoal: t.Object({
     description: t.String(),
     progress: t.Number(),
     target: t.Number(),
   }),
+  celebrationEvent: t.Optional(CelebrationEventSchema),
 });
 
 const CulturalMilestoneSchema = t.Object({
@@ -117,11 +131,13 @@ const CulturalMilestoneSchema = t.Object({
 });
 
 const SimpleDonationSchema = t.Object({
-  userId: t.String(),
+  // Left out, the caller donates as themselves
+  userId: t.Optional(t.String()),
   userName: t.String(),
   amount: t.Number(),
   districtId: t.String(),
   departmentId: t.String(),
+  paymentMethod: t.Optional(t.String()),
 });
 
 interface DonationMetadata {
@@ -136,30 +152,95 @@ interface DonationMetadata {
   timestamp: number;
 }
 
-export const DonationController = (donationService: DonationService) =>
-  new Elysia({ prefix: "/donations" })
-    .onRequest((context) => {
-      // Only protect donate routes
-      if (context.request.url.includes("/donate")) {
-        const apiKey = context.request.headers.get("x-api-key");
-        if (!apiKey || apiKey !== process.env.BACKEND_API_KEY) {
-          context.set.status = 401;
-          throw new Error("Unauthorized - Invalid API Key");
-        }
-      }
-    })
+const LEDGER_STATUS: Record<LedgerErrorCode, number> = {
+  invalid_amount: 400,
+  donation_not_found: 404,
+  already_reversed: 409,
+  idempotency_conflict: 422,
+};
+
+export function ledgerFailure(error: unknown, set: any) {
+  if (!(error instanceof LedgerError)) throw error;
+  set.status = LEDGER_STATUS[error.code];
+  return { success: false, error: error.message, code: error.code };
+}
 
+// requireRole has already turned away requests without a principal. Donors
+// give as themselves; only admins may name someone else as the donor.
+async function donorIdFor(context: any, requested?: string) {
+  const principal = (await resolvePrincipal(context)) as Principal;
+  if (!requested || requested === principal.id) return principal.id;
+  return hasRole(principal, ["admin"]) ? requested : undefined;
+}
+
+function forbidOnBehalf(set: any) {
+  set.status = 403;
+  return {
+    success: false,
+    error: "Only admins may donate on someone else's behalf",
+    code: 403,
+  };
+}
+
+// A donation whose payment has not settled yet is accepted but not complete
+function donationReceipt(
+  donationService: DonationService,
+  donationId: string,
+  set: any
+) {
+  const donation = donationService.getDonation(donationId);
+  if (donation?.status === "pending") set.status = 202;
+  return {
+    success: true,
+    donationId,
+    status: donation?.status,
+    paymentId: donation?.paymentId,
+  };
+}
+
+export const DonationController = (
+  donationService: DonationService,
+  donationLedger: DonationLedgerService
+) =>
+  new Elysia({ prefix: "/donations" })
     .post(
       "/",
-      async ({ body }) => {
-        const donationId = await donationService.processDonation(body);
-        return { success: true, donationId };
+      async (context) => {
+        const { body, headers, set } = context;
+        const principal = (await resolvePrincipal(context)) as Principal;
+        const donorId = await donorIdFor(context, body.donorId);
+        if (!donorId) return forbidOnBehalf(set);
+        try {
+          // A retry with the same Idempotency-Key gets the first donation back.
+          // Keys are the caller's own and the fingerprint names the donor, so
+          // two callers cannot replay each other's donations.
+          const { paymentMethod, ...fields } = body;
+          const donation = { ...fields, donorId };
+          const { result: donationId, replayed } =
+            await donationLedger.idempotent(
+              `donations:${principal.id}`,
+              headers["idempotency-key"],
+              { ...body, donorId },
+              () =>
+                donationService.processDonation(donation, {
+                  method: paymentMethod,
+                })
+            );
+          if (replayed) set.headers["idempotent-replayed"] = "true";
+          return donationReceipt(donationService, donationId, set);
+        } catch (error) {
+          return error instanceof PaymentError
+            ? paymentFailure(error, set)
+            : ledgerFailure(error, set);
+        }
       },
       {
+        beforeHandle: requireRole(["donor"]),
         body: DonationSchema,
         detail: {
           tags: ["Donations"],
-          summary: "Process a new donation",
+          summary:
+            "Process a new donation (send an Idempotency-Key header to make retries safe)",
         },
       }
     )
@@ -205,7 +286,9 @@ export const DonationController = (donationService: DonationService) =>
         const donations = await donationService.getDonationsByDistrict(
           districtId
         );
-        return donations.filter((d) => d.category === category);
+        return donations
+          .filter((d) => d.category === category)
+          .map((d) => donationService.toPublicDonation(d));
       },
       {
         params: t.Object({
@@ -305,7 +388,10 @@ export const DonationController = (donationService: DonationService) =>
     .get(
       "/district/:districtId",
       async ({ params: { districtId } }) => {
-        return donationService.getDonationsByDistrict(districtId);
+        const donations = await donationService.getDonationsByDistrict(
+          districtId
+        );
+        return donations.map((d) => donationService.toPublicDonation(d));
       },
       {
         params: t.Object({
@@ -320,7 +406,10 @@ export const DonationController = (donationService: DonationService) =>
     .get(
       "/department/:departmentId",
       async ({ params: { departmentId } }) => {
-        return donationService.getDonationsByDepartment(departmentId);
+        const donations = await donationService.getDonationsByDepartment(
+          departmentId
+        );
+        return donations.map((d) => donationService.toPublicDonation(d));
       },
       {
         params: t.Object({
@@ -388,15 +477,23 @@ export const DonationController = (donationService: DonationService) =>
     )
     .post(
       "/challenges",
-      async ({ body }) => {
-        const challengeId = await donationService.createDonationChallenge(body);
-        return { success: true, challengeId };
+      async ({ body, store, set }) => {
+        try {
+          const challenge = await (
+            store as AppStore
+          ).services.donationCampaigns.createChallenge(body);
+          return { success: true, challengeId: challenge.id };
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
       },
       {
+        beforeHandle: requireRole(["admin"]),
         body: DonationChallengeSchema,
         detail: {
           tags: ["Donations"],
-          summary: "Create a new donation challenge",
+          summary:
+            "Create a donation challenge; it opens at its start date and expires at its end date",
         },
       }
     )
@@ -429,7 +526,14 @@ export const DonationController = (donationService: DonationService) =>
     )
     .post(
       "/challenges/:challengeId/participate",
-      async ({ params: { challengeId }, body }) => {
+      async ({ params: { challengeId }, body, store, set }) => {
+        try {
+          (store as AppStore).services.donationCampaigns.assertChallengeOpen(
+            challengeId
+          );
+        } catch (error) {
+          return campaignFailure(error, set);
+        }
         await donationService.participateInChallenge(
           body.donationId,
           challengeId
@@ -437,6 +541,7 @@ export const DonationController = (donationService: DonationService) =>
         return { success: true };
       },
       {
+        beforeHandle: requireRole(["donor"]),
         params: t.Object({
           challengeId: t.String(),
         }),
@@ -456,6 +561,7 @@ export const DonationController = (donationService: DonationService) =>
         return { success: true, milestoneId };
       },
       {
+        beforeHandle: requireRole(["admin"]),
         body: CulturalMilestoneSchema,
         detail: {
           tags: ["Donations"],
@@ -470,6 +576,7 @@ export const DonationController = (donationService: DonationService) =>
         return { success: true };
       },
       {
+        beforeHandle: requireRole(["donor"]),
         params: t.Object({
           donationId: t.String(),
         }),
@@ -484,11 +591,14 @@ export const DonationController = (donationService: DonationService) =>
     )
     .post(
       "/simple",
-      async ({ body, store }) => {
+      async (context) => {
+        const { body, store, set } = context;
         const appStore = store as AppStore;
+        const donorId = await donorIdFor(context, body.userId);
+        if (!donorId) return forbidOnBehalf(set);
         try {
           const donationData = {
-            donorId: body.userId,
+            donorId,
             donorName: body.userName,
             amount: body.amount,
             districtId: body.districtId,
@@ -504,18 +614,23 @@ export const DonationController = (donationService: DonationService) =>
 
           const donationId =
             await appStore.services.donationService.processDonation(
-              donationData
+              donationData,
+              { method: body.paymentMethod }
             );
 
           // Return response immediately after processing
           return {
-            success: true,
-            donationId,
+            ...donationReceipt(
+              appStore.services.donationService,
+              donationId,
+              set
+            ),
             message: "Donation processed successfully",
             amount: body.amount,
             donor: body.userName,
           };
         } catch (error) {
+          if (error instanceof PaymentError) return paymentFailure(error, set);
           console.error("Failed to process simple donation:", error);
           // Return error response instead of throwing
           return {
@@ -526,6 +641,7 @@ export const DonationController = (donationService: DonationService) =>
         }
       },
       {
+        beforeHandle: requireRole(["donor"]),
         body: SimpleDonationSchema,
         detail: {
           tags: ["Donations"],
@@ -562,15 +678,23 @@ export const DonationController = (donationService: DonationService) =>
           topK: query.limit,
           includeMetadata: true,
         });
-        return results.matches.map((match: any) => ({
-          donationId: match.metadata.donationId,
-          donorName: match.metadata.donorName,
-          amount: match.metadata.amount,
-          purpose: match.metadata.purpose,
-          category: match.metadata.category,
-          score: match.score,
-          timestamp: match.metadata.timestamp,
-        }));
+        // The name indexed with the donation may since have been hidden
+        return results.matches.map((match: any) => {
+          const donation = donationService.getDonation(
+            match.metadata.donationId
+          );
+          return {
+            donationId: match.metadata.donationId,
+            donorName: donation
+              ? donationService.toPublicDonation(donation).donorName
+              : ANONYMOUS_DONOR_NAME,
+            amount: match.metadata.amount,
+            purpose: match.metadata.purpose,
+            category: match.metadata.category,
+            score: match.score,
+            timestamp: match.metadata.timestamp,
+          };
+        });
       },
       {
         body: t.Object({
@@ -619,46 +743,43 @@ export const DonationController = (donationService: DonationService) =>
     )
     .post(
       "/user",
-      async ({ body, store }) => {
+      async (context) => {
+        const { body, store, set } = context;
         const appStore = store as AppStore;
+        const donorId = await donorIdFor(context, body.userId);
+        if (!donorId) return forbidOnBehalf(set);
         try {
           // Process the donation
           const donationId =
-            await appStore.services.donationService.processDonation({
-              donorId: body.userId,
-              donorName: body.userName,
-              amount: body.amount,
-              departmentId: body.departmentId,
-              districtId: body.districtId,
-              purpose: "User Donation",
-              category: "general",
-              impact: {
+            await appStore.services.donationService.processDonation(
+              {
+                donorId,
+                donorName: body.userName,
+                amount: body.amount,
+                departmentId: body.departmentId,
+                districtId: body.districtId,
+                purpose: "User Donation",
                 category: "general",
-                description: "Supporting department operations",
-                beneficiaries: Math.floor(body.amount / 100),
+                impact: {
+                  category: "general",
+                  description: "Supporting department operations",
+                  beneficiaries: Math.floor(body.amount / 100),
+                },
               },
-            });
-
-          // Update department budget
-          await appStore.services.departmentService.addDonation(
-            body.departmentId,
-            {
-              id: donationId,
-              amount: body.amount,
-              donorId: body.userId,
-              message: "User Donation",
-              timestamp: Date.now(),
-              transactionHash: "",
-            }
-          );
+              { method: body.paymentMethod }
+            );
 
           // Return success response immediately
           return {
-            success: true,
-            donationId,
+            ...donationReceipt(
+              appStore.services.donationService,
+              donationId,
+              set
+            ),
             message: "Donation processed successfully",
           };
         } catch (error) {
+          if (error instanceof PaymentError) return paymentFailure(error, set);
           console.error("Failed to process donation:", error);
           // Return error response instead of throwing
           return {
@@ -669,6 +790,7 @@ export const DonationController = (donationService: DonationService) =>
         }
       },
       {
+        beforeHandle: requireRole(["donor"]),
         body: SimpleDonationSchema,
       }
     );
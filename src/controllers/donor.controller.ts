@@ -0,0 +1,202 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import {
+  DonorRecordError,
+  type DonorRecordErrorCode,
+} from "../services/donor-records.service";
+import type { StatementFormat } from "../types/donor.types";
+import { authJwt, requireRole, resolvePrincipal } from "../utils/auth-guard";
+import {
+  STATEMENT_CONTENT_TYPES,
+  renderReceiptHtml,
+  renderStatement,
+} from "../utils/statement-renderers";
+
+const RECORD_STATUS: Record<DonorRecordErrorCode, number> = {
+  donation_not_found: 404,
+  invalid_year: 400,
+};
+
+function recordFailure(error: unknown, set: any) {
+  if (!(error instanceof DonorRecordError)) throw error;
+  set.status = RECORD_STATUS[error.code];
+  return { success: false, error: error.message, code: error.code };
+}
+
+function sendDocument(
+  set: any,
+  body: string,
+  format: StatementFormat,
+  filename: string
+) {
+  set.headers["content-type"] = STATEMENT_CONTENT_TYPES[format];
+  set.headers[
+    "content-disposition"
+  ] = `inline; filename="${filename}.${format}"`;
+  return body;
+}
+
+const DonorParams = t.Object({ donorId: t.String() });
+
+// Donors reach their own records as "me" or by their account id; admins
+// can read anyone's
+export const DonorController = ({ store }: { store: AppStore }) => {
+  const donorIdFor = async (context: any): Promise<string | undefined> => {
+    const principal = await resolvePrincipal({ ...context, store });
+    if (!principal) return undefined;
+    const { donorId } = context.params;
+    if (donorId === "me") return principal.id;
+    return principal.roles.includes("admin") || donorId === principal.id
+      ? donorId
+      : undefined;
+  };
+  const forbidden = (set: any) => {
+    set.status = 403;
+    return {
+      success: false,
+      error: "Donors can only see their own records",
+      code: 403,
+    };
+  };
+
+  return new Elysia({ prefix: "/donors" })
+    .use(authJwt(store.services.authService.config))
+    .get(
+      "/:donorId",
+      async (context) => {
+        const donorId = await donorIdFor(context);
+        if (!donorId) return forbidden(context.set);
+        return {
+          success: true,
+          data: store.services.donorRecords.getProfile(donorId),
+        };
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        params: DonorParams,
+        detail: {
+          tags: ["Donors"],
+          summary:
+            "Get a donor profile with giving totals, badges and challenge participation",
+        },
+      }
+    )
+    .put(
+      "/:donorId",
+      async (context) => {
+        const donorId = await donorIdFor(context);
+        if (!donorId) return forbidden(context.set);
+        store.services.donorProfiles.updatePreferences(donorId, context.body);
+        return {
+          success: true,
+          data: store.services.donorRecords.getProfile(donorId),
+        };
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        params: DonorParams,
+        body: t.Object({
+          displayName: t.Optional(t.String({ minLength: 1, maxLength: 80 })),
+          anonymous: t.Optional(t.Boolean()),
+        }),
+        detail: {
+          tags: ["Donors"],
+          summary:
+            "Set the display name and whether donations are announced anonymously",
+        },
+      }
+    )
+    .get(
+      "/:donorId/receipts",
+      async (context) => {
+        const donorId = await donorIdFor(context);
+        if (!donorId) return forbidden(context.set);
+        return {
+          success: true,
+          data: store.services.donorRecords.getReceipts(donorId),
+        };
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        params: DonorParams,
+        detail: {
+          tags: ["Donors"],
+          summary: "List a receipt for each of the donor's donations",
+        },
+      }
+    )
+    .get(
+      "/:donorId/receipts/:donationId",
+      async (context) => {
+        const { params, query, set } = context;
+        const donorId = await donorIdFor(context);
+        if (!donorId) return forbidden(set);
+        try {
+          const receipt = store.services.donorRecords.getReceipt(
+            donorId,
+            params.donationId
+          );
+          return query.format === "html"
+            ? sendDocument(
+                set,
+                renderReceiptHtml(receipt),
+                "html",
+                receipt.receiptNumber
+              )
+            : { success: true, data: receipt };
+        } catch (error) {
+          return recordFailure(error, set);
+        }
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        params: t.Object({ donorId: t.String(), donationId: t.String() }),
+        query: t.Object({
+          format: t.Optional(t.Union([t.Literal("json"), t.Literal("html")])),
+        }),
+        detail: {
+          tags: ["Donors"],
+          summary: "Get the receipt for one donation as JSON or HTML",
+        },
+      }
+    )
+    .get(
+      "/:donorId/statements/:year",
+      async (context) => {
+        const { params, query, set } = context;
+        const donorId = await donorIdFor(context);
+        if (!donorId) return forbidden(set);
+        try {
+          const statement = store.services.donorRecords.getYearlyStatement(
+            donorId,
+            params.year
+          );
+          const format = query.format || "json";
+          return format === "json"
+            ? { success: true, data: statement }
+            : sendDocument(
+                set,
+                renderStatement(statement, format),
+                format,
+                `giving-statement-${statement.year}`
+              );
+        } catch (error) {
+          return recordFailure(error, set);
+        }
+      },
+      {
+        beforeHandle: requireRole(["donor"]),
+        params: t.Object({ donorId: t.String(), year: t.Numeric() }),
+        query: t.Object({
+          format: t.Optional(
+            t.Union([t.Literal("json"), t.Literal("html"), t.Literal("csv")])
+          ),
+        }),
+        detail: {
+          tags: ["Donors"],
+          summary:
+            "Export a donor's yearly giving statement by category, district and department as JSON, HTML or CSV",
+        },
+      }
+    );
+};
@@ -0,0 +1,140 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import type { EventFilter, EventMetadata } from "../services/event-bus.service";
+import { buildEventJsonSchema } from "../types/event-catalogue";
+import { requireRole } from "../utils/auth-guard";
+
+const PrioritySchema = t.Union([
+  t.Literal("low"),
+  t.Literal("medium"),
+  t.Literal("high"),
+  t.Literal("critical"),
+]);
+
+const CategorySchema = t.Union([
+  t.Literal("conversation"),
+  t.Literal("emergency"),
+  t.Literal("infrastructure"),
+  t.Literal("ai"),
+  t.Literal("cultural"),
+  t.Literal("environmental"),
+]);
+
+const EventFilterSchema = {
+  type: t.Optional(t.Array(t.String())),
+  priority: t.Optional(t.Array(PrioritySchema)),
+  category: t.Optional(t.Array(CategorySchema)),
+  source: t.Optional(t.Array(t.String())),
+  timeRange: t.Optional(t.Object({ start: t.Number(), end: t.Number() })),
+  acknowledged: t.Optional(t.Boolean()),
+};
+
+const list = (value?: string) =>
+  value ? value.split(",").map((item) => item.trim()) : undefined;
+
+const toTimestamp = (value?: string) => {
+  if (!value) return undefined;
+  const numeric = Number(value);
+  return Number.isNaN(numeric) ? new Date(value).getTime() : numeric;
+};
+
+// Query strings carry lists as comma-separated values and times as ms or ISO dates
+function parseEventFilter(query: Record<string, string | undefined>) {
+  const start = toTimestamp(query.start);
+  const end = toTimestamp(query.end);
+  const filter: EventFilter = {
+    type: list(query.type),
+    priority: list(query.priority) as EventMetadata["priority"][] | undefined,
+    category: list(query.category) as EventMetadata["category"][] | undefined,
+    source: list(query.source),
+    timeRange:
+      start !== undefined || end !== undefined
+        ? { start: start ?? 0, end: end ?? Number.MAX_SAFE_INTEGER }
+        : undefined,
+    acknowledged:
+      query.acknowledged === undefined
+        ? undefined
+        : query.acknowledged === "true",
+  };
+  return filter;
+}
+
+export const EventController = ({ store }: { store: AppStore }) =>
+  new Elysia({ prefix: "/events" })
+    .get("/schema", () => buildEventJsonSchema(), {
+      detail: {
+        tags: ["Events"],
+        summary: "JSON Schema for every EventBus event type",
+      },
+    })
+    .get(
+      "/history",
+      async ({ query }) => {
+        const filter = parseEventFilter(query);
+        const limit = query.limit ? parseInt(query.limit, 10) : 200;
+        const eventLog = store.services.eventLog;
+
+        // The log covers restarts; the in-memory history only the last 1000 events
+        const events =
+          query.from !== "memory" && eventLog
+            ? await eventLog.read(filter, limit)
+            : store.services.eventBus.getEventHistory(filter).slice(-limit);
+
+        return {
+          success: true,
+          data: {
+            from: query.from !== "memory" && eventLog ? "log" : "memory",
+            count: events.length,
+            events,
+          },
+        };
+      },
+      {
+        query: t.Object({
+          type: t.Optional(t.String()),
+          priority: t.Optional(t.String()),
+          category: t.Optional(t.String()),
+          source: t.Optional(t.String()),
+          start: t.Optional(t.String()),
+          end: t.Optional(t.String()),
+          acknowledged: t.Optional(t.String()),
+          limit: t.Optional(t.String()),
+          from: t.Optional(t.Union([t.Literal("log"), t.Literal("memory")])),
+        }),
+        detail: {
+          tags: ["Events"],
+          summary: "Get recorded EventBus events",
+        },
+      }
+    )
+    .post(
+      "/replay",
+      async ({ body, set }) => {
+        if (!store.services.eventReplay.enabled) {
+          set.status = 409;
+          return { success: false, error: "Event log is disabled" };
+        }
+
+        const { limit, includeEvents, ...filter } = body;
+        const result = await store.services.eventReplay.replay(filter, {
+          limit,
+        });
+        return {
+          success: true,
+          data: includeEvents === false ? { ...result, events: [] } : result,
+        };
+      },
+      {
+        beforeHandle: requireRole(["admin"]),
+        body: t.Object({
+          ...EventFilterSchema,
+          limit: t.Optional(t.Number({ minimum: 1 })),
+          includeEvents: t.Optional(t.Boolean()),
+        }),
+        detail: {
+          tags: ["Events"],
+          summary:
+            "Replay a recorded range into a freshly built city and report the events each one set off",
+        },
+      }
+    );
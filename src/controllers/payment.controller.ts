@@ -0,0 +1,46 @@
+import { Elysia, t } from "elysia";
+import type { AppStore } from "../services/app.services";
+import {
+  PaymentError,
+  type PaymentErrorCode,
+} from "../services/payment.service";
+
+const PAYMENT_STATUS: Record<PaymentErrorCode, number> = {
+  declined: 402,
+  payment_not_found: 404,
+  invalid_signature: 400,
+  invalid_payload: 400,
+  invalid_state: 409,
+};
+
+export function paymentFailure(error: unknown, set: any) {
+  if (!(error instanceof PaymentError)) throw error;
+  set.status = PAYMENT_STATUS[error.code];
+  return { success: false, error: error.message, code: error.code };
+}
+
+export const PaymentController = ({ store }: { store: AppStore }) =>
+  new Elysia({ prefix: "/payments" }).post(
+    "/webhook",
+    ({ body, headers, set }) => {
+      try {
+        // The signature covers the raw body, so it is checked before parsing
+        const payment = store.services.payments.handleWebhook(
+          body,
+          headers["x-payment-signature"]
+        );
+        return { success: true, paymentId: payment?.id };
+      } catch (error) {
+        return paymentFailure(error, set);
+      }
+    },
+    {
+      type: "text",
+      body: t.String(),
+      detail: {
+        tags: ["Payments"],
+        summary:
+          "Receive a payment processor webhook signed in the X-Payment-Signature header",
+      },
+    }
+  );
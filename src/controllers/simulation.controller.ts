@@ -0,0 +1,102 @@
+import { Elysia, t } from "elysia";
+import { AppStore } from "../services/app.services";
+import { authJwt, requireRole } from "../utils/auth-guard";
+
+// Anyone may read the clock; only admins may stop, step or warp it
+const admin = { beforeHandle: requireRole(["admin"]) };
+
+export const SimulationController = ({ store }: { store: AppStore }) =>
+  new Elysia({ prefix: "/simulation" })
+    .use(authJwt(store.services.authService.config))
+    .get(
+      "/clock",
+      () => ({
+        success: true,
+        data: store.services.simulationClock.getState(),
+      }),
+      {
+        detail: {
+          tags: ["Simulation"],
+          summary: "Get simulation clock state",
+        },
+      }
+    )
+    .post(
+      "/clock/pause",
+      () => {
+        store.services.simulationClock.pause();
+        return {
+          success: true,
+          data: store.services.simulationClock.getState(),
+        };
+      },
+      {
+        ...admin,
+        detail: {
+          tags: ["Simulation"],
+          summary: "Pause the simulation clock",
+        },
+      }
+    )
+    .post(
+      "/clock/resume",
+      () => {
+        store.services.simulationClock.resume();
+        return {
+          success: true,
+          data: store.services.simulationClock.getState(),
+        };
+      },
+      {
+        ...admin,
+        detail: {
+          tags: ["Simulation"],
+          summary: "Resume the simulation clock",
+        },
+      }
+    )
+    .post(
+      "/clock/step",
+      async ({ body }) => {
+        try {
+          const state = await store.services.simulationClock.step(body.ms);
+          return {
+            success: true,
+            data: state,
+          };
+        } catch (error) {
+          console.error("Failed to step simulation clock:", error);
+          throw error;
+        }
+      },
+      {
+        ...admin,
+        body: t.Object({
+          ms: t.Number({ minimum: 1 }),
+        }),
+        detail: {
+          tags: ["Simulation"],
+          summary: "Advance simulated time and run every task that falls due",
+        },
+      }
+    )
+    .put(
+      "/clock/speed",
+      ({ body }) => {
+        store.services.simulationClock.setSpeed(body.multiplier);
+        return {
+          success: true,
+          data: store.services.simulationClock.getState(),
+        };
+      },
+      {
+        ...admin,
+        body: t.Object({
+          multiplier: t.Number({ exclusiveMinimum: 0 }),
+        }),
+        detail: {
+          tags: ["Simulation"],
+          summary: "Set the simulation speed multiplier",
+        },
+      }
+    );
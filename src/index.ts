@@ -1,34 +1,16 @@
-import { Elysia, t } from "elysia";
-import { swagger } from "@elysiajs/swagger";
-import { jwt } from "@elysiajs/jwt";
-import { ErrorResponse } from "./types/responses";
 import { agents, residentAgents } from "./config/agents";
 import { cityManagementAgents, allCityAgents } from "./config/city-agents";
 import { ServerWebSocket, Server } from "bun";
 import { Agent } from "./types/agent.types";
-
-// Import controllers
-import { CityRhythmController } from "./controllers/city-rhythm.controller";
-import { CityCoordinatorController } from "./controllers/city-coordinator.controller";
-import { AdaptiveLearningController } from "./controllers/adaptive-learning.controller";
-import { AIController } from "./controllers/ai.controller";
-import { AIIntegrationController } from "./controllers/ai-integration.controller";
-import { DepartmentController } from "./controllers/department.controller";
 import { createStore } from "./services/app.services";
-import { createDistrictController } from "./controllers/district.controller";
-import { DonationController } from "./controllers/donation.controller";
-import { DistrictMetricsController } from "./controllers/district-metrics.controller";
-import { AgentCollaborationController } from "./controllers/agent-collaboration.controller";
-import { ChroniclesController } from "./controllers/chronicles.controller";
-import { CCTVController } from "./controllers/cctv.controller";
-import { AgentController } from "./controllers/agent.controller";
-import { CultureController } from "./controllers/culture.controller";
-import { ConversationController } from "./controllers/conversation.controller";
-import { DonationService } from "./services/donation.service";
-
-type ElysiaInstance = InstanceType<typeof Elysia>;
-type ElysiaConfig = Parameters<ElysiaInstance["group"]>[1];
+import type {
+  MessageComplete,
+  MessageDelta,
+} from "./services/agent-conversation.service";
+import { createApp } from "./app";
+
 const store = createStore();
+const app = createApp(store);
 
 // Define WebSocket data type
 export interface WebSocketData {
@@ -37,6 +19,7 @@ export interface WebSocketData {
   eventListeners?: Map<string, (...args: any[]) => void>;
   messageHistory: Map<string, { content: string; timestamp: number }>;
   activeConversations: Set<string>; // Track which conversations this connection is subscribed to
+  participantSessions: Map<string, string>; // Conversation id -> participant session joined over this connection
 }
 
 // Initialize AI system with all agents
@@ -83,210 +66,6 @@ async function initializeAISystem() {
   }
 }
 
-const app = new Elysia()
-  .get("/service-worker.js", () => {
-    return new Response("", { status: 200 });
-  })
-  .use(
-    swagger({
-      documentation: {
-        info: {
-          title: "AI City API",
-          version: "1.0.0",
-        },
-        security: [
-          {
-            bearerAuth: [],
-          },
-        ],
-        components: {
-          securitySchemes: {
-            bearerAuth: {
-              type: "http",
-              scheme: "bearer",
-              bearerFormat: "JWT",
-            },
-          },
-        },
-      },
-    })
-  )
-  .use(
-    jwt({
-      name: "jwt",
-      secret: process.env.JWT_SECRET || "your-secret-key",
-    })
-  )
-
-  .onError(({ code, error }) => {
-    console.error(`Error ${code}:`, error);
-    return {
-      success: false,
-      error: error.message,
-      code: typeof code === "string" ? 500 : code,
-    } as ErrorResponse;
-  })
-  .derive(({ jwt }) => {
-    return {
-      jwt,
-      store,
-    };
-  })
-  .onRequest((context) => {
-    console.log(
-      `[${new Date().toISOString()}] ${context.request.method} ${
-        context.request.url
-      }`
-    );
-  });
-
-// Mount controllers
-const apiGroup = app.group("/api", ((app: any) => {
-  return (
-    app
-      // Function-style controllers that take store
-      .use(CityRhythmController({ store }))
-      .use(CityCoordinatorController({ store }))
-      // Function-style controllers that take service
-      .use(DonationController(store.services.donationService))
-      // Pre-configured Elysia instances
-
-      .use(DistrictMetricsController)
-      .use(DepartmentController)
-      .use(createDistrictController)
-      .use(AIController)
-      // Class-style controllers with setup method
-      .use((app: any) => new AdaptiveLearningController(store).setup(app))
-      .use((app: any) =>
-        new AIIntegrationController(
-          store.services.aiIntegration,
-          store.services.cultureService,
-          store.services.districtCultureService,
-          store.services.agentCultureService
-        ).setup(app)
-      )
-      .use((app: any) => new ChroniclesController(store).routes(app))
-      .use(CCTVController)
-      .use(AgentController)
-      .use(AgentCollaborationController)
-      .use(ConversationController({ store }))
-      .group("ai", (app: any) => {
-        return app
-          .post(
-            "/initialize",
-            async ({ body }: { body: any }) => {
-              const result =
-                await store.services.aiIntegration.initializeSystem(body);
-
-              return {
-                success: true,
-                data: {
-                  ...result,
-                },
-              };
-            },
-            {
-              body: t.Object({
-                agents: t.Array(t.String()),
-                protocol: t.String(),
-                initialState: t.Optional(t.Record(t.String(), t.Any())),
-              }),
-            }
-          )
-          .post(
-            "/decision",
-            async ({ body }: { body: any }) => {
-              await store.services.aiIntegration.recordDecision(
-                body.agentId,
-                body.decision,
-                body.context
-              );
-              return { success: true, data: null };
-            },
-            {
-              body: t.Object({
-                agentId: t.String(),
-                decision: t.String(),
-                context: t.Record(t.String(), t.Any()),
-              }),
-            }
-          )
-          .post(
-            "/pattern",
-            async ({ body }: { body: any }) => {
-              await store.services.aiIntegration.storePattern(
-                body.pattern,
-                body.context,
-                body.confidence
-              );
-              return { success: true, data: null };
-            },
-            {
-              body: t.Object({
-                pattern: t.String(),
-                context: t.Record(t.String(), t.Any()),
-                confidence: t.Number(),
-              }),
-            }
-          )
-          .get(
-            "/similar-decisions",
-            async ({ query }: { query: any }) => {
-              const decisions =
-                await store.services.aiIntegration.findSimilarDecisions(
-                  query.content,
-                  query.limit ? parseInt(query.limit) : undefined
-                );
-              return { success: true, data: decisions };
-            },
-            {
-              query: t.Object({
-                content: t.String(),
-                limit: t.Optional(t.String()),
-              }),
-            }
-          )
-          .get(
-            "/similar-patterns",
-            async ({ query }: { query: any }) => {
-              const patterns =
-                await store.services.aiIntegration.findSimilarPatterns(
-                  query.content,
-                  query.limit ? parseInt(query.limit) : undefined
-                );
-              return { success: true, data: patterns };
-            },
-            {
-              query: t.Object({
-                content: t.String(),
-                limit: t.Optional(t.String()),
-              }),
-            }
-          )
-          .get("/status", async () => {
-            const status = store.services.aiIntegration.getSystemStatus();
-            return { success: true, data: status };
-          });
-      })
-  );
-}) as unknown as ElysiaConfig);
-
-app.use(apiGroup as any);
-
-// Register culture routes
-const cultureController = new CultureController(store);
-app.group("/api/culture", (app) => {
-  app.get("/expressions", cultureController.getDailyExpressions);
-  app.get("/expressions/:id", cultureController.getExpressionById);
-  app.post(
-    "/expressions/:id/participate",
-    cultureController.participateInExpression
-  );
-  app.get("/popular", cultureController.getPopularExpressions);
-  app.get("/events", cultureController.getCulturalEvents);
-  return app;
-});
-
 // Helper function to check for duplicate messages
 const isDuplicateMessage = (
   messageHistory: Map<string, { content: string; timestamp: number }>,
@@ -470,8 +249,13 @@ const broadcastToConversation = async (
   );
 };
 
-// Initialize AI system before starting the server
-initializeAISystem()
+// Build the city, restore persisted state, then initialize the AI system before starting the server
+store.container
+  .start()
+  .then(() => store.services.persistence.restore())
+  .then(() => store.services.authService.bootstrap())
+  .then(() => store.services.persistence.startAutosave())
+  .then(() => initializeAISystem())
   .then(() => {
     const server = Bun.serve<WebSocketData>({
       port: process.env.PORT || 3001,
@@ -489,6 +273,7 @@ initializeAISystem()
                 { content: string; timestamp: number }
               >(),
               activeConversations: new Set(),
+              participantSessions: new Map(),
             },
           });
 
@@ -638,6 +423,7 @@ initializeAISystem()
               {
                 conversationId: data.conversationId,
                 message: {
+                  id: data.message.id,
                   content: data.message.content,
                   agentName: store.services.agentConversationService.getAgent(
                     data.message.agentId
@@ -659,6 +445,39 @@ initializeAISystem()
           );
           eventListeners.set("message:added", messageAddedListener);
 
+          // Stream agent replies chunk by chunk; message_complete carries the final text
+          const messageDeltaListener = (delta: MessageDelta) => {
+            sendWebSocketMessage(ws, ws.data.messageHistory, "message_delta", {
+              ...delta,
+              agentName: store.services.agentConversationService.getAgent(
+                delta.agentId
+              )?.name,
+            });
+          };
+          const messageCompleteListener = (complete: MessageComplete) => {
+            sendWebSocketMessage(
+              ws,
+              ws.data.messageHistory,
+              "message_complete",
+              {
+                ...complete,
+                agentName: store.services.agentConversationService.getAgent(
+                  complete.agentId
+                )?.name,
+              }
+            );
+          };
+          store.services.agentConversationService.on(
+            "message:delta",
+            messageDeltaListener
+          );
+          store.services.agentConversationService.on(
+            "message:complete",
+            messageCompleteListener
+          );
+          eventListeners.set("message:delta", messageDeltaListener);
+          eventListeners.set("message:complete", messageCompleteListener);
+
           // Listen to collaboration events
           const collaborationStartedListener = async (session: any) => {
             sendWebSocketMessage(ws, ws.data.messageHistory, "system_message", {
@@ -917,8 +736,46 @@ initializeAISystem()
               await sendConversationHistory(ws, data.conversationId);
               // Subscribe to conversation updates
               ws.subscribe(`conversation:${data.conversationId}`);
+
+              // A display name joins as a named participant who can speak
+              if (data.displayName) {
+                try {
+                  const participant =
+                    await store.services.conversationParticipants.join(
+                      data.conversationId,
+                      { displayName: data.displayName }
+                    );
+                  ws.data.participantSessions.set(
+                    data.conversationId,
+                    participant.sessionId
+                  );
+                  sendWebSocketMessage(
+                    ws,
+                    ws.data.messageHistory,
+                    "participant_joined",
+                    participant
+                  );
+                } catch (error) {
+                  sendWebSocketMessage(ws, ws.data.messageHistory, "error", {
+                    message:
+                      error instanceof Error
+                        ? error.message
+                        : "Failed to join conversation",
+                  });
+                }
+              }
             } else if (data.type === "leave_conversation") {
               console.log("👋 User leaving conversation:", data.conversationId);
+              const sessionId = ws.data.participantSessions.get(
+                data.conversationId
+              );
+              if (sessionId) {
+                store.services.conversationParticipants.leave(
+                  data.conversationId,
+                  sessionId
+                );
+                ws.data.participantSessions.delete(data.conversationId);
+              }
               ws.data.activeConversations.delete(data.conversationId);
               ws.unsubscribe(`conversation:${data.conversationId}`);
               sendWebSocketMessage(
@@ -933,7 +790,24 @@ initializeAISystem()
               console.log("👤 User sent message:", data.content);
 
               try {
-                if (data.conversationId) {
+                const sessionId = ws.data.participantSessions.get(
+                  data.conversationId
+                );
+                if (sessionId) {
+                  // Named participants are rate limited and moderated
+                  const result =
+                    await store.services.conversationParticipants.sendMessage(
+                      data.conversationId,
+                      sessionId,
+                      data.content
+                    );
+                  sendWebSocketMessage(
+                    ws,
+                    ws.data.messageHistory,
+                    "participant_message",
+                    { conversationId: data.conversationId, ...result }
+                  );
+                } else if (data.conversationId) {
                   // If message is in a conversation, use the new handleUserMessage method
                   await store.services.agentConversationService.handleUserMessage(
                     data.conversationId,
@@ -1025,6 +899,15 @@ initializeAISystem()
           }
           ws.data.activeConversations.clear();
 
+          for (const [conversationId, sessionId] of ws.data
+            .participantSessions) {
+            store.services.conversationParticipants.leave(
+              conversationId,
+              sessionId
+            );
+          }
+          ws.data.participantSessions.clear();
+
           // Clean up event listeners
           if (ws.data.eventListeners) {
             for (const [event, listener] of ws.data.eventListeners.entries()) {
@@ -1033,11 +916,12 @@ initializeAISystem()
                   "donationReaction",
                   listener
                 );
-              } else if (event === "message:added") {
-                store.services.agentConversationService.off(
-                  "message:added",
-                  listener
-                );
+              } else if (
+                ["message:added", "message:delta", "message:complete"].includes(
+                  event
+                )
+              ) {
+                store.services.agentConversationService.off(event, listener);
               } else if (
                 [
                   "collaborationStarted",
@@ -1061,4 +945,13 @@ initializeAISystem()
     process.exit(1);
   });
 
-export type App = typeof app;
+// Flush state to the store and stop every service before exiting
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, saving city state...`);
+  await store.container.stop();
+  process.exit(0);
+};
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+export type { App } from "./app";
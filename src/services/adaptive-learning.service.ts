@@ -10,6 +10,7 @@ import { CityMetrics } from "../types/city-metrics";
 import { ConversationEvent } from "../types/conversation.types";
 import { DistrictEvent } from "../types/district.types";
 import { SocialPattern } from "../types/social-dynamics.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface DistrictLearningData {
   districtId: string;
@@ -81,6 +82,7 @@ interface LearningConfig {
 }
 
 export class AdaptiveLearningService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private readonly config: LearningConfig = {
     analysisWindow: 7 * 24 * 60 * 60 * 1000, // 1 week
     impactThreshold: 0.7,
@@ -125,7 +127,7 @@ export class AdaptiveLearningService extends EventEmitter {
     });
 
     // Start the learning cycle
-    setInterval(() => this.evolveCity(), 24 * 60 * 60 * 1000); // Daily adaptation cycle
+    this.timers.setInterval(() => this.evolveCity(), 24 * 60 * 60 * 1000); // Daily adaptation cycle
     this.setupEventListeners();
   }
 
@@ -902,4 +904,8 @@ export class AdaptiveLearningService extends EventEmitter {
       timestamp: Date.now(),
     });
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
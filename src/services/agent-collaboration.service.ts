@@ -1,7 +1,7 @@
 import { EventEmitter } from "events";
 import { Agent, AgentTraits } from "../types/agent.types";
 import { CityEvent, CityEventCategory } from "../types/city-events";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { VectorStoreService } from "./vector-store.service";
 import { getAgent } from "../config/city-agents";
 import { CityService } from "./city.service";
@@ -11,6 +11,7 @@ import _ from "lodash";
 import { CulturalEvent } from "../types/culture.types";
 import { AnalyticsService } from "./analytics.service";
 import { AIIntegrationService } from "./ai-integration.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 type VectorMetadataType =
   | "conversation"
@@ -85,6 +86,7 @@ interface CollaborationConfig {
 type AgentTrait = keyof AgentTraits;
 
 export class AgentCollaborationService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private activeSessions = new Map<string, CollaborationSession>();
   private responseCache = new Map<
     string,
@@ -105,7 +107,7 @@ export class AgentCollaborationService extends EventEmitter {
   };
 
   constructor(
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private vectorStore: VectorStoreService,
     private cityService: CityService,
     private analyticsService: AnalyticsService,
@@ -165,9 +167,9 @@ export class AgentCollaborationService extends EventEmitter {
   }
 
   private setupPeriodicMaintenance() {
-    setInterval(() => this.maintainSessions(), 60 * 60 * 1000); // Every hour
-    setInterval(() => this.monitorActiveSessions(), 5 * 60 * 1000); // Every 5 minutes
-    setInterval(() => this.cleanupCaches(), 15 * 60 * 1000); // Every 15 minutes
+    this.timers.setInterval(() => this.maintainSessions(), 60 * 60 * 1000); // Every hour
+    this.timers.setInterval(() => this.monitorActiveSessions(), 5 * 60 * 1000); // Every 5 minutes
+    this.timers.setInterval(() => this.cleanupCaches(), 15 * 60 * 1000); // Every 15 minutes
   }
 
   private setupEventHandlers() {
@@ -746,6 +748,7 @@ export class AgentCollaborationService extends EventEmitter {
           this.emit("collaborationCompleted", {
             sessionId,
             event,
+            agents: session.agents,
             decision,
             metrics: session.metrics,
             timestamp: Date.now(),
@@ -766,6 +769,7 @@ export class AgentCollaborationService extends EventEmitter {
         this.emit("collaborationFailed", {
           sessionId,
           event,
+          agents: session.agents,
           reason: "No consensus reached after maximum rounds",
           metrics: session.metrics,
           timestamp: Date.now(),
@@ -783,6 +787,7 @@ export class AgentCollaborationService extends EventEmitter {
       this.emit("collaborationFailed", {
         sessionId,
         event,
+        agents: session.agents,
         reason: error.message || "Unknown error occurred",
         metrics: session.metrics,
         timestamp: Date.now(),
@@ -1028,6 +1033,7 @@ export class AgentCollaborationService extends EventEmitter {
         this.emit("collaborationFailed", {
           sessionId,
           event: { id: session.eventId } as CityEvent,
+          agents: session.agents,
           reason: "Session timed out due to inactivity",
           metrics: session.metrics,
           timestamp: Date.now(),
@@ -1171,4 +1177,8 @@ export class AgentCollaborationService extends EventEmitter {
       }
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import { z } from "zod";
 import { Agent, AgentTraits } from "../types/agent.types";
 import {
   Message,
@@ -10,9 +11,22 @@ import { CityCoordinatorService } from "./city-coordinator.service";
 import { AIIntegrationService } from "./ai-integration.service";
 import { SocialDynamicsService } from "./social-dynamics.service";
 import { CultureService } from "./culture.service";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { DistrictService } from "./district.service";
+import { ConversationSchedulerService } from "./conversation-scheduler.service";
+import { AgentMemoryService } from "./agent-memory.service";
+import { AgentRelationshipService } from "./agent-relationship.service";
+import { PromptTemplateService } from "./prompt-template.service";
+import type { ParticipantMessageResult } from "../types/participant.types";
+import type { RenderedPrompt } from "../types/prompt-template.types";
 import crypto from "crypto";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+import { generateStructured } from "../utils/structured-generation";
 
 interface SystemProtocol {
   name: string;
@@ -38,6 +52,8 @@ interface ConversationContext {
     events: any[];
     traditions: any[];
   };
+  // Active city event the conversation was scheduled to talk about
+  eventId?: string;
 }
 
 export interface AgentConversation {
@@ -46,6 +62,7 @@ export interface AgentConversation {
   messages: Message[];
   topic: string;
   districtId: string;
+  eventId?: string;
   location: string;
   activity: string;
   startTime: number;
@@ -105,14 +122,55 @@ export interface AgentConversation {
   };
 }
 
-interface AgentActivity {
-  timeSlot: number;
-  activity: string;
+// What is kept of a conversation once it ends, for transcripts
+export interface ArchivedConversation {
+  id: string;
+  districtId: string;
+  eventId?: string;
+  topic: string;
+  topics: string[];
   location: string;
-  possibleTopics: string[];
-  socialProbability: number;
+  activity: string;
+  startTime: number;
+  endTime: number;
+  participants: Array<Pick<Agent, "id" | "name" | "role">>;
+  messages: Message[];
+  sentiment: number;
+  culturalContext: AgentConversation["culturalContext"];
+}
+
+// Emitted as "message:delta" for every chunk of a reply while it streams in
+export interface MessageDelta {
+  conversationId: string;
+  messageId: string;
+  agentId: string;
+  // Position of the chunk within the reply, starting at 0
+  index: number;
+  delta: string;
+}
+
+// Emitted as "message:complete" once a streamed reply has finished. A
+// discarded reply was rejected and is being generated again.
+export interface MessageComplete {
+  conversationId: string;
+  messageId: string;
+  agentId: string;
+  content: string;
+  discarded: boolean;
 }
 
+const AgentActivitySchema = z.object({
+  timeSlot: z.number().int().min(0).max(23),
+  activity: z.string().min(1),
+  location: z.string().min(1),
+  possibleTopics: z.array(z.string()),
+  socialProbability: z.number().min(0).max(1),
+});
+
+const RoutinesSchema = z.array(AgentActivitySchema).length(5);
+
+type AgentActivity = z.infer<typeof AgentActivitySchema>;
+
 interface AgentSocialProfile {
   friends: Set<string>;
   regularLocations: string[];
@@ -126,23 +184,23 @@ interface AgentSocialProfile {
   };
 }
 
-export class AgentConversationService extends EventEmitter {
+export class AgentConversationService
+  extends EventEmitter
+  implements PersistableService
+{
+  private readonly timers = new ServiceTimers();
+  readonly persistenceKey = "agent_conversations";
   private activeConversations: Map<string, AgentConversation> = new Map();
   private agentProfiles: Map<string, AgentSocialProfile> = new Map();
   private districtActivities: Map<string, Map<string, string[]>> = new Map();
   private registeredAgents: Map<string, Agent> = new Map();
-  private readonly maxConversationDuration = 20 * 60 * 1000; // 20 minutes
-  private readonly minConversationDuration = 10 * 60 * 1000; // 10 minutes minimum
-  private readonly messageInterval = 60000; // 30 seconds between messages
-  private readonly maxConcurrentConversations = 1; // Maximum concurrent conversations
-  private readonly minConversationCooldown = 60000; // 30 seconds cooldown between conversations
+  private readonly minConversationCooldown = 60000; // Per-agent cooldown between conversations
   private readonly TOPIC_EXHAUSTION_THRESHOLD = 5; // Number of messages before topic switch
   private readonly USER_MESSAGE_RESPONSE_DELAY = 2000; // 2 seconds delay between agent responses to user
-  private lastConversationTime: number = 0;
+  private readonly MAX_ARCHIVED_CONVERSATIONS = 500; // Ended conversations kept for transcripts
+  private archivedConversations: Map<string, ArchivedConversation> = new Map();
   private dailyAPICallCount: number = 0;
   private readonly maxDailyAPICalls: number = 100000; // Limit daily API calls
-  private readonly conversationStartHour: number = 0; // Start conversations at 8 AM
-  private readonly conversationEndHour: number = 24; // End conversations at 10 PM
   private messageCache: Map<string, { content: string; timestamp: number }> =
     new Map();
   private readonly cacheDuration = 24 * 60 * 60 * 1000; // 24 hours
@@ -194,7 +252,11 @@ export class AgentConversationService extends EventEmitter {
     await new Promise((resolve) => setTimeout(resolve, typingDuration));
   }
 
-  private async addMessage(conversationId: string, message: Message) {
+  // Resolves to whether the message made it into the conversation
+  private async addMessage(
+    conversationId: string,
+    message: Message
+  ): Promise<boolean> {
     // Only block messages from sentiment-analyzer agent
     if (!message.content || message.agentId === "sentiment-analyzer") {
       console.warn(
@@ -202,7 +264,7 @@ export class AgentConversationService extends EventEmitter {
         message.content,
         `(from ${message.agentId})`
       );
-      return;
+      return false;
     }
 
     const conversation = this.activeConversations.get(conversationId);
@@ -216,12 +278,12 @@ export class AgentConversationService extends EventEmitter {
       lastMessage &&
       lastMessage.agentId === message.agentId &&
       message.agentId !== "system" &&
-      message.agentId !== "user"
+      message.role !== "user"
     ) {
       console.warn(
         `Prevented agent ${message.agentId} from sending consecutive messages`
       );
-      return;
+      return false;
     }
 
     conversation.messages.push(message);
@@ -266,7 +328,9 @@ export class AgentConversationService extends EventEmitter {
         conversationId,
         message: {
           content: message.content,
-          agentName: this.getAgent(message.agentId)?.name,
+          agentName:
+            this.getAgent(message.agentId)?.name ??
+            message.metadata?.participantName,
           agentRole: this.getAgent(message.agentId)?.role,
           timestamp: message.timestamp,
         },
@@ -277,12 +341,28 @@ export class AgentConversationService extends EventEmitter {
     });
 
     this.emit("message:added", { conversationId, message });
+    return true;
   }
 
-  private async addMessageWithDelay(conversationId: string, message: Message) {
+  // Streamed replies are completed here, once it is known whether the
+  // message was kept, so listeners never finish a message that was dropped
+  private async addMessageWithDelay(
+    conversationId: string,
+    message: Message,
+    streamed: boolean = false
+  ) {
     // First validate the message content
     if (!this.isValidMessageContent(message.content)) {
       console.warn("Message content validation failed:", message.content);
+      if (streamed) {
+        this.completeStream(
+          conversationId,
+          message.id,
+          message.agentId,
+          message.content,
+          true
+        );
+      }
       return;
     }
 
@@ -292,16 +372,28 @@ export class AgentConversationService extends EventEmitter {
       2000 // Max 2 seconds
     );
 
-    // Add initial response delay
-    await new Promise((resolve) =>
-      setTimeout(resolve, this.messageDelayConfig.responseDelay)
-    );
+    // Streamed replies were already watched being typed
+    if (!streamed) {
+      // Add initial response delay
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.messageDelayConfig.responseDelay)
+      );
 
-    // Simulate typing
-    await this.simulateTyping(message.content.length);
+      // Simulate typing
+      await this.simulateTyping(message.content.length);
+    }
 
     // Add the message
-    await this.addMessage(conversationId, message);
+    const stored = await this.addMessage(conversationId, message);
+    if (streamed) {
+      this.completeStream(
+        conversationId,
+        message.id,
+        message.agentId,
+        message.content,
+        !stored
+      );
+    }
 
     // Add post-message delay
     await new Promise((resolve) => setTimeout(resolve, typingDelay));
@@ -333,7 +425,8 @@ export class AgentConversationService extends EventEmitter {
   private async createMessageObject(
     agentId: string,
     content: string,
-    role: "assistant" | "user" | "system" = "assistant"
+    role: "assistant" | "user" | "system" = "assistant",
+    id: string = `msg-${Date.now()}`
   ): Promise<Message | null> {
     // Validate content first
     if (!this.isValidMessageContent(content)) {
@@ -343,7 +436,7 @@ export class AgentConversationService extends EventEmitter {
     // Create message without sentiment if it's a system message
     if (role === "system") {
       return {
-        id: `msg-${Date.now()}`,
+        id,
         agentId,
         content,
         timestamp: Date.now(),
@@ -360,7 +453,7 @@ export class AgentConversationService extends EventEmitter {
     }
 
     return {
-      id: `msg-${Date.now()}`,
+      id,
       agentId,
       content,
       timestamp: Date.now(),
@@ -375,8 +468,12 @@ export class AgentConversationService extends EventEmitter {
     private aiIntegration: AIIntegrationService,
     private socialDynamics: SocialDynamicsService,
     private cultureService: CultureService,
-    private togetherService: TogetherService,
-    private districtService: DistrictService
+    private togetherService: LLMProvider,
+    private districtService: DistrictService,
+    private scheduler: ConversationSchedulerService,
+    private agentMemory: AgentMemoryService,
+    private relationships: AgentRelationshipService,
+    private promptTemplates: PromptTemplateService
   ) {
     super();
     this.initializeService().catch((error) => {
@@ -384,7 +481,7 @@ export class AgentConversationService extends EventEmitter {
     });
 
     // Set up daily reset at midnight
-    setInterval(() => {
+    this.timers.setInterval(() => {
       const now = new Date();
       if (now.getHours() === 0 && now.getMinutes() === 0) {
         this.resetDailyCounts();
@@ -392,6 +489,31 @@ export class AgentConversationService extends EventEmitter {
     }, 60 * 1000); // Check every minute
   }
 
+  exportState(): PersistedCollections {
+    return {
+      conversations: mapToRecord(this.activeConversations),
+      profiles: mapToRecord(this.agentProfiles),
+      counts: mapToRecord(this.agentConversationCounts),
+      quality: mapToRecord(this.conversationQualityScores),
+      archive: mapToRecord(this.archivedConversations),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.activeConversations = recordToMap<AgentConversation>(
+      state.conversations
+    );
+    this.agentProfiles = recordToMap<AgentSocialProfile>(state.profiles);
+    this.agentConversationCounts = recordToMap<{
+      count: number;
+      lastTime: number;
+    }>(state.counts);
+    this.conversationQualityScores = recordToMap<number>(state.quality);
+    this.archivedConversations = recordToMap<ArchivedConversation>(
+      state.archive
+    );
+  }
+
   public async registerAgent(agent: Agent): Promise<void> {
     this.registeredAgents.set(agent.id, agent);
 
@@ -400,6 +522,9 @@ export class AgentConversationService extends EventEmitter {
       this.generateInitialRoutines()
     );
 
+    // Keep profiles restored from the state store (friends, routines, history)
+    if (this.agentProfiles.has(agent.id)) return;
+
     this.agentProfiles.set(agent.id, {
       friends: new Set(),
       regularLocations: [
@@ -416,6 +541,55 @@ export class AgentConversationService extends EventEmitter {
     });
   }
 
+  public getArchivedConversation(
+    conversationId: string
+  ): ArchivedConversation | undefined {
+    return this.archivedConversations.get(conversationId);
+  }
+
+  public getArchivedConversations(): ArchivedConversation[] {
+    return Array.from(this.archivedConversations.values());
+  }
+
+  // Ends a live conversation now, the same way it ends on its own once
+  // it has run its course
+  public async concludeConversation(conversationId: string): Promise<void> {
+    const conversation = this.activeConversations.get(conversationId);
+    if (!conversation) return;
+    await this.endConversation(
+      conversationId,
+      await this.analyzeConversationState(conversation)
+    );
+  }
+
+  private archiveConversation(conversation: AgentConversation) {
+    this.archivedConversations.set(conversation.id, {
+      id: conversation.id,
+      districtId: conversation.districtId,
+      eventId: conversation.eventId,
+      topic: conversation.topic,
+      topics: conversation.topics,
+      location: conversation.location,
+      activity: conversation.activity,
+      startTime: conversation.startTime,
+      endTime: conversation.endTime ?? Date.now(),
+      participants: conversation.participants.map(({ id, name, role }) => ({
+        id,
+        name,
+        role,
+      })),
+      messages: [...conversation.messages],
+      sentiment: conversation.sentiment,
+      culturalContext: conversation.culturalContext,
+    });
+
+    // Maps keep insertion order, so the first key is the oldest
+    while (this.archivedConversations.size > this.MAX_ARCHIVED_CONVERSATIONS) {
+      const oldest = this.archivedConversations.keys().next().value!;
+      this.archivedConversations.delete(oldest);
+    }
+  }
+
   public async getActiveConversations(): Promise<AgentConversation[]> {
     return Array.from(this.activeConversations.values()).filter(
       (conv) => conv.status === "active"
@@ -523,10 +697,16 @@ export class AgentConversationService extends EventEmitter {
         topK: 1,
       });
 
-      // If we found existing routines, use them
+      // If we found valid stored routines, use them
       if (results.matches?.length > 0 && results.matches[0].metadata.routines) {
-        console.log("Found existing routines for agent:", agent.id);
-        return JSON.parse(results.matches[0].metadata.routines);
+        const stored = RoutinesSchema.safeParse(
+          JSON.parse(results.matches[0].metadata.routines)
+        );
+        if (stored.success) {
+          console.log("Found existing routines for agent:", agent.id);
+          return stored.data;
+        }
+        console.warn("Stored routines for agent", agent.id, "are invalid");
       }
 
       // If no routines found, wait 1 minute then generate new ones
@@ -541,7 +721,7 @@ export class AgentConversationService extends EventEmitter {
       RESPOND ONLY WITH A VALID JSON ARRAY. NO OTHER TEXT.
       Each object in array must have exactly these properties:
       {
-        "timeSlot": (number 0-23),
+        "timeSlot": (integer 0-23),
         "activity": (string),
         "location": (string),
         "possibleTopics": (array of strings),
@@ -549,59 +729,19 @@ export class AgentConversationService extends EventEmitter {
       }
       Generate exactly 5 activities.`;
 
-      let maxRetries = 5;
-      let retryCount = 0;
-      let routines = null;
-
-      while (retryCount < maxRetries && !routines) {
-        try {
-          const response = await this.togetherService.generateText(prompt);
-          const cleanedResponse = response
-            .replace(/```json/g, "")
-            .replace(/```/g, "")
-            .replace(/\n/g, "")
-            .replace(/\r/g, "")
-            .trim();
-
-          const parsedRoutines = JSON.parse(cleanedResponse);
-
-          // Validate the response format
-          if (!Array.isArray(parsedRoutines) || parsedRoutines.length !== 5) {
-            console.log(`Retry ${retryCount + 1}: Invalid array format`);
-            retryCount++;
-            continue;
-          }
-
-          // Validate each routine
-          const isValid = parsedRoutines.every((routine) =>
-            this.isValidRoutine(routine)
-          );
-          if (!isValid) {
-            console.log(`Retry ${retryCount + 1}: Invalid routine format`);
-            retryCount++;
-            continue;
-          }
-
-          routines = parsedRoutines;
-        } catch (error) {
-          console.log(
-            `Retry ${retryCount + 1}: Failed to parse response:`,
-            error
-          );
-          retryCount++;
-          if (retryCount === maxRetries) {
-            console.error("Max retries reached, using initial routines");
-            return this.generateInitialRoutines();
-          }
-          // Wait 2 seconds before retrying
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        }
-      }
-
-      if (!routines) {
-        console.error("Failed to generate valid routines after retries");
+      const result = await generateStructured(this.togetherService, {
+        prompt,
+        schema: RoutinesSchema,
+        maxAttempts: 5,
+      });
+      if (!result.ok) {
+        console.error(
+          `Using initial routines for agent ${agent.id}:`,
+          result.error.message
+        );
         return this.generateInitialRoutines();
       }
+      const routines = result.value;
 
       // Store the successful routines
       await this.vectorStore.upsert({
@@ -626,46 +766,6 @@ export class AgentConversationService extends EventEmitter {
     }
   }
 
-  private isValidRoutine(routine: any): boolean {
-    return (
-      typeof routine === "object" &&
-      typeof routine.timeSlot === "number" &&
-      routine.timeSlot >= 0 &&
-      routine.timeSlot <= 23 &&
-      typeof routine.activity === "string" &&
-      typeof routine.location === "string" &&
-      Array.isArray(routine.possibleTopics) &&
-      routine.possibleTopics.every(
-        (topic: unknown) => typeof topic === "string"
-      ) &&
-      typeof routine.socialProbability === "number" &&
-      routine.socialProbability >= 0 &&
-      routine.socialProbability <= 1
-    );
-  }
-
-  private validateAndFormatRoutines(aiRoutines: any[]): AgentActivity[] {
-    return aiRoutines
-      .filter(
-        (routine) =>
-          routine.timeSlot >= 0 &&
-          routine.timeSlot <= 23 &&
-          routine.activity &&
-          routine.location &&
-          Array.isArray(routine.possibleTopics) &&
-          typeof routine.socialProbability === "number" &&
-          routine.socialProbability >= 0 &&
-          routine.socialProbability <= 1
-      )
-      .map((routine) => ({
-        timeSlot: routine.timeSlot,
-        activity: routine.activity,
-        location: routine.location,
-        possibleTopics: routine.possibleTopics,
-        socialProbability: routine.socialProbability,
-      }));
-  }
-
   private async initializeService() {
     try {
       const { residentAgents, cityManagementAgents } = await import(
@@ -697,12 +797,12 @@ export class AgentConversationService extends EventEmitter {
       }
 
       // Set up periodic conversation generation
-      setInterval(() => {
+      this.timers.setInterval(() => {
         this.generateNaturalConversations().catch(console.error);
       }, 30000);
 
       // Continue active conversations frequently
-      setInterval(() => {
+      this.timers.setInterval(() => {
         this.continueActiveConversations().catch(console.error);
       }, 15000);
     } catch (error) {
@@ -735,99 +835,94 @@ export class AgentConversationService extends EventEmitter {
         }
       );
 
-      if (availableAgents.length < 2) {
-        console.log("⏳ Not enough available agents within limits");
-        return;
-      }
-
-      const currentHour = new Date().getHours();
-      if (
-        currentHour < this.conversationStartHour ||
-        currentHour >= this.conversationEndHour
-      ) {
-        console.log("⏰ Outside conversation hours");
-        return;
-      }
-
-      const timeSinceLastConversation = Date.now() - this.lastConversationTime;
-      if (timeSinceLastConversation < this.minConversationCooldown) {
-        console.log("⏳ Conversation cooldown active");
-        return;
-      }
-
-      // Check concurrent conversations limit
-      const activeConversationsCount = Array.from(
-        this.activeConversations.values()
-      ).filter((conv) => conv.status === "active").length;
-
-      if (activeConversationsCount >= this.maxConcurrentConversations) {
-        console.log(
-          `⚠️ Max concurrent conversations (${this.maxConcurrentConversations}) reached`
-        );
-        return;
-      }
-
-      // Get the Downtown District
-      const district = await this.districtService.getDistrict(
-        "a42ed892-3878-45a5-9a1a-4ceaf9524f1c"
-      );
-      if (!district) {
-        console.error(" District not found");
-        return;
-      }
-
-      // Get all registered agents that aren't in active conversations
+      // Agents already talking can't join another conversation
       const activeAgentIds = new Set(
         Array.from(this.activeConversations.values())
           .filter((conv) => conv.status === "active")
           .flatMap((conv) => conv.participants.map((p) => p.id))
       );
+      const idleAgents = availableAgents
+        .filter((agent) => !activeAgentIds.has(agent.id))
+        .sort(() => Math.random() - 0.5);
 
-      if (availableAgents.length < 2) {
-        console.log("⏳ Not enough available agents for new conversations");
+      if (idleAgents.length < 2) {
+        console.log("⏳ Not enough available agents within limits");
         return;
       }
 
-      // Select 2-3 random agents for conversation
-      const participants = availableAgents
-        .sort(() => Math.random() - 0.5)
-        .slice(0, 2 + Math.floor(Math.random() * 2));
+      // Per-district concurrency, quiet hours and event priority
+      const slots = await this.scheduler.planSlots(
+        Array.from(this.activeConversations.values())
+      );
+      if (slots.length === 0) {
+        console.log("⏳ No conversation slots free in any district");
+        return;
+      }
 
-      // Determine activity and location
       const activities = [
         "morning_coffee",
         "lunch_break",
         "evening_leisure",
         "cultural_event",
       ];
-      const activity =
-        activities[Math.floor(Math.random() * activities.length)];
-      const location = this.determineConversationLocation(activity);
 
-      // Get cultural and social context
-      const culturalContext = await this.cultureService.getDistrictCulture(
-        district.id
-      );
-      const socialMood = await this.socialDynamics.getCommunityMood(
-        district.id
-      );
+      for (const slot of slots) {
+        if (idleAgents.length < 2) break;
 
-      // Start the conversation
-      const context: ConversationContext = {
-        districtId: district.id,
-        activity,
-        culturalContext,
-        socialMood,
-      };
+        const district = await this.districtService.getDistrict(
+          slot.districtId
+        );
+        if (!district) continue;
+
+        // Select 2-3 idle agents who get along for conversation
+        const participants = this.relationships
+          .pickParticipants(
+            idleAgents.map((agent) => agent.id),
+            2 + Math.floor(Math.random() * 2)
+          )
+          .map((id) => idleAgents.find((agent) => agent.id === id)!);
+        if (participants.length < 2) break;
+        for (const participant of participants) {
+          idleAgents.splice(idleAgents.indexOf(participant), 1);
+        }
 
-      await this.startContextualConversation(
-        participants.map((a) => a.id),
-        context
-      );
-      console.log(
-        `🤝 Started natural conversation with ${participants.length} agents:`,
-        participants.map((a) => a.name).join(", ")
-      );
+        const activity =
+          activities[Math.floor(Math.random() * activities.length)];
+
+        // Get cultural and social context
+        const culturalContext = await this.cultureService.getDistrictCulture(
+          district.id
+        );
+        const socialMood = await this.socialDynamics.getCommunityMood(
+          district.id
+        );
+
+        // Leading with the event makes it the conversation topic
+        const context: ConversationContext = {
+          districtId: district.id,
+          activity,
+          culturalContext: slot.event
+            ? {
+                ...culturalContext,
+                events: [
+                  { ...slot.event, type: "city_event" },
+                  ...culturalContext.events,
+                ],
+              }
+            : culturalContext,
+          socialMood,
+          eventId: slot.event?.id,
+        };
+
+        await this.startContextualConversation(
+          participants.map((a) => a.id),
+          context
+        );
+        console.log(
+          `🤝 Started natural conversation in ${district.name} with ${participants.length} agents:`,
+          participants.map((a) => a.name).join(", ")
+        );
+      }
     } catch (error) {
       console.error("❌ Error generating natural conversation:", error);
     }
@@ -848,7 +943,12 @@ export class AgentConversationService extends EventEmitter {
 
   private async storeConversationInVectorDB(conversation: AgentConversation) {
     const conversationText = conversation.messages
-      .map((m) => `${this.getAgentName(m.agentId)}: ${m.content}`)
+      .map(
+        (m) =>
+          `${m.metadata?.participantName || this.getAgentName(m.agentId)}: ${
+            m.content
+          }`
+      )
       .join("\n");
 
     await this.vectorStore.upsert({
@@ -856,6 +956,7 @@ export class AgentConversationService extends EventEmitter {
       values: await this.vectorStore.createEmbedding(conversationText),
       metadata: {
         type: "conversation",
+        conversationId: conversation.id,
         districtId: conversation.districtId,
         location: conversation.location,
         activity: conversation.activity,
@@ -899,19 +1000,22 @@ export class AgentConversationService extends EventEmitter {
 
   private startLifeCycles() {
     // Update agent activities every 5 minutes
-    setInterval(() => this.updateAgentActivities(), 5 * 60 * 1000);
+    this.timers.setInterval(() => this.updateAgentActivities(), 5 * 60 * 1000);
 
     // Generate natural conversations every 10 minutes
-    setInterval(() => this.generateNaturalConversations(), 10 * 60 * 1000);
+    this.timers.setInterval(
+      () => this.generateNaturalConversations(),
+      10 * 60 * 1000
+    );
 
     // Update social networks every hour
-    setInterval(() => this.updateSocialNetworks(), 60 * 60 * 1000);
+    this.timers.setInterval(() => this.updateSocialNetworks(), 60 * 60 * 1000);
 
     // Process ongoing conversations every minute
-    setInterval(() => this.updateOngoingConversations(), 60 * 1000);
+    this.timers.setInterval(() => this.updateOngoingConversations(), 60 * 1000);
 
     // Reset daily API call count at midnight
-    setInterval(() => {
+    this.timers.setInterval(() => {
       const now = new Date();
       if (now.getHours() === 0 && now.getMinutes() === 0) {
         this.dailyAPICallCount = 0;
@@ -1052,7 +1156,7 @@ export class AgentConversationService extends EventEmitter {
         );
       }
 
-      this.lastConversationTime = Date.now();
+      this.scheduler.recordStart(context.districtId);
       this.dailyAPICallCount++;
 
       const conversationId = `conv-${Date.now()}`;
@@ -1066,6 +1170,7 @@ export class AgentConversationService extends EventEmitter {
         topic: this.generateContextualTopic(context),
         topics: [this.generateContextualTopic(context)],
         districtId: context.districtId,
+        eventId: context.eventId,
         location: this.determineConversationLocation(context.activity),
         activity: context.activity,
         startTime: Date.now(),
@@ -1183,7 +1288,7 @@ export class AgentConversationService extends EventEmitter {
         conversation.messages.length > 1 &&
         conversation.participants.length > 1
       ) {
-        setTimeout(() => {
+        this.timers.setTimeout(() => {
           this.continueConversation(conversation).catch(console.error);
         }, 30000);
       }
@@ -1302,7 +1407,7 @@ export class AgentConversationService extends EventEmitter {
       const context = await this.getEnvironmentalContext(conversation);
 
       // Generate enhanced system prompt with rich context
-      const systemPrompt = await this.generateEnhancedSystemPrompt(
+      const prompt = await this.generateEnhancedSystemPrompt(
         nextSpeaker,
         conversation,
         state,
@@ -1314,26 +1419,38 @@ export class AgentConversationService extends EventEmitter {
         setTimeout(resolve, this.messageDelayConfig.minDelay)
       );
 
+      const messageId = `msg-${Date.now()}`;
       const response = await this.generateEnhancedResponse(
         nextSpeaker,
         conversation,
-        systemPrompt,
-        state
+        prompt.text,
+        state,
+        messageId
       );
+      this.promptTemplates.recordOutput(messageId, prompt);
 
       const messageObj = await this.createMessageObject(
         nextSpeaker.id,
-        response
+        response,
+        "assistant",
+        messageId
       );
       if (!messageObj) {
         console.warn(
           "Failed to create valid message object for response:",
           response
         );
+        this.completeStream(
+          conversation.id,
+          messageId,
+          nextSpeaker.id,
+          response,
+          true
+        );
         return;
       }
 
-      await this.addMessageWithDelay(conversation.id, messageObj);
+      await this.addMessageWithDelay(conversation.id, messageObj, true);
 
       // Get remaining participants who haven't spoken recently
       const remainingParticipants = conversation.participants.filter(
@@ -1349,7 +1466,7 @@ export class AgentConversationService extends EventEmitter {
       );
 
       if (remainingParticipants.length > 0) {
-        setTimeout(() => {
+        this.timers.setTimeout(() => {
           this.continueConversation(conversation).catch(console.error);
         }, nextDelay);
       }
@@ -1559,15 +1676,28 @@ export class AgentConversationService extends EventEmitter {
       positiveInteractions.forEach((interaction) => {
         profile.friends.add(interaction.agentId);
       });
+
+      // Agents who have grown close over time count as friends too
+      for (const relationship of this.relationships.getRelationships(agentId)) {
+        if (relationship.affinity >= 0.5) {
+          profile.friends.add(
+            relationship.agentIds.find((id) => id !== agentId)!
+          );
+        }
+      }
     }
   }
 
   private async updateOngoingConversations() {
     for (const conversation of this.activeConversations.values()) {
       if (conversation.status === "active") {
+        const policy = this.scheduler.getDistrictPolicy(
+          conversation.districtId
+        );
+
         // Check if conversation should end
         const duration = Date.now() - conversation.startTime;
-        if (duration > this.maxConversationDuration) {
+        if (duration > policy.maxConversationDurationMs) {
           const state = await this.analyzeConversationState(conversation);
           await this.endConversation(conversation.id, state);
           continue;
@@ -1575,7 +1705,7 @@ export class AgentConversationService extends EventEmitter {
 
         // Continue conversation if enough time has passed since last message
         const timeSinceLastUpdate = Date.now() - conversation.lastUpdateTime;
-        if (timeSinceLastUpdate > this.messageInterval) {
+        if (timeSinceLastUpdate > policy.messageIntervalMs) {
           await this.continueConversation(conversation);
         }
       }
@@ -1602,9 +1732,8 @@ export class AgentConversationService extends EventEmitter {
   }
 
   private selectInteractionGroup(agents: string[], activity: string): string[] {
-    const groupSize = Math.min(3, agents.length);
     const shuffled = [...agents].sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, groupSize);
+    return this.relationships.pickParticipants(shuffled, 3);
   }
 
   private determineConversationLocation(activity: string): string {
@@ -1797,64 +1926,65 @@ export class AgentConversationService extends EventEmitter {
     conversation: AgentConversation,
     state: ConversationState,
     context: any
-  ): Promise<string> {
-    return `You are ${speaker.name}, a ${
-      speaker.role
-    } in Neurova City. This is a natural conversation happening right now in ${
-      conversation.location
-    }.
-
-Current Situation:
-You're ${conversation.activity} while discussing ${
-      conversation.topic
-    }. The environment is ${
-      context.noise > 0.7
-        ? "quite noisy"
-        : context.noise < 0.3
-        ? "quiet"
-        : "moderately active"
-    } with ${
-      context.crowding > 0.7
-        ? "many people around"
-        : context.crowding < 0.3
-        ? "few people present"
-        : "a moderate number of people"
-    }.
-
-Your Background:
-${speaker.personality}
-You have expertise in ${
-      speaker.role
-    } and are known for your contributions to Neurova City's development.
-
-Conversation Flow:
-- The discussion has reached a depth of ${state.conversationDepth.toFixed(2)}
-- Your engagement level is ${
-      state.participantEngagement.get(speaker.id)?.toFixed(2) || "0.00"
-    }
-- The group's dynamic shows ${
-      state.emotionalDynamics.tension > 0.7 ? "some tension" : "good harmony"
-    }
-- There's ${
-      state.emotionalDynamics.agreement > 0.7
-        ? "strong agreement"
-        : "ongoing discussion"
-    } among participants
-
-Recent Topics Discussed:
-${state.topicHistory
-  .slice(-3)
-  .map((t) => `- ${t.topic}`)
+  ): Promise<RenderedPrompt> {
+    const memories = this.agentMemory.recall(speaker.id, {
+      topic: conversation.topic,
+      withAgentIds: conversation.participants
+        .filter((participant) => participant.id !== speaker.id)
+        .map((participant) => participant.id),
+    });
+    const rememberedSection =
+      memories.length > 0
+        ? `
+What You Remember:
+${memories
+  .map(
+    (memory) =>
+      `- ${memory.content}${
+        memory.said.length > 0
+          ? ` (you said: "${memory.said.join('" / "')}")`
+          : ""
+      }`
+  )
   .join("\n")}
+Don't repeat what you have already said; build on it or bring something new.
+`
+        : "";
 
-Response Guidelines:
-1. Speak naturally as yourself, focusing on the current discussion
-2. Share your professional insights when relevant
-3. React to others' points and build on them
-4. Consider the current environment and activity
-5. Keep the conversation flowing naturally
-
-Important: You are having a real conversation in Neurova City. Don't narrate actions or describe the scene - just engage naturally in the discussion as you would in real life. Focus on the topic and respond to others' points directly.`;
+    return this.promptTemplates.render("agent-conversation-system", {
+      name: speaker.name,
+      role: speaker.role,
+      location: conversation.location,
+      activity: conversation.activity,
+      topic: conversation.topic,
+      environment:
+        context.noise > 0.7
+          ? "quite noisy"
+          : context.noise < 0.3
+          ? "quiet"
+          : "moderately active",
+      crowd:
+        context.crowding > 0.7
+          ? "many people around"
+          : context.crowding < 0.3
+          ? "few people present"
+          : "a moderate number of people",
+      personality: speaker.personality,
+      conversationDepth: state.conversationDepth.toFixed(2),
+      engagement:
+        state.participantEngagement.get(speaker.id)?.toFixed(2) || "0.00",
+      groupDynamic:
+        state.emotionalDynamics.tension > 0.7 ? "some tension" : "good harmony",
+      agreement:
+        state.emotionalDynamics.agreement > 0.7
+          ? "strong agreement"
+          : "ongoing discussion",
+      recentTopics: state.topicHistory
+        .slice(-3)
+        .map((t) => `- ${t.topic}`)
+        .join("\n"),
+      memories: rememberedSection,
+    });
   }
 
   private async analyzeConversationState(
@@ -2611,9 +2741,10 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
     this.conversationQualityScores.set(conversation.id, qualityScore);
 
     // Update the conversation ending conditions
+    const policy = this.scheduler.getDistrictPolicy(conversation.districtId);
     const conversationDuration = Date.now() - conversation.startTime;
     const hasReachedMinDuration =
-      conversationDuration >= this.minConversationDuration;
+      conversationDuration >= policy.minConversationDurationMs;
 
     if (
       hasReachedMinDuration &&
@@ -2622,7 +2753,7 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         (state.emotionalDynamics.agreement > 0.7 ||
           state.emotionalDynamics.tension > 0.8)) ||
         conversation.messageCount >= 100 ||
-        conversationDuration >= this.maxConversationDuration ||
+        conversationDuration >= policy.maxConversationDurationMs ||
         (conversation.silenceProbability > 0.95 &&
           conversation.messageCount > 15 &&
           state.emotionalDynamics.agreement > 0.8) ||
@@ -2632,7 +2763,7 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
           conversation.contextualRelevance < 0.3))
     ) {
       const reason =
-        conversationDuration >= this.maxConversationDuration
+        conversationDuration >= policy.maxConversationDurationMs
           ? "reached maximum duration"
           : conversation.messageCount >= 100
           ? "reached maximum length"
@@ -2772,19 +2903,15 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         setTimeout(resolve, this.messageDelayConfig.responseDelay)
       );
 
-      await new Promise((resolve) => setTimeout(resolve, 60000)); // Wait 1 minute
-      const response = await this.togetherService.generateResponse(
-        agent,
-        conversation.messages,
-        systemPrompt
-      );
-
-      // Simulate typing time
-      await this.simulateTyping(response.length);
+      // The reply reaches listeners as it streams in instead of after a typing pause
+      const messageId = `msg-${Date.now()}`;
+      const response = (
+        await this.streamReply(agent, conversation, systemPrompt, messageId)
+      ).trim();
 
       // Create and add agent's response message
       const responseMessage: Message = {
-        id: `msg-${Date.now()}`,
+        id: messageId,
         agentId: agent.id,
         content: response,
         timestamp: Date.now(),
@@ -2792,7 +2919,14 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         sentiment: await this.vectorStore.analyzeSentiment(response),
         topics: conversation.topics,
       };
-      await this.addMessage(conversationId, responseMessage);
+      const stored = await this.addMessage(conversationId, responseMessage);
+      this.completeStream(
+        conversationId,
+        messageId,
+        agent.id,
+        response,
+        !stored
+      );
 
       // Broadcast the response with conversation context
       this.districtService.broadcastMessage(districtId, {
@@ -2888,18 +3022,20 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
     speaker: Agent,
     conversation: AgentConversation,
     systemPrompt: string,
-    state: ConversationState
+    state: ConversationState,
+    messageId: string
   ): Promise<string> {
     const maxRetries = 3;
     let response: string | undefined;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        response = await this.togetherService.generateResponse(
+        response = await this.streamReply(
           speaker,
-          conversation.messages,
+          conversation,
           systemPrompt +
-            "\n\nIMPORTANT: Respond naturally as your character. Do not output sentiment scores or analysis. Just have a normal conversation."
+            "\n\nIMPORTANT: Respond naturally as your character. Do not output sentiment scores or analysis. Just have a normal conversation.",
+          messageId
         );
 
         // Check if response is valid
@@ -2910,11 +3046,21 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
               `Attempt ${attempt}: Response was just a number, retrying...`,
               response
             );
+            this.completeStream(
+              conversation.id,
+              messageId,
+              speaker.id,
+              response,
+              true
+            );
             continue;
           }
+          // Completed by addMessageWithDelay once the reply is stored
           break;
         }
 
+        this.completeStream(conversation.id, messageId, speaker.id, "", true);
+
         console.warn(
           `Invalid response format on attempt ${attempt}:`,
           response
@@ -2925,6 +3071,7 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
           `Error generating response on attempt ${attempt}:`,
           error
         );
+        this.completeStream(conversation.id, messageId, speaker.id, "", true);
         if (attempt === maxRetries) throw error;
         await new Promise((resolve) => setTimeout(resolve, 5000));
       }
@@ -2933,6 +3080,50 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
     return response?.trim() || "I'm not sure how to respond to that.";
   }
 
+  // Streams a reply from the LLM and announces every chunk as "message:delta"
+  private async streamReply(
+    speaker: Agent,
+    conversation: AgentConversation,
+    systemPrompt: string,
+    messageId: string
+  ): Promise<string> {
+    let content = "";
+    let index = 0;
+    for await (const delta of this.togetherService.streamResponse(
+      speaker,
+      conversation.messages,
+      systemPrompt
+    )) {
+      content += delta;
+      const event: MessageDelta = {
+        conversationId: conversation.id,
+        messageId,
+        agentId: speaker.id,
+        index: index++,
+        delta,
+      };
+      this.emit("message:delta", event);
+    }
+    return content;
+  }
+
+  private completeStream(
+    conversationId: string,
+    messageId: string,
+    agentId: string,
+    content: string,
+    discarded: boolean = false
+  ) {
+    const event: MessageComplete = {
+      conversationId,
+      messageId,
+      agentId,
+      content: content.trim(),
+      discarded,
+    };
+    this.emit("message:complete", event);
+  }
+
   private getRelevantMessageIds(conversation: AgentConversation): string[] {
     return conversation.messages
       .slice(-5) // Get last 5 messages for context
@@ -2951,7 +3142,7 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
 
     // Immediately mark as ended to prevent multiple endings
     conversation.status = "ended";
-    this.activeConversations.delete(conversationId);
+    conversation.endTime = Date.now();
 
     try {
       // Update final metrics
@@ -2976,21 +3167,29 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         topics: state.topics,
       };
       await this.addMessage(conversationId, systemMessage);
-
-      // Emit conversation ended event with final metrics (only once)
-      this.emit("conversationEnded", {
-        conversationId,
-        duration: Date.now() - conversation.startTime,
-        messageCount: conversation.messages.length,
-        finalMetrics: {
-          depth: state.conversationDepth,
-          quality: this.conversationQualityScores.get(conversationId) || 0,
-          emotionalDynamics: state.emotionalDynamics,
-        },
-      });
     } catch (error) {
       console.error("Error ending conversation:", error);
     }
+
+    // Removed only now so the closing system message still reaches it
+    this.activeConversations.delete(conversationId);
+    this.archiveConversation(conversation);
+    this.relationships.recordConversation(conversation);
+    this.agentMemory
+      .recordConversation(conversation)
+      .catch((error) => console.error("Failed to record memories:", error));
+
+    // Emit conversation ended event with final metrics (only once)
+    this.emit("conversationEnded", {
+      conversationId,
+      duration: Date.now() - conversation.startTime,
+      messageCount: conversation.messages.length,
+      finalMetrics: {
+        depth: state.conversationDepth,
+        quality: this.conversationQualityScores.get(conversationId) || 0,
+        emotionalDynamics: state.emotionalDynamics,
+      },
+    });
   }
 
   private calculateTopicContinuity(conversation: AgentConversation): number {
@@ -3105,6 +3304,7 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         type: "conversation_message",
         conversationId: metadata.conversationId,
         agentId: message.agentId,
+        participantName: message.metadata?.participantName,
         content: message.content,
         sentiment: message.sentiment?.toString(),
         topics: message.topics?.join(","),
@@ -3164,24 +3364,33 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
       if (!agent) continue;
 
       // Add delay between responses
-      await new Promise((resolve) => setTimeout(resolve, this.messageInterval));
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          this.scheduler.getDistrictPolicy(conversation.districtId)
+            .messageIntervalMs
+        )
+      );
 
-      const systemPrompt = await this.generateEnhancedSystemPrompt(
+      const prompt = await this.generateEnhancedSystemPrompt(
         agent,
         conversation,
         state,
         await this.getEnvironmentalContext(conversation)
       );
 
+      const messageId = `msg-${Date.now()}`;
       const response = await this.generateEnhancedResponse(
         agent,
         conversation,
-        systemPrompt,
-        state
+        prompt.text,
+        state,
+        messageId
       );
+      this.promptTemplates.recordOutput(messageId, prompt);
 
       const responseMessage: Message = {
-        id: `msg-${Date.now()}`,
+        id: messageId,
         agentId: agent.id,
         content: response,
         timestamp: Date.now(),
@@ -3189,7 +3398,102 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         sentiment: await this.vectorStore.analyzeSentiment(response),
       };
 
-      await this.addMessageWithDelay(conversationId, responseMessage);
+      await this.addMessageWithDelay(conversationId, responseMessage, true);
+    }
+  }
+
+  // Adds a resident's message, then has the agents they mentioned (or 1-2
+  // others when nobody was mentioned) reply to them in the background
+  public async addParticipantMessage(
+    conversationId: string,
+    participant: { id: string; displayName: string },
+    content: string,
+    mentions: string[]
+  ): Promise<ParticipantMessageResult> {
+    const conversation = this.activeConversations.get(conversationId);
+    if (!conversation || conversation.status !== "active") {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const message = await this.createMessageObject(
+      participant.id,
+      content,
+      "user",
+      `msg-${crypto.randomUUID()}`
+    );
+    if (!message) {
+      throw new Error("Message content is not valid");
+    }
+    message.metadata = { participantName: participant.displayName, mentions };
+    await this.addMessage(conversationId, message);
+
+    const respondingAgents =
+      mentions.length > 0
+        ? mentions
+        : this.selectRespondingAgents(conversation, 1, 2);
+    this.replyToParticipant(
+      conversation,
+      participant,
+      message,
+      respondingAgents
+    ).catch((error) => console.error("Error replying to participant:", error));
+
+    return { messageId: message.id, mentions, respondingAgents };
+  }
+
+  private async replyToParticipant(
+    conversation: AgentConversation,
+    participant: { id: string; displayName: string },
+    message: Message,
+    respondingAgents: string[]
+  ) {
+    for (const agentId of respondingAgents) {
+      const agent = this.getAgent(agentId);
+      if (!agent || conversation.status !== "active") continue;
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.USER_MESSAGE_RESPONSE_DELAY)
+      );
+
+      const state = await this.analyzeConversationState(conversation);
+      const addressed = message.metadata?.mentions?.includes(agent.id);
+      const prompt = await this.generateEnhancedSystemPrompt(
+        agent,
+        conversation,
+        state,
+        await this.getEnvironmentalContext(conversation)
+      );
+      const systemPrompt = `${prompt.text}
+
+Replying to a Resident:
+${participant.displayName}, a resident taking part in this conversation, ${
+        addressed ? "addressed you directly" : "just said"
+      }: "${message.content}"
+Answer ${participant.displayName} by name and respond to what they said.`;
+
+      const messageId = `msg-${crypto.randomUUID()}`;
+      const response = await this.generateEnhancedResponse(
+        agent,
+        conversation,
+        systemPrompt,
+        state,
+        messageId
+      );
+      this.promptTemplates.recordOutput(messageId, prompt);
+
+      await this.addMessageWithDelay(
+        conversation.id,
+        {
+          id: messageId,
+          agentId: agent.id,
+          content: response,
+          timestamp: Date.now(),
+          role: "assistant",
+          sentiment: await this.vectorStore.analyzeSentiment(response),
+          metadata: { inReplyTo: message.id },
+        },
+        true
+      );
     }
   }
 
@@ -3280,15 +3584,17 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
         );
 
         // Generate and add agent's response to the system message
+        const messageId = `msg-${Date.now()}`;
         const response = await this.generateEnhancedResponse(
           agent,
           conversation,
           `${prompt}\n\nRespond in the voice of ${agent.name}, ${agent.role}, who is ${agent.personality}.`,
-          await this.analyzeConversationState(conversation)
+          await this.analyzeConversationState(conversation),
+          messageId
         );
 
         const agentMessage: Message = {
-          id: `msg-${Date.now()}`,
+          id: messageId,
           agentId: agent.id,
           content: response,
           timestamp: Date.now(),
@@ -3297,8 +3603,12 @@ Important: You are having a real conversation in Neurova City. Don't narrate act
           topics: [],
         };
 
-        await this.addMessageWithDelay(conversation.id, agentMessage);
+        await this.addMessageWithDelay(conversation.id, agentMessage, true);
       }
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
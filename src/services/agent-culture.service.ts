@@ -5,6 +5,7 @@ import { VectorStoreService } from "./vector-store.service";
 import { CulturalEvent, CulturalMetrics } from "../types/culture.types";
 import { District } from "../types/district.types";
 import _ from "lodash";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface CulturalContext {
   traditions: Array<{
@@ -76,6 +77,7 @@ interface VectorStoreMatch {
 }
 
 export class AgentCultureService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private culturalInteractions: Map<string, CulturalInteraction[]> = new Map();
   private districtContextCache: Map<
     string,
@@ -103,7 +105,10 @@ export class AgentCultureService extends EventEmitter {
     );
 
     // Start periodic tasks
-    setInterval(() => this.refreshCulturalContexts(), this.CACHE_DURATION);
+    this.timers.setInterval(
+      () => this.refreshCulturalContexts(),
+      this.CACHE_DURATION
+    );
   }
 
   async enrichAgentContext(
@@ -969,4 +974,8 @@ export class AgentCultureService extends EventEmitter {
       console.error("Error updating agent interactions:", error);
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -0,0 +1,316 @@
+import crypto from "crypto";
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type { LLMProvider } from "../types/llm.types";
+import type {
+  AgentMemory,
+  AgentMemoryConfig,
+  MemoryKind,
+  MemoryRecallQuery,
+  RecalledMemory,
+} from "../types/agent-memory.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+import { SimulationClock } from "./simulation-clock.service";
+
+export function loadAgentMemoryConfig(
+  env: Record<string, string | undefined> = process.env
+): AgentMemoryConfig {
+  const hours = (value: string | undefined, fallback: number) =>
+    (value ? parseFloat(value) : fallback) * 60 * 60 * 1000;
+  return {
+    episodicHalfLifeMs: hours(env.AGENT_MEMORY_HALF_LIFE_HOURS, 48),
+    semanticHalfLifeMs: hours(env.AGENT_MEMORY_SEMANTIC_HALF_LIFE_HOURS, 336),
+    forgetThreshold: env.AGENT_MEMORY_FORGET_THRESHOLD
+      ? parseFloat(env.AGENT_MEMORY_FORGET_THRESHOLD)
+      : 0.05,
+    maintenanceIntervalMs: 60 * 60 * 1000,
+    summaryBatchSize: 5,
+    maxSaidPerMemory: 3,
+  };
+}
+
+// The parts of an ended conversation an agent remembers
+export interface RememberedConversation {
+  id: string;
+  districtId: string;
+  topic: string;
+  location: string;
+  participants: Agent[];
+  messages: Message[];
+  // 0-1, 0.5 is neutral
+  sentiment: number;
+}
+
+const MAX_SAID_LENGTH = 160;
+// Episodes kept for agents created without a memoryWindowSize
+const DEFAULT_MEMORY_WINDOW = 10;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const truncate = (text: string) =>
+  text.length > MAX_SAID_LENGTH
+    ? `${text.slice(0, MAX_SAID_LENGTH - 3).trimEnd()}...`
+    : text;
+
+// Per-agent long-term memory: every ended conversation leaves an episodic
+// memory for each agent that spoke, the oldest episodes beyond the agent's
+// memoryWindowSize are summarised into semantic facts, and memories fade
+// unless recalled until they are forgotten
+export class AgentMemoryService implements PersistableService {
+  readonly persistenceKey = "agent_memories";
+  private readonly timers = new ServiceTimers();
+  private memories: Map<string, AgentMemory> = new Map();
+  private summarising: Set<string> = new Set();
+
+  constructor(
+    private llm: LLMProvider,
+    private readonly clock: SimulationClock,
+    readonly config: AgentMemoryConfig = loadAgentMemoryConfig()
+  ) {
+    this.timers.setInterval(
+      () => this.forgetFaded(),
+      this.config.maintenanceIntervalMs
+    );
+  }
+
+  exportState(): PersistedCollections {
+    return { memories: mapToRecord(this.memories) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.memories = recordToMap<AgentMemory>(state.memories);
+  }
+
+  async recordConversation(conversation: RememberedConversation) {
+    const now = this.clock.now();
+    for (const agent of conversation.participants) {
+      const said = conversation.messages
+        .filter(
+          (message) => message.agentId === agent.id && message.role !== "system"
+        )
+        .map((message) => truncate(message.content.trim()));
+      if (said.length === 0) continue;
+
+      const others = conversation.participants.filter(
+        (other) => other.id !== agent.id
+      );
+      const memory: AgentMemory = {
+        id: `mem-${crypto.randomUUID()}`,
+        agentId: agent.id,
+        kind: "episodic",
+        content: `Talked with ${
+          others.map((other) => other.name).join(", ") || "no one"
+        } about ${conversation.topic} at ${conversation.location}${
+          conversation.sentiment > 0.65
+            ? ", and it went well"
+            : conversation.sentiment < 0.35
+            ? ", and it was tense"
+            : ""
+        }`,
+        topics: [conversation.topic],
+        said: said.slice(-this.config.maxSaidPerMemory),
+        withAgentIds: others.map((other) => other.id),
+        districtId: conversation.districtId,
+        conversationId: conversation.id,
+        // Longer and more emotional conversations leave stronger memories
+        strength: clamp(
+          0.4 +
+            0.1 * Math.min(said.length, 3) +
+            0.6 * Math.abs((conversation.sentiment ?? 0.5) - 0.5)
+        ),
+        createdAt: now,
+        recallCount: 0,
+      };
+      this.memories.set(memory.id, memory);
+    }
+
+    await Promise.all(
+      conversation.participants.map((agent) => this.summarise(agent))
+    );
+  }
+
+  // The most relevant memories for what the agent is about to talk about;
+  // recalling a memory refreshes it
+  recall(agentId: string, query: MemoryRecallQuery = {}): RecalledMemory[] {
+    const now = this.clock.now();
+    const topic = query.topic?.toLowerCase();
+    const recalled = this.list(agentId)
+      .map((memory) => {
+        const topicMatch =
+          !!topic &&
+          memory.topics.some(
+            (candidate) =>
+              topic.includes(candidate.toLowerCase()) ||
+              candidate.toLowerCase().includes(topic)
+          );
+        const sharedCompany = (query.withAgentIds || []).some((id) =>
+          memory.withAgentIds.includes(id)
+        );
+        return {
+          memory,
+          score:
+            memory.relevance +
+            (topicMatch ? 0.3 : 0) +
+            (sharedCompany ? 0.2 : 0),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.limit ?? 5)
+      .map(({ memory }) => memory);
+
+    for (const { id } of recalled) {
+      const stored = this.memories.get(id)!;
+      stored.lastRecalledAt = now;
+      stored.recallCount++;
+    }
+    return recalled;
+  }
+
+  // Strongest first
+  list(agentId: string, kind?: MemoryKind): RecalledMemory[] {
+    const now = this.clock.now();
+    return Array.from(this.memories.values())
+      .filter(
+        (memory) =>
+          memory.agentId === agentId && (!kind || memory.kind === kind)
+      )
+      .map((memory) => ({
+        ...memory,
+        relevance: this.relevanceOf(memory, now),
+      }))
+      .sort((a, b) => b.relevance - a.relevance);
+  }
+
+  // Deletes one memory, or all of the agent's when no id is given
+  forget(agentId: string, memoryId?: string): number {
+    let removed = 0;
+    for (const [id, memory] of this.memories.entries()) {
+      if (memory.agentId === agentId && (!memoryId || id === memoryId)) {
+        this.memories.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  forgetFaded(): number {
+    const now = this.clock.now();
+    let removed = 0;
+    for (const [id, memory] of this.memories.entries()) {
+      if (this.relevanceOf(memory, now) < this.config.forgetThreshold) {
+        this.memories.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  stop() {
+    this.timers.clearAll();
+  }
+
+  private relevanceOf(memory: AgentMemory, now: number) {
+    const halfLife =
+      memory.kind === "semantic"
+        ? this.config.semanticHalfLifeMs
+        : this.config.episodicHalfLifeMs;
+    const age = Math.max(0, now - (memory.lastRecalledAt ?? memory.createdAt));
+    return memory.strength * Math.pow(0.5, age / halfLife);
+  }
+
+  // Folds the oldest episodes beyond the agent's memory window into facts
+  private async summarise(agent: Agent) {
+    if (this.summarising.has(agent.id)) return;
+    this.summarising.add(agent.id);
+    try {
+      const episodes = this.list(agent.id, "episodic").sort(
+        (a, b) => a.createdAt - b.createdAt
+      );
+      const overflow =
+        episodes.length -
+        Math.max(1, agent.memoryWindowSize || DEFAULT_MEMORY_WINDOW);
+      if (overflow <= 0) return;
+
+      const batch = episodes.slice(
+        0,
+        Math.max(
+          overflow,
+          Math.min(this.config.summaryBatchSize, episodes.length)
+        )
+      );
+      const facts = await this.summariseEpisodes(agent, batch);
+      const now = this.clock.now();
+      for (const fact of facts) {
+        const memory: AgentMemory = {
+          id: `mem-${crypto.randomUUID()}`,
+          agentId: agent.id,
+          kind: "semantic",
+          content: fact,
+          topics: Array.from(
+            new Set(batch.flatMap((episode) => episode.topics))
+          ),
+          said: batch
+            .flatMap((episode) => episode.said)
+            .slice(-this.config.maxSaidPerMemory),
+          withAgentIds: Array.from(
+            new Set(batch.flatMap((episode) => episode.withAgentIds))
+          ),
+          sourceIds: batch.map((episode) => episode.id),
+          strength: Math.max(...batch.map((episode) => episode.strength)),
+          createdAt: now,
+          recallCount: 0,
+        };
+        this.memories.set(memory.id, memory);
+      }
+      for (const episode of batch) {
+        this.memories.delete(episode.id);
+      }
+    } finally {
+      this.summarising.delete(agent.id);
+    }
+  }
+
+  private async summariseEpisodes(
+    agent: Agent,
+    episodes: AgentMemory[]
+  ): Promise<string[]> {
+    const prompt = `You are ${agent.name}, a ${
+      agent.role
+    } in Neurova City. Condense these memories of your past conversations into 1-3 short first-person facts worth remembering. Write one fact per line, starting with "- ".
+
+${episodes
+  .map(
+    (episode) =>
+      `- ${episode.content}${
+        episode.said.length > 0
+          ? ` (you said: "${episode.said.join('" / "')}")`
+          : ""
+      }`
+  )
+  .join("\n")}`;
+
+    try {
+      const reply = await this.llm.generateText(prompt, {
+        maxTokens: 200,
+        temperature: 0.3,
+      });
+      const facts = reply
+        .split("\n")
+        .map((line) => line.replace(/^\s*[-*\d.]+\s*/, "").trim())
+        .filter(Boolean)
+        .slice(0, 3);
+      if (facts.length > 0) return facts;
+    } catch (error) {
+      console.error("Failed to summarise agent memories:", error);
+    }
+
+    // Without the LLM, keep what the episodes were about
+    const topics = Array.from(new Set(episodes.flatMap((e) => e.topics)));
+    return [`I have talked about ${topics.join(", ")} several times`];
+  }
+}
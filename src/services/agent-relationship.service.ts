@@ -0,0 +1,282 @@
+import { AgentCollaborationService } from "./agent-collaboration.service";
+import { SimulationClock } from "./simulation-clock.service";
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type {
+  AgentRelationship,
+  RelationshipConflict,
+  RelationshipGraph,
+  RelationshipGraphQuery,
+} from "../types/agent-relationship.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import type { SeededRandom } from "../utils/seeded-random";
+
+// The parts of an ended conversation that shape how its agents get along
+export interface SharedConversation {
+  id: string;
+  participants: Agent[];
+  messages: Message[];
+  // 0-1, 0.5 is neutral
+  sentiment: number;
+}
+
+interface CollaborationOutcome {
+  sessionId: string;
+  agents?: string[];
+  reason?: string;
+  timestamp?: number;
+}
+
+// How far one conversation can move affinity; sentiment 1 adds half of it
+const CONVERSATION_AFFINITY_RATE = 0.2;
+// Conversations between the two below this sentiment count as a conflict
+const CONFLICT_SENTIMENT = 0.35;
+const MAX_CONFLICTS_PER_RELATIONSHIP = 10;
+// Conflicts this recent keep a pair apart when picking participants
+const RECENT_CONFLICT_MS = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const pairId = (a: string, b: string) => (a < b ? `${a}::${b}` : `${b}::${a}`);
+
+// Persistent affinity, trust and conflict history between agents, fed by how
+// their conversations went and whether their collaborations succeeded
+export class AgentRelationshipService implements PersistableService {
+  readonly persistenceKey = "agent_relationships";
+  private readonly random: SeededRandom;
+  private relationships: Map<string, AgentRelationship> = new Map();
+  private readonly onCollaborationCompleted = (outcome: CollaborationOutcome) =>
+    this.recordCollaboration(outcome, true);
+  private readonly onCollaborationFailed = (outcome: CollaborationOutcome) =>
+    this.recordCollaboration(outcome, false);
+
+  constructor(
+    private collaborationService: AgentCollaborationService,
+    clock: SimulationClock
+  ) {
+    this.random = clock.randomFor("agent-relationships");
+    this.collaborationService.on(
+      "collaborationCompleted",
+      this.onCollaborationCompleted
+    );
+    this.collaborationService.on(
+      "collaborationFailed",
+      this.onCollaborationFailed
+    );
+  }
+
+  exportState(): PersistedCollections {
+    return { relationships: mapToRecord(this.relationships) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.relationships = recordToMap<AgentRelationship>(state.relationships);
+  }
+
+  recordConversation(conversation: SharedConversation) {
+    const now = Date.now();
+    const agents = conversation.participants;
+    for (let i = 0; i < agents.length; i++) {
+      for (let j = i + 1; j < agents.length; j++) {
+        const pair = [agents[i].id, agents[j].id];
+        // How the two spoke while together, falling back to the whole conversation
+        const sentiments = conversation.messages
+          .filter(
+            (message) =>
+              pair.includes(message.agentId) &&
+              typeof message.sentiment === "number"
+          )
+          .map((message) => message.sentiment!);
+        const sentiment =
+          sentiments.length > 0
+            ? sentiments.reduce((sum, value) => sum + value, 0) /
+              sentiments.length
+            : conversation.sentiment ?? 0.5;
+
+        const relationship = this.getOrCreate(pair[0], pair[1]);
+        relationship.conversations++;
+        relationship.lastInteractionAt = now;
+        relationship.affinity = clamp(
+          relationship.affinity +
+            (sentiment - 0.5) * CONVERSATION_AFFINITY_RATE,
+          -1,
+          1
+        );
+        if (sentiment < CONFLICT_SENTIMENT) {
+          relationship.trust = clamp(relationship.trust - 0.05, 0, 1);
+          this.addConflict(relationship, {
+            source: "conversation",
+            sourceId: conversation.id,
+            reason: `Tense conversation (sentiment ${sentiment.toFixed(2)})`,
+            timestamp: now,
+          });
+        } else {
+          relationship.trust = clamp(relationship.trust + 0.02, 0, 1);
+        }
+      }
+    }
+  }
+
+  recordCollaboration(outcome: CollaborationOutcome, succeeded: boolean) {
+    const agents = Array.from(new Set(outcome.agents || []));
+    const now = outcome.timestamp || Date.now();
+    for (let i = 0; i < agents.length; i++) {
+      for (let j = i + 1; j < agents.length; j++) {
+        const relationship = this.getOrCreate(agents[i], agents[j]);
+        relationship.lastInteractionAt = now;
+        if (succeeded) {
+          relationship.collaborations.completed++;
+          relationship.trust = clamp(relationship.trust + 0.1, 0, 1);
+          relationship.affinity = clamp(relationship.affinity + 0.05, -1, 1);
+        } else {
+          relationship.collaborations.failed++;
+          relationship.trust = clamp(relationship.trust - 0.05, 0, 1);
+          this.addConflict(relationship, {
+            source: "collaboration",
+            sourceId: outcome.sessionId,
+            reason: outcome.reason || "Collaboration failed",
+            timestamp: now,
+          });
+        }
+      }
+    }
+  }
+
+  getRelationship(a: string, b: string): AgentRelationship | undefined {
+    return this.relationships.get(pairId(a, b));
+  }
+
+  getRelationships(agentId?: string): AgentRelationship[] {
+    return Array.from(this.relationships.values()).filter(
+      (relationship) => !agentId || relationship.agentIds.includes(agentId)
+    );
+  }
+
+  // Grows a group from the first candidate, adding whoever gets along best
+  // with those already in it; a little randomness keeps groups from settling
+  pickParticipants(candidates: string[], count: number): string[] {
+    if (candidates.length <= count) return [...candidates];
+
+    const group = [candidates[0]];
+    const remaining = candidates.slice(1);
+    while (group.length < count && remaining.length > 0) {
+      const scored = remaining.map((candidate) => ({
+        candidate,
+        score:
+          group.reduce(
+            (sum, member) => sum + this.pairScore(member, candidate),
+            0
+          ) /
+            group.length +
+          this.random.next() * 0.3,
+      }));
+      scored.sort((a, b) => b.score - a.score);
+      group.push(scored[0].candidate);
+      remaining.splice(remaining.indexOf(scored[0].candidate), 1);
+    }
+    return group;
+  }
+
+  getGraph(
+    agents: Agent[],
+    query: RelationshipGraphQuery = {}
+  ): RelationshipGraph {
+    const relationships = this.getRelationships(query.agentId).filter(
+      (relationship) =>
+        query.minAffinity === undefined ||
+        relationship.affinity >= query.minAffinity
+    );
+
+    const byId = new Map(agents.map((agent) => [agent.id, agent]));
+    const degrees = new Map<string, number>();
+    for (const { agentIds } of relationships) {
+      for (const id of agentIds) {
+        degrees.set(id, (degrees.get(id) || 0) + 1);
+      }
+    }
+    // Every known agent is a node unless the graph is narrowed to one agent
+    const nodeIds = query.agentId
+      ? new Set([query.agentId, ...degrees.keys()])
+      : new Set([...byId.keys(), ...degrees.keys()]);
+
+    return {
+      nodes: Array.from(nodeIds).map((id) => ({
+        id,
+        name: byId.get(id)?.name || id,
+        role: byId.get(id)?.role,
+        degree: degrees.get(id) || 0,
+      })),
+      edges: relationships.map((relationship) => ({
+        id: relationship.id,
+        source: relationship.agentIds[0],
+        target: relationship.agentIds[1],
+        affinity: relationship.affinity,
+        trust: relationship.trust,
+        conversations: relationship.conversations,
+        collaborationsCompleted: relationship.collaborations.completed,
+        collaborationsFailed: relationship.collaborations.failed,
+        conflicts: relationship.conflicts.length,
+        lastInteractionAt: relationship.lastInteractionAt,
+      })),
+    };
+  }
+
+  stop() {
+    this.collaborationService.off(
+      "collaborationCompleted",
+      this.onCollaborationCompleted
+    );
+    this.collaborationService.off(
+      "collaborationFailed",
+      this.onCollaborationFailed
+    );
+  }
+
+  private pairScore(a: string, b: string) {
+    const relationship = this.getRelationship(a, b);
+    if (!relationship) return 0;
+    const recentConflict = relationship.conflicts.some(
+      (conflict) => Date.now() - conflict.timestamp < RECENT_CONFLICT_MS
+    );
+    return (
+      relationship.affinity +
+      relationship.trust * 0.5 -
+      (recentConflict ? 1 : 0)
+    );
+  }
+
+  private getOrCreate(a: string, b: string): AgentRelationship {
+    const id = pairId(a, b);
+    let relationship = this.relationships.get(id);
+    if (!relationship) {
+      relationship = {
+        id,
+        agentIds: a < b ? [a, b] : [b, a],
+        affinity: 0,
+        trust: 0.5,
+        conversations: 0,
+        collaborations: { completed: 0, failed: 0 },
+        conflicts: [],
+        lastInteractionAt: Date.now(),
+      };
+      this.relationships.set(id, relationship);
+    }
+    return relationship;
+  }
+
+  private addConflict(
+    relationship: AgentRelationship,
+    conflict: RelationshipConflict
+  ) {
+    relationship.conflicts.unshift(conflict);
+    relationship.conflicts.length = Math.min(
+      relationship.conflicts.length,
+      MAX_CONFLICTS_PER_RELATIONSHIP
+    );
+  }
+}
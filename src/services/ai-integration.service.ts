@@ -11,8 +11,10 @@ import { v4 as uuidv4 } from "uuid";
 import { CultureService } from "../services/culture.service";
 import { DistrictCultureService } from "../services/district-culture.service";
 import { AgentCultureService } from "../services/agent-culture.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 export class AIIntegrationService {
+  private readonly timers = new ServiceTimers();
   private activeAgents: Set<string> = new Set();
   private systemId: string | null = null;
   private networkStatus: NetworkStatus | null = null;
@@ -32,7 +34,7 @@ export class AIIntegrationService {
   }
 
   private startHeartbeatMonitoring() {
-    setInterval(() => this.checkAgentHeartbeats(), 60 * 1000); // Check every minute
+    this.timers.setInterval(() => this.checkAgentHeartbeats(), 60 * 1000); // Check every minute
   }
 
   private checkAgentHeartbeats() {
@@ -314,4 +316,8 @@ export class AIIntegrationService {
   isInitialized(): boolean {
     return this.systemId !== null && this.networkStatus !== null;
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
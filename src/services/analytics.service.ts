@@ -1,6 +1,7 @@
 import { EventEmitter } from "events";
 import type { Agent } from "../types/agent.types";
 import type { Message } from "../types/conversation.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface TopicTrend {
   topic: string;
@@ -27,6 +28,7 @@ interface PerformanceMetrics {
 }
 
 export class AnalyticsService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private topicTrends: Map<string, TopicTrend> = new Map();
   private interactionStats: Map<string, InteractionStats> = new Map();
   private moodHistory: Array<{ timestamp: number; mood: number }> = [];
@@ -45,7 +47,7 @@ export class AnalyticsService extends EventEmitter {
   }
 
   private startActivityMonitoring() {
-    setInterval(() => this.updateActiveAgents(), 60 * 1000); // Check every minute
+    this.timers.setInterval(() => this.updateActiveAgents(), 60 * 1000); // Check every minute
   }
 
   private updateActiveAgents() {
@@ -265,4 +267,8 @@ export class AnalyticsService extends EventEmitter {
   trackEvent(eventName: string, data: Record<string, any>) {
     // Implementation
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -1,5 +1,5 @@
 // src/services/app.services.ts
-import { TogetherService } from "./together.service";
+import { createLLMProvider } from "./llm-provider.service";
 import { VectorStoreService } from "./vector-store.service";
 import { ConversationService } from "./conversation.service";
 import { CityService } from "./city.service";
@@ -38,17 +38,64 @@ import { DistrictWebSocketService } from "./district-websocket.service";
 import { agents, residentAgents } from "../config/agents";
 import { cityManagementAgents, allCityAgents } from "../config/city-agents";
 import type { Agent } from "../types/agent.types";
+import type { LLMProvider } from "../types/llm.types";
+import type { StateStore } from "../types/persistence.types";
 import { SocialCohesionService } from "./social-cohesion.service";
 import { AgentConversationService } from "./agent-conversation.service";
 import type { AgentConversation } from "./agent-conversation.service";
 import { ChroniclesService } from "./chronicles.service";
+import {
+  SimulationClock,
+  loadSimulationClockConfig,
+} from "./simulation-clock.service";
+import {
+  PersistenceService,
+  createStateStore,
+  loadStateStoreConfig,
+} from "./persistence.service";
+import { AuthService, loadAuthConfig } from "./auth.service";
+import { EventBus } from "./event-bus.service";
+import {
+  createEventLog,
+  loadEventLogConfig,
+  type EventLog,
+} from "./event-log.service";
+import { EventReplayService } from "./event-replay.service";
+import { MemoryVectorBackend } from "./memory-vector-backend.service";
+import { MemoryStateStore } from "./memory-state-store.service";
+import { ConversationSchedulerService } from "./conversation-scheduler.service";
+import { ConversationParticipantService } from "./conversation-participant.service";
+import { ConversationTranscriptService } from "./conversation-transcript.service";
+import { AgentMemoryService } from "./agent-memory.service";
+import { AgentRelationshipService } from "./agent-relationship.service";
+import { ConversationQualityService } from "./conversation-quality.service";
+import { PromptTemplateService } from "./prompt-template.service";
+import { LLMUsageService, loadLLMUsageConfig } from "./llm-usage.service";
+import { DonationLedgerService } from "./donation-ledger.service";
+import { PaymentService } from "./payment.service";
+import { createPaymentProcessor } from "./payment-processor.service";
+import type { PaymentProcessor } from "../types/payment.types";
+import { DonationSubscriptionService } from "./donation-subscription.service";
+import { DonorProfileService } from "./donor-profile.service";
+import { DonorRecordsService } from "./donor-records.service";
+import { DonationCampaignService } from "./donation-campaign.service";
+import { ServiceContainer } from "./service-container.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 // Define store type
 export type AppStore = {
   services: {
     donationService: DonationService;
+    eventBus: EventBus;
+    donationLedger: DonationLedgerService;
+    payments: PaymentService;
+    donationSubscriptions: DonationSubscriptionService;
+    donorProfiles: DonorProfileService;
+    donorRecords: DonorRecordsService;
+    donationCampaigns: DonationCampaignService;
     districtWebSocket: DistrictWebSocketService;
-    togetherService: TogetherService;
+    togetherService: LLMProvider;
+    llmUsage: LLMUsageService;
     vectorStore: VectorStoreService;
     conversationService: ConversationService;
     cityService: CityService;
@@ -78,292 +125,817 @@ export type AppStore = {
     agentCultureService: AgentCultureService;
     socialCohesionService: SocialCohesionService;
     agentConversationService: AgentConversationService;
+    conversationScheduler: ConversationSchedulerService;
+    conversationParticipants: ConversationParticipantService;
+    conversationTranscripts: ConversationTranscriptService;
+    agentMemory: AgentMemoryService;
+    agentRelationships: AgentRelationshipService;
+    conversationQuality: ConversationQualityService;
+    promptTemplates: PromptTemplateService;
     chroniclesService: ChroniclesService;
+    simulationClock: SimulationClock;
+    persistence: PersistenceService;
+    authService: AuthService;
+    eventLog?: EventLog;
+    eventReplay: EventReplayService;
   };
   conversations: Map<string, any[]>;
+  container: ServiceContainer<CityServices>;
 };
 
-// Validate environment variables
-if (!process.env.TOGETHER_API_KEY) {
-  throw new Error("TOGETHER_API_KEY environment variable is not set");
+// Anything createStore would build from the environment can be injected instead
+export interface StoreOptions {
+  llmProvider?: LLMProvider;
+  vectorStore?: VectorStoreService;
+  paymentProcessor?: PaymentProcessor;
+  simulationClock?: SimulationClock;
+  stateStore?: StateStore;
+  // null turns the event log off regardless of EVENT_LOG
+  eventLog?: EventLog | null;
+  // Register the city agents and start their conversation loop (default true)
+  startAgents?: boolean;
 }
 
-// Initialize base services
-const togetherService = new TogetherService(process.env.TOGETHER_API_KEY);
-const vectorStore = new VectorStoreService(togetherService);
-const analyticsService = new AnalyticsService();
-
-// Initialize metrics service first
-const metricsService = new MetricsService(vectorStore);
-
-// Initialize core services
-const cityService = new CityService(metricsService);
-
-// Initialize temporary AI integration service
-let aiIntegration = new AIIntegrationService(
-  vectorStore,
-  undefined as unknown as CultureService,
-  undefined as unknown as DistrictCultureService,
-  undefined as unknown as AgentCultureService
-);
-
-// Initialize collaboration service
-const initialCollaborationService = new AgentCollaborationService(
-  togetherService,
-  vectorStore,
-  cityService,
-  analyticsService,
-  aiIntegration
-);
-
-// Initialize department service
-const departmentService = new DepartmentService(
-  vectorStore,
-  togetherService,
-  analyticsService,
-  metricsService,
-  initialCollaborationService
-);
-
-// Initialize district and culture services
-const initialDistrictCultureService = new DistrictCultureService(
-  undefined as unknown as CultureService,
-  undefined as unknown as DistrictService,
-  vectorStore
-);
-
-const initialDistrictService = new DistrictService(
-  cityService,
-  vectorStore,
-  togetherService,
-  analyticsService,
-  initialDistrictCultureService
-);
-
-// Initialize infrastructure and environment services
-const smartInfrastructureService = new SmartInfrastructureService(
-  vectorStore,
-  metricsService,
-  undefined as unknown as TransportService
-);
-
-const environmentService = new EnvironmentService(
-  vectorStore,
-  initialDistrictService,
-  smartInfrastructureService,
-  analyticsService
-);
-
-// Update metrics service with environment service
-(metricsService as any).environmentService = environmentService;
-
-// Initialize citizen and emergency services
-const citizenService = new CitizenService(
-  vectorStore,
-  togetherService,
-  departmentService,
-  analyticsService
-);
-
-const emergencyService = new EmergencyService(
-  vectorStore,
-  departmentService,
-  citizenService
-);
-
-// Initialize city rhythm and transport services
-let cityRhythmService = new CityRhythmService(
-  vectorStore,
-  citizenService,
-  undefined as unknown as TransportService,
-  departmentService
-);
-
-const weatherService = new WeatherService(
-  vectorStore,
-  cityService,
-  undefined as unknown as TransportService,
-  cityRhythmService,
-  emergencyService
-);
-
-const transportService = new TransportService(
-  vectorStore,
-  weatherService,
-  cityRhythmService,
-  emergencyService,
-  initialDistrictService,
-  metricsService
-);
-
-// Update city rhythm service with transport service
-cityRhythmService = new CityRhythmService(
-  vectorStore,
-  citizenService,
-  transportService,
-  departmentService
-);
-
-// Update transport service's city rhythm reference
-(transportService as any).cityRhythmService = cityRhythmService;
-
-// Initialize social dynamics service
-const socialDynamicsService = new SocialDynamicsService(
-  vectorStore,
-  departmentService,
-  citizenService,
-  weatherService,
-  cityRhythmService
-);
-
-// Initialize social cohesion service
-const socialCohesionService = new SocialCohesionService(
-  vectorStore,
-  initialDistrictService
-);
-
-// Initialize culture-related services
-const cultureService = new CultureService(
-  vectorStore,
-  weatherService,
-  socialDynamicsService,
-  cityRhythmService
-);
-
-const landmarkService = new LandmarkService(vectorStore, analyticsService);
-const agentCulture = new AgentCultureService(cultureService, vectorStore);
-
-// Initialize district culture service with all dependencies
-const districtCultureService = new DistrictCultureService(
-  cultureService,
-  initialDistrictService,
-  vectorStore
-);
-
-// Update AI integration service with actual dependencies
-aiIntegration = new AIIntegrationService(
-  vectorStore,
-  cultureService,
-  districtCultureService,
-  agentCulture
-);
-
-// Initialize collaboration and communication services
-const collaborationService = new AgentCollaborationService(
-  togetherService,
-  vectorStore,
-  cityService,
-  analyticsService,
-  aiIntegration
-);
-
-const socketManager = new SocketManagerService(collaborationService);
-const districtWebSocket = new DistrictWebSocketService(metricsService);
-
-// Initialize event and memory services
-const cityEventsService = new CityEventsService(
-  metricsService,
-  collaborationService,
-  vectorStore,
-  initialDistrictService,
-  analyticsService
-);
-
-const cityMemory = new CityMemoryService(
-  vectorStore,
-  cultureService,
-  landmarkService,
-  initialDistrictService,
-  smartInfrastructureService,
-  analyticsService
-);
-
-// Initialize economic and development services
-const economyService = new EconomyService(vectorStore, initialDistrictService);
-
-// Initialize city coordinator service first
-const cityCoordinator = new CityCoordinatorService(
-  vectorStore,
-  departmentService,
-  environmentService,
-  transportService,
-  socialDynamicsService,
-  analyticsService,
-  cityMemory,
-  economyService
-);
-
-// Initialize district service
-const districtService = new DistrictService(
-  cityService,
-  vectorStore,
-  togetherService,
-  analyticsService,
-  districtCultureService
-);
-
-// Initialize agent conversation service
-const agentConversationService = new AgentConversationService(
-  vectorStore,
-  cityCoordinator,
-  aiIntegration,
-  socialDynamicsService,
-  cultureService,
-  togetherService,
-  districtService
-);
-
-// Initialize adaptive learning service
-const adaptiveLearning = new AdaptiveLearningService(
-  vectorStore,
-  metricsService,
-  cityService,
-  initialDistrictService,
-  agentConversationService,
-  socialDynamicsService
-);
+// Everything the container builds: the services in the store plus the ones
+// only other services depend on
+export type CityServices = AppStore["services"] & {
+  weatherService: WeatherService;
+  transportService: TransportService;
+  smartInfrastructureService: SmartInfrastructureService;
+  emergencyService: EmergencyService;
+  socialDynamicsService: SocialDynamicsService;
+  landmarkService: LandmarkService;
+};
 
-const departmentAgentService = new DepartmentAgentService(
-  togetherService,
-  analyticsService,
-  departmentService,
-  metricsService,
-  vectorStore
-);
+// Registers every city service with its dependencies. Nothing is built until
+// it is first used or the container is started.
+export function createCityContainer(
+  options: StoreOptions = {}
+): ServiceContainer<CityServices> {
+  const container = new ServiceContainer<CityServices>();
+  // The agent loop below is owned by the city rather than a single service
+  const agentTimers = new ServiceTimers();
 
-const developmentService = new DevelopmentService(
-  vectorStore,
-  initialDistrictService,
-  smartInfrastructureService,
-  environmentService
-);
+  container
+    // LLM_PROVIDER selects together, local or openai-compatible
+    .register("togetherService", {
+      create: () => options.llmProvider || createLLMProvider(),
+    })
+    // Services get their LLM through here so every call is accounted to them
+    // and held to LLM_DAILY_TOKEN_BUDGETS
+    .register("llmUsage", {
+      deps: ["togetherService", "promptTemplates"],
+      create: ({ togetherService, promptTemplates }) =>
+        new LLMUsageService(
+          togetherService,
+          promptTemplates,
+          loadLLMUsageConfig()
+        ),
+    })
+    // Shared virtual clock and seeded PRNG (SIMULATION_SEED makes a run reproducible)
+    .register("simulationClock", {
+      create: () => {
+        const clock =
+          options.simulationClock ||
+          new SimulationClock(loadSimulationClockConfig());
+        console.log(
+          `🕰️ Simulation clock started with seed ${clock.getState().seed}`
+        );
+        return clock;
+      },
+    })
+    // Append-only log of persistent EventBus events (EVENT_LOG=off disables it)
+    .register("eventLog", {
+      create: () =>
+        options.eventLog === undefined
+          ? createEventLog(loadEventLogConfig())
+          : options.eventLog || undefined,
+    })
+    .register("eventBus", {
+      deps: ["eventLog"],
+      create: ({ eventLog }) => {
+        const bus = new EventBus();
+        if (eventLog) bus.attachLog(eventLog);
+        return bus;
+      },
+    })
+    // Replays run against a throwaway city of its own. Its LLM calls go
+    // through this city's usage tracking and budget as "eventReplay".
+    .register("eventReplay", {
+      deps: ["eventLog", "llmUsage"],
+      create: ({ eventLog, llmUsage }) =>
+        new EventReplayService(eventLog, () => {
+          const llmProvider = llmUsage.forService("eventReplay");
+          return createCityContainer({
+            llmProvider,
+            vectorStore: new VectorStoreService(
+              llmProvider,
+              new MemoryVectorBackend()
+            ),
+            stateStore: new MemoryStateStore(),
+            eventLog: null,
+            startAgents: false,
+          });
+        }),
+    })
+    .register("vectorStore", {
+      deps: ["llmUsage"],
+      create: ({ llmUsage }) =>
+        options.vectorStore ||
+        new VectorStoreService(llmUsage.forService("vectorStore")),
+    })
+    .register("analyticsService", { create: () => new AnalyticsService() })
+    // Double-entry record of donations that department budgets reconcile against
+    .register("donationLedger", { create: () => new DonationLedgerService() })
+    // PAYMENT_PROCESSOR selects the processor donations are charged through
+    .register("payments", {
+      create: () =>
+        new PaymentService(
+          options.paymentProcessor || createPaymentProcessor()
+        ),
+    })
+    .register("metricsService", {
+      deps: ["vectorStore"],
+      lazy: ["environmentService"],
+      create: ({ vectorStore, environmentService }) =>
+        new MetricsService(vectorStore, environmentService),
+    })
+    .register("cityService", {
+      deps: ["metricsService"],
+      create: ({ metricsService }) => new CityService(metricsService),
+    })
+    .register("aiIntegration", {
+      deps: [
+        "vectorStore",
+        "cultureService",
+        "districtCultureService",
+        "agentCultureService",
+      ],
+      create: (deps) =>
+        new AIIntegrationService(
+          deps.vectorStore,
+          deps.cultureService,
+          deps.districtCultureService,
+          deps.agentCultureService
+        ),
+    })
+    // Departments sit underneath the culture services that AI integration
+    // needs, so collaboration only reaches it once the city is built
+    .register("collaborationService", {
+      deps: ["llmUsage", "vectorStore", "cityService", "analyticsService"],
+      lazy: ["aiIntegration"],
+      create: (deps) =>
+        new AgentCollaborationService(
+          deps.llmUsage.forService("collaborationService"),
+          deps.vectorStore,
+          deps.cityService,
+          deps.analyticsService,
+          deps.aiIntegration
+        ),
+    })
+    .register("departmentService", {
+      deps: [
+        "vectorStore",
+        "llmUsage",
+        "analyticsService",
+        "metricsService",
+        "collaborationService",
+        "donationLedger",
+        "eventBus",
+      ],
+      create: (deps) =>
+        new DepartmentService(
+          deps.vectorStore,
+          deps.llmUsage.forService("departmentService"),
+          deps.analyticsService,
+          deps.metricsService,
+          deps.collaborationService,
+          deps.donationLedger,
+          deps.eventBus
+        ),
+    })
+    .register("districtService", {
+      deps: ["cityService", "vectorStore", "llmUsage", "analyticsService"],
+      lazy: ["districtCultureService"],
+      create: (deps) =>
+        new DistrictService(
+          deps.cityService,
+          deps.vectorStore,
+          deps.llmUsage.forService("districtService"),
+          deps.analyticsService,
+          deps.districtCultureService
+        ),
+    })
+    .register("districtCultureService", {
+      deps: ["cultureService", "districtService", "vectorStore"],
+      create: (deps) =>
+        new DistrictCultureService(
+          deps.cultureService,
+          deps.districtService,
+          deps.vectorStore
+        ),
+    })
+    .register("smartInfrastructureService", {
+      deps: ["vectorStore", "metricsService", "transportService"],
+      create: (deps) =>
+        new SmartInfrastructureService(
+          deps.vectorStore,
+          deps.metricsService,
+          deps.transportService
+        ),
+    })
+    .register("environmentService", {
+      deps: [
+        "vectorStore",
+        "districtService",
+        "smartInfrastructureService",
+        "analyticsService",
+      ],
+      create: (deps) =>
+        new EnvironmentService(
+          deps.vectorStore,
+          deps.districtService,
+          deps.smartInfrastructureService,
+          deps.analyticsService
+        ),
+    })
+    .register("citizenService", {
+      deps: [
+        "vectorStore",
+        "llmUsage",
+        "departmentService",
+        "analyticsService",
+      ],
+      create: (deps) =>
+        new CitizenService(
+          deps.vectorStore,
+          deps.llmUsage.forService("citizenService"),
+          deps.departmentService,
+          deps.analyticsService
+        ),
+    })
+    .register("emergencyService", {
+      deps: ["vectorStore", "departmentService", "citizenService"],
+      create: (deps) =>
+        new EmergencyService(
+          deps.vectorStore,
+          deps.departmentService,
+          deps.citizenService
+        ),
+    })
+    // Rhythm and weather both steer transport, which listens to both of them
+    .register("cityRhythm", {
+      deps: ["vectorStore", "citizenService", "departmentService"],
+      lazy: ["transportService"],
+      create: (deps) =>
+        new CityRhythmService(
+          deps.vectorStore,
+          deps.citizenService,
+          deps.transportService,
+          deps.departmentService
+        ),
+    })
+    .register("weatherService", {
+      deps: [
+        "vectorStore",
+        "cityService",
+        "cityRhythm",
+        "emergencyService",
+        "simulationClock",
+        "eventBus",
+      ],
+      lazy: ["transportService"],
+      create: (deps) =>
+        new WeatherService(
+          deps.vectorStore,
+          deps.cityService,
+          deps.transportService,
+          deps.cityRhythm,
+          deps.emergencyService,
+          deps.simulationClock,
+          deps.eventBus
+        ),
+    })
+    .register("transportService", {
+      deps: [
+        "vectorStore",
+        "weatherService",
+        "cityRhythm",
+        "emergencyService",
+        "districtService",
+        "metricsService",
+        "simulationClock",
+      ],
+      create: (deps) =>
+        new TransportService(
+          deps.vectorStore,
+          deps.weatherService,
+          deps.cityRhythm,
+          deps.emergencyService,
+          deps.districtService,
+          deps.metricsService,
+          deps.simulationClock
+        ),
+    })
+    .register("socialDynamicsService", {
+      deps: [
+        "vectorStore",
+        "departmentService",
+        "citizenService",
+        "weatherService",
+        "cityRhythm",
+        "eventBus",
+      ],
+      create: (deps) =>
+        new SocialDynamicsService(
+          deps.vectorStore,
+          deps.departmentService,
+          deps.citizenService,
+          deps.weatherService,
+          deps.cityRhythm,
+          deps.eventBus
+        ),
+    })
+    .register("socialCohesionService", {
+      deps: ["vectorStore", "districtService"],
+      create: ({ vectorStore, districtService }) =>
+        new SocialCohesionService(vectorStore, districtService),
+    })
+    .register("cultureService", {
+      deps: [
+        "vectorStore",
+        "weatherService",
+        "socialDynamicsService",
+        "cityRhythm",
+      ],
+      create: (deps) =>
+        new CultureService(
+          deps.vectorStore,
+          deps.weatherService,
+          deps.socialDynamicsService,
+          deps.cityRhythm
+        ),
+    })
+    // Older controllers still read the culture service under this name
+    .register("culture", {
+      deps: ["cultureService"],
+      create: ({ cultureService }) => cultureService,
+      stop: () => {},
+    })
+    .register("landmarkService", {
+      deps: ["vectorStore", "analyticsService", "eventBus"],
+      create: ({ vectorStore, analyticsService, eventBus }) =>
+        new LandmarkService(vectorStore, analyticsService, eventBus),
+    })
+    .register("agentCultureService", {
+      deps: ["cultureService", "vectorStore"],
+      create: ({ cultureService, vectorStore }) =>
+        new AgentCultureService(cultureService, vectorStore),
+    })
+    .register("socketManager", {
+      deps: ["collaborationService", "eventBus"],
+      create: ({ collaborationService, eventBus }) =>
+        new SocketManagerService(collaborationService, eventBus),
+    })
+    .register("districtWebSocket", {
+      deps: ["metricsService"],
+      create: ({ metricsService }) =>
+        new DistrictWebSocketService(metricsService),
+    })
+    .register("cityEventsService", {
+      deps: [
+        "metricsService",
+        "collaborationService",
+        "vectorStore",
+        "districtService",
+        "analyticsService",
+        "simulationClock",
+        "eventBus",
+      ],
+      create: (deps) =>
+        new CityEventsService(
+          deps.metricsService,
+          deps.collaborationService,
+          deps.vectorStore,
+          deps.districtService,
+          deps.analyticsService,
+          deps.simulationClock,
+          deps.eventBus
+        ),
+    })
+    .register("cityMemory", {
+      deps: [
+        "vectorStore",
+        "cultureService",
+        "landmarkService",
+        "districtService",
+        "smartInfrastructureService",
+        "analyticsService",
+      ],
+      create: (deps) =>
+        new CityMemoryService(
+          deps.vectorStore,
+          deps.cultureService,
+          deps.landmarkService,
+          deps.districtService,
+          deps.smartInfrastructureService,
+          deps.analyticsService
+        ),
+    })
+    .register("economyService", {
+      deps: ["vectorStore", "districtService", "simulationClock"],
+      create: (deps) =>
+        new EconomyService(
+          deps.vectorStore,
+          deps.districtService,
+          deps.simulationClock
+        ),
+    })
+    .register("cityCoordinator", {
+      deps: [
+        "vectorStore",
+        "departmentService",
+        "environmentService",
+        "transportService",
+        "socialDynamicsService",
+        "analyticsService",
+        "cityMemory",
+        "economyService",
+      ],
+      create: (deps) =>
+        new CityCoordinatorService(
+          deps.vectorStore,
+          deps.departmentService,
+          deps.environmentService,
+          deps.transportService,
+          deps.socialDynamicsService,
+          deps.analyticsService,
+          deps.cityMemory,
+          deps.economyService
+        ),
+    })
+    .register("conversationScheduler", {
+      deps: [
+        "cityRhythm",
+        "cityEventsService",
+        "districtService",
+        "simulationClock",
+      ],
+      create: (deps) =>
+        new ConversationSchedulerService(
+          deps.cityRhythm,
+          deps.cityEventsService,
+          deps.districtService,
+          deps.simulationClock
+        ),
+    })
+    // Named, versioned LLM prompts with overrides from PROMPT_TEMPLATES_DIR
+    .register("promptTemplates", {
+      create: () => new PromptTemplateService(),
+    })
+    // Episodic and summarised memories of each agent's past conversations
+    .register("agentMemory", {
+      deps: ["llmUsage", "simulationClock"],
+      create: (deps) =>
+        new AgentMemoryService(
+          deps.llmUsage.forService("agentMemory"),
+          deps.simulationClock
+        ),
+    })
+    // Affinity, trust and conflicts between agents
+    .register("agentRelationships", {
+      deps: ["collaborationService", "simulationClock"],
+      create: (deps) =>
+        new AgentRelationshipService(
+          deps.collaborationService,
+          deps.simulationClock
+        ),
+    })
+    .register("agentConversationService", {
+      deps: [
+        "vectorStore",
+        "cityCoordinator",
+        "aiIntegration",
+        "socialDynamicsService",
+        "cultureService",
+        "llmUsage",
+        "districtService",
+        "conversationScheduler",
+        "agentMemory",
+        "agentRelationships",
+        "promptTemplates",
+      ],
+      create: (deps) =>
+        new AgentConversationService(
+          deps.vectorStore,
+          deps.cityCoordinator,
+          deps.aiIntegration,
+          deps.socialDynamicsService,
+          deps.cultureService,
+          deps.llmUsage.forService("agentConversationService"),
+          deps.districtService,
+          deps.conversationScheduler,
+          deps.agentMemory,
+          deps.agentRelationships,
+          deps.promptTemplates
+        ),
+      // Register city agents for autonomous conversations
+      start: (service) => {
+        if (options.startAgents === false) return;
+        registerCityAgents(
+          service,
+          container.get("aiIntegration"),
+          agentTimers
+        ).catch(console.error);
+      },
+      stop: (service) => {
+        agentTimers.clearAll();
+        service.stop();
+      },
+    })
+    .register("conversationParticipants", {
+      deps: ["agentConversationService"],
+      create: ({ agentConversationService }) =>
+        new ConversationParticipantService(agentConversationService),
+    })
+    .register("conversationTranscripts", {
+      deps: ["agentConversationService", "vectorStore", "districtService"],
+      create: (deps) =>
+        new ConversationTranscriptService(
+          deps.agentConversationService,
+          deps.vectorStore,
+          deps.districtService
+        ),
+    })
+    // Scores ended conversations for /api/conversations/quality
+    .register("conversationQuality", {
+      deps: ["agentConversationService"],
+      create: (deps) =>
+        new ConversationQualityService(deps.agentConversationService),
+    })
+    .register("adaptiveLearning", {
+      deps: [
+        "vectorStore",
+        "metricsService",
+        "cityService",
+        "districtService",
+        "agentConversationService",
+        "socialDynamicsService",
+      ],
+      create: (deps) =>
+        new AdaptiveLearningService(
+          deps.vectorStore,
+          deps.metricsService,
+          deps.cityService,
+          deps.districtService,
+          deps.agentConversationService,
+          deps.socialDynamicsService
+        ),
+    })
+    .register("departmentAgentService", {
+      deps: [
+        "llmUsage",
+        "analyticsService",
+        "departmentService",
+        "metricsService",
+        "vectorStore",
+      ],
+      create: (deps) =>
+        new DepartmentAgentService(
+          deps.llmUsage.forService("departmentAgentService"),
+          deps.analyticsService,
+          deps.departmentService,
+          deps.metricsService,
+          deps.vectorStore
+        ),
+    })
+    .register("developmentService", {
+      deps: [
+        "vectorStore",
+        "districtService",
+        "smartInfrastructureService",
+        "environmentService",
+        "simulationClock",
+      ],
+      create: (deps) =>
+        new DevelopmentService(
+          deps.vectorStore,
+          deps.districtService,
+          deps.smartInfrastructureService,
+          deps.environmentService,
+          deps.simulationClock
+        ),
+    })
+    .register("spatialCoordination", {
+      deps: ["vectorStore", "districtService", "emergencyService", "eventBus"],
+      create: (deps) =>
+        new SpatialCoordinationService(
+          deps.vectorStore,
+          deps.districtService,
+          deps.emergencyService,
+          deps.eventBus
+        ),
+    })
+    .register("conversationService", {
+      deps: [
+        "llmUsage",
+        "vectorStore",
+        "cityService",
+        "collaborationService",
+        "cityMemory",
+        "spatialCoordination",
+        "agentCultureService",
+        "emergencyService",
+        "cityEventsService",
+        "promptTemplates",
+      ],
+      create: (deps) =>
+        new ConversationService(
+          deps.llmUsage.forService("conversationService"),
+          deps.vectorStore,
+          deps.cityService,
+          deps.collaborationService,
+          deps.cityMemory,
+          deps.spatialCoordination,
+          deps.agentCultureService,
+          deps.emergencyService,
+          deps.cityEventsService,
+          deps.promptTemplates
+        ),
+    })
+    .register("chroniclesService", {
+      deps: ["llmUsage", "vectorStore", "promptTemplates"],
+      create: ({ llmUsage, vectorStore, promptTemplates }) =>
+        new ChroniclesService(
+          llmUsage.forService("chroniclesService"),
+          vectorStore,
+          promptTemplates
+        ),
+    })
+    .register("culturalDonation", {
+      deps: ["cultureService", "developmentService", "vectorStore", "payments"],
+      create: (deps) =>
+        new CulturalDonationService(
+          deps.cultureService,
+          deps.developmentService,
+          deps.vectorStore,
+          deps.payments
+        ),
+    })
+    .register("culturalTransport", {
+      deps: [
+        "cultureService",
+        "transportService",
+        "vectorStore",
+        "analyticsService",
+      ],
+      create: (deps) =>
+        new CulturalTransportService(
+          deps.cultureService,
+          deps.transportService,
+          deps.vectorStore,
+          deps.analyticsService
+        ),
+    })
+    .register("donationService", {
+      deps: [
+        "vectorStore",
+        "departmentService",
+        "districtService",
+        "socialDynamicsService",
+        "cityEventsService",
+        "agentConversationService",
+        "donationLedger",
+        "payments",
+        "donorProfiles",
+        "eventBus",
+      ],
+      create: (deps) =>
+        new DonationService(
+          deps.vectorStore,
+          deps.departmentService,
+          deps.districtService,
+          deps.socialDynamicsService,
+          deps.cityEventsService,
+          deps.agentConversationService,
+          deps.donationLedger,
+          deps.payments,
+          deps.donorProfiles,
+          deps.eventBus
+        ),
+    })
+    // Display name and anonymity preferences honoured in public announcements
+    .register("donorProfiles", { create: () => new DonorProfileService() })
+    .register("donorRecords", {
+      deps: ["donationService", "donorProfiles", "donationLedger"],
+      create: (deps) =>
+        new DonorRecordsService(
+          deps.donationService,
+          deps.donorProfiles,
+          deps.donationLedger
+        ),
+    })
+    // Recurring donations (SUBSCRIPTION_RETRY_BACKOFF_HOURS sets the dunning schedule)
+    .register("donationSubscriptions", {
+      deps: ["donationService", "culturalDonation", "payments"],
+      create: ({ donationService, culturalDonation, payments }) =>
+        new DonationSubscriptionService(
+          donationService,
+          culturalDonation,
+          payments
+        ),
+    })
+    // Goal and challenge authoring, scheduling and expiry reports
+    .register("donationCampaigns", {
+      deps: ["donationService"],
+      create: ({ donationService }) =>
+        new DonationCampaignService(donationService),
+    })
+    // Users, service accounts and refresh tokens for the role guards
+    .register("authService", {
+      create: () => new AuthService(loadAuthConfig()),
+    })
+    // Persist city state across restarts; everything but accounts also makes up /api/admin/snapshot
+    .register("persistence", {
+      deps: [
+        "districtService",
+        "departmentService",
+        "donationService",
+        "donationLedger",
+        "payments",
+        "donationSubscriptions",
+        "donorProfiles",
+        "donationCampaigns",
+        "agentConversationService",
+        "agentMemory",
+        "agentRelationships",
+        "conversationQuality",
+        "promptTemplates",
+        "llmUsage",
+        "transportService",
+        "landmarkService",
+        "cityEventsService",
+        "authService",
+      ],
+      create: (deps) => {
+        const stateStoreConfig = loadStateStoreConfig();
+        const persistence = new PersistenceService(
+          options.stateStore || createStateStore(stateStoreConfig),
+          stateStoreConfig.autosaveIntervalMs
+        );
+        persistence.register(
+          deps.districtService,
+          deps.departmentService,
+          deps.donationService,
+          deps.donationLedger,
+          deps.payments,
+          deps.donationSubscriptions,
+          deps.donorProfiles,
+          deps.donationCampaigns,
+          deps.agentConversationService,
+          deps.agentMemory,
+          deps.agentRelationships,
+          deps.conversationQuality,
+          deps.promptTemplates,
+          deps.llmUsage,
+          deps.transportService,
+          deps.landmarkService,
+          deps.cityEventsService
+        );
+        persistence.registerPrivate(deps.authService);
+        return persistence;
+      },
+    });
 
-// Initialize spatial and cultural services
-const spatialCoordination = new SpatialCoordinationService(
-  vectorStore,
-  initialDistrictService,
-  emergencyService
-);
+  return container;
+}
 
-const conversationService = new ConversationService(
-  togetherService,
-  vectorStore,
-  cityService,
-  collaborationService,
-  cityMemory,
-  spatialCoordination,
-  agentCulture,
-  emergencyService,
-  cityEventsService
-);
+// Create and export store. Services are built on first access; start the
+// container to build the rest and run their lifecycle hooks.
+export function createStore(options: StoreOptions = {}): AppStore {
+  const container = createCityContainer(options);
+  const services = {} as AppStore["services"];
+  for (const name of container.keys()) {
+    Object.defineProperty(services, name, {
+      enumerable: true,
+      get: () => container.get(name),
+    });
+  }
 
-// Initialize chronicles service
-const chroniclesService = new ChroniclesService(togetherService, vectorStore);
+  return {
+    services,
+    conversations: new Map(),
+    container,
+  };
+}
 
-// Register city agents for autonomous conversations
-const registerCityAgents = async () => {
+async function registerCityAgents(
+  agentConversationService: AgentConversationService,
+  aiIntegration: AIIntegrationService,
+  timers: ServiceTimers
+) {
   // Initialize AI system first
-  await initializeAISystem();
+  await initializeAISystem(aiIntegration);
 
   // Register agents and store them in the conversation service
   for (const agent of allCityAgents) {
@@ -397,14 +969,17 @@ const registerCityAgents = async () => {
   console.log("🤖 Started initial agent conversations");
 
   // Start periodic agent activities
-  startAgentActivities();
+  startAgentActivities(agentConversationService, timers);
   console.log("🤖 Started periodic agent activities");
-};
+}
 
 // Start periodic agent activities
-const startAgentActivities = () => {
+function startAgentActivities(
+  agentConversationService: AgentConversationService,
+  timers: ServiceTimers
+) {
   // Check for new conversation opportunities every minute
-  setInterval(async () => {
+  timers.setInterval(async () => {
     const activeConversations =
       await agentConversationService.getActiveConversations();
     console.log(`🤖 Active conversations: ${activeConversations.length}`);
@@ -425,35 +1000,10 @@ const startAgentActivities = () => {
       await agentConversationService.initiateAgentActivity(agent);
     }
   }, 60 * 1000); // Every minute
-};
-
-// Call registration asynchronously
-registerCityAgents().catch(console.error);
-
-const culturalDonation = new CulturalDonationService(
-  cultureService,
-  developmentService,
-  vectorStore
-);
-
-const culturalTransport = new CulturalTransportService(
-  cultureService,
-  transportService,
-  vectorStore,
-  analyticsService
-);
-
-const donationService = new DonationService(
-  vectorStore,
-  departmentService,
-  initialDistrictService,
-  socialDynamicsService,
-  initialCollaborationService,
-  agentConversationService
-);
+}
 
 // Initialize AI system with all agents
-async function initializeAISystem() {
+async function initializeAISystem(aiIntegration: AIIntegrationService) {
   try {
     const allAgents = [...allCityAgents.map((agent: Agent) => agent.id)];
     const residentAgentIds = residentAgents.map((a: Agent) => a.id).join(",");
@@ -492,45 +1042,3 @@ async function initializeAISystem() {
     throw error;
   }
 }
-
-// Create and export store
-export function createStore(): AppStore {
-  return {
-    services: {
-      donationService,
-      districtWebSocket,
-      togetherService,
-      vectorStore,
-      conversationService,
-      cityService,
-      analyticsService,
-      collaborationService,
-      socketManager,
-      districtService: initialDistrictService,
-      cityEventsService,
-      metricsService,
-      departmentService,
-      citizenService,
-      departmentAgentService,
-      developmentService,
-      environmentService,
-      spatialCoordination,
-      cityMemory,
-      culture: cultureService,
-      economyService,
-      adaptiveLearning,
-      cityCoordinator,
-      cityRhythm: cityRhythmService,
-      culturalDonation,
-      culturalTransport,
-      aiIntegration,
-      cultureService,
-      districtCultureService,
-      agentCultureService: agentCulture,
-      socialCohesionService,
-      agentConversationService,
-      chroniclesService,
-    },
-    conversations: new Map(),
-  };
-}
@@ -0,0 +1,314 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type {
+  AuthConfig,
+  Principal,
+  RefreshTokenRecord,
+  Role,
+  ServiceAccount,
+  UserAccount,
+} from "../types/auth.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+// Used when JWT_SECRET is unset so tokens never validate against a well-known key
+const ephemeralSecret = randomBytes(32).toString("hex");
+let warnedAboutSecret = false;
+
+export function loadAuthConfig(
+  env: Record<string, string | undefined> = process.env
+): AuthConfig {
+  if (!env.JWT_SECRET && !warnedAboutSecret) {
+    warnedAboutSecret = true;
+    console.warn(
+      "⚠️ JWT_SECRET is not set, using a random secret (tokens will not survive restarts)"
+    );
+  }
+
+  return {
+    jwtSecret: env.JWT_SECRET || ephemeralSecret,
+    accessTokenTtlSeconds: env.ACCESS_TOKEN_TTL_SECONDS
+      ? parseInt(env.ACCESS_TOKEN_TTL_SECONDS, 10)
+      : 15 * 60,
+    refreshTokenTtlMs: env.REFRESH_TOKEN_TTL_HOURS
+      ? parseInt(env.REFRESH_TOKEN_TTL_HOURS, 10) * 60 * 60 * 1000
+      : 7 * 24 * 60 * 60 * 1000,
+    adminUsername: env.ADMIN_USERNAME,
+    adminPassword: env.ADMIN_PASSWORD,
+    legacyApiKey: env.BACKEND_API_KEY,
+  };
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function hasRole(
+  principal: Principal,
+  roles: Role[],
+  departmentId?: string
+): boolean {
+  if (principal.roles.includes("admin")) return true;
+
+  return roles.some((role) => {
+    if (!principal.roles.includes(role)) return false;
+    // Operators may only act on the departments they are assigned to
+    if (role === "department_operator" && departmentId) {
+      return principal.departmentIds.includes(departmentId);
+    }
+    return true;
+  });
+}
+
+export class AuthService implements PersistableService {
+  readonly persistenceKey = "auth";
+  private users: Map<string, UserAccount> = new Map();
+  private serviceAccounts: Map<string, ServiceAccount> = new Map();
+  private refreshTokens: Map<string, RefreshTokenRecord> = new Map();
+
+  constructor(readonly config: AuthConfig = loadAuthConfig()) {}
+
+  get accessTokenTtlSeconds(): number {
+    return this.config.accessTokenTtlSeconds;
+  }
+
+  // Seeds the first admin from ADMIN_USERNAME/ADMIN_PASSWORD once state is restored
+  async bootstrap(): Promise<void> {
+    const { adminUsername, adminPassword } = this.config;
+    if (!adminUsername || !adminPassword) {
+      if (this.users.size === 0) {
+        console.warn(
+          "⚠️ No users exist and ADMIN_USERNAME/ADMIN_PASSWORD are not set; protected routes are unreachable"
+        );
+      }
+      return;
+    }
+    if (this.findUserByUsername(adminUsername)) return;
+
+    await this.createUser({
+      username: adminUsername,
+      password: adminPassword,
+      roles: ["admin"],
+    });
+    console.log(`🔐 Created bootstrap admin "${adminUsername}"`);
+  }
+
+  async createUser(input: {
+    username: string;
+    password: string;
+    roles: Role[];
+    departmentIds?: string[];
+  }): Promise<Omit<UserAccount, "passwordHash">> {
+    if (this.findUserByUsername(input.username)) {
+      throw new Error(`User "${input.username}" already exists`);
+    }
+    if (input.password.length < 8) {
+      throw new Error("Password must be at least 8 characters");
+    }
+
+    const user: UserAccount = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      passwordHash: await Bun.password.hash(input.password),
+      roles: input.roles,
+      departmentIds: input.departmentIds || [],
+      createdAt: Date.now(),
+    };
+    this.users.set(user.id, user);
+    return this.toPublicUser(user);
+  }
+
+  listUsers(): Omit<UserAccount, "passwordHash">[] {
+    return Array.from(this.users.values()).map((user) =>
+      this.toPublicUser(user)
+    );
+  }
+
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<Principal | null> {
+    const user = this.findUserByUsername(username);
+    if (!user) return null;
+
+    const valid = await Bun.password.verify(password, user.passwordHash);
+    if (!valid) return null;
+
+    user.lastLoginAt = Date.now();
+    return this.userPrincipal(user);
+  }
+
+  getUserPrincipal(userId: string): Principal | null {
+    const user = this.users.get(userId);
+    return user ? this.userPrincipal(user) : null;
+  }
+
+  // The plaintext key is only returned here; we keep its SHA-256 digest
+  createServiceAccount(input: {
+    name: string;
+    roles: Role[];
+    departmentIds?: string[];
+  }): { account: Omit<ServiceAccount, "keyHash">; apiKey: string } {
+    const apiKey = `aic_${randomBytes(24).toString("hex")}`;
+    const account: ServiceAccount = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      keyHash: sha256(apiKey),
+      keyPrefix: apiKey.slice(0, 10),
+      roles: input.roles,
+      departmentIds: input.departmentIds || [],
+      createdAt: Date.now(),
+    };
+    this.serviceAccounts.set(account.id, account);
+    return { account: this.toPublicServiceAccount(account), apiKey };
+  }
+
+  listServiceAccounts(): Omit<ServiceAccount, "keyHash">[] {
+    return Array.from(this.serviceAccounts.values()).map((account) =>
+      this.toPublicServiceAccount(account)
+    );
+  }
+
+  revokeServiceAccount(id: string): boolean {
+    const account = this.serviceAccounts.get(id);
+    if (!account || account.revokedAt) return false;
+    account.revokedAt = Date.now();
+    return true;
+  }
+
+  authenticateApiKey(apiKey: string): Principal | null {
+    // BACKEND_API_KEY keeps working for the donation webhooks that predate service accounts
+    if (
+      this.config.legacyApiKey &&
+      safeEqual(apiKey, this.config.legacyApiKey)
+    ) {
+      return {
+        id: "service:legacy-backend",
+        kind: "service",
+        name: "legacy-backend",
+        roles: ["donor"],
+        departmentIds: [],
+      };
+    }
+
+    const keyHash = sha256(apiKey);
+    const account = Array.from(this.serviceAccounts.values()).find(
+      (candidate) => safeEqual(candidate.keyHash, keyHash)
+    );
+    if (!account || account.revokedAt) return null;
+
+    account.lastUsedAt = Date.now();
+    return {
+      id: account.id,
+      kind: "service",
+      name: account.name,
+      roles: account.roles,
+      departmentIds: account.departmentIds,
+    };
+  }
+
+  issueRefreshToken(userId: string): string {
+    const secret = randomBytes(32).toString("hex");
+    const record: RefreshTokenRecord = {
+      id: crypto.randomUUID(),
+      tokenHash: sha256(secret),
+      userId,
+      expiresAt: Date.now() + this.config.refreshTokenTtlMs,
+      createdAt: Date.now(),
+    };
+    this.refreshTokens.set(record.id, record);
+    this.pruneRefreshTokens();
+    return `${record.id}.${secret}`;
+  }
+
+  // Refresh tokens are single use: a successful refresh revokes the old one
+  rotateRefreshToken(
+    token: string
+  ): { principal: Principal; refreshToken: string } | null {
+    const record = this.findRefreshToken(token);
+    if (!record) return null;
+
+    this.refreshTokens.delete(record.id);
+    const principal = this.getUserPrincipal(record.userId);
+    if (!principal) return null;
+
+    return { principal, refreshToken: this.issueRefreshToken(record.userId) };
+  }
+
+  revokeRefreshToken(token: string): boolean {
+    const record = this.findRefreshToken(token);
+    return record ? this.refreshTokens.delete(record.id) : false;
+  }
+
+  exportState(): PersistedCollections {
+    return {
+      users: mapToRecord(this.users),
+      serviceAccounts: mapToRecord(this.serviceAccounts),
+      refreshTokens: mapToRecord(this.refreshTokens),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.users = recordToMap<UserAccount>(state.users);
+    this.serviceAccounts = recordToMap<ServiceAccount>(state.serviceAccounts);
+    this.refreshTokens = recordToMap<RefreshTokenRecord>(state.refreshTokens);
+  }
+
+  private findUserByUsername(username: string): UserAccount | undefined {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username
+    );
+  }
+
+  private findRefreshToken(token: string): RefreshTokenRecord | undefined {
+    const [id, secret] = token.split(".");
+    const record = id ? this.refreshTokens.get(id) : undefined;
+    if (!record || !secret) return undefined;
+    if (!safeEqual(record.tokenHash, sha256(secret))) return undefined;
+    if (record.expiresAt <= Date.now()) {
+      this.refreshTokens.delete(record.id);
+      return undefined;
+    }
+    return record;
+  }
+
+  private pruneRefreshTokens() {
+    const now = Date.now();
+    for (const [id, record] of this.refreshTokens.entries()) {
+      if (record.expiresAt <= now) {
+        this.refreshTokens.delete(id);
+      }
+    }
+  }
+
+  private userPrincipal(user: UserAccount): Principal {
+    return {
+      id: user.id,
+      kind: "user",
+      name: user.username,
+      roles: user.roles,
+      departmentIds: user.departmentIds,
+    };
+  }
+
+  private toPublicUser(user: UserAccount): Omit<UserAccount, "passwordHash"> {
+    const { passwordHash, ...rest } = user;
+    return rest;
+  }
+
+  private toPublicServiceAccount(
+    account: ServiceAccount
+  ): Omit<ServiceAccount, "keyHash"> {
+    const { keyHash, ...rest } = account;
+    return rest;
+  }
+}
@@ -1,5 +1,9 @@
-import { TogetherService } from "./together.service";
+import { z } from "zod";
+import type { LLMProvider } from "../types/llm.types";
 import { VectorStoreService as VectorService } from "./vector-store.service";
+import { PromptTemplateService } from "./prompt-template.service";
+import { generateStructured } from "../utils/structured-generation";
+import type { RenderedPrompt } from "../types/prompt-template.types";
 
 interface CityNews {
   headline: string;
@@ -15,6 +19,8 @@ interface CityNews {
   importance: number;
   relatedDistricts?: string[];
   relatedAgents?: string[];
+  // Template version the article was written from
+  prompt?: Pick<RenderedPrompt, "template" | "version">;
 }
 
 interface CityIncident {
@@ -27,6 +33,7 @@ interface CityIncident {
   status: "ongoing" | "resolved" | "under_investigation";
   responseTeam?: string[];
   type: "crime" | "accident" | "disturbance" | "emergency" | "infrastructure";
+  prompt?: Pick<RenderedPrompt, "template" | "version">;
 }
 
 interface DepartmentBudget {
@@ -49,6 +56,7 @@ interface CityEvent {
   timestamp: number;
   impact: number;
   participants?: string[];
+  prompt?: Pick<RenderedPrompt, "template" | "version">;
 }
 
 interface DetailedMetrics {
@@ -98,43 +106,62 @@ interface DailyChronicle {
   metrics: DetailedMetrics;
 }
 
-const generateNewsPrompt = (context: string) => `
-[NEUROVA DAILY NEWS]
-Context: ${context}
-
-Generate news article:
-Headline: [Headline]
-Content: [2-3 paragraphs]
-Category: [politics/culture/infrastructure/environment/technology/community]
-Importance: [1-10]
-
-Style: Journalistic, fact-focused, city newspaper format.`;
-
-const generateEventPrompt = (context: string) => `
-[NEUROVA EVENT]
-Context: ${context}
-
-Generate a concise city event description:
-Title: [Title]
-Description: [2-3 sentences about the event]
-Type: [celebration/incident/development/cultural/emergency]
-Location: [Specific venue name]
-Impact: [1-10]
-
-Style: Direct, factual, no meta-text or templates.`;
-
-const generateIncidentPrompt = (context: string) => `
-[NEUROVA INCIDENT]
-Context: ${context}
-
-Generate a concise incident report:
-Description: [1-2 clear sentences]
-Severity: [low/medium/high/critical]
-Location: [Specific location]
-Type: [crime/accident/disturbance/emergency/infrastructure]
-Status: [ongoing/resolved/under_investigation]
+// Phrases of a model talking about the task instead of doing it
+const META_TEXT =
+  /please provide|let me know|information needed|following details|i'll use these|i will assist|required for this task|would you like|shall i|should i|do you want|can i help|i can generate|i will provide|note:|if you need|further assistance/i;
+
+const prose = (min: number, max: number) =>
+  z
+    .string()
+    .trim()
+    .min(min)
+    .max(max)
+    .refine(
+      (value) => !META_TEXT.test(value) && !/[[\]*]/.test(value),
+      "must be finished text without placeholders, markdown or notes to the reader"
+    );
 
-Style: Direct, factual emergency report format.`;
+const NewsSchema = z.object({
+  headline: prose(10, 100),
+  content: prose(100, 2000),
+  category: z.enum([
+    "politics",
+    "culture",
+    "infrastructure",
+    "environment",
+    "technology",
+    "community",
+  ]),
+  importance: z.number().int().min(1).max(10),
+});
+
+const EventSchema = z.object({
+  title: prose(10, 100),
+  description: prose(50, 1000),
+  type: z.enum([
+    "celebration",
+    "incident",
+    "development",
+    "cultural",
+    "emergency",
+  ]),
+  location: prose(3, 50),
+  impact: z.number().int().min(1).max(10),
+});
+
+const IncidentSchema = z.object({
+  description: prose(50, 500),
+  severity: z.enum(["low", "medium", "high", "critical"]),
+  location: prose(3, 50),
+  type: z.enum([
+    "crime",
+    "accident",
+    "disturbance",
+    "emergency",
+    "infrastructure",
+  ]),
+  status: z.enum(["ongoing", "resolved", "under_investigation"]),
+});
 
 export class ChroniclesService {
   private lastUpdate: number = 0;
@@ -144,8 +171,9 @@ export class ChroniclesService {
   private readonly EVENTS_PER_UPDATE = 2;
 
   constructor(
-    private togetherService: TogetherService,
-    private vectorService: VectorService
+    private togetherService: LLMProvider,
+    private vectorService: VectorService,
+    private promptTemplates: PromptTemplateService
   ) {
     // Initialize chronicles data immediately
     console.log("🗞️ Initializing Chronicles Service...");
@@ -201,8 +229,9 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
       const embedding = await this.togetherService.createEmbedding(
         `${news.headline}\n${news.content}`
       );
+      const id = `news-${timestamp}-${news.headline.slice(0, 20)}`;
       await this.vectorService.upsert({
-        id: `news-${timestamp}-${news.headline.slice(0, 20)}`,
+        id,
         values: embedding,
         metadata: {
           type: "city_news",
@@ -213,8 +242,11 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
           importance: news.importance,
           relatedDistricts: news.relatedDistricts,
           relatedAgents: news.relatedAgents,
+          promptTemplate: news.prompt?.template,
+          promptVersion: news.prompt?.version,
         },
       });
+      if (news.prompt) this.promptTemplates.recordOutput(id, news.prompt);
     }
 
     // Store events
@@ -222,8 +254,9 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
       const embedding = await this.togetherService.createEmbedding(
         `${event.title}\n${event.description}`
       );
+      const id = `event-${timestamp}-${event.title.slice(0, 20)}`;
       await this.vectorService.upsert({
-        id: `event-${timestamp}-${event.title.slice(0, 20)}`,
+        id,
         values: embedding,
         metadata: {
           type: "city_event",
@@ -234,8 +267,11 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
           timestamp: event.timestamp,
           impact: event.impact,
           participants: event.participants,
+          promptTemplate: event.prompt?.template,
+          promptVersion: event.prompt?.version,
         },
       });
+      if (event.prompt) this.promptTemplates.recordOutput(id, event.prompt);
     }
 
     // Store incidents
@@ -243,8 +279,9 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
       const embedding = await this.togetherService.createEmbedding(
         `${incident.description}`
       );
+      const id = `incident-${incident.id}`;
       await this.vectorService.upsert({
-        id: `incident-${incident.id}`,
+        id,
         values: embedding,
         metadata: {
           type: "city_incident",
@@ -256,8 +293,13 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
           status: incident.status,
           involvedAgents: incident.involvedAgents,
           responseTeam: incident.responseTeam,
+          promptTemplate: incident.prompt?.template,
+          promptVersion: incident.prompt?.version,
         },
       });
+      if (incident.prompt) {
+        this.promptTemplates.recordOutput(id, incident.prompt);
+      }
     }
   }
 
@@ -369,154 +411,26 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
     const incidentCount = 3 + Math.floor(Math.random() * 3);
 
     for (let i = 0; i < incidentCount; i++) {
-      const response = await this.togetherService.generateText(
-        generateIncidentPrompt(context)
-      );
-
-      try {
-        // Rest of the parsing logic remains the same
-        const lines = response.split("\n").map((line) => line.trim());
-        let description = "",
-          severity = "medium",
-          location = "",
-          type = "disturbance",
-          status = "ongoing";
-
-        for (const line of lines) {
-          if (line.startsWith("Description:")) {
-            description = line.replace("Description:", "").trim();
-          } else if (line.startsWith("Severity:")) {
-            severity = line.replace("Severity:", "").trim().toLowerCase();
-          } else if (line.startsWith("Location:")) {
-            location = line.replace("Location:", "").trim();
-          } else if (line.startsWith("Type:")) {
-            type = line.replace("Type:", "").trim().toLowerCase();
-          } else if (line.startsWith("Status:")) {
-            status = line.replace("Status:", "").trim().toLowerCase();
-          } else if (
-            !line.startsWith("[") &&
-            !line.startsWith("Context:") &&
-            line.length > 0
-          ) {
-            if (description) description += " ";
-            description += line;
-          }
-        }
-
-        // Clean up description - remove meta-questions and suggestions
-        description = description
-          .replace(/\?/g, ".")
-          .replace(
-            /would you like|shall i|should i|do you want|can i|let me know|please tell me|i can|i will|i could|i would/gi,
-            ""
-          )
-          .replace(/\s+/g, " ")
-          .trim();
-
-        // Remove any sentence containing meta-text
-        const sentences = description
-          .split(/[.!?]+/)
-          .filter(
-            (sentence) =>
-              !sentence.match(
-                /would you like|shall i|should i|do you want|can i|let me know|please tell me|i can|i will|i could|i would/i
-              )
-          );
-        description = sentences.join(". ").trim() + ".";
-
-        // Validate severity
-        const validSeverities = ["low", "medium", "high", "critical"];
-        if (!validSeverities.includes(severity)) {
-          severity = "medium";
-        }
-
-        // Validate type
-        const validTypes = [
-          "crime",
-          "accident",
-          "disturbance",
-          "emergency",
-          "infrastructure",
-        ];
-        if (!validTypes.includes(type)) {
-          type = "disturbance";
-        }
-
-        // Validate status
-        const validStatuses = ["ongoing", "resolved", "under_investigation"];
-        if (!validStatuses.includes(status)) {
-          status = "ongoing";
-        }
-
-        // Additional validation to prevent meta-responses
-        const invalidPatterns = [
-          "please provide",
-          "let me know",
-          "information needed",
-          "following details",
-          "guidelines",
-          "procedures",
-          "you are tasked",
-          "write a report",
-          "document the",
-          "[",
-          "]",
-          "*",
-          "would you like",
-          "shall i",
-          "should i",
-          "can i help",
-          "do you want",
-          "i can generate",
-          "i will provide",
-          "Style: ",
-          "Format: ",
-          " Should i",
-          "note:",
-          "i've followed",
-          "format for generating",
-          "if you need",
-          "further assistance",
-        ];
-
-        const hasInvalidPattern = invalidPatterns.some(
-          (pattern) =>
-            description.toLowerCase().includes(pattern) ||
-            location.toLowerCase().includes(pattern)
-        );
-
-        // Validate content length and structure
-        const isValidContent =
-          description.length >= 50 && // Minimum description length
-          description.length <= 500 && // Maximum description length
-          !hasInvalidPattern && // No meta-text patterns
-          location.length >= 3 && // Minimum location length
-          location.length <= 50; // Maximum location length
-
-        // Only add the incident if we have valid content
-        if (description && location && isValidContent) {
-          incidents.push({
-            id: `INC-${Date.now()}-${i}`,
-            description,
-            severity: severity as CityIncident["severity"],
-            location,
-            timestamp: Date.now(),
-            type: type as CityIncident["type"],
-            status: status as CityIncident["status"],
-            involvedAgents: [],
-            responseTeam: [],
-          });
-        } else {
-          // If invalid, try again
-          i--;
-          continue;
-        }
-      } catch (error) {
-        console.error("Failed to parse incident:", error);
-        // If failed, try again
-        i--;
+      const prompt = this.promptTemplates.render("chronicles-incident", {
+        context,
+      });
+      const result = await generateStructured(this.togetherService, {
+        prompt: prompt.text,
+        schema: IncidentSchema,
+      });
+      if (!result.ok) {
+        console.error("Skipped incident:", result.error.message);
         continue;
       }
+
+      incidents.push({
+        id: `INC-${Date.now()}-${i}`,
+        ...result.value,
+        timestamp: Date.now(),
+        involvedAgents: [],
+        responseTeam: [],
+        prompt: { template: prompt.template, version: prompt.version },
+      });
     }
 
     return incidents;
@@ -527,103 +441,25 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
 
     // Generate news articles per update
     for (let i = 0; i < this.NEWS_PER_UPDATE; i++) {
-      const response = await this.togetherService.generateText(
-        generateNewsPrompt(context)
-      );
-
-      try {
-        // Parse the response with more robust error handling
-        const lines = response.split("\n").map((line) => line.trim());
-        let headline = "",
-          content = "",
-          category = "community",
-          importance = 5;
-
-        for (const line of lines) {
-          if (line.startsWith("Headline:")) {
-            headline = line.replace("Headline:", "").trim();
-          } else if (line.startsWith("Content:")) {
-            content = line.replace("Content:", "").trim();
-          } else if (line.startsWith("Category:")) {
-            category = line.replace("Category:", "").trim().toLowerCase();
-          } else if (line.startsWith("Importance:")) {
-            importance = parseInt(line.replace("Importance:", "").trim()) || 5;
-          } else if (
-            !line.startsWith("[") &&
-            !line.startsWith("Context:") &&
-            line.length > 0
-          ) {
-            if (content) content += "\n";
-            content += line;
-          }
-        }
-
-        // Validate category
-        const validCategories = [
-          "politics",
-          "culture",
-          "infrastructure",
-          "environment",
-          "technology",
-          "community",
-        ];
-        if (!validCategories.includes(category)) {
-          category = "community";
-        }
-
-        // Validate importance
-        importance = Math.max(1, Math.min(10, importance));
-
-        // Additional validation to prevent meta-responses
-        const invalidPatterns = [
-          "please provide",
-          "let me know",
-          "information needed",
-          "following details",
-          "I'll use these",
-          "I will assist",
-          "required for this task",
-        ];
-
-        const hasInvalidPattern = invalidPatterns.some(
-          (pattern) =>
-            content.toLowerCase().includes(pattern) ||
-            headline.toLowerCase().includes(pattern)
-        );
-
-        // Validate content length and structure
-        const isValidContent =
-          content.length >= 100 && // Minimum content length
-          content.length <= 2000 && // Maximum content length
-          !hasInvalidPattern && // No meta-text patterns
-          !content.includes("*") && // No markdown
-          !content.includes("[") && // No placeholders
-          !headline.includes("required") && // No meta-headlines
-          headline.length >= 10 && // Minimum headline length
-          headline.length <= 100; // Maximum headline length
-
-        // Only add the news if we have valid headline and content
-        if (headline && content && isValidContent) {
-          news.push({
-            headline,
-            content,
-            category: category as CityNews["category"],
-            timestamp: Date.now(),
-            importance,
-            relatedDistricts: [],
-            relatedAgents: [],
-          });
-        } else {
-          // If invalid, try again
-          i--;
-          continue;
-        }
-      } catch (error) {
-        console.error("Failed to parse news article:", error);
-        // If failed, try again
-        i--;
+      const prompt = this.promptTemplates.render("chronicles-news", {
+        context,
+      });
+      const result = await generateStructured(this.togetherService, {
+        prompt: prompt.text,
+        schema: NewsSchema,
+      });
+      if (!result.ok) {
+        console.error("Skipped news article:", result.error.message);
         continue;
       }
+
+      news.push({
+        ...result.value,
+        timestamp: Date.now(),
+        relatedDistricts: [],
+        relatedAgents: [],
+        prompt: { template: prompt.template, version: prompt.version },
+      });
     }
 
     return news;
@@ -634,109 +470,24 @@ Next update in ${this.UPDATE_INTERVAL / (60 * 60 * 1000)} hours`);
 
     // Generate events per update
     for (let i = 0; i < this.EVENTS_PER_UPDATE; i++) {
-      const response = await this.togetherService.generateText(
-        generateEventPrompt(context)
-      );
-
-      try {
-        // Parse the response with robust error handling
-        const lines = response.split("\n").map((line) => line.trim());
-        let title = "",
-          description = "",
-          type = "cultural",
-          location = "City Center",
-          impact = 5;
-
-        for (const line of lines) {
-          if (line.startsWith("Title:")) {
-            title = line.replace("Title:", "").trim();
-          } else if (line.startsWith("Description:")) {
-            description = line.replace("Description:", "").trim();
-          } else if (line.startsWith("Type:")) {
-            type = line.replace("Type:", "").trim().toLowerCase();
-          } else if (line.startsWith("Location:")) {
-            location = line.replace("Location:", "").trim();
-          } else if (line.startsWith("Impact:")) {
-            impact = parseInt(line.replace("Impact:", "").trim()) || 5;
-          } else if (
-            !line.startsWith("[") &&
-            !line.startsWith("Context:") &&
-            line.length > 0
-          ) {
-            if (description) description += " ";
-            description += line;
-          }
-        }
-
-        // Validate event type
-        const validTypes = [
-          "celebration",
-          "incident",
-          "development",
-          "cultural",
-          "emergency",
-        ];
-        if (!validTypes.includes(type)) {
-          type = "cultural";
-        }
-
-        // Validate impact
-        impact = Math.max(1, Math.min(10, impact));
-
-        // Additional validation to prevent meta-responses
-        const invalidPatterns = [
-          "please provide",
-          "let me know",
-          "information needed",
-          "following details",
-          "I'll use these",
-          "I will assist",
-          "required for this task",
-          "[",
-          "]",
-          "*",
-          "write here",
-        ];
-
-        const hasInvalidPattern = invalidPatterns.some(
-          (pattern) =>
-            description.toLowerCase().includes(pattern) ||
-            title.toLowerCase().includes(pattern) ||
-            location.toLowerCase().includes(pattern)
-        );
-
-        // Validate content length and structure
-        const isValidContent =
-          description.length >= 50 && // Minimum description length
-          description.length <= 1000 && // Maximum description length
-          !hasInvalidPattern && // No meta-text patterns
-          title.length >= 10 && // Minimum title length
-          title.length <= 100 && // Maximum title length
-          location.length >= 3 && // Minimum location length
-          location.length <= 50; // Maximum location length
-
-        // Only add the event if we have valid content
-        if (title && description && location && isValidContent) {
-          events.push({
-            title,
-            description,
-            type: type as CityEvent["type"],
-            location,
-            timestamp: Date.now(),
-            impact,
-            participants: [],
-          });
-        } else {
-          // If invalid, try again
-          i--;
-          continue;
-        }
-      } catch (error) {
-        console.error("Failed to parse event:", error);
-        // If failed, try again
-        i--;
+      const prompt = this.promptTemplates.render("chronicles-event", {
+        context,
+      });
+      const result = await generateStructured(this.togetherService, {
+        prompt: prompt.text,
+        schema: EventSchema,
+      });
+      if (!result.ok) {
+        console.error("Skipped event:", result.error.message);
         continue;
       }
+
+      events.push({
+        ...result.value,
+        timestamp: Date.now(),
+        participants: [],
+        prompt: { template: prompt.template, version: prompt.version },
+      });
     }
 
     return events;
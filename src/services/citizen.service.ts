@@ -1,7 +1,7 @@
 import { EventEmitter } from "events";
 import { Citizen, CitizenNeed } from "../types/citizen.types";
 import { VectorStoreService } from "./vector-store.service";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { DepartmentService } from "./department.service";
 import { AnalyticsService } from "./analytics.service";
 
@@ -10,7 +10,7 @@ export class CitizenService extends EventEmitter {
 
   constructor(
     private vectorStore: VectorStoreService,
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private departmentService: DepartmentService,
     private analyticsService: AnalyticsService
   ) {
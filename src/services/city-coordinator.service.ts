@@ -22,6 +22,7 @@ import { Message } from "../types/conversation.types";
 import { CityMemoryService } from "./city-memory.service";
 import type { RecordMetadata } from "@pinecone-database/pinecone";
 import { EconomyService } from "./economy.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 // Add these interfaces for type safety
 interface MetricsData {
@@ -80,6 +81,7 @@ interface CityEvent {
 }
 
 export class CityCoordinatorService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private readonly coordinatorAgent: Agent = {
     id: "city-coordinator",
     role: "City Coordinator",
@@ -178,9 +180,12 @@ export class CityCoordinatorService extends EventEmitter {
     });
 
     // Start coordination cycles
-    setInterval(() => this.updateCityMetrics(), 1000 * 60 * 30); // Every 30 minutes
-    setInterval(() => this.evaluateProposals(), 1000 * 60 * 60); // Every hour
-    setInterval(() => this.processImplementationQueue(), 1000 * 60 * 15); // Every 15 minutes
+    this.timers.setInterval(() => this.updateCityMetrics(), 1000 * 60 * 30); // Every 30 minutes
+    this.timers.setInterval(() => this.evaluateProposals(), 1000 * 60 * 60); // Every hour
+    this.timers.setInterval(
+      () => this.processImplementationQueue(),
+      1000 * 60 * 15
+    ); // Every 15 minutes
 
     // Listen to domain events
     this.environmentService.on(
@@ -887,7 +892,7 @@ export class CityCoordinatorService extends EventEmitter {
 
   private initializeMetricsMonitoring() {
     // Update metrics every 5 minutes
-    setInterval(async () => {
+    this.timers.setInterval(async () => {
       await this.updateMetrics();
     }, 5 * 60 * 1000);
 
@@ -1045,4 +1050,8 @@ export class CityCoordinatorService extends EventEmitter {
       timestamp: event.timestamp,
     }));
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -5,6 +5,15 @@ import { AgentCollaborationService } from "./agent-collaboration.service";
 import { VectorStoreService } from "./vector-store.service";
 import { DistrictService } from "./district.service";
 import { AnalyticsService } from "./analytics.service";
+import { SimulationClock } from "./simulation-clock.service";
+import { EventBus } from "./event-bus.service";
+import type { SeededRandom } from "../utils/seeded-random";
+import type { CityCelebration, CityEventCategory } from "../types/city-events";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
 
 interface MetricImpact {
   category: keyof CityMetrics;
@@ -32,6 +41,20 @@ interface RandomEvent {
     weatherSensitive: boolean;
     seasonalFactor?: "summer" | "winter" | "spring" | "fall";
   };
+  // Id of the event whose cascade spawned this one
+  causedBy?: string;
+  // How agents should treat the event; emergencies unless given
+  category?: CityEventCategory;
+  collaborationImpact?: {
+    environmental: number;
+    social: number;
+    economic: number;
+    cultural?: number;
+  };
+  // Set once the event is active
+  districtId?: string;
+  startedAt?: number;
+  endsAt?: number;
 }
 
 // Add this type to handle event types
@@ -97,7 +120,12 @@ type MetricUpdates = {
   };
 };
 
-export class CityEventsService extends EventEmitter {
+export class CityEventsService
+  extends EventEmitter
+  implements PersistableService
+{
+  readonly persistenceKey = "city_events";
+  private readonly random: SeededRandom;
   private activeEvents: Map<string, RandomEvent> = new Map();
 
   constructor(
@@ -105,9 +133,12 @@ export class CityEventsService extends EventEmitter {
     private collaborationService: AgentCollaborationService,
     private vectorStore: VectorStoreService,
     private districtService: DistrictService,
-    private analyticsService: AnalyticsService
+    private analyticsService: AnalyticsService,
+    private readonly clock: SimulationClock,
+    private readonly eventBus: EventBus
   ) {
     super();
+    this.random = clock.randomFor("city-events");
     this.initializeService();
   }
 
@@ -158,12 +189,16 @@ export class CityEventsService extends EventEmitter {
   }
 
   private async startRandomEventGenerator() {
-    setInterval(() => {
-      if (Math.random() < 0.3) {
-        // 30% chance every interval
-        this.generateRandomEvent();
-      }
-    }, 5 * 60 * 1000); // Check every 5 minutes
+    this.clock.every(
+      5 * 60 * 1000, // Check every 5 minutes
+      () => {
+        if (this.random.next() < 0.3) {
+          // 30% chance every interval
+          this.generateRandomEvent();
+        }
+      },
+      "city-events.randomEventGenerator"
+    );
   }
 
   private async generateRandomEvent(customEvent?: RandomEvent) {
@@ -181,8 +216,8 @@ export class CityEventsService extends EventEmitter {
         eventId: event.id,
         priority: event.priority,
         districtId: affectedDistrict.id,
-        timestamp: Date.now(),
-        cascading: !!customEvent,
+        timestamp: this.clock.now(),
+        cascading: !!event.causedBy,
       },
     });
 
@@ -209,27 +244,92 @@ export class CityEventsService extends EventEmitter {
       await this.districtService.recordAgentVisit(affectedDistrict.id, agentId);
     }
 
+    // The event is under way while the agents work out a response
+    const duration = Math.max(...event.impacts.map((i) => i.duration));
+    event.districtId = affectedDistrict.id;
+    event.startedAt = this.clock.now();
+    event.endsAt = event.startedAt + duration;
+    this.activeEvents.set(event.id, event);
+    this.scheduleResolution(event);
+
+    this.emit("eventGenerated", event);
+    this.eventBus.emitCityEventGenerated({
+      eventId: event.id,
+      title: event.title,
+      priority: event.priority,
+      severity: event.severity,
+      districtId: event.districtId,
+      causedBy: event.causedBy,
+      startedAt: event.startedAt,
+      endsAt: event.endsAt,
+    });
+
     // Initiate agent collaboration
     await this.collaborationService.initiateCollaboration({
       id: event.id,
       title: event.title,
       description: event.description,
-      category: "emergency",
+      category: event.category || "emergency",
       severity: event.severity,
-      duration: Math.max(...event.impacts.map((i) => i.duration)),
+      duration,
       urgency: event.severity,
-      impact: {
+      impact: event.collaborationImpact || {
         environmental: 0.7,
         social: 0.8,
         economic: 0.6,
       },
       requiredAgents: event.requiredAgents,
       affectedDistricts: [affectedDistrict.id],
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       status: "pending",
     });
+  }
 
-    this.emit("eventGenerated", event);
+  // Celebrations run like any other city event, lifting the metrics their
+  // impact names until they end. Returns the event id.
+  async startCelebration(celebration: CityCelebration): Promise<string> {
+    const event: RandomEvent = {
+      id: `celebration-${celebration.source}-${this.clock.now()}`,
+      title: celebration.title,
+      description: celebration.description,
+      severity: 0.3,
+      priority: "low",
+      impacts: [
+        ["social", "social.communityWellbeing", celebration.impact.social],
+        ["economic", "economic.businessActivity", celebration.impact.economic],
+        [
+          "cultural",
+          "cultural.culturalEngagement",
+          celebration.impact.cultural,
+        ],
+        [
+          "sustainability",
+          "sustainability.greenSpaceIndex",
+          celebration.impact.environmental,
+        ],
+      ].map(([category, metric, change]) => ({
+        category: category as keyof CityMetrics,
+        metric: metric as string,
+        change: change as number,
+        duration: celebration.duration,
+      })),
+      requiredAgents: [],
+      districtTypes: [],
+      timeContext: { weatherSensitive: false },
+      districtId: celebration.districtId,
+      category: celebration.category,
+      collaborationImpact: celebration.impact,
+    };
+    await this.generateRandomEvent(event);
+    return event.id;
+  }
+
+  private scheduleResolution(event: RandomEvent) {
+    this.clock.after(
+      Math.max(0, (event.endsAt ?? this.clock.now()) - this.clock.now()),
+      () => this.resolveEvent(event.id),
+      "city-events.resolveEvent"
+    );
   }
 
   private async selectAffectedDistrict(event: RandomEvent) {
@@ -240,6 +340,9 @@ export class CityEventsService extends EventEmitter {
       throw new Error("No districts available");
     }
 
+    const requested = districts.find((d) => d.id === event.districtId);
+    if (requested) return requested;
+
     // Query vector store for relevant district based on event context
     const query = await this.vectorStore.query({
       vector: await this.vectorStore.createEmbedding(
@@ -260,14 +363,14 @@ export class CityEventsService extends EventEmitter {
     }
 
     // If no matching district found or vector search failed, select a random district
-    const randomIndex = Math.floor(Math.random() * districts.length);
+    const randomIndex = Math.floor(this.random.next() * districts.length);
     return districts[randomIndex];
   }
 
   private selectRandomEvent(): RandomEvent {
     const events: RandomEvent[] = [
       {
-        id: crypto.randomUUID(),
+        id: this.random.uuid(),
         title: "Smart Grid Fluctuation",
         description:
           "Energy grid showing unusual patterns in renewable integration",
@@ -296,7 +399,7 @@ export class CityEventsService extends EventEmitter {
         },
       },
       {
-        id: crypto.randomUUID(),
+        id: this.random.uuid(),
         title: "Cultural District Unrest",
         description:
           "Community tensions rising over heritage building renovation",
@@ -330,7 +433,7 @@ export class CityEventsService extends EventEmitter {
         },
       },
       {
-        id: crypto.randomUUID(),
+        id: this.random.uuid(),
         title: "Public Health Alert",
         description: "Unusual pattern of respiratory complaints in district",
         severity: 0.8,
@@ -389,9 +492,9 @@ export class CityEventsService extends EventEmitter {
 
     return contextuallyRelevantEvents.length > 0
       ? contextuallyRelevantEvents[
-          Math.floor(Math.random() * contextuallyRelevantEvents.length)
+          Math.floor(this.random.next() * contextuallyRelevantEvents.length)
         ]
-      : events[Math.floor(Math.random() * events.length)];
+      : events[Math.floor(this.random.next() * events.length)];
   }
 
   async resolveEvent(eventId: string) {
@@ -413,6 +516,12 @@ export class CityEventsService extends EventEmitter {
     );
     this.activeEvents.delete(eventId);
     this.emit("eventResolved", eventId);
+    this.eventBus.emitCityEventResolved({
+      eventId,
+      title: event.title,
+      districtId: event.districtId,
+      causedBy: event.causedBy,
+    });
   }
 
   private async findAgentHomeDistrict(agentId: string) {
@@ -439,17 +548,19 @@ export class CityEventsService extends EventEmitter {
   private async handleCascadingEffects(event: RandomEvent) {
     if (!event.cascadingEffects) return;
 
-    if (Math.random() < event.cascadingEffects.probability) {
+    if (this.random.next() < event.cascadingEffects.probability) {
       for (const relatedEventType of event.cascadingEffects.relatedEvents) {
         // Create secondary events based on the spread pattern
         const delay =
           event.cascadingEffects.spreadPattern === "exponential"
-            ? Math.random() * 60 * 60 * 1000 // Random delay up to 1 hour
+            ? this.random.next() * 60 * 60 * 1000 // Random delay up to 1 hour
             : 30 * 60 * 1000; // Fixed 30-minute delay for linear
 
-        setTimeout(() => {
-          this.generateSecondaryEvent(event, relatedEventType);
-        }, delay);
+        this.clock.after(
+          delay,
+          () => this.generateSecondaryEvent(event, relatedEventType),
+          "city-events.secondaryEvent"
+        );
       }
     }
   }
@@ -469,7 +580,7 @@ export class CityEventsService extends EventEmitter {
   ): RandomEvent {
     // Create a secondary event based on the primary event and type
     const baseEvent: RandomEvent = {
-      id: crypto.randomUUID(),
+      id: this.random.uuid(),
       title: `${eventType} following ${primaryEvent.title}`,
       description: `Secondary event triggered by ${primaryEvent.description}`,
       severity: primaryEvent.severity * 0.8,
@@ -481,6 +592,7 @@ export class CityEventsService extends EventEmitter {
       })),
       requiredAgents: primaryEvent.requiredAgents.slice(0, 2),
       districtTypes: primaryEvent.districtTypes,
+      causedBy: primaryEvent.id,
       timeContext: {
         preferredTimeOfDay: primaryEvent.timeContext.preferredTimeOfDay,
         weatherSensitive: primaryEvent.timeContext.weatherSensitive,
@@ -491,13 +603,25 @@ export class CityEventsService extends EventEmitter {
     return baseEvent;
   }
 
-  async getActiveEvents(): Promise<any[]> {
-    // Implementation
-    return [];
+  async getActiveEvents(): Promise<RandomEvent[]> {
+    return Array.from(this.activeEvents.values());
   }
 
   async getCurrentEvents(): Promise<string[]> {
     const activeEvents = await this.getActiveEvents();
     return activeEvents.map((event) => event.title);
   }
+
+  exportState(): PersistedCollections {
+    return {
+      activeEvents: mapToRecord(this.activeEvents),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.activeEvents = recordToMap<RandomEvent>(state.activeEvents);
+    for (const event of this.activeEvents.values()) {
+      this.scheduleResolution(event);
+    }
+  }
 }
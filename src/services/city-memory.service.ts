@@ -9,6 +9,7 @@ import { CityEvent } from "../types/city-events";
 import { AnalyticsService } from "./analytics.service";
 import { Agent } from "../types/agent.types";
 import { Message } from "../types/conversation.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface CityMemory {
   type: "historical" | "cultural" | "social" | "environmental";
@@ -63,6 +64,7 @@ interface DistrictMetrics {
 }
 
 export class CityMemoryService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private memoryCache: Map<string, MemoryCollection> = new Map();
   private readonly CACHE_DURATION = 60 * 60 * 1000; // 1 hour
   private readonly SIGNIFICANCE_THRESHOLD = 0.7;
@@ -110,8 +112,11 @@ export class CityMemoryService extends EventEmitter {
       topics: ["memory", "initialization"],
     });
 
-    setInterval(() => this.analyzeCityMemoryPatterns(), 24 * 60 * 60 * 1000); // Daily analysis
-    setInterval(
+    this.timers.setInterval(
+      () => this.analyzeCityMemoryPatterns(),
+      24 * 60 * 60 * 1000
+    ); // Daily analysis
+    this.timers.setInterval(
       () => this.updateMemoryPreservationPriorities(),
       12 * 60 * 60 * 1000
     ); // Every 12 hours
@@ -924,7 +929,7 @@ export class CityMemoryService extends EventEmitter {
     });
 
     // Schedule periodic significance reassessment
-    setTimeout(() => {
+    this.timers.setTimeout(() => {
       this.reassessSignificance(memory);
     }, 30 * 24 * 60 * 60 * 1000); // Reassess after 30 days
   }
@@ -1005,4 +1010,8 @@ export class CityMemoryService extends EventEmitter {
 
     return R * c; // Distance in meters
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
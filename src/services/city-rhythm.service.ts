@@ -5,7 +5,7 @@ import { TransportService } from "./transport.service";
 import { DepartmentService } from "./department.service";
 import { WeatherImpact } from "../types/weather-impact.types";
 
-interface ActivityPattern {
+export interface ActivityPattern {
   hour: number;
   type: "transport" | "business" | "leisure" | "social";
   intensity: number; // 0-1
@@ -58,6 +58,17 @@ export class CityRhythmService extends EventEmitter {
     return this.activityPatterns.filter((p) => p.hour === this.currentHour);
   }
 
+  // Patterns across the whole day; with a district, only the city-wide ones
+  // and those listing it
+  getPatterns(districtId?: string): ActivityPattern[] {
+    return this.activityPatterns.filter(
+      (p) =>
+        !districtId ||
+        p.locations.length === 0 ||
+        p.locations.includes(districtId)
+    );
+  }
+
   async addActivityPattern(pattern: ActivityPattern): Promise<void> {
     // Validate pattern
     if (pattern.hour < 0 || pattern.hour > 23) {
@@ -7,6 +7,7 @@ import type {
 } from "../types/city.types";
 import { CityContextManager } from "../utils/city-context";
 import { MetricsService } from "./metrics.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface CityMetricsSnapshot {
   timestamp: number;
@@ -18,6 +19,7 @@ interface CityMetricsSnapshot {
 }
 
 export class CityService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private contextManager: CityContextManager;
   private currentWeather: WeatherState;
   private cityMood: CityMood;
@@ -90,7 +92,7 @@ export class CityService extends EventEmitter {
 
   private startMetricsTracking() {
     // Update metrics snapshot every 5 minutes
-    setInterval(() => this.updateMetricsSnapshot(), 5 * 60 * 1000);
+    this.timers.setInterval(() => this.updateMetricsSnapshot(), 5 * 60 * 1000);
   }
 
   private async updateMetricsSnapshot() {
@@ -209,4 +211,8 @@ export class CityService extends EventEmitter {
     this.emit("emergencyAlert", status);
     this.updateMetricsSnapshot();
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
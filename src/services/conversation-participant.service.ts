@@ -0,0 +1,296 @@
+import { EventEmitter } from "events";
+import crypto from "crypto";
+import { AgentConversationService } from "./agent-conversation.service";
+import { moderateUserContent } from "../utils/content-moderation";
+import type { Principal } from "../types/auth.types";
+import type {
+  HumanParticipant,
+  ModerationReason,
+  ParticipantMessageResult,
+  ParticipationConfig,
+  PublicParticipant,
+} from "../types/participant.types";
+
+export function loadParticipationConfig(
+  env: Record<string, string | undefined> = process.env
+): ParticipationConfig {
+  return {
+    maxMessagesPerWindow: env.PARTICIPANT_RATE_LIMIT
+      ? parseInt(env.PARTICIPANT_RATE_LIMIT, 10)
+      : 5,
+    rateWindowMs: env.PARTICIPANT_RATE_WINDOW_SECONDS
+      ? parseInt(env.PARTICIPANT_RATE_WINDOW_SECONDS, 10) * 1000
+      : 60 * 1000,
+    maxMessageLength: env.PARTICIPANT_MAX_MESSAGE_LENGTH
+      ? parseInt(env.PARTICIPANT_MAX_MESSAGE_LENGTH, 10)
+      : 500,
+    maxDisplayNameLength: 40,
+    maxParticipantsPerConversation: 20,
+    sessionTtlMs: env.PARTICIPANT_SESSION_TTL_MINUTES
+      ? parseInt(env.PARTICIPANT_SESSION_TTL_MINUTES, 10) * 60 * 1000
+      : 2 * 60 * 60 * 1000,
+    blockedTerms: (env.MODERATION_BLOCKED_TERMS || "")
+      .split(",")
+      .map((term) => term.trim())
+      .filter(Boolean),
+  };
+}
+
+export type ParticipationErrorCode =
+  | "conversation_not_found"
+  | "session_not_found"
+  | "name_taken"
+  | "conversation_full"
+  | "rate_limited"
+  | "rejected";
+
+export class ParticipationError extends Error {
+  constructor(
+    readonly code: ParticipationErrorCode,
+    message: string,
+    readonly details: {
+      retryAfterMs?: number;
+      reasons?: ModerationReason[];
+    } = {}
+  ) {
+    super(message);
+    this.name = "ParticipationError";
+  }
+}
+
+// Lets residents join live agent conversations under a name, address agents
+// with @name, and keeps each user within a message rate and the content rules
+export class ConversationParticipantService extends EventEmitter {
+  private sessions: Map<string, HumanParticipant> = new Map();
+  // Send times per user (principal id, or participant id when anonymous)
+  private sendTimes: Map<string, number[]> = new Map();
+  private readonly onConversationEnded = ({
+    conversationId,
+  }: {
+    conversationId: string;
+  }) => this.endConversationSessions(conversationId);
+
+  constructor(
+    private agentConversationService: AgentConversationService,
+    readonly config: ParticipationConfig = loadParticipationConfig()
+  ) {
+    super();
+    this.agentConversationService.on(
+      "conversationEnded",
+      this.onConversationEnded
+    );
+  }
+
+  async join(
+    conversationId: string,
+    input: { displayName?: string; principal?: Principal | null }
+  ): Promise<HumanParticipant> {
+    this.pruneSessions();
+    await this.requireActiveConversation(conversationId);
+
+    const displayName = (input.displayName || input.principal?.name || "")
+      .replace(/\s+/g, " ")
+      .trim();
+    const moderation = moderateUserContent(displayName, {
+      maxLength: this.config.maxDisplayNameLength,
+      blockedTerms: this.config.blockedTerms,
+    });
+    if (!moderation.allowed) {
+      throw new ParticipationError("rejected", "Display name is not allowed", {
+        reasons: moderation.reasons,
+      });
+    }
+
+    // Rejoining with the same account hands back the existing session
+    const principalId = input.principal?.id;
+    const existing = Array.from(this.sessions.values()).find(
+      (participant) =>
+        principalId &&
+        participant.conversationId === conversationId &&
+        participant.principalId === principalId
+    );
+    if (existing) return existing;
+
+    const present = this.getParticipants(conversationId);
+    if (
+      present.some(
+        (participant) =>
+          participant.displayName.toLowerCase() === displayName.toLowerCase()
+      )
+    ) {
+      throw new ParticipationError(
+        "name_taken",
+        `"${displayName}" is already taking part in this conversation`
+      );
+    }
+    if (present.length >= this.config.maxParticipantsPerConversation) {
+      throw new ParticipationError(
+        "conversation_full",
+        "This conversation has no room for more participants"
+      );
+    }
+
+    const now = Date.now();
+    const participant: HumanParticipant = {
+      id: `human-${crypto.randomUUID()}`,
+      sessionId: crypto.randomBytes(24).toString("hex"),
+      conversationId,
+      displayName,
+      principalId: input.principal?.id,
+      joinedAt: now,
+      lastActiveAt: now,
+    };
+    this.sessions.set(participant.sessionId, participant);
+    this.emit("participantJoined", this.toPublic(participant));
+    return participant;
+  }
+
+  leave(conversationId: string, sessionId: string): boolean {
+    const participant = this.findSession(conversationId, sessionId);
+    if (!participant) return false;
+    this.sessions.delete(sessionId);
+    this.emit("participantLeft", this.toPublic(participant));
+    return true;
+  }
+
+  getParticipants(conversationId: string): PublicParticipant[] {
+    this.pruneSessions();
+    return Array.from(this.sessions.values())
+      .filter((participant) => participant.conversationId === conversationId)
+      .map((participant) => this.toPublic(participant));
+  }
+
+  // Checks the sender's rate limit, then moderates the text before the agents
+  // (and their prompts) ever see it
+  async sendMessage(
+    conversationId: string,
+    sessionId: string,
+    text: string
+  ): Promise<ParticipantMessageResult> {
+    this.pruneSessions();
+    const participant = this.findSession(conversationId, sessionId);
+    if (!participant) {
+      throw new ParticipationError(
+        "session_not_found",
+        "Participant session not found or expired"
+      );
+    }
+
+    this.consumeRateLimit(participant.principalId || participant.id);
+
+    const moderation = moderateUserContent(text, {
+      maxLength: this.config.maxMessageLength,
+      blockedTerms: this.config.blockedTerms,
+    });
+    if (!moderation.allowed) {
+      this.emit("messageRejected", {
+        participant: this.toPublic(participant),
+        reasons: moderation.reasons,
+      });
+      throw new ParticipationError("rejected", "Message was not allowed", {
+        reasons: moderation.reasons,
+      });
+    }
+
+    const conversation = await this.requireActiveConversation(
+      participant.conversationId
+    );
+    participant.lastActiveAt = Date.now();
+
+    return this.agentConversationService.addParticipantMessage(
+      conversation.id,
+      participant,
+      moderation.content,
+      this.resolveMentions(moderation.content, conversation.participants)
+    );
+  }
+
+  // @name or @id of agents taking part in the conversation, in mention order
+  resolveMentions(
+    content: string,
+    agents: Array<{ id: string; name: string }>
+  ): string[] {
+    const mentioned: string[] = [];
+    for (const [, handle] of content.matchAll(/@([\w-]+)/g)) {
+      const agent = agents.find(
+        (candidate) =>
+          candidate.id === handle ||
+          candidate.name.toLowerCase() === handle.toLowerCase()
+      );
+      if (agent && !mentioned.includes(agent.id)) {
+        mentioned.push(agent.id);
+      }
+    }
+    return mentioned;
+  }
+
+  stop() {
+    this.agentConversationService.off(
+      "conversationEnded",
+      this.onConversationEnded
+    );
+    this.sessions.clear();
+    this.sendTimes.clear();
+  }
+
+  private consumeRateLimit(userKey: string) {
+    const now = Date.now();
+    const recent = (this.sendTimes.get(userKey) || []).filter(
+      (time) => now - time < this.config.rateWindowMs
+    );
+    if (recent.length >= this.config.maxMessagesPerWindow) {
+      this.sendTimes.set(userKey, recent);
+      throw new ParticipationError(
+        "rate_limited",
+        `At most ${this.config.maxMessagesPerWindow} messages per ${Math.round(
+          this.config.rateWindowMs / 1000
+        )} seconds`,
+        { retryAfterMs: this.config.rateWindowMs - (now - recent[0]) }
+      );
+    }
+    recent.push(now);
+    this.sendTimes.set(userKey, recent);
+  }
+
+  private async requireActiveConversation(conversationId: string) {
+    const conversation = (
+      await this.agentConversationService.getActiveConversations()
+    ).find((candidate) => candidate.id === conversationId);
+    if (!conversation) {
+      throw new ParticipationError(
+        "conversation_not_found",
+        "Conversation not found or no longer active"
+      );
+    }
+    return conversation;
+  }
+
+  private findSession(conversationId: string, sessionId: string) {
+    const participant = this.sessions.get(sessionId);
+    return participant?.conversationId === conversationId
+      ? participant
+      : undefined;
+  }
+
+  private endConversationSessions(conversationId: string) {
+    for (const [sessionId, participant] of this.sessions.entries()) {
+      if (participant.conversationId === conversationId) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+
+  private pruneSessions() {
+    const now = Date.now();
+    for (const [sessionId, participant] of this.sessions.entries()) {
+      if (now - participant.lastActiveAt > this.config.sessionTtlMs) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+
+  private toPublic(participant: HumanParticipant): PublicParticipant {
+    const { sessionId, ...rest } = participant;
+    return rest;
+  }
+}
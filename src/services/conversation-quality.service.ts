@@ -0,0 +1,235 @@
+import { AgentConversationService } from "./agent-conversation.service";
+import { evaluateConversation } from "../utils/conversation-quality";
+import type {
+  ConversationQualityScore,
+  QualityGroup,
+  QualityMetrics,
+  QualityReport,
+  QualityReportQuery,
+} from "../types/conversation-quality.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export function loadQualityConfig(
+  env: Record<string, string | undefined> = process.env
+) {
+  return {
+    // Label stored with every score so prompt changes can be compared
+    promptVersion: env.PROMPT_VERSION || "default",
+    maxStoredScores: 1000,
+  };
+}
+
+const METRIC_KEYS: Array<keyof QualityMetrics> = [
+  "repetition",
+  "personaConsistency",
+  "topicCoherence",
+  "toxicity",
+  "overall",
+];
+
+// Drops in these (or a rise in toxicity) beyond this are regressions
+const REGRESSION_TOLERANCE = 0.02;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function averageMetrics(scores: ConversationQualityScore[]): QualityMetrics {
+  const averages = {} as QualityMetrics;
+  for (const key of METRIC_KEYS) {
+    averages[key] =
+      scores.length > 0
+        ? round(
+            scores.reduce((sum, score) => sum + score.metrics[key], 0) /
+              scores.length
+          )
+        : 0;
+  }
+  return averages;
+}
+
+// Scores every ended conversation for repetition, persona consistency, topic
+// coherence and toxicity, and reports the averages per prompt version
+export class ConversationQualityService implements PersistableService {
+  readonly persistenceKey = "conversation_quality";
+  private scores: Map<string, ConversationQualityScore> = new Map();
+  private readonly onConversationEnded = ({
+    conversationId,
+  }: {
+    conversationId: string;
+  }) => {
+    try {
+      this.evaluate(conversationId);
+    } catch (error) {
+      console.error("Failed to evaluate conversation quality:", error);
+    }
+  };
+
+  constructor(
+    private agentConversationService: AgentConversationService,
+    readonly config = loadQualityConfig()
+  ) {
+    this.agentConversationService.on(
+      "conversationEnded",
+      this.onConversationEnded
+    );
+  }
+
+  exportState(): PersistedCollections {
+    return { scores: mapToRecord(this.scores) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.scores = recordToMap<ConversationQualityScore>(state.scores);
+  }
+
+  // Scores an archived conversation; undefined when it is unknown or running
+  evaluate(conversationId: string): ConversationQualityScore | undefined {
+    const conversation =
+      this.agentConversationService.getArchivedConversation(conversationId);
+    if (!conversation) return undefined;
+
+    const participants = conversation.participants.map(
+      (participant) =>
+        this.agentConversationService.getAgent(participant.id) || {
+          ...participant,
+          systemPrompt: "",
+          personality: "",
+          interests: [],
+        }
+    );
+    const evaluation = evaluateConversation({
+      topic: conversation.topic,
+      participants,
+      messages: conversation.messages,
+    });
+
+    const score: ConversationQualityScore = {
+      conversationId,
+      districtId: conversation.districtId,
+      topic: conversation.topic,
+      promptVersion: this.config.promptVersion,
+      startedAt: conversation.startTime,
+      endedAt: conversation.endTime,
+      evaluatedAt: Date.now(),
+      messageCount: conversation.messages.length,
+      ...evaluation,
+    };
+    this.scores.delete(conversationId);
+    this.scores.set(conversationId, score);
+
+    // Maps keep insertion order, so the first key is the oldest
+    while (this.scores.size > this.config.maxStoredScores) {
+      this.scores.delete(this.scores.keys().next().value!);
+    }
+    return score;
+  }
+
+  getScore(conversationId: string): ConversationQualityScore | undefined {
+    return this.scores.get(conversationId) || this.evaluate(conversationId);
+  }
+
+  getScores(query: QualityReportQuery = {}): ConversationQualityScore[] {
+    return Array.from(this.scores.values()).filter(
+      (score) =>
+        (!query.districtId || score.districtId === query.districtId) &&
+        (!query.promptVersion || score.promptVersion === query.promptVersion) &&
+        (query.from === undefined || score.endedAt >= query.from) &&
+        (query.to === undefined || score.startedAt <= query.to)
+    );
+  }
+
+  getReport(query: QualityReportQuery = {}): QualityReport {
+    const scores = this.getScores(query);
+
+    const versions = new Map<string, ConversationQualityScore[]>();
+    const agents = new Map<
+      string,
+      { conversations: number; repetition: number; personaConsistency: number }
+    >();
+    for (const score of scores) {
+      versions.set(score.promptVersion, [
+        ...(versions.get(score.promptVersion) || []),
+        score,
+      ]);
+      for (const agent of score.agents) {
+        if (agent.messages === 0) continue;
+        const totals = agents.get(agent.agentId) || {
+          conversations: 0,
+          repetition: 0,
+          personaConsistency: 0,
+        };
+        totals.conversations++;
+        totals.repetition += agent.repetition;
+        totals.personaConsistency += agent.personaConsistency;
+        agents.set(agent.agentId, totals);
+      }
+    }
+
+    const byPromptVersion: QualityGroup[] = Array.from(versions.entries()).map(
+      ([key, group]) => ({
+        key,
+        count: group.length,
+        averages: averageMetrics(group),
+      })
+    );
+
+    return {
+      count: scores.length,
+      averages: averageMetrics(scores),
+      byPromptVersion,
+      byAgent: Array.from(agents.entries()).map(([agentId, totals]) => ({
+        agentId,
+        conversations: totals.conversations,
+        repetition: round(totals.repetition / totals.conversations),
+        personaConsistency: round(
+          totals.personaConsistency / totals.conversations
+        ),
+      })),
+      comparison: query.baseline
+        ? this.compare(query.baseline, byPromptVersion)
+        : undefined,
+      lowest: [...scores]
+        .sort((a, b) => a.metrics.overall - b.metrics.overall)
+        .slice(0, 5),
+    };
+  }
+
+  stop() {
+    this.agentConversationService.off(
+      "conversationEnded",
+      this.onConversationEnded
+    );
+  }
+
+  private compare(
+    baseline: string,
+    groups: QualityGroup[]
+  ): QualityReport["comparison"] {
+    const reference = groups.find((group) => group.key === baseline);
+    if (!reference) return { baseline, versions: [] };
+
+    return {
+      baseline,
+      versions: groups
+        .filter((group) => group.key !== baseline)
+        .map((group) => {
+          const delta = {} as QualityMetrics;
+          for (const key of METRIC_KEYS) {
+            delta[key] = round(group.averages[key] - reference.averages[key]);
+          }
+          return {
+            promptVersion: group.key,
+            delta,
+            regressions: METRIC_KEYS.filter((key) =>
+              key === "toxicity"
+                ? delta[key] > REGRESSION_TOLERANCE
+                : delta[key] < -REGRESSION_TOLERANCE
+            ),
+          };
+        }),
+    };
+  }
+}
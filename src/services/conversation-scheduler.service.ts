@@ -0,0 +1,266 @@
+import { EventEmitter } from "events";
+import { CityRhythmService } from "./city-rhythm.service";
+import { CityEventsService } from "./city-events.service";
+import { DistrictService } from "./district.service";
+import { SimulationClock } from "./simulation-clock.service";
+import type {
+  ConversationPolicy,
+  ConversationPolicyOverride,
+  ConversationPolicyUpdate,
+  ConversationSchedulingPolicy,
+  ConversationSlot,
+  DistrictScheduleStatus,
+} from "../types/conversation-scheduler.types";
+
+// The part of an agent conversation the scheduler counts
+interface ScheduledConversation {
+  districtId: string;
+  status: string;
+  eventId?: string;
+}
+
+const EVENT_PRIORITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export const DEFAULT_CONVERSATION_POLICY: ConversationPolicy = {
+  maxConcurrentConversations: 3,
+  messageIntervalMs: 60000,
+  minConversationDurationMs: 10 * 60 * 1000,
+  maxConversationDurationMs: 20 * 60 * 1000,
+  cooldownMs: 60000,
+  quietHours: {
+    source: "rhythm",
+    start: 22,
+    end: 7,
+    maxConcurrentConversations: 0,
+  },
+  eventPriority: {
+    enabled: true,
+    extraSlots: 1,
+  },
+};
+
+export class ConversationPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationPolicyError";
+  }
+}
+
+function mergePolicy(
+  base: ConversationPolicy,
+  override: ConversationPolicyOverride = {}
+): ConversationPolicy {
+  return {
+    ...base,
+    ...override,
+    quietHours: { ...base.quietHours, ...override.quietHours },
+    eventPriority: { ...base.eventPriority, ...override.eventPriority },
+  };
+}
+
+function validatePolicy(policy: ConversationPolicy, scope: string) {
+  if (policy.minConversationDurationMs > policy.maxConversationDurationMs) {
+    throw new ConversationPolicyError(
+      `${scope}: minConversationDurationMs cannot exceed maxConversationDurationMs`
+    );
+  }
+  const { start, end } = policy.quietHours;
+  if (
+    ![start, end].every(
+      (hour) => Number.isInteger(hour) && hour >= 0 && hour <= 23
+    )
+  ) {
+    throw new ConversationPolicyError(
+      `${scope}: quiet hours must be whole hours between 0 and 23`
+    );
+  }
+}
+
+// Decides where and how many agent conversations may run: a concurrency limit
+// per district that drops during quiet hours, and reserved room for
+// conversations about active city events
+export class ConversationSchedulerService extends EventEmitter {
+  private policy: ConversationSchedulingPolicy = {
+    defaults: mergePolicy(DEFAULT_CONVERSATION_POLICY),
+    districts: {},
+  };
+  private lastStartTimes: Map<string, number> = new Map();
+
+  constructor(
+    private cityRhythm: CityRhythmService,
+    private cityEvents: CityEventsService,
+    private districtService: DistrictService,
+    private clock: SimulationClock
+  ) {
+    super();
+  }
+
+  getPolicy(): ConversationSchedulingPolicy {
+    return structuredClone(this.policy);
+  }
+
+  getDistrictPolicy(districtId: string): ConversationPolicy {
+    return mergePolicy(this.policy.defaults, this.policy.districts[districtId]);
+  }
+
+  // Applies the whole update or, when any resulting policy is invalid, none of it
+  updatePolicy(update: ConversationPolicyUpdate): ConversationSchedulingPolicy {
+    const next: ConversationSchedulingPolicy = {
+      defaults: mergePolicy(this.policy.defaults, update.defaults),
+      districts: { ...this.policy.districts },
+    };
+    for (const [districtId, override] of Object.entries(
+      update.districts || {}
+    )) {
+      if (override === null) {
+        delete next.districts[districtId];
+      } else {
+        next.districts[districtId] = {
+          ...next.districts[districtId],
+          ...override,
+          quietHours: {
+            ...next.districts[districtId]?.quietHours,
+            ...override.quietHours,
+          },
+          eventPriority: {
+            ...next.districts[districtId]?.eventPriority,
+            ...override.eventPriority,
+          },
+        };
+      }
+    }
+
+    validatePolicy(next.defaults, "defaults");
+    for (const [districtId, override] of Object.entries(next.districts)) {
+      validatePolicy(mergePolicy(next.defaults, override), districtId);
+    }
+
+    this.policy = next;
+    this.emit("policyUpdated", this.getPolicy());
+    return this.getPolicy();
+  }
+
+  isQuietHour(districtId: string, hour = this.currentHour()): boolean {
+    const { quietHours } = this.getDistrictPolicy(districtId);
+
+    if (quietHours.source === "fixed") {
+      if (quietHours.start === quietHours.end) return false;
+      return quietHours.start < quietHours.end
+        ? hour >= quietHours.start && hour < quietHours.end
+        : hour >= quietHours.start || hour < quietHours.end;
+    }
+
+    if (quietHours.source === "rhythm") {
+      const hours = this.cityRhythm
+        .getPatterns(districtId)
+        .map((pattern) => pattern.hour);
+      if (hours.length === 0) return false;
+      return hour < Math.min(...hours) || hour > Math.max(...hours);
+    }
+
+    return false;
+  }
+
+  getConcurrencyLimit(districtId: string): number {
+    const policy = this.getDistrictPolicy(districtId);
+    return this.isQuietHour(districtId)
+      ? Math.min(
+          policy.quietHours.maxConcurrentConversations,
+          policy.maxConcurrentConversations
+        )
+      : policy.maxConcurrentConversations;
+  }
+
+  // At most one new conversation per district per call, since the district
+  // cooldown starts as soon as it begins. Event slots come first, highest
+  // event priority leading.
+  async planSlots(
+    conversations: ScheduledConversation[]
+  ): Promise<ConversationSlot[]> {
+    const now = this.clock.now();
+    const districts = await this.districtService.getAllDistricts();
+    const events = await this.cityEvents.getActiveEvents();
+    const eventSlots: ConversationSlot[] = [];
+    const regularSlots: ConversationSlot[] = [];
+
+    for (const district of districts) {
+      const policy = this.getDistrictPolicy(district.id);
+      const lastStart = this.lastStartTimes.get(district.id);
+      if (lastStart !== undefined && now - lastStart < policy.cooldownMs) {
+        continue;
+      }
+
+      const active = conversations.filter(
+        (conversation) =>
+          conversation.status === "active" &&
+          conversation.districtId === district.id
+      );
+      const limit = this.getConcurrencyLimit(district.id);
+      const discussed = new Set(
+        active.map((conversation) => conversation.eventId)
+      );
+      const pending = events
+        .filter(
+          (event) =>
+            (!event.districtId || event.districtId === district.id) &&
+            !discussed.has(event.id)
+        )
+        .sort(
+          (a, b) =>
+            EVENT_PRIORITY_RANK[b.priority] - EVENT_PRIORITY_RANK[a.priority]
+        );
+
+      const eventLimit = policy.eventPriority.enabled
+        ? limit + policy.eventPriority.extraSlots
+        : limit;
+      if (pending.length > 0 && active.length < eventLimit) {
+        const [event] = pending;
+        eventSlots.push({
+          districtId: district.id,
+          event: { id: event.id, title: event.title, priority: event.priority },
+        });
+      } else if (active.length < limit) {
+        regularSlots.push({ districtId: district.id });
+      }
+    }
+
+    eventSlots.sort(
+      (a, b) =>
+        EVENT_PRIORITY_RANK[b.event!.priority] -
+        EVENT_PRIORITY_RANK[a.event!.priority]
+    );
+    return [...eventSlots, ...regularSlots];
+  }
+
+  recordStart(districtId: string) {
+    this.lastStartTimes.set(districtId, this.clock.now());
+  }
+
+  async getStatus(
+    conversations: ScheduledConversation[]
+  ): Promise<DistrictScheduleStatus[]> {
+    const districts = await this.districtService.getAllDistricts();
+    const events = await this.cityEvents.getActiveEvents();
+
+    return districts.map((district) => ({
+      districtId: district.id,
+      quiet: this.isQuietHour(district.id),
+      limit: this.getConcurrencyLimit(district.id),
+      active: conversations.filter(
+        (conversation) =>
+          conversation.status === "active" &&
+          conversation.districtId === district.id
+      ).length,
+      activeEvents: events
+        .filter(
+          (event) => !event.districtId || event.districtId === district.id
+        )
+        .map((event) => event.id),
+      policy: this.getDistrictPolicy(district.id),
+    }));
+  }
+
+  private currentHour(): number {
+    return new Date(this.clock.now()).getHours();
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  AgentConversationService,
+  type ArchivedConversation,
+} from "./agent-conversation.service";
+import { VectorStoreService } from "./vector-store.service";
+import { DistrictService } from "./district.service";
+import type { Message } from "../types/conversation.types";
+import type {
+  ConversationTranscript,
+  TranscriptEntry,
+  TranscriptParticipant,
+  TranscriptQuery,
+} from "../types/transcript.types";
+
+// Live and archived conversations share these fields
+type ConversationRecord = Omit<ArchivedConversation, "endTime"> & {
+  endTime?: number;
+};
+
+// Most messages a transcript rebuilt from the vector store will hold
+const MAX_STORED_MESSAGES = 1000;
+
+const labelOf = (item: any): string =>
+  typeof item === "string"
+    ? item
+    : item?.title || item?.name || item?.type || JSON.stringify(item);
+
+// Rebuilds ordered transcripts from running conversations, the archive of
+// ended ones and, for anything older, the per-message vectors
+export class ConversationTranscriptService {
+  constructor(
+    private agentConversationService: AgentConversationService,
+    private vectorStore: VectorStoreService,
+    private districtService: DistrictService
+  ) {}
+
+  async getTranscript(
+    conversationId: string
+  ): Promise<ConversationTranscript | null> {
+    const live = (
+      await this.agentConversationService.getActiveConversations()
+    ).find((conversation) => conversation.id === conversationId);
+    if (live) return this.fromRecord(live, "live");
+
+    const archived =
+      this.agentConversationService.getArchivedConversation(conversationId);
+    if (archived) return this.fromRecord(archived, "archive");
+
+    return this.fromVectorStore(conversationId);
+  }
+
+  // Bulk export covers live and archived conversations, oldest first
+  async listTranscripts(
+    query: TranscriptQuery = {}
+  ): Promise<ConversationTranscript[]> {
+    const live = await this.agentConversationService.getActiveConversations();
+    const records: Array<[ConversationRecord, "live" | "archive"]> = [
+      ...live.map((record) => [record, "live"] as [ConversationRecord, "live"]),
+      ...this.agentConversationService
+        .getArchivedConversations()
+        .map(
+          (record) => [record, "archive"] as [ConversationRecord, "archive"]
+        ),
+    ];
+
+    const matching = records
+      .filter(
+        ([record]) =>
+          (!query.districtId || record.districtId === query.districtId) &&
+          (query.to === undefined || record.startTime <= query.to) &&
+          (query.from === undefined ||
+            (record.endTime ?? Number.POSITIVE_INFINITY) >= query.from)
+      )
+      .sort(([a], [b]) => a.startTime - b.startTime)
+      .slice(0, query.limit);
+
+    return Promise.all(
+      matching.map(([record, source]) => this.fromRecord(record, source))
+    );
+  }
+
+  private async fromRecord(
+    record: ConversationRecord,
+    source: "live" | "archive"
+  ): Promise<ConversationTranscript> {
+    const agents = new Map(
+      record.participants.map((agent) => [agent.id, agent])
+    );
+    const messages = [...record.messages]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((message) =>
+        this.toEntry(message, agents.get(message.agentId)?.name)
+      );
+    const participants: TranscriptParticipant[] = [
+      ...record.participants.map(({ id, name, role }) => ({
+        id,
+        name,
+        role,
+        kind: "agent" as const,
+      })),
+      ...this.residentsOf(messages),
+    ];
+
+    return {
+      id: record.id,
+      source,
+      status: source === "live" ? "active" : "ended",
+      districtId: record.districtId,
+      districtName: await this.districtName(record.districtId),
+      eventId: record.eventId,
+      topic: record.topic,
+      topics: Array.from(new Set([record.topic, ...(record.topics || [])])),
+      location: record.location,
+      activity: record.activity,
+      startedAt: record.startTime,
+      endedAt: record.endTime,
+      participants,
+      messages,
+      ...this.sentimentOf(messages),
+      culturalContext: {
+        events: (record.culturalContext?.currentEvents || []).map(labelOf),
+        traditions: (record.culturalContext?.traditions || []).map(labelOf),
+        mood: record.culturalContext?.atmosphere?.mood,
+      },
+    };
+  }
+
+  private async fromVectorStore(
+    conversationId: string
+  ): Promise<ConversationTranscript | null> {
+    const vector = await this.vectorStore.createEmbedding(
+      `conversation ${conversationId}`
+    );
+    const [summaries, stored] = await Promise.all([
+      this.vectorStore.query({
+        vector,
+        filter: {
+          type: { $eq: "conversation" },
+          conversationId: { $eq: conversationId },
+        },
+        topK: 1,
+      }),
+      this.vectorStore.query({
+        vector,
+        filter: {
+          type: { $eq: "conversation_message" },
+          conversationId: { $eq: conversationId },
+        },
+        topK: MAX_STORED_MESSAGES,
+      }),
+    ]);
+    if (summaries.matches.length === 0 && stored.matches.length === 0) {
+      return null;
+    }
+
+    const summary = summaries.matches[0]?.metadata || {};
+    const messages: TranscriptEntry[] = stored.matches
+      .map((match: any) => {
+        const metadata = match.metadata || {};
+        const sentiment = parseFloat(metadata.sentiment);
+        return this.toEntry({
+          id: String(match.id).replace(/^msg-/, ""),
+          agentId: String(metadata.agentId),
+          content: String(metadata.content || ""),
+          timestamp: Number(metadata.timestamp),
+          role: metadata.agentId === "system" ? "system" : "assistant",
+          sentiment: Number.isNaN(sentiment) ? undefined : sentiment,
+          metadata: { participantName: metadata.participantName },
+        });
+      })
+      .sort(
+        (a: TranscriptEntry, b: TranscriptEntry) => a.timestamp - b.timestamp
+      );
+
+    const agentIds = new Set<string>([
+      ...String(summary.participants || "")
+        .split(",")
+        .filter(Boolean),
+      ...messages
+        .filter((entry) => entry.role === "assistant")
+        .map((entry) => entry.speakerId),
+    ]);
+    const participants: TranscriptParticipant[] = Array.from(agentIds).map(
+      (id) => {
+        const agent = this.agentConversationService.getAgent(id);
+        return {
+          id,
+          name: agent?.name || id,
+          role: agent?.role,
+          kind: "agent",
+        };
+      }
+    );
+    const cultural = summary.culturalContext
+      ? JSON.parse(summary.culturalContext)
+      : {};
+    const districtId = summary.districtId as string | undefined;
+
+    return {
+      id: conversationId,
+      source: "vector_store",
+      status: "ended",
+      districtId,
+      districtName: districtId
+        ? await this.districtName(districtId)
+        : undefined,
+      topic: summary.topic,
+      topics: summary.topic ? [summary.topic] : [],
+      location: summary.location,
+      activity: summary.activity,
+      startedAt: Number(summary.timestamp) || messages[0]?.timestamp || 0,
+      endedAt: messages[messages.length - 1]?.timestamp,
+      participants,
+      messages,
+      ...this.sentimentOf(messages),
+      culturalContext: {
+        events: (cultural.currentEvents || []).map(labelOf),
+        traditions: (cultural.traditions || []).map(labelOf),
+        mood: cultural.atmosphere?.mood,
+      },
+    };
+  }
+
+  private toEntry(message: Message, agentName?: string): TranscriptEntry {
+    return {
+      id: message.id,
+      speakerId: message.agentId,
+      speakerName:
+        message.metadata?.participantName ||
+        agentName ||
+        (message.agentId === "system"
+          ? "System"
+          : message.agentId === "user"
+          ? "Visitor"
+          : this.agentConversationService.getAgent(message.agentId)?.name ||
+            message.agentId),
+      role: message.metadata?.participantName ? "user" : message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      sentiment: message.sentiment,
+      inReplyTo: message.metadata?.inReplyTo,
+    };
+  }
+
+  private residentsOf(messages: TranscriptEntry[]): TranscriptParticipant[] {
+    const residents = new Map<string, TranscriptParticipant>();
+    for (const entry of messages) {
+      if (entry.role === "user" && !residents.has(entry.speakerId)) {
+        residents.set(entry.speakerId, {
+          id: entry.speakerId,
+          name: entry.speakerName,
+          kind: "resident",
+        });
+      }
+    }
+    return Array.from(residents.values());
+  }
+
+  private sentimentOf(messages: TranscriptEntry[]) {
+    const sentimentTimeline = messages
+      .filter(
+        (entry) =>
+          entry.role !== "system" && typeof entry.sentiment === "number"
+      )
+      .map((entry) => ({
+        timestamp: entry.timestamp,
+        sentiment: entry.sentiment!,
+      }));
+    return {
+      sentimentTimeline,
+      averageSentiment:
+        sentimentTimeline.length > 0
+          ? sentimentTimeline.reduce((sum, point) => sum + point.sentiment, 0) /
+            sentimentTimeline.length
+          : undefined,
+    };
+  }
+
+  private async districtName(districtId: string) {
+    return (await this.districtService.getDistrict(districtId))?.name;
+  }
+}
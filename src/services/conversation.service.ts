@@ -6,7 +6,7 @@ import {
   ChatMetadata,
 } from "../types/conversation.types";
 import { ConversationStyle } from "../types/common.types";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { VectorStoreService } from "./vector-store.service";
 import { CityService } from "./city.service";
 import { AgentCollaborationService } from "./agent-collaboration.service";
@@ -15,7 +15,9 @@ import { SpatialCoordinationService } from "./spatial-coordination.service";
 import { AgentCultureService } from "./agent-culture.service";
 import { EmergencyService } from "./emergency.service";
 import { CityEventsService } from "./city-events.service";
+import { PromptTemplateService } from "./prompt-template.service";
 import { EmergencyType } from "../types/emergency.types";
+import type { RenderedPrompt } from "../types/prompt-template.types";
 
 interface CityConversationContext {
   location?: {
@@ -47,7 +49,7 @@ export class ConversationService extends EventEmitter {
   private readonly TOPIC_EXHAUSTION_THRESHOLD = 5;
 
   constructor(
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private vectorStore: VectorStoreService,
     private cityService: CityService,
     private agentCollaboration: AgentCollaborationService,
@@ -55,7 +57,8 @@ export class ConversationService extends EventEmitter {
     private spatialCoordination: SpatialCoordinationService,
     private agentCulture: AgentCultureService,
     private emergencyService: EmergencyService,
-    private cityEvents: CityEventsService
+    private cityEvents: CityEventsService,
+    private promptTemplates: PromptTemplateService
   ) {
     super();
     this.setupEventHandlers();
@@ -258,14 +261,14 @@ export class ConversationService extends EventEmitter {
       {
         id: crypto.randomUUID(),
         agentId: "system",
-        content: prompt,
+        content: prompt.text,
         timestamp: Date.now(),
         role: "user",
       },
     ]);
 
     // Store in vector database with enhanced metadata
-    await this.storeConversationContext(agent, response, {
+    await this.storeConversationContext(agent, response, prompt, {
       ...context,
       cityMetrics,
     });
@@ -278,54 +281,34 @@ export class ConversationService extends EventEmitter {
     return response;
   }
 
-  private buildEnhancedPrompt(agent: Agent, context: any): string {
-    return `You are ${agent.name}, ${agent.personality}.
-
-Current City Context:
-${this.formatCityContext(context.cityContext)}
-${this.formatCityMetrics(context.cityMetrics)}
-
-${
-  context.culturalContext
-    ? this.formatCulturalContext(context.culturalContext)
-    : ""
-}
-${
-  context.activeCollaboration
-    ? this.formatCollaborationContext(context.activeCollaboration)
-    : ""
-}
-${
-  context.relevantMemories
-    ? this.formatMemoryContext(context.relevantMemories)
-    : ""
-}
-
-${context.isEmergency ? "🚨 URGENT: Immediate response required." : ""}
-
-Location: ${
-      context.location
+  private buildEnhancedPrompt(agent: Agent, context: any): RenderedPrompt {
+    return this.promptTemplates.render("conversation-response", {
+      name: agent.name,
+      personality: agent.personality,
+      cityContext: this.formatCityContext(context.cityContext),
+      cityMetrics: this.formatCityMetrics(context.cityMetrics),
+      culturalContext: context.culturalContext
+        ? this.formatCulturalContext(context.culturalContext)
+        : "",
+      collaborationContext: context.activeCollaboration
+        ? this.formatCollaborationContext(context.activeCollaboration)
+        : "",
+      memoryContext: context.relevantMemories
+        ? this.formatMemoryContext(context.relevantMemories)
+        : "",
+      emergencyNotice: context.isEmergency
+        ? "🚨 URGENT: Immediate response required."
+        : "",
+      location: context.location
         ? `${context.location.districtId} district${
             context.location.nearbyLandmarks
               ? `, near ${context.location.nearbyLandmarks.join(", ")}`
               : ""
           }`
-        : "Unspecified"
-    }
-Current Activity: ${context.location?.currentActivity || "None specified"}
-Topic: ${context.topic || "General conversation"}
-
-Consider:
-1. Your role and expertise
-2. Current city conditions and metrics
-3. Cultural sensitivities and ongoing events
-4. Historical context and district-specific issues
-5. Ongoing collaborations and activities
-6. Emergency protocols if applicable
-7. Local landmarks and spatial context
-8. Current city mood and social dynamics
-
-Respond naturally while maintaining your character and considering all available context.`;
+        : "Unspecified",
+      currentActivity: context.location?.currentActivity || "None specified",
+      topic: context.topic || "General conversation",
+    });
   }
 
   private formatCityMetrics(metrics?: any): string {
@@ -708,11 +691,13 @@ ${memories.memories
   private async storeConversationContext(
     agent: Agent,
     response: string,
+    prompt: RenderedPrompt,
     context: CityConversationContext & { cityMetrics?: any }
   ) {
     const coordinates = context.location?.coordinates;
+    const id = `conv-${Date.now()}`;
     await this.vectorStore.upsert({
-      id: `conv-${Date.now()}`,
+      id,
       values: await this.vectorStore.createEmbedding(response),
       metadata: {
         type: "conversation",
@@ -724,8 +709,11 @@ ${memories.memories
         activityLevel: context.cityMetrics?.activityLevel?.toString() || "0",
         status: context.cityMetrics?.emergencyStatus || "normal",
         timestamp: Date.now(),
+        promptTemplate: prompt.template,
+        promptVersion: prompt.version,
       },
     });
+    this.promptTemplates.recordOutput(id, prompt);
   }
 
   private async handleEmergencyResponse(
@@ -8,21 +8,30 @@ import {
   CulturalDonation,
   CulturalDonationService as ICulturalDonationService,
 } from "../types/cultural-donation.types";
+import { ServiceTimers } from "../utils/service-timers";
+import { PaymentService } from "./payment.service";
+import type { Payment } from "../types/payment.types";
 
 export class CulturalDonationService
   extends EventEmitter
   implements ICulturalDonationService
 {
+  private readonly timers = new ServiceTimers();
   private donationProjects: Map<string, CulturalProject> = new Map();
   private campaigns: Map<string, DonationCampaign> = new Map();
   private recurringDonations: Map<string, CulturalDonation> = new Map();
+  // Donations waiting on a delayed payment settlement
+  private pendingDonations: Map<string, CulturalDonation> = new Map();
 
   constructor(
     private cultureService: CultureService,
     private developmentService: DevelopmentService,
-    private vectorStore: VectorStoreService
+    private vectorStore: VectorStoreService,
+    private payments: PaymentService
   ) {
     super();
+    this.payments.on("captured", (payment) => this.settleDonation(payment));
+    this.payments.on("failed", (payment) => this.settleDonation(payment));
     this.initializeRecurringDonations();
   }
 
@@ -136,12 +145,14 @@ export class CulturalDonationService
     return newCampaign;
   }
 
+  // The donation only counts towards its project once the payment is
+  // captured; a delayed settlement leaves it pending until the webhook arrives
   async processDonation(
     donation: Omit<
       CulturalDonation,
-      "id" | "status" | "processedAt" | "createdAt"
+      "id" | "status" | "processedAt" | "createdAt" | "paymentId"
     >
-  ): Promise<void> {
+  ): Promise<CulturalDonation> {
     const project = await this.getProject(donation.projectId);
     if (!project) {
       throw new Error("Project not found");
@@ -156,43 +167,89 @@ export class CulturalDonationService
     };
 
     try {
-      // Process the donation
-      project.raisedAmount += donation.amount;
-      project.donorCount += 1;
-      project.updatedAt = now;
-
-      if (donation.campaignId) {
-        const campaign = await this.getCampaign(donation.campaignId);
-        if (campaign) {
-          campaign.raisedAmount += donation.amount;
-          campaign.donorCount += 1;
-          campaign.updatedAt = now;
+      const payment = await this.payments.charge(
+        { type: "cultural-donation", id: newDonation.id },
+        {
+          amount: donation.amount,
+          currency: "USD",
+          donorId: donation.donorId,
+          description: `Donation to ${project.title}`,
+          paymentMethod: donation.paymentMethod,
         }
+      );
+      newDonation.paymentId = payment.id;
+      if (payment.status !== "captured") {
+        this.pendingDonations.set(newDonation.id, newDonation);
+        return newDonation;
       }
 
-      if (donation.recurringInterval) {
-        this.recurringDonations.set(newDonation.id, {
-          ...newDonation,
-          status: "processed",
-          processedAt: now,
-        });
-      }
+      await this.applyDonation(newDonation, project);
+      return newDonation;
+    } catch (error) {
+      newDonation.status = "failed";
+      this.emit("donation:failed", { donation: newDonation, error });
+      throw error;
+    }
+  }
 
-      // Check if project target is reached
-      if (project.raisedAmount >= project.targetAmount) {
-        await this.initiateProjectImplementation(project);
+  private async applyDonation(
+    donation: CulturalDonation,
+    project: CulturalProject
+  ) {
+    const now = Date.now();
+    donation.status = "processed";
+    donation.processedAt = now;
+
+    project.raisedAmount += donation.amount;
+    project.donorCount += 1;
+    project.updatedAt = now;
+
+    if (donation.campaignId) {
+      const campaign = await this.getCampaign(donation.campaignId);
+      if (campaign) {
+        campaign.raisedAmount += donation.amount;
+        campaign.donorCount += 1;
+        campaign.updatedAt = now;
       }
+    }
+
+    if (donation.recurringInterval) {
+      this.recurringDonations.set(donation.id, { ...donation });
+    }
+
+    // Check if project target is reached
+    if (project.raisedAmount >= project.targetAmount) {
+      await this.initiateProjectImplementation(project);
+    }
 
-      this.donationProjects.set(project.id, project);
-      this.emit("donation:processed", { donation: newDonation, project });
+    this.donationProjects.set(project.id, project);
+    this.emit("donation:processed", { donation, project });
+  }
+
+  private async settleDonation(payment: Payment) {
+    if (payment.purpose.type !== "cultural-donation") return;
+    const donation = this.pendingDonations.get(payment.purpose.id);
+    if (!donation) return;
+    this.pendingDonations.delete(donation.id);
+
+    const project = await this.getProject(donation.projectId);
+    if (payment.status !== "captured" || !project) {
+      donation.status = "failed";
+      this.emit("donation:failed", {
+        donation,
+        error: new Error(payment.failureReason || "Payment failed"),
+      });
+      return;
+    }
+    try {
+      await this.applyDonation(donation, project);
     } catch (error) {
-      this.emit("donation:failed", { donation: newDonation, error });
-      throw error;
+      console.error("Error completing settled cultural donation:", error);
     }
   }
 
   private initializeRecurringDonations() {
-    setInterval(() => {
+    this.timers.setInterval(() => {
       const now = Date.now();
       for (const [id, donation] of this.recurringDonations) {
         if (this.shouldProcessRecurring(donation, now)) {
@@ -201,9 +258,12 @@ export class CulturalDonationService
             status: __,
             processedAt: ___,
             createdAt: ____,
+            paymentId: _____,
             ...donationData
           } = donation;
-          this.processDonation(donationData);
+          this.processDonation(donationData).catch((error) =>
+            console.error("Recurring cultural donation failed:", error)
+          );
         }
       }
     }, 24 * 60 * 60 * 1000); // Check daily
@@ -264,4 +324,8 @@ export class CulturalDonationService
     project.status = "active";
     this.emit("project:implementation:started", project);
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -4,6 +4,7 @@ import { TransportService } from "./transport.service";
 import { VectorStoreService } from "./vector-store.service";
 import { AnalyticsService } from "./analytics.service";
 import { TransportRoute } from "../types/transport.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface CulturalTransportRoute extends TransportRoute {
   path: Array<[number, number]>;
@@ -74,6 +75,7 @@ interface CulturalEvent {
 }
 
 export class CulturalTransportService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   constructor(
     private cultureService: CultureService,
     private transportService: TransportService,
@@ -87,7 +89,7 @@ export class CulturalTransportService extends EventEmitter {
   private async initializeCulturalRoutes() {
     try {
       await this.optimizeRoutes();
-      setInterval(() => this.optimizeRoutes(), 1000 * 60 * 60); // Hourly
+      this.timers.setInterval(() => this.optimizeRoutes(), 1000 * 60 * 60); // Hourly
 
       this.cultureService.on(
         "culturalEventCreated",
@@ -352,4 +354,8 @@ export class CulturalTransportService extends EventEmitter {
       throw error;
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
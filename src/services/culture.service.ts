@@ -12,6 +12,7 @@ import { VectorStoreService } from "./vector-store.service";
 import { WeatherService } from "./weather.service";
 import { SocialDynamicsService } from "./social-dynamics.service";
 import { CityRhythmService } from "./city-rhythm.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface ArtForm {
   style: string;
@@ -117,6 +118,7 @@ interface Religion {
 }
 
 export class CultureService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private events: Map<string, CulturalEvent> = new Map();
   private artists: Map<string, Artist> = new Map();
   private religions: Map<string, Religion> = new Map();
@@ -171,9 +173,15 @@ export class CultureService extends EventEmitter {
     }
 
     // Start cultural cycles
-    setInterval(() => this.generateEvents(), 1000 * 60 * 60 * 24); // Daily
-    setInterval(() => this.updateMetricsPeriodically(), 1000 * 60 * 60); // Hourly
-    setInterval(() => this.curateCulturalExperiences(), 1000 * 60 * 30); // Every 30 minutes
+    this.timers.setInterval(() => this.generateEvents(), 1000 * 60 * 60 * 24); // Daily
+    this.timers.setInterval(
+      () => this.updateMetricsPeriodically(),
+      1000 * 60 * 60
+    ); // Hourly
+    this.timers.setInterval(
+      () => this.curateCulturalExperiences(),
+      1000 * 60 * 30
+    ); // Every 30 minutes
 
     // Listen to city events
     this.weatherService.on("weatherChanged", this.adaptToWeather.bind(this));
@@ -1801,4 +1809,8 @@ export class CultureService extends EventEmitter {
       });
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -64,10 +64,11 @@ export class DataManagementService extends EventEmitter {
     private vectorStore: VectorStoreService,
     private metricsService: MetricsService,
     private aiService: AIIntegrationService,
-    private cityService: CityService
+    private cityService: CityService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.encryptionKey = process.env.ENCRYPTION_KEY || "default-key";
     this.initializeDataManagement();
   }
@@ -105,7 +106,7 @@ export class DataManagementService extends EventEmitter {
         qualityScore: this.calculateQualityScore(processedData),
       });
 
-      this.eventBus.emit("dataProcessed", {
+      this.eventBus.publish("dataProcessed", {
         streamId,
         size: data.length,
         metrics: this.processingMetrics.get(streamId),
@@ -126,7 +127,7 @@ export class DataManagementService extends EventEmitter {
     this.validatePrivacySettings(settings);
     this.privacySettings.set(dataType, settings);
 
-    this.eventBus.emit("privacySettingsUpdated", {
+    this.eventBus.publish("privacySettingsUpdated", {
       dataType,
       settings,
     });
@@ -165,7 +166,7 @@ export class DataManagementService extends EventEmitter {
     this.validateListing(newListing);
     this.marketListings.set(id, newListing);
 
-    this.eventBus.emit("marketListingCreated", newListing);
+    this.eventBus.publish("marketListingCreated", newListing);
     return id;
   }
 
@@ -181,7 +182,7 @@ export class DataManagementService extends EventEmitter {
     const data = await this.retrieveDataForListing(listing);
     const processedData = await this.processDataForBuyer(data, buyerId);
 
-    this.eventBus.emit("dataPurchased", {
+    this.eventBus.publish("dataPurchased", {
       listingId,
       buyerId,
       timestamp: Date.now(),
@@ -362,7 +363,7 @@ export class DataManagementService extends EventEmitter {
     metrics.errorRate++;
     this.processingMetrics.set(streamId, metrics);
 
-    this.eventBus.emit("processingError", {
+    this.eventBus.publish("processingError", {
       streamId,
       error: error.message,
       timestamp: Date.now(),
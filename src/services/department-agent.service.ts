@@ -1,7 +1,7 @@
 import { EventEmitter } from "events";
 import { DepartmentAgent } from "../types/department-agent.types";
 import { CitizenNeed } from "../types/citizen.types";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { AnalyticsService } from "./analytics.service";
 import { DepartmentService } from "./department.service";
 import { MetricsService } from "./metrics.service";
@@ -17,7 +17,7 @@ export class DepartmentAgentService extends EventEmitter {
   private agents: Map<string, DepartmentAgent> = new Map();
 
   constructor(
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private analyticsService: AnalyticsService,
     private departmentService: DepartmentService,
     private metricsService: MetricsService,
@@ -12,7 +12,7 @@ import {
   AgentMood,
 } from "../types/department-agent.types";
 import { VectorStoreService } from "./vector-store.service";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { AnalyticsService } from "./analytics.service";
 import { MetricsService } from "./metrics.service";
 import { AgentCollaborationService } from "./agent-collaboration.service";
@@ -25,6 +25,18 @@ import { Message } from "../types/conversation.types";
 import _ from "lodash";
 import { CulturalEvent } from "../types/culture.types";
 import { EventBus } from "./event-bus.service";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+import {
+  DonationLedgerService,
+  LedgerError,
+  ledgerAccount,
+} from "./donation-ledger.service";
+import type { LedgerTransaction } from "../types/donation-ledger.types";
 
 interface AgentHealthMetrics {
   physical: number;
@@ -68,7 +80,12 @@ interface DepartmentEvent {
   };
 }
 
-export class DepartmentService extends EventEmitter {
+export class DepartmentService
+  extends EventEmitter
+  implements PersistableService
+{
+  private readonly timers = new ServiceTimers();
+  readonly persistenceKey = "departments";
   private departments: Map<string, Department> = new Map();
   private departmentAgents: Map<string, DepartmentAgent[]> = new Map();
   private departmentEvents: Map<string, DepartmentEvent[]> = new Map();
@@ -77,13 +94,15 @@ export class DepartmentService extends EventEmitter {
 
   constructor(
     private vectorStore: VectorStoreService,
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private analyticsService: AnalyticsService,
     private metricsService: MetricsService,
-    private collaborationService: AgentCollaborationService
+    private collaborationService: AgentCollaborationService,
+    private ledger: DonationLedgerService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.departmentEvents = new Map();
     this.initializeHealthMonitoring();
     this.initializePerformanceMonitoring();
@@ -93,9 +112,23 @@ export class DepartmentService extends EventEmitter {
     });
   }
 
+  exportState(): PersistedCollections {
+    return {
+      departments: mapToRecord(this.departments),
+      agents: mapToRecord(this.departmentAgents),
+      events: mapToRecord(this.departmentEvents),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.departments = recordToMap<Department>(state.departments);
+    this.departmentAgents = recordToMap<DepartmentAgent[]>(state.agents);
+    this.departmentEvents = recordToMap<DepartmentEvent[]>(state.events);
+  }
+
   private initializeHealthMonitoring() {
     // Update agent health every 30 minutes
-    this.healthUpdateInterval = setInterval(() => {
+    this.healthUpdateInterval = this.timers.setInterval(() => {
       this.updateAgentHealth();
     }, 30 * 60 * 1000);
 
@@ -224,6 +257,11 @@ export class DepartmentService extends EventEmitter {
 
   async createDepartment(department: Department): Promise<Department> {
     this.departments.set(department.id, department);
+    this.ledger.openAccount(
+      ledgerAccount("department", department.id),
+      department.budget.donations,
+      `Donations to ${department.name} before the ledger`
+    );
 
     await this.vectorStore.upsert({
       id: `department-${department.id}`,
@@ -350,6 +388,41 @@ export class DepartmentService extends EventEmitter {
     return chatId;
   }
 
+  // Reverses the donation in the ledger and takes it back out of the budget
+  async refundDonation(
+    departmentId: string,
+    donationId: string,
+    reason: string
+  ): Promise<LedgerTransaction[]> {
+    const department = this.departments.get(departmentId);
+    if (!department) throw new Error("Department not found");
+
+    // Only a donation this department received can come out of its budget
+    const transaction = this.ledger.getDonation(donationId);
+    if (
+      !transaction ||
+      this.ledger.recipientOf(transaction) !==
+        ledgerAccount("department", departmentId)
+    ) {
+      throw new LedgerError(
+        "donation_not_found",
+        `No donation ${donationId} for department ${departmentId}`
+      );
+    }
+
+    const reversals = this.ledger.reverseDonation(donationId, reason);
+    const amount = transaction.entries[0].debit;
+    department.budget.donations -= amount;
+    department.budget.total -= amount;
+    const donation = department.budget.donations_history.find(
+      (d) => d.id === donationId
+    );
+    if (donation) donation.refundedAt = Date.now();
+
+    this.emit("donationRefunded", { departmentId, donationId, amount, reason });
+    return reversals;
+  }
+
   async getDepartmentBudget(departmentId: string): Promise<DepartmentBudget> {
     const department = this.departments.get(departmentId);
     if (!department) throw new Error("Department not found");
@@ -363,6 +436,21 @@ export class DepartmentService extends EventEmitter {
     const department = this.departments.get(departmentId);
     if (!department) throw new Error("Department not found");
 
+    // The budget follows the ledger, and a donation already in it is not
+    // counted again
+    const transaction = this.ledger.recordDonation({
+      donationId: donation.id,
+      donorId: donation.donorId || "anonymous",
+      recipient: ledgerAccount("department", departmentId),
+      amount: donation.amount,
+      description: donation.message || `Donation to ${department.name}`,
+      reference: donation.transactionHash,
+    });
+    if (department.budget.donations_history.some((d) => d.id === donation.id)) {
+      return { donationId: donation.id };
+    }
+    donation = { ...donation, transactionHash: transaction.hash };
+
     // Update budget
     department.budget.donations += donation.amount;
     department.budget.total += donation.amount;
@@ -806,7 +894,7 @@ export class DepartmentService extends EventEmitter {
 
   private initializePerformanceMonitoring() {
     // Update performance metrics hourly
-    setInterval(async () => {
+    this.timers.setInterval(async () => {
       for (const [departmentId, department] of this.departments) {
         const agents = await this.getDepartmentAgents(departmentId);
 
@@ -1734,7 +1822,7 @@ export class DepartmentService extends EventEmitter {
     console.log("✅ Initial department activities generated successfully");
 
     // Then set up periodic generation every 30 minutes
-    setInterval(async () => {
+    this.timers.setInterval(async () => {
       console.log("🔄 Generating periodic department activities...");
       try {
         await this.generateDepartmentActivities();
@@ -1857,4 +1945,8 @@ export class DepartmentService extends EventEmitter {
       }
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -9,6 +9,8 @@ import {
 } from "../types/smart-infrastructure.types";
 import { DevelopmentProject, GrowthAnalysis } from "../types/development.types";
 import { District } from "../types/district.types";
+import { SimulationClock } from "./simulation-clock.service";
+import type { SeededRandom } from "../utils/seeded-random";
 
 interface CulturalZoning {
   type: "heritage" | "religious" | "mixed_use" | "modern";
@@ -244,6 +246,7 @@ interface ExtendedDistrict extends Omit<District, "population" | "area"> {
 }
 
 export class DevelopmentService extends EventEmitter {
+  private readonly random: SeededRandom;
   private projects: Map<string, DevelopmentProject> = new Map();
   private zoningPlans: Map<string, EnhancedZoningPlan> = new Map();
   private urbanFabrics: Map<string, UrbanFabric> = new Map();
@@ -276,23 +279,65 @@ export class DevelopmentService extends EventEmitter {
     private vectorStore: VectorStoreService,
     private districtService: DistrictService,
     private smartInfrastructure: SmartInfrastructureService,
-    private environmentService: EnvironmentService
+    private environmentService: EnvironmentService,
+    private readonly clock: SimulationClock
   ) {
     super();
+    this.random = clock.randomFor("development");
     this.initializeAIPlanning();
   }
 
   private async initializeAIPlanning() {
-    setInterval(() => this.analyzeGrowthPatterns(), 1000 * 60 * 60 * 24); // Daily
-    setInterval(() => this.optimizeProjects(), 1000 * 60 * 60); // Hourly
-    setInterval(() => this.updateUrbanFabric(), 1000 * 60 * 60 * 12); // Twice daily
-    setInterval(() => this.monitorDistrictVitals(), 1000 * 60 * 5); // Every 5 minutes
-    setInterval(() => this.trackEnvironmentalMetrics(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.analyzeAgentActivities(), 1000 * 60 * 10); // Every 10 minutes
-    setInterval(() => this.evolveConsciousness(), 1000 * 60 * 30); // Every 30 minutes
-    setInterval(() => this.updateCollectiveMemory(), 1000 * 60 * 60); // Hourly
-    setInterval(() => this.processConsciousnessEvents(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.updateChronicles(), 1000 * 60 * 30); // Every 30 minutes
+    this.clock.every(
+      1000 * 60 * 60 * 24,
+      () => this.analyzeGrowthPatterns(),
+      "development.analyzeGrowthPatterns"
+    ); // Daily
+    this.clock.every(
+      1000 * 60 * 60,
+      () => this.optimizeProjects(),
+      "development.optimizeProjects"
+    ); // Hourly
+    this.clock.every(
+      1000 * 60 * 60 * 12,
+      () => this.updateUrbanFabric(),
+      "development.updateUrbanFabric"
+    ); // Twice daily
+    this.clock.every(
+      1000 * 60 * 5,
+      () => this.monitorDistrictVitals(),
+      "development.monitorDistrictVitals"
+    ); // Every 5 minutes
+    this.clock.every(
+      1000 * 60 * 15,
+      () => this.trackEnvironmentalMetrics(),
+      "development.trackEnvironmentalMetrics"
+    ); // Every 15 minutes
+    this.clock.every(
+      1000 * 60 * 10,
+      () => this.analyzeAgentActivities(),
+      "development.analyzeAgentActivities"
+    ); // Every 10 minutes
+    this.clock.every(
+      1000 * 60 * 30,
+      () => this.evolveConsciousness(),
+      "development.evolveConsciousness"
+    ); // Every 30 minutes
+    this.clock.every(
+      1000 * 60 * 60,
+      () => this.updateCollectiveMemory(),
+      "development.updateCollectiveMemory"
+    ); // Hourly
+    this.clock.every(
+      1000 * 60 * 15,
+      () => this.processConsciousnessEvents(),
+      "development.processConsciousnessEvents"
+    ); // Every 15 minutes
+    this.clock.every(
+      1000 * 60 * 30,
+      () => this.updateChronicles(),
+      "development.updateChronicles"
+    ); // Every 30 minutes
   }
 
   private async monitorDistrictVitals() {
@@ -406,7 +451,7 @@ export class DevelopmentService extends EventEmitter {
   private async trackEventFrequency(district: any): Promise<number> {
     const events = district.events || [];
     const recentEvents = events.filter(
-      (e: any) => Date.now() - e.timestamp < 24 * 60 * 60 * 1000 // Last 24 hours
+      (e: any) => this.clock.now() - e.timestamp < 24 * 60 * 60 * 1000 // Last 24 hours
     );
     return recentEvents.length / 24; // Events per hour
   }
@@ -763,7 +808,7 @@ export class DevelopmentService extends EventEmitter {
           projectType: project.type,
           districtId: project.location.districtId,
           culturalImpact: JSON.stringify(culturalEvaluation),
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
         },
       });
     }
@@ -1170,11 +1215,11 @@ export class DevelopmentService extends EventEmitter {
     projectData: Partial<DevelopmentProject>
   ): Promise<DevelopmentProject> {
     const project = {
-      id: crypto.randomUUID(),
+      id: this.random.uuid(),
       ...projectData,
       status: "proposed",
       timeline: {
-        proposed: Date.now(),
+        proposed: this.clock.now(),
       },
       metrics: this.projectInitialMetrics(
         projectData.type!,
@@ -1346,12 +1391,12 @@ export class DevelopmentService extends EventEmitter {
       const culturalData = culturalContext.get(location.districtId);
 
       projects.push({
-        id: crypto.randomUUID(),
+        id: this.random.uuid(),
         type,
         status: "proposed",
         location,
         timeline: {
-          proposed: Date.now(),
+          proposed: this.clock.now(),
         },
         metrics: this.projectInitialMetrics(type, location),
         sustainability: this.generateSustainabilityMetrics(sustainabilityGoals),
@@ -1417,7 +1462,7 @@ export class DevelopmentService extends EventEmitter {
 
   private async updateCollectiveMemory() {
     const currentState = {
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       districts: await this.districtService.getAllDistricts(),
       vitals: Array.from(this.districtVitals.entries()),
       environment: Array.from(this.environmentalMetrics.entries()),
@@ -1426,7 +1471,7 @@ export class DevelopmentService extends EventEmitter {
 
     // Update short-term memory
     this.cityConsciousness.collectiveMemory.shortTerm.set(
-      Date.now().toString(),
+      this.clock.now().toString(),
       currentState
     );
 
@@ -1474,7 +1519,7 @@ export class DevelopmentService extends EventEmitter {
         if (envMetrics.sustainabilityScore < 0.3) {
           events.push({
             type: "awareness",
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             impact: 0.8,
             scope: "district",
             data: {
@@ -1489,7 +1534,7 @@ export class DevelopmentService extends EventEmitter {
         if (activities.knowledgeSharing > 0.8) {
           events.push({
             type: "memory",
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             impact: 0.7,
             scope: "district",
             data: {
@@ -1504,7 +1549,7 @@ export class DevelopmentService extends EventEmitter {
         if (vitals.computationalLoad > 0.9) {
           events.push({
             type: "decision",
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             impact: 0.9,
             scope: "district",
             data: {
@@ -1519,7 +1564,7 @@ export class DevelopmentService extends EventEmitter {
         if (activities.innovationRate > 0.7) {
           events.push({
             type: "evolution",
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             impact: 0.8,
             scope: "district",
             data: {
@@ -1599,8 +1644,8 @@ export class DevelopmentService extends EventEmitter {
 
     for (const event of newEvents) {
       const chronicle: CityChronicle = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
+        id: this.random.uuid(),
+        timestamp: this.clock.now(),
         type: this.determineEventType(event),
         importance: this.calculateEventImportance(event),
         scope: await this.determineEventScope(event),
@@ -1806,7 +1851,8 @@ export class DevelopmentService extends EventEmitter {
   private calculateEventFrequency(eventType: string): number {
     const recentEvents = Array.from(this.cityChronicles.values()).filter(
       (c) =>
-        c.type === eventType && c.timestamp > Date.now() - 24 * 60 * 60 * 1000 // Last 24 hours
+        c.type === eventType &&
+        c.timestamp > this.clock.now() - 24 * 60 * 60 * 1000 // Last 24 hours
     );
     return recentEvents.length / 24; // Events per hour
   }
@@ -3,6 +3,7 @@ import { CultureService } from "./culture.service";
 import { DistrictMetrics, DistrictService } from "./district.service";
 import { VectorStoreService } from "./vector-store.service";
 import { District } from "../types/district.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface ReligiousZone {
   id: string;
@@ -49,6 +50,7 @@ interface CulturalDistrict {
 }
 
 export class DistrictCultureService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private culturalDistricts: Map<string, CulturalDistrict> = new Map();
   private religiousZones: Map<string, ReligiousZone> = new Map();
   private initialized = false;
@@ -77,7 +79,7 @@ export class DistrictCultureService extends EventEmitter {
     );
 
     // Initialize religious zone monitoring
-    setInterval(() => this.monitorReligiousZones(), 60 * 60 * 1000); // Hourly check
+    this.timers.setInterval(() => this.monitorReligiousZones(), 60 * 60 * 1000); // Hourly check
 
     this.initialized = true;
     console.log("🏛️ District Culture Service initialized");
@@ -348,4 +350,8 @@ export class DistrictCultureService extends EventEmitter {
       this.emit("districtCultureUpdated", culturalDistrict);
     }
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -1,6 +1,7 @@
 import { EventEmitter } from "events";
 import { MetricsService } from "./metrics.service";
 import type { ServerWebSocket } from "bun";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface WebSocketData {
   districtId: string;
@@ -8,6 +9,7 @@ interface WebSocketData {
 }
 
 export class DistrictWebSocketService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private connections: Map<string, Set<ServerWebSocket<WebSocketData>>> =
     new Map();
   private heartbeatInterval!: NodeJS.Timer;
@@ -88,7 +90,7 @@ export class DistrictWebSocketService extends EventEmitter {
   }
 
   private initializeHeartbeat() {
-    this.heartbeatInterval = setInterval(() => {
+    this.heartbeatInterval = this.timers.setInterval(() => {
       const now = Date.now();
       for (const connections of this.connections.values()) {
         for (const client of connections) {
@@ -112,4 +114,8 @@ export class DistrictWebSocketService extends EventEmitter {
   private handleUnsubscribe(ws: ServerWebSocket<WebSocketData>, data: any) {
     // Implementation for metric-specific unsubscriptions
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
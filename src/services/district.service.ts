@@ -14,11 +14,16 @@ import { CityService } from "./city.service";
 import { VectorStoreService } from "./vector-store.service";
 import { CityEvent, CityEventCategory } from "../types/city-events";
 import { TransportHub, TransportSchedule } from "../types/transport.types";
-import { TogetherService } from "./together.service";
+import type { LLMProvider } from "../types/llm.types";
 import { VectorStoreType } from "../types/vector-store.types";
 import { AnalyticsService } from "./analytics.service";
 import { DistrictCultureService } from "./district-culture.service";
 import type { ServerWebSocket } from "bun";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
 
 export interface DistrictAnalytics {
   totalEvents: number;
@@ -51,7 +56,11 @@ interface WebSocketData {
   lastActivity: number;
 }
 
-export class DistrictService extends EventEmitter {
+export class DistrictService
+  extends EventEmitter
+  implements PersistableService
+{
+  readonly persistenceKey = "districts";
   private districts: Map<string, District> = new Map();
   private districtConversations: Map<string, DistrictConversation[]> =
     new Map();
@@ -76,7 +85,7 @@ export class DistrictService extends EventEmitter {
   constructor(
     private cityService: CityService,
     private vectorStore: VectorStoreService,
-    private togetherService: TogetherService,
+    private togetherService: LLMProvider,
     private analyticsService: AnalyticsService,
     private districtCultureService: DistrictCultureService
   ) {
@@ -84,6 +93,20 @@ export class DistrictService extends EventEmitter {
     this.initializeService();
   }
 
+  exportState(): PersistedCollections {
+    return {
+      districts: mapToRecord(this.districts),
+      conversations: mapToRecord(this.districtConversations),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.districts = recordToMap<District>(state.districts);
+    this.districtConversations = recordToMap<DistrictConversation[]>(
+      state.conversations
+    );
+  }
+
   async initializeService() {
     // Track district mood changes
     this.on("moodChanged", (district) => {
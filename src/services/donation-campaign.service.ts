@@ -0,0 +1,445 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type { DonationChallenge, DonationService } from "./donation.service";
+import type { DonationGoal } from "../types/donation-goals";
+import type {
+  CampaignExpiryReport,
+  CampaignKind,
+  DonationCampaignConfig,
+  DonationChallengeChanges,
+  DonationGoalChanges,
+  NewDonationChallenge,
+  NewDonationGoal,
+} from "../types/donation-campaign.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+
+export function loadDonationCampaignConfig(
+  env: Record<string, string | undefined> = process.env
+): DonationCampaignConfig {
+  return {
+    checkIntervalMs: parseInt(env.CAMPAIGN_CHECK_INTERVAL_MS || "60000", 10),
+    maxReports: 500,
+  };
+}
+
+export type CampaignErrorCode =
+  | "goal_not_found"
+  | "challenge_not_found"
+  | "duplicate_goal"
+  | "invalid_schedule"
+  | "invalid_policy"
+  | "invalid_milestone"
+  | "invalid_state";
+
+export class CampaignError extends Error {
+  constructor(readonly code: CampaignErrorCode, message: string) {
+    super(message);
+    this.name = "CampaignError";
+  }
+}
+
+type Phase = "scheduled" | "active" | "ended";
+
+const phaseAt = (
+  startDate: number | undefined,
+  endDate: number | undefined,
+  now: number
+): Phase => {
+  if (endDate !== undefined && now >= endDate) return "ended";
+  if (startDate !== undefined && now < startDate) return "scheduled";
+  return "active";
+};
+
+const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Lets community managers author donation goals and challenges and runs
+// their lifecycle: scheduled campaigns open at their start date, and ones
+// still open at their end date expire with a report of what they raised.
+// Donations, milestones, overfunding and celebrations are handled by the
+// donation service as the money comes in.
+export class DonationCampaignService
+  extends EventEmitter
+  implements PersistableService
+{
+  readonly persistenceKey = "donation_campaigns";
+  private readonly timers = new ServiceTimers();
+  private reports: Map<string, CampaignExpiryReport> = new Map();
+
+  constructor(
+    private donationService: DonationService,
+    readonly config: DonationCampaignConfig = loadDonationCampaignConfig()
+  ) {
+    super();
+    this.timers.setInterval(
+      () => this.processLifecycle(),
+      this.config.checkIntervalMs
+    );
+  }
+
+  exportState(): PersistedCollections {
+    return { reports: mapToRecord(this.reports) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.reports = recordToMap<CampaignExpiryReport>(state.reports);
+  }
+
+  getGoal(goalId: string): DonationGoal {
+    const goal = this.donationService.getDonationGoal(goalId);
+    if (!goal) {
+      throw new CampaignError(
+        "goal_not_found",
+        `Donation goal ${goalId} not found`
+      );
+    }
+    return goal;
+  }
+
+  createGoal(input: NewDonationGoal): DonationGoal {
+    const id = input.id || slugify(input.title);
+    if (!id || this.donationService.getDonationGoal(id)) {
+      throw new CampaignError(
+        "duplicate_goal",
+        `A donation goal with id "${id}" already exists`
+      );
+    }
+    const now = Date.now();
+    this.assertSchedule(input.startDate, input.endDate, now);
+    const goal: DonationGoal = {
+      ...input,
+      id,
+      currentAmount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.assertPolicy(goal);
+    goal.status = this.goalStatus(goal, now);
+    this.donationService.addDonationGoal(goal);
+    return goal;
+  }
+
+  // Raising the target of a capped or rolled-over goal that has been reached
+  // opens it again
+  updateGoal(goalId: string, changes: DonationGoalChanges): DonationGoal {
+    const goal = this.getGoal(goalId);
+    if (goal.status === "expired") {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation goal ${goalId} has expired`
+      );
+    }
+    const updated: DonationGoal = { ...goal, ...changes };
+    const now = Date.now();
+    if (changes.startDate !== undefined || changes.endDate !== undefined) {
+      this.assertSchedule(updated.startDate, updated.endDate, now);
+    }
+    if (
+      updated.targetAmount <= updated.currentAmount &&
+      goal.status !== "reached"
+    ) {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation goal ${goalId} has already raised ${updated.currentAmount}`
+      );
+    }
+    this.assertPolicy(updated);
+
+    Object.assign(goal, changes, { updatedAt: now });
+    if (goal.status === "reached" && goal.targetAmount > goal.currentAmount) {
+      goal.status = "active";
+    }
+    goal.status = this.goalStatus(goal, now);
+    return goal;
+  }
+
+  // Only goals nothing has been given to yet can be removed; end the others
+  // by moving their end date instead
+  deleteGoal(goalId: string): void {
+    const goal = this.getGoal(goalId);
+    if (goal.currentAmount > 0 || goal.reachedAt) {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation goal ${goalId} has received donations`
+      );
+    }
+    const feeder = this.donationService
+      .getDonationGoals()
+      .find(
+        (other) =>
+          other.overfunding?.type === "rollover" &&
+          other.overfunding.goalId === goalId
+      );
+    if (feeder) {
+      throw new CampaignError(
+        "invalid_policy",
+        `Donation goal ${feeder.id} rolls over into ${goalId}`
+      );
+    }
+    this.donationService.removeDonationGoal(goalId);
+  }
+
+  getChallenges(status?: DonationChallenge["status"]): DonationChallenge[] {
+    return this.donationService
+      .getDonationChallenges()
+      .filter((challenge) => !status || challenge.status === status)
+      .sort((a, b) => a.startDate - b.startDate);
+  }
+
+  getChallenge(challengeId: string): DonationChallenge {
+    const challenge = this.donationService.getDonationChallenge(challengeId);
+    if (!challenge) {
+      throw new CampaignError(
+        "challenge_not_found",
+        `Donation challenge ${challengeId} not found`
+      );
+    }
+    return challenge;
+  }
+
+  async createChallenge(
+    input: NewDonationChallenge
+  ): Promise<DonationChallenge> {
+    const now = Date.now();
+    this.assertSchedule(input.startDate, input.endDate, now);
+    this.assertMilestones(input.milestones, input.targetAmount);
+    const id = await this.donationService.createDonationChallenge({
+      ...input,
+      status:
+        phaseAt(input.startDate, input.endDate, now) === "scheduled"
+          ? "scheduled"
+          : "active",
+      milestones: input.milestones.map(({ amount, reward }) => ({
+        amount,
+        reward,
+        achieved: false,
+      })),
+    });
+    return this.getChallenge(id);
+  }
+
+  // Edited milestones are evaluated against what the challenge has already
+  // raised, so one set below it is unlocked straight away
+  async updateChallenge(
+    challengeId: string,
+    changes: DonationChallengeChanges
+  ): Promise<DonationChallenge> {
+    const challenge = this.getChallenge(challengeId);
+    if (challenge.status === "expired") {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation challenge ${challengeId} has expired`
+      );
+    }
+    const now = Date.now();
+    const startDate = changes.startDate ?? challenge.startDate;
+    const endDate = changes.endDate ?? challenge.endDate;
+    if (changes.startDate !== undefined || changes.endDate !== undefined) {
+      this.assertSchedule(startDate, endDate, now);
+    }
+    const targetAmount = changes.targetAmount ?? challenge.targetAmount;
+    const milestones = changes.milestones
+      ? changes.milestones.map(({ amount, reward }) => {
+          const existing = challenge.milestones.find(
+            (m) => m.amount === amount && m.achieved
+          );
+          return {
+            amount,
+            reward,
+            achieved: !!existing,
+            achievedAt: existing?.achievedAt,
+          };
+        })
+      : challenge.milestones;
+    this.assertMilestones(milestones, targetAmount);
+
+    Object.assign(challenge, changes, { milestones });
+    // Raising the target of a completed challenge opens it again
+    if (
+      challenge.status !== "completed" ||
+      challenge.currentAmount < challenge.targetAmount
+    ) {
+      const phase = phaseAt(startDate, endDate, now);
+      challenge.status = phase === "scheduled" ? "scheduled" : "active";
+      challenge.completedAt = undefined;
+    }
+    await this.donationService.evaluateChallenge(challenge);
+    return challenge;
+  }
+
+  deleteChallenge(challengeId: string): void {
+    const challenge = this.getChallenge(challengeId);
+    if (challenge.participants.length > 0) {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation challenge ${challengeId} has participants`
+      );
+    }
+    this.donationService.removeDonationChallenge(challengeId);
+  }
+
+  assertChallengeOpen(challengeId: string): DonationChallenge {
+    const challenge = this.getChallenge(challengeId);
+    if (!this.donationService.isChallengeOpen(challenge)) {
+      throw new CampaignError(
+        "invalid_state",
+        `Donation challenge ${challengeId} is not taking donations`
+      );
+    }
+    return challenge;
+  }
+
+  // Newest first
+  getReports(options: { unmetOnly?: boolean } = {}): CampaignExpiryReport[] {
+    return Array.from(this.reports.values())
+      .filter((report) => !options.unmetOnly || !report.met)
+      .sort((a, b) => b.reportedAt - a.reportedAt);
+  }
+
+  // Opens scheduled goals and challenges whose start date has come and
+  // expires the ones still open at their end date. Returns the new reports.
+  processLifecycle(now = Date.now()): CampaignExpiryReport[] {
+    const reports: CampaignExpiryReport[] = [];
+
+    for (const goal of this.donationService.getDonationGoals()) {
+      if (goal.status === "reached" || goal.status === "expired") continue;
+      if (phaseAt(goal.startDate, goal.endDate, now) === "ended") {
+        goal.status = "expired";
+        goal.expiredAt = now;
+        reports.push(
+          this.report("goal", goal, goal.reachedAt !== undefined, now)
+        );
+      } else if (goal.status !== undefined) {
+        goal.status = this.goalStatus(goal, now);
+      }
+    }
+
+    for (const challenge of this.donationService.getDonationChallenges()) {
+      if (challenge.status === "completed" || challenge.status === "expired") {
+        continue;
+      }
+      const phase = phaseAt(challenge.startDate, challenge.endDate, now);
+      if (phase === "ended") {
+        challenge.status = "expired";
+        challenge.expiredAt = now;
+        reports.push(this.report("challenge", challenge, false, now));
+      } else {
+        challenge.status = phase;
+      }
+    }
+
+    for (const report of reports) {
+      this.reports.set(report.id, report);
+      this.emit("campaignExpired", report);
+      if (!report.met) {
+        console.warn(
+          `Donation ${report.kind} "${report.title}" ended ${report.shortfall} short of its target`
+        );
+      }
+    }
+    this.pruneReports();
+    return reports;
+  }
+
+  stop() {
+    this.timers.clearAll();
+  }
+
+  private goalStatus(goal: DonationGoal, now: number): DonationGoal["status"] {
+    if (goal.status === "reached" || goal.status === "expired") {
+      return goal.status;
+    }
+    const phase = phaseAt(goal.startDate, goal.endDate, now);
+    return phase === "scheduled" ? "scheduled" : "active";
+  }
+
+  private report(
+    kind: CampaignKind,
+    campaign: DonationGoal | DonationChallenge,
+    met: boolean,
+    now: number
+  ): CampaignExpiryReport {
+    return {
+      id: crypto.randomUUID(),
+      kind,
+      campaignId: campaign.id,
+      title: campaign.title,
+      targetAmount: campaign.targetAmount,
+      raisedAmount: campaign.currentAmount,
+      shortfall: met
+        ? 0
+        : Math.max(0, campaign.targetAmount - campaign.currentAmount),
+      met,
+      endDate: campaign.endDate!,
+      reportedAt: now,
+    };
+  }
+
+  private pruneReports() {
+    const excess = this.reports.size - this.config.maxReports;
+    if (excess <= 0) return;
+    for (const report of this.getReports().slice(-excess)) {
+      this.reports.delete(report.id);
+    }
+  }
+
+  private assertSchedule(
+    startDate: number | undefined,
+    endDate: number | undefined,
+    now: number
+  ) {
+    if (endDate === undefined) return;
+    if (endDate <= now) {
+      throw new CampaignError(
+        "invalid_schedule",
+        "The end date must be in the future"
+      );
+    }
+    if (startDate !== undefined && endDate <= startDate) {
+      throw new CampaignError(
+        "invalid_schedule",
+        "The end date must come after the start date"
+      );
+    }
+  }
+
+  private assertPolicy(goal: DonationGoal) {
+    if (goal.overfunding?.type !== "rollover") return;
+    const { goalId } = goal.overfunding;
+    if (goalId === goal.id) {
+      throw new CampaignError(
+        "invalid_policy",
+        `Donation goal ${goal.id} cannot roll over into itself`
+      );
+    }
+    if (!this.donationService.getDonationGoal(goalId)) {
+      throw new CampaignError(
+        "invalid_policy",
+        `Rollover goal ${goalId} not found`
+      );
+    }
+  }
+
+  private assertMilestones(
+    milestones: { amount: number }[],
+    targetAmount: number
+  ) {
+    const outOfRange = milestones.find(
+      (m) => m.amount <= 0 || m.amount > targetAmount
+    );
+    if (outOfRange) {
+      throw new CampaignError(
+        "invalid_milestone",
+        `Milestone of ${outOfRange.amount} must be between 0 and the target of ${targetAmount}`
+      );
+    }
+  }
+}
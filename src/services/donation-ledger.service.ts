@@ -0,0 +1,459 @@
+import crypto from "crypto";
+import type { Department } from "../types/department.types";
+import type {
+  DepartmentReconciliation,
+  IdempotencyRecord,
+  LedgerAccountBalance,
+  LedgerAccountType,
+  LedgerDonationInput,
+  LedgerEntry,
+  LedgerReconciliation,
+  LedgerTransaction,
+  LedgerTransactionQuery,
+} from "../types/donation-ledger.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export type LedgerErrorCode =
+  | "invalid_amount"
+  | "donation_not_found"
+  | "already_reversed"
+  | "idempotency_conflict";
+
+export class LedgerError extends Error {
+  constructor(readonly code: LedgerErrorCode, message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Clients retry within minutes; a day covers any reasonable retry window
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const GENESIS_HASH = "0".repeat(64);
+const OPENING_ACCOUNT = "external:opening-balances";
+
+export const ledgerAccount = (type: LedgerAccountType, id: string) =>
+  `${type}:${id}`;
+
+export const parseLedgerAccount = (account: string) => {
+  const separator = account.indexOf(":");
+  return {
+    type: account.slice(0, separator) as LedgerAccountType,
+    id: account.slice(separator + 1),
+  };
+};
+
+// Amounts are kept in whole cents so totals add up exactly
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+const hashOf = (transaction: Omit<LedgerTransaction, "hash">) =>
+  sha256(
+    JSON.stringify([
+      transaction.id,
+      transaction.sequence,
+      transaction.kind,
+      transaction.donationId ?? null,
+      transaction.districtId ?? null,
+      transaction.description,
+      transaction.entries,
+      transaction.reference ?? null,
+      transaction.reverses ?? null,
+      transaction.timestamp,
+      transaction.previousHash,
+    ])
+  );
+
+// Double-entry record of every donation: donors are debited, the district or
+// department that receives the funds is credited, and goals and challenges
+// are credited from the recipient when part of a donation is earmarked for
+// them. Transactions are never edited; refunds post reversals.
+export class DonationLedgerService implements PersistableService {
+  readonly persistenceKey = "donation_ledger";
+  private transactions: Map<string, LedgerTransaction> = new Map();
+  private idempotency: Map<string, IdempotencyRecord> = new Map();
+  private pending: Map<
+    string,
+    { fingerprint: string; result: Promise<unknown> }
+  > = new Map();
+
+  exportState(): PersistedCollections {
+    return {
+      transactions: mapToRecord(this.transactions),
+      idempotency: mapToRecord(this.idempotency),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.transactions = recordToMap<LedgerTransaction>(state.transactions);
+    this.idempotency = recordToMap<IdempotencyRecord>(state.idempotency);
+  }
+
+  // Carries a balance that predates the ledger; posted once per account
+  openAccount(account: string, amount: number, description: string) {
+    const existing = this.findTransaction(
+      (transaction) =>
+        transaction.kind === "opening" &&
+        transaction.entries.some((entry) => entry.account === account)
+    );
+    if (existing || toCents(amount) === 0) return existing;
+    return this.post({
+      kind: "opening",
+      description,
+      entries: this.transfer(OPENING_ACCOUNT, account, amount),
+    });
+  }
+
+  // Posting the same donation twice returns the first transaction
+  recordDonation(input: LedgerDonationInput): LedgerTransaction {
+    this.assertAmount(input.amount);
+    const existing = this.getDonation(input.donationId);
+    if (existing) return existing;
+
+    return this.post({
+      kind: "donation",
+      donationId: input.donationId,
+      districtId: input.districtId,
+      description: input.description,
+      reference: input.reference || undefined,
+      entries: this.transfer(
+        ledgerAccount("donor", input.donorId),
+        input.recipient,
+        input.amount
+      ),
+    });
+  }
+
+  // Earmarks part of a donation for a goal or challenge account. Returns
+  // undefined when the donation is already allocated to that account.
+  allocate(
+    donationId: string,
+    account: string,
+    amount: number
+  ): LedgerTransaction | undefined {
+    this.assertAmount(amount);
+    const donation = this.getDonation(donationId);
+    if (!donation) {
+      throw new LedgerError(
+        "donation_not_found",
+        `No ledger transaction for donation ${donationId}`
+      );
+    }
+    const allocated = this.findTransaction(
+      (transaction) =>
+        transaction.kind === "allocation" &&
+        transaction.donationId === donationId &&
+        transaction.entries.some((entry) => entry.account === account)
+    );
+    if (allocated) return undefined;
+    if (this.reversalOf(donation.id)) {
+      throw new LedgerError(
+        "already_reversed",
+        `Donation ${donationId} has been reversed`
+      );
+    }
+
+    return this.post({
+      kind: "allocation",
+      donationId,
+      districtId: donation.districtId,
+      description: `Allocate donation ${donationId} to ${account}`,
+      entries: this.transfer(this.recipientOf(donation), account, amount),
+    });
+  }
+
+  // Reverses a donation and everything allocated from it, newest first
+  reverseDonation(donationId: string, reason: string): LedgerTransaction[] {
+    const donation = this.getDonation(donationId);
+    if (!donation) {
+      throw new LedgerError(
+        "donation_not_found",
+        `No ledger transaction for donation ${donationId}`
+      );
+    }
+    if (this.reversalOf(donation.id)) {
+      throw new LedgerError(
+        "already_reversed",
+        `Donation ${donationId} has already been reversed`
+      );
+    }
+
+    const originals = Array.from(this.transactions.values())
+      .filter(
+        (transaction) =>
+          transaction.donationId === donationId &&
+          transaction.kind !== "reversal" &&
+          !this.reversalOf(transaction.id)
+      )
+      .reverse();
+
+    return originals.map((original) =>
+      this.post({
+        kind: "reversal",
+        donationId,
+        districtId: original.districtId,
+        description: `Reversal of ${original.id}: ${reason}`,
+        reverses: original.id,
+        entries: original.entries.map((entry) => ({
+          account: entry.account,
+          debit: entry.credit,
+          credit: entry.debit,
+        })),
+      })
+    );
+  }
+
+  // Whether a donation has been reversed
+  isReversed(donationId: string): boolean {
+    const donation = this.getDonation(donationId);
+    return !!donation && !!this.reversalOf(donation.id);
+  }
+
+  getDonation(donationId: string): LedgerTransaction | undefined {
+    return this.findTransaction(
+      (transaction) =>
+        transaction.kind === "donation" && transaction.donationId === donationId
+    );
+  }
+
+  // The account a donation was paid into
+  recipientOf(donation: LedgerTransaction): string {
+    return donation.entries.find((entry) => entry.credit > 0)!.account;
+  }
+
+  // Newest first
+  getTransactions(query: LedgerTransactionQuery = {}): LedgerTransaction[] {
+    return Array.from(this.transactions.values())
+      .filter(
+        (transaction) =>
+          (!query.kind || transaction.kind === query.kind) &&
+          (!query.donationId || transaction.donationId === query.donationId) &&
+          (!query.account ||
+            transaction.entries.some(
+              (entry) => entry.account === query.account
+            ))
+      )
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  getBalances(type?: LedgerAccountType): LedgerAccountBalance[] {
+    const totals = new Map<string, { debits: number; credits: number }>();
+    for (const transaction of this.transactions.values()) {
+      for (const entry of transaction.entries) {
+        const total = totals.get(entry.account) || { debits: 0, credits: 0 };
+        total.debits += toCents(entry.debit);
+        total.credits += toCents(entry.credit);
+        totals.set(entry.account, total);
+      }
+    }
+
+    return Array.from(totals.entries())
+      .filter(([account]) => !type || parseLedgerAccount(account).type === type)
+      .map(([account, total]) => ({
+        account,
+        type: parseLedgerAccount(account).type,
+        debits: fromCents(total.debits),
+        credits: fromCents(total.credits),
+        balance: fromCents(total.credits - total.debits),
+      }))
+      .sort((a, b) => a.account.localeCompare(b.account));
+  }
+
+  // Checks the chain, that debits equal credits, and that each department's
+  // budget holds exactly the donations the ledger recorded for it
+  reconcile(
+    departments: Pick<Department, "id" | "budget">[]
+  ): LedgerReconciliation {
+    const transactions = Array.from(this.transactions.values());
+    let totalDebits = 0;
+    let totalCredits = 0;
+    for (const transaction of transactions) {
+      for (const entry of transaction.entries) {
+        totalDebits += toCents(entry.debit);
+        totalCredits += toCents(entry.credit);
+      }
+    }
+    const brokenAt = this.verifyChain();
+
+    const reconciliations = departments.map(
+      (department): DepartmentReconciliation => {
+        const account = ledgerAccount("department", department.id);
+        const ledgerCents = transactions
+          .filter(
+            (transaction) =>
+              transaction.kind !== "allocation" &&
+              !(
+                transaction.kind === "reversal" &&
+                this.transactions.get(transaction.reverses!)?.kind ===
+                  "allocation"
+              )
+          )
+          .flatMap((transaction) => transaction.entries)
+          .filter((entry) => entry.account === account)
+          .reduce(
+            (sum, entry) => sum + toCents(entry.credit) - toCents(entry.debit),
+            0
+          );
+        const budgetCents = toCents(department.budget.donations);
+        const unmatchedDonations = department.budget.donations_history
+          .filter(
+            (donation) =>
+              this.getDonation(donation.id)?.hash !== donation.transactionHash
+          )
+          .map((donation) => donation.id);
+
+        return {
+          departmentId: department.id,
+          budgetDonations: fromCents(budgetCents),
+          ledgerDonations: fromCents(ledgerCents),
+          difference: fromCents(budgetCents - ledgerCents),
+          unmatchedDonations,
+          reconciled:
+            budgetCents === ledgerCents && unmatchedDonations.length === 0,
+        };
+      }
+    );
+
+    const balanced = totalDebits === totalCredits;
+    return {
+      generatedAt: Date.now(),
+      transactions: transactions.length,
+      totalDebits: fromCents(totalDebits),
+      totalCredits: fromCents(totalCredits),
+      balanced,
+      chainValid: brokenAt === undefined,
+      brokenAt,
+      departments: reconciliations,
+      reconciled:
+        balanced &&
+        brokenAt === undefined &&
+        reconciliations.every((department) => department.reconciled),
+    };
+  }
+
+  // Runs a request once per idempotency key. A retry with the same key and
+  // body gets the first result back (also while the first is still running);
+  // the same key with a different body is refused. Failed requests are not
+  // remembered, so they can be retried with the same key.
+  async idempotent<T>(
+    scope: string,
+    key: string | undefined,
+    request: unknown,
+    run: () => Promise<T>
+  ): Promise<{ result: T; replayed: boolean }> {
+    if (!key) return { result: await run(), replayed: false };
+
+    const id = `${scope}:${key}`;
+    const fingerprint = sha256(JSON.stringify(request));
+    this.pruneIdempotency();
+
+    const previous = this.idempotency.get(id) || this.pending.get(id);
+    if (previous) {
+      if (previous.fingerprint !== fingerprint) {
+        throw new LedgerError(
+          "idempotency_conflict",
+          "Idempotency key was already used for a different request"
+        );
+      }
+      const result =
+        "createdAt" in previous ? previous.result : await previous.result;
+      return { result: result as T, replayed: true };
+    }
+
+    const result = run();
+    this.pending.set(id, { fingerprint, result });
+    try {
+      const value = await result;
+      this.idempotency.set(id, {
+        key: id,
+        fingerprint,
+        result: value,
+        createdAt: Date.now(),
+      });
+      return { result: value, replayed: false };
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+
+  private post(
+    transaction: Omit<
+      LedgerTransaction,
+      "id" | "sequence" | "timestamp" | "previousHash" | "hash"
+    >
+  ): LedgerTransaction {
+    const last = Array.from(this.transactions.values()).pop();
+    const unsigned = {
+      id: crypto.randomUUID(),
+      sequence: (last?.sequence ?? 0) + 1,
+      ...transaction,
+      timestamp: Date.now(),
+      previousHash: last?.hash ?? GENESIS_HASH,
+    };
+    const posted = { ...unsigned, hash: hashOf(unsigned) };
+    this.transactions.set(posted.id, posted);
+    return posted;
+  }
+
+  private transfer(from: string, to: string, amount: number): LedgerEntry[] {
+    const rounded = fromCents(toCents(amount));
+    return [
+      { account: from, debit: rounded, credit: 0 },
+      { account: to, debit: 0, credit: rounded },
+    ];
+  }
+
+  private assertAmount(amount: number) {
+    if (!Number.isFinite(amount) || toCents(amount) <= 0) {
+      throw new LedgerError(
+        "invalid_amount",
+        "Donation amounts must be positive"
+      );
+    }
+  }
+
+  private reversalOf(transactionId: string) {
+    return this.findTransaction(
+      (transaction) => transaction.reverses === transactionId
+    );
+  }
+
+  private findTransaction(
+    predicate: (transaction: LedgerTransaction) => boolean
+  ): LedgerTransaction | undefined {
+    for (const transaction of this.transactions.values()) {
+      if (predicate(transaction)) return transaction;
+    }
+    return undefined;
+  }
+
+  // Id of the first transaction that does not hash to its recorded value
+  private verifyChain(): string | undefined {
+    let previousHash = GENESIS_HASH;
+    for (const transaction of this.transactions.values()) {
+      const { hash, ...unsigned } = transaction;
+      if (
+        transaction.previousHash !== previousHash ||
+        hashOf(unsigned) !== hash
+      ) {
+        return transaction.id;
+      }
+      previousHash = hash;
+    }
+    return undefined;
+  }
+
+  private pruneIdempotency() {
+    const cutoff = Date.now() - IDEMPOTENCY_TTL_MS;
+    for (const [id, record] of this.idempotency) {
+      if (record.createdAt < cutoff) this.idempotency.delete(id);
+    }
+  }
+}
@@ -0,0 +1,517 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type { DonationService } from "./donation.service";
+import type { CulturalDonationService } from "./cultural-donation.service";
+import type { PaymentService } from "./payment.service";
+import type { Payment } from "../types/payment.types";
+import type { Principal } from "../types/auth.types";
+import type {
+  DonationSubscription,
+  DonationSubscriptionConfig,
+  NewDonationSubscription,
+  SubscriptionInterval,
+  UpcomingCharge,
+} from "../types/donation-subscription.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+export function loadDonationSubscriptionConfig(
+  env: Record<string, string | undefined> = process.env
+): DonationSubscriptionConfig {
+  const backoffHours = (env.SUBSCRIPTION_RETRY_BACKOFF_HOURS || "24,72,168")
+    .split(",")
+    .map((hours) => parseFloat(hours.trim()))
+    .filter((hours) => Number.isFinite(hours) && hours >= 0);
+  return {
+    retryBackoffMs: backoffHours.map((hours) => hours * HOUR_MS),
+    checkIntervalMs: parseInt(
+      env.SUBSCRIPTION_CHECK_INTERVAL_MS || "60000",
+      10
+    ),
+    maxChargeHistory: 100,
+  };
+}
+
+export type SubscriptionErrorCode =
+  | "subscription_not_found"
+  | "forbidden"
+  | "invalid_target"
+  | "invalid_state";
+
+export class SubscriptionError extends Error {
+  constructor(readonly code: SubscriptionErrorCode, message: string) {
+    super(message);
+    this.name = "SubscriptionError";
+  }
+}
+
+// Monthly charges stay on the day of the month the subscription started,
+// falling back to the last day in shorter months
+export function nextChargeDate(
+  from: number,
+  interval: SubscriptionInterval,
+  anchor: number
+): number {
+  if (interval === "weekly") return from + WEEK_MS;
+
+  const date = new Date(from);
+  const month = date.getUTCMonth() + 1;
+  const lastDay = new Date(
+    Date.UTC(date.getUTCFullYear(), month + 1, 0)
+  ).getUTCDate();
+  return Date.UTC(
+    date.getUTCFullYear(),
+    month,
+    Math.min(new Date(anchor).getUTCDate(), lastDay),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  );
+}
+
+// Donor-owned recurring donations. Due charges are donated through the
+// donation or cultural donation service; a failed charge is retried after
+// each of config.retryBackoffMs before the subscription is cancelled. A
+// charge whose payment settles later stays pending until it is captured or
+// fails.
+export class DonationSubscriptionService
+  extends EventEmitter
+  implements PersistableService
+{
+  readonly persistenceKey = "donation_subscriptions";
+  private readonly timers = new ServiceTimers();
+  private subscriptions: Map<string, DonationSubscription> = new Map();
+  private charging: Set<string> = new Set();
+
+  constructor(
+    private donationService: DonationService,
+    private culturalDonation: CulturalDonationService,
+    payments: PaymentService,
+    readonly config: DonationSubscriptionConfig = loadDonationSubscriptionConfig()
+  ) {
+    super();
+    payments.on("captured", (payment) => this.settleCharge(payment));
+    payments.on("failed", (payment) => this.settleCharge(payment));
+    this.timers.setInterval(
+      () =>
+        this.processDue().catch((error) =>
+          console.error("Failed to process due subscriptions:", error)
+        ),
+      this.config.checkIntervalMs
+    );
+  }
+
+  exportState(): PersistedCollections {
+    return { subscriptions: mapToRecord(this.subscriptions) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.subscriptions = recordToMap<DonationSubscription>(state.subscriptions);
+  }
+
+  // A subscription starting now is charged straight away
+  async create(
+    owner: Principal,
+    input: NewDonationSubscription
+  ): Promise<DonationSubscription> {
+    await this.validateTarget(input.target);
+    const now = Date.now();
+    const startAt = Math.max(input.startAt ?? now, now);
+    const subscription: DonationSubscription = {
+      id: `sub_${crypto.randomUUID()}`,
+      ownerId: owner.id,
+      donorId: owner.id,
+      donorName: input.donorName || owner.name,
+      districtId: input.districtId,
+      amount: input.amount,
+      interval: input.interval,
+      target: input.target,
+      paymentMethod: input.paymentMethod,
+      status: "active",
+      startAt,
+      nextChargeAt: startAt,
+      failedAttempts: 0,
+      charges: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    this.emit("subscription:created", subscription);
+
+    if (startAt <= now) await this.charge(subscription, now);
+    return subscription;
+  }
+
+  // Admins see every subscription, donors their own
+  list(principal: Principal): DonationSubscription[] {
+    return Array.from(this.subscriptions.values()).filter((subscription) =>
+      this.canManage(principal, subscription)
+    );
+  }
+
+  get(principal: Principal, subscriptionId: string): DonationSubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new SubscriptionError(
+        "subscription_not_found",
+        `Subscription ${subscriptionId} not found`
+      );
+    }
+    if (!this.canManage(principal, subscription)) {
+      throw new SubscriptionError(
+        "forbidden",
+        "Only the donor who created a subscription can manage it"
+      );
+    }
+    return subscription;
+  }
+
+  pause(principal: Principal, subscriptionId: string) {
+    const subscription = this.get(principal, subscriptionId);
+    if (
+      subscription.status !== "active" &&
+      subscription.status !== "past_due"
+    ) {
+      throw new SubscriptionError(
+        "invalid_state",
+        `A ${subscription.status} subscription cannot be paused`
+      );
+    }
+    return this.update(subscription, {
+      status: "paused",
+      pausedAt: Date.now(),
+      retryAt: undefined,
+    });
+  }
+
+  // Charges missed while paused are skipped rather than taken all at once,
+  // and an outstanding failure is forgiven
+  resume(principal: Principal, subscriptionId: string) {
+    const subscription = this.get(principal, subscriptionId);
+    if (subscription.status !== "paused") {
+      throw new SubscriptionError(
+        "invalid_state",
+        `Only paused subscriptions can be resumed (this one is ${subscription.status})`
+      );
+    }
+    return this.update(subscription, {
+      status: "active",
+      pausedAt: undefined,
+      failedAttempts: 0,
+      nextChargeAt: this.nextFutureCharge(subscription, Date.now()),
+    });
+  }
+
+  cancel(principal: Principal, subscriptionId: string) {
+    const subscription = this.get(principal, subscriptionId);
+    if (subscription.status === "cancelled") {
+      throw new SubscriptionError(
+        "invalid_state",
+        "Subscription is already cancelled"
+      );
+    }
+    return this.cancelSubscription(subscription, "donor");
+  }
+
+  // The next `count` charges of one subscription
+  previewCharges(
+    principal: Principal,
+    subscriptionId: string,
+    count = 3
+  ): UpcomingCharge[] {
+    return this.upcoming(this.get(principal, subscriptionId), {
+      count,
+      until: Infinity,
+    });
+  }
+
+  // Every charge due on the caller's subscriptions before `until`, soonest first
+  getUpcomingCharges(principal: Principal, until: number): UpcomingCharge[] {
+    return this.list(principal)
+      .flatMap((subscription) =>
+        this.upcoming(subscription, { count: Infinity, until })
+      )
+      .sort((a, b) => a.chargeAt - b.chargeAt);
+  }
+
+  // Charges every subscription whose charge or retry is due
+  async processDue(now = Date.now()) {
+    for (const subscription of this.subscriptions.values()) {
+      if (
+        subscription.status !== "active" &&
+        subscription.status !== "past_due"
+      ) {
+        continue;
+      }
+      const dueAt = subscription.retryAt ?? subscription.nextChargeAt;
+      if (dueAt <= now) await this.charge(subscription, now);
+    }
+  }
+
+  stop() {
+    this.timers.clearAll();
+  }
+
+  private async charge(subscription: DonationSubscription, now: number) {
+    if (this.charging.has(subscription.id)) return;
+    this.charging.add(subscription.id);
+    const attempt = subscription.failedAttempts + 1;
+    const scheduledFor = subscription.nextChargeAt;
+
+    try {
+      const { donationId, pending } = await this.donate(subscription);
+      this.record(subscription, {
+        scheduledFor,
+        attemptedAt: now,
+        attempt,
+        amount: subscription.amount,
+        status: pending ? "pending" : "succeeded",
+        donationId,
+      });
+      this.update(subscription, {
+        status: "active",
+        failedAttempts: 0,
+        retryAt: undefined,
+        nextChargeAt: this.nextFutureCharge(subscription, now),
+      });
+      this.emit("charge:succeeded", subscription);
+    } catch (error) {
+      this.record(subscription, {
+        scheduledFor,
+        attemptedAt: now,
+        attempt,
+        amount: subscription.amount,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.retryLater(subscription, attempt, now);
+      this.emit("charge:failed", { subscription, error });
+    } finally {
+      this.charging.delete(subscription.id);
+    }
+  }
+
+  // Past due until the retries run out, then cancelled
+  private retryLater(
+    subscription: DonationSubscription,
+    attempt: number,
+    now: number
+  ) {
+    const backoff = this.config.retryBackoffMs[attempt - 1];
+    if (backoff === undefined) {
+      this.cancelSubscription(subscription, "payment_failed");
+    } else {
+      this.update(subscription, {
+        status: "past_due",
+        failedAttempts: attempt,
+        retryAt: now + backoff,
+      });
+    }
+  }
+
+  // Completes or fails a pending charge once its delayed payment settles.
+  // A failed one is retried like a charge declined straight away, and its
+  // schedule goes back to the date it was due.
+  private settleCharge(payment: Payment) {
+    for (const subscription of this.subscriptions.values()) {
+      const charge = subscription.charges.find(
+        (c) => c.status === "pending" && c.donationId === payment.purpose.id
+      );
+      if (!charge) continue;
+
+      if (payment.status === "captured") {
+        charge.status = "succeeded";
+        this.emit("charge:succeeded", subscription);
+        return;
+      }
+      charge.status = "failed";
+      charge.error = payment.failureReason || "Payment failed to settle";
+      if (
+        subscription.status === "active" ||
+        subscription.status === "past_due"
+      ) {
+        this.update(subscription, { nextChargeAt: charge.scheduledFor });
+        this.retryLater(subscription, charge.attempt, Date.now());
+      }
+      this.emit("charge:failed", {
+        subscription,
+        error: new Error(charge.error),
+      });
+      return;
+    }
+  }
+
+  private async donate(
+    subscription: DonationSubscription
+  ): Promise<{ donationId: string; pending: boolean }> {
+    const { target } = subscription;
+    if (target.type === "project") {
+      const donation = await this.culturalDonation.processDonation({
+        projectId: target.projectId,
+        donorId: subscription.donorId,
+        amount: subscription.amount,
+        paymentMethod: subscription.paymentMethod,
+      });
+      return {
+        donationId: donation.id,
+        pending: donation.status === "pending",
+      };
+    }
+
+    const departmentId =
+      target.type === "department"
+        ? target.departmentId
+        : this.findGoal(target.goalId).departmentId;
+    const donationId = await this.donationService.processDonation(
+      {
+        donorId: subscription.donorId,
+        donorName: subscription.donorName,
+        departmentId,
+        districtId: subscription.districtId,
+        amount: subscription.amount,
+        purpose: `${
+          subscription.interval === "weekly" ? "Weekly" : "Monthly"
+        } donation`,
+        category: "general",
+        impact: {
+          category: "general",
+          description: "Recurring support for department operations",
+          beneficiaries: Math.floor(subscription.amount / 100),
+        },
+      },
+      { method: subscription.paymentMethod }
+    );
+    return {
+      donationId,
+      pending:
+        this.donationService.getDonation(donationId)?.status === "pending",
+    };
+  }
+
+  private async validateTarget(target: NewDonationSubscription["target"]) {
+    if (target.type === "goal") {
+      this.findGoal(target.goalId);
+    } else if (
+      target.type === "project" &&
+      !(await this.culturalDonation.getProject(target.projectId))
+    ) {
+      throw new SubscriptionError(
+        "invalid_target",
+        `Cultural project ${target.projectId} not found`
+      );
+    }
+  }
+
+  private findGoal(goalId: string) {
+    const goal = this.donationService
+      .getDonationGoals()
+      .find((g) => g.id === goalId);
+    if (!goal) {
+      throw new SubscriptionError(
+        "invalid_target",
+        `Donation goal ${goalId} not found`
+      );
+    }
+    return goal;
+  }
+
+  private upcoming(
+    subscription: DonationSubscription,
+    { count, until }: { count: number; until: number }
+  ): UpcomingCharge[] {
+    if (
+      subscription.status !== "active" &&
+      subscription.status !== "past_due"
+    ) {
+      return [];
+    }
+
+    const charges: UpcomingCharge[] = [];
+    const add = (chargeAt: number, retry: boolean) =>
+      charges.push({
+        subscriptionId: subscription.id,
+        chargeAt,
+        amount: subscription.amount,
+        target: subscription.target,
+        retry,
+      });
+
+    // A successful retry takes the place of the charge it retries
+    let chargeAt = subscription.nextChargeAt;
+    if (subscription.retryAt !== undefined) {
+      add(subscription.retryAt, true);
+      chargeAt = this.nextFutureCharge(subscription, subscription.retryAt);
+    }
+    while (charges.length < count && chargeAt <= until) {
+      add(chargeAt, false);
+      chargeAt = nextChargeDate(
+        chargeAt,
+        subscription.interval,
+        subscription.startAt
+      );
+    }
+    return charges.filter((charge) => charge.chargeAt <= until);
+  }
+
+  // The first charge date after `now` on the subscription's schedule
+  private nextFutureCharge(subscription: DonationSubscription, now: number) {
+    let chargeAt = subscription.nextChargeAt;
+    while (chargeAt <= now) {
+      chargeAt = nextChargeDate(
+        chargeAt,
+        subscription.interval,
+        subscription.startAt
+      );
+    }
+    return chargeAt;
+  }
+
+  private canManage(principal: Principal, subscription: DonationSubscription) {
+    return (
+      principal.roles.includes("admin") || subscription.ownerId === principal.id
+    );
+  }
+
+  private cancelSubscription(
+    subscription: DonationSubscription,
+    reason: DonationSubscription["cancelReason"]
+  ) {
+    this.update(subscription, {
+      status: "cancelled",
+      cancelReason: reason,
+      cancelledAt: Date.now(),
+      retryAt: undefined,
+    });
+    this.emit("subscription:cancelled", subscription);
+    return subscription;
+  }
+
+  private record(
+    subscription: DonationSubscription,
+    charge: DonationSubscription["charges"][number]
+  ) {
+    subscription.charges.push(charge);
+    if (subscription.charges.length > this.config.maxChargeHistory) {
+      subscription.charges.splice(
+        0,
+        subscription.charges.length - this.config.maxChargeHistory
+      );
+    }
+  }
+
+  private update(
+    subscription: DonationSubscription,
+    changes: Partial<DonationSubscription>
+  ) {
+    Object.assign(subscription, changes, { updatedAt: Date.now() });
+    return subscription;
+  }
+}
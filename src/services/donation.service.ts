@@ -5,10 +5,27 @@ import { DistrictService } from "./district.service";
 import { EventBus } from "./event-bus.service";
 import { SocialDynamicsService } from "./social-dynamics.service";
 import { DONATION_GOALS, DonationGoal } from "../types/donation-goals";
-import { AgentCollaborationService } from "./agent-collaboration.service";
+import { CityEventsService } from "./city-events.service";
+import type { CityCelebration } from "../types/city-events";
 import { AgentConversationService } from "./agent-conversation.service";
-
-interface Donation {
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
+import {
+  DonationLedgerService,
+  LedgerError,
+  ledgerAccount,
+  parseLedgerAccount,
+} from "./donation-ledger.service";
+import type { LedgerTransaction } from "../types/donation-ledger.types";
+import { PaymentError, PaymentService } from "./payment.service";
+import type { Payment } from "../types/payment.types";
+import { DonorProfileService } from "./donor-profile.service";
+
+export interface Donation {
   id: string;
   donorId: string;
   donorName: string;
@@ -38,7 +55,9 @@ interface Donation {
     };
   };
   timestamp: number;
-  status: "pending" | "completed" | "announced";
+  status: "pending" | "completed" | "announced" | "refunded" | "failed";
+  // Set when the donation was charged through the payment processor
+  paymentId?: string;
   impact: {
     category: string;
     description: string;
@@ -74,6 +93,9 @@ interface Donation {
   };
 }
 
+// What anyone may see of a donation
+export type PublicDonation = Omit<Donation, "donorId">;
+
 interface DonationAnnouncement {
   id: string;
   donationId: string;
@@ -95,7 +117,7 @@ interface DonationImpact {
   environmentalBenefit: number;
 }
 
-interface DonationChallenge {
+export interface DonationChallenge {
   id: string;
   title: string;
   description: string;
@@ -104,6 +126,10 @@ interface DonationChallenge {
   currentAmount: number;
   startDate: number;
   endDate: number;
+  // Challenges created before scheduling existed have no status
+  status?: "scheduled" | "active" | "completed" | "expired";
+  completedAt?: number;
+  expiredAt?: number;
   participants: string[];
   rewards: {
     badge: string;
@@ -114,12 +140,15 @@ interface DonationChallenge {
     amount: number;
     reward: string;
     achieved: boolean;
+    achievedAt?: number;
   }[];
   communityGoal: {
     description: string;
     progress: number;
     target: number;
   };
+  // Started in the city once the challenge reaches its target
+  celebrationEvent?: DonationGoal["celebrationEvent"];
 }
 
 interface CulturalMilestone {
@@ -142,29 +171,67 @@ interface CulturalMilestone {
   };
 }
 
-export class DonationService extends EventEmitter {
+export class DonationService
+  extends EventEmitter
+  implements PersistableService
+{
+  private readonly timers = new ServiceTimers();
+  readonly persistenceKey = "donations";
   private donations: Map<string, Donation> = new Map();
   private announcements: Map<string, DonationAnnouncement> = new Map();
   private donationImpacts: Map<string, DonationImpact> = new Map();
   private readonly eventBus: EventBus;
   private challenges: Map<string, DonationChallenge> = new Map();
   private culturalMilestones: Map<string, CulturalMilestone> = new Map();
-  private donationGoals: DonationGoal[] = [...DONATION_GOALS];
+  // Copied so one city's progress never shows up in another's goals
+  private donationGoals: DonationGoal[] = structuredClone(DONATION_GOALS);
 
   constructor(
     private vectorStore: VectorStoreService,
     private departmentService: DepartmentService,
     private districtService: DistrictService,
     private socialDynamicsService: SocialDynamicsService,
-    private collaborationService: AgentCollaborationService,
-    private agentConversationService: AgentConversationService
+    private cityEvents: CityEventsService,
+    private agentConversationService: AgentConversationService,
+    private ledger: DonationLedgerService,
+    private payments: PaymentService,
+    private donorProfiles: DonorProfileService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
+    this.payments.on("captured", (payment) => this.settleDonation(payment));
+    this.payments.on("failed", (payment) => this.settleDonation(payment));
+    this.payments.on("refunded", (payment) =>
+      this.reverseRefundedDonation(payment)
+    );
     this.initializeImpactTracking();
     this.initializeAutomaticDonations();
   }
 
+  exportState(): PersistedCollections {
+    return {
+      donations: mapToRecord(this.donations),
+      announcements: mapToRecord(this.announcements),
+      impacts: mapToRecord(this.donationImpacts),
+      challenges: mapToRecord(this.challenges),
+      milestones: mapToRecord(this.culturalMilestones),
+      goals: Object.fromEntries(this.donationGoals.map((g) => [g.id, g])),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.donations = recordToMap<Donation>(state.donations);
+    this.announcements = recordToMap<DonationAnnouncement>(state.announcements);
+    this.donationImpacts = recordToMap<DonationImpact>(state.impacts);
+    this.challenges = recordToMap<DonationChallenge>(state.challenges);
+    this.culturalMilestones = recordToMap<CulturalMilestone>(state.milestones);
+    const goals = Object.values(state.goals || {}) as DonationGoal[];
+    if (goals.length > 0) {
+      this.donationGoals = goals;
+    }
+  }
+
   private async initializeAutomaticDonations() {
     // Create initial donations
     await this.createInitialDonations();
@@ -176,10 +243,13 @@ export class DonationService extends EventEmitter {
     const timeUntilMidnight = midnight.getTime() - now.getTime();
 
     // First run at midnight
-    setTimeout(async () => {
+    this.timers.setTimeout(async () => {
       await this.createDailyDonations();
       // Then run every 24 hours
-      setInterval(() => this.createDailyDonations(), 24 * 60 * 60 * 1000);
+      this.timers.setInterval(
+        () => this.createDailyDonations(),
+        24 * 60 * 60 * 1000
+      );
     }, timeUntilMidnight);
   }
 
@@ -269,8 +339,12 @@ export class DonationService extends EventEmitter {
     console.log("🎁 Daily donations created successfully");
   }
 
+  // Donations paid with a payment method stay pending until the payment is
+  // captured, which for delayed settlements is after this returns. The city's
+  // own simulated donations are not charged.
   async processDonation(
-    donationData: Omit<Donation, "id" | "status" | "timestamp">
+    donationData: Omit<Donation, "id" | "status" | "timestamp" | "paymentId">,
+    payment?: { method?: string }
   ): Promise<string> {
     try {
       const donationId = crypto.randomUUID();
@@ -280,120 +354,393 @@ export class DonationService extends EventEmitter {
         status: "pending",
         timestamp: Date.now(),
       };
+      this.donations.set(donationId, donation);
+
+      if (payment) {
+        let charged: Payment;
+        try {
+          charged = await this.payments.charge(
+            { type: "donation", id: donationId },
+            {
+              amount: donation.amount,
+              currency: "USD",
+              donorId: donation.donorId,
+              description: donation.purpose,
+              paymentMethod: payment.method,
+            }
+          );
+        } catch (error) {
+          donation.status = "failed";
+          throw error;
+        }
+        donation.paymentId = charged.id;
+        if (charged.status === "captured") {
+          await this.completePaidDonation(donation);
+        }
+        return donationId;
+      }
+
+      await this.completeDonation(donation);
+      return donationId;
+    } catch (error) {
+      console.error("Error processing donation:", error);
+      throw error;
+    }
+  }
+
+  getDonation(donationId: string): Donation | undefined {
+    return this.donations.get(donationId);
+  }
+
+  // Completes or fails a donation whose payment settled after it was made
+  private async settleDonation(payment: Payment) {
+    if (payment.purpose.type !== "donation") return;
+    const donation = this.donations.get(payment.purpose.id);
+    if (!donation || donation.status !== "pending") return;
+
+    if (payment.status !== "captured") {
+      donation.status = "failed";
+      return;
+    }
+    await this.completePaidDonation(donation).catch((error) =>
+      console.error(`Error settling donation ${donation.id}:`, error)
+    );
+  }
+
+  // A paid donation only stands once the ledger holds it. When that write
+  // fails the donation fails and the payment is handed back; a failure in
+  // what follows is logged rather than handed back to whoever paid.
+  private async completePaidDonation(donation: Donation) {
+    try {
+      await this.recordInLedger(donation);
+    } catch (error) {
+      donation.status = "failed";
+      await this.payments
+        .refund(donation.paymentId!)
+        .catch((refundError) =>
+          console.error(
+            `Error refunding unrecorded donation ${donation.id}:`,
+            refundError
+          )
+        );
+      throw error;
+    }
+
+    try {
+      await this.followUpDonation(donation);
+    } catch (error) {
+      console.error(`Error completing paid donation ${donation.id}:`, error);
+      donation.status = "completed";
+    }
+  }
 
-      // Update department budget through event bus
-      this.eventBus.emit("departmentBudgetUpdate", {
-        departmentId: donation.departmentId,
-        type: "donation",
+  // Rejects with the given message when the work takes longer than 5s
+  private async withTimeout<T>(work: Promise<T>, message: string): Promise<T> {
+    let handle: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        work,
+        new Promise<never>((_, reject) => {
+          handle = this.timers.setTimeout(
+            () => reject(new Error(message)),
+            5000
+          );
+        }),
+      ]);
+    } finally {
+      if (handle) this.timers.clearTimeout(handle);
+    }
+  }
+
+  private async completeDonation(donation: Donation) {
+    await this.recordInLedger(donation);
+    await this.followUpDonation(donation);
+  }
+
+  // Everything that follows once the donation is in the ledger
+  private async followUpDonation(donation: Donation) {
+    const donationId = donation.id;
+
+    // Update department budget through event bus
+    this.eventBus.publish("departmentBudgetUpdate", {
+      departmentId: donation.departmentId,
+      type: "donation",
+      amount: donation.amount,
+      source: donation.donorId,
+      timestamp: donation.timestamp,
+    });
+
+    // Create impact assessment with timeout
+    const impact = await this.withTimeout(
+      this.assessDonationImpact(donation),
+      "Impact assessment timeout"
+    );
+    this.donationImpacts.set(donationId, impact);
+
+    // Update donation goals and check for celebrations
+    await this.withTimeout(
+      this.updateDonationGoals(donation),
+      "Goal update timeout"
+    );
+
+    // Mark donation as completed
+    donation.status = "completed";
+    this.donations.set(donationId, donation);
+
+    // Create announcement if needed
+    if (donation.amount >= 5000) {
+      await this.createDonationAnnouncement(donation);
+    }
+  }
+
+  // Departments record their own donations in the ledger; a donation for a
+  // department the city does not run is held by its district
+  private async recordInLedger(donation: Donation) {
+    if (await this.departmentService.getDepartment(donation.departmentId)) {
+      await this.departmentService.addDonation(donation.departmentId, {
+        id: donation.id,
         amount: donation.amount,
-        source: donation.donorId,
+        donorId: donation.donorId,
+        message: donation.purpose,
         timestamp: donation.timestamp,
       });
+      return;
+    }
+    this.ledger.recordDonation({
+      donationId: donation.id,
+      donorId: donation.donorId,
+      recipient: ledgerAccount("district", donation.districtId),
+      amount: donation.amount,
+      districtId: donation.districtId,
+      description: donation.purpose,
+    });
+  }
 
-      // Store donation
-      this.donations.set(donationId, donation);
-
-      // Create impact assessment with timeout
-      const impact = await Promise.race<DonationImpact>([
-        this.assessDonationImpact(donation),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error("Impact assessment timeout")), 5000)
-        ),
-      ]);
-      this.donationImpacts.set(donationId, impact);
-
-      // Update donation goals and check for celebrations
-      await Promise.race([
-        this.updateDonationGoals(donation),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error("Goal update timeout")), 5000)
-        ),
-      ]);
+  // Reverses a donation wherever it was paid, along with what it added to
+  // goals and challenges
+  async refundDonation(
+    donationId: string,
+    reason: string
+  ): Promise<LedgerTransaction[]> {
+    const transaction = this.ledger.getDonation(donationId);
+    if (!transaction) {
+      throw new LedgerError(
+        "donation_not_found",
+        `No ledger transaction for donation ${donationId}`
+      );
+    }
 
-      // Mark donation as completed
-      donation.status = "completed";
-      this.donations.set(donationId, donation);
+    const donation = this.donations.get(donationId);
+    const payment = donation?.paymentId
+      ? this.payments.getPayment(donation.paymentId)
+      : undefined;
+    if (payment && payment.status !== "captured") {
+      throw new PaymentError(
+        "invalid_state",
+        `Only captured payments can be refunded (payment is ${payment.status})`
+      );
+    }
+    if (!payment) {
+      return this.reverseDonation(donationId, transaction, reason);
+    }
 
-      // Create announcement if needed
-      if (donation.amount >= 5000) {
-        await this.createDonationAnnouncement(donation);
-      }
+    // The ledger is reversed before the processor hands the money back, so a
+    // refund the ledger refuses never reaches the processor. If the processor
+    // then fails, refunding again only retries the processor.
+    const reversals = this.ledger.isReversed(donationId)
+      ? []
+      : await this.reverseDonation(donationId, transaction, reason);
+    await this.payments.refund(payment.id);
+    return reversals;
+  }
 
-      return donationId;
+  // The processor already returned the money, so only the ledger, goals and
+  // challenges are reversed
+  private async reverseRefundedDonation(payment: Payment) {
+    if (payment.purpose.type !== "donation") return;
+    const transaction = this.ledger.getDonation(payment.purpose.id);
+    if (!transaction) return;
+    try {
+      await this.reverseDonation(
+        payment.purpose.id,
+        transaction,
+        "Refunded by the payment processor"
+      );
     } catch (error) {
-      console.error("Error processing donation:", error);
-      throw error;
+      console.error("Error reversing refunded donation:", error);
     }
   }
 
+  private async reverseDonation(
+    donationId: string,
+    transaction: LedgerTransaction,
+    reason: string
+  ): Promise<LedgerTransaction[]> {
+    const donation = this.donations.get(donationId);
+    const recipient = parseLedgerAccount(this.ledger.recipientOf(transaction));
+    const reversals =
+      recipient.type === "department"
+        ? await this.departmentService.refundDonation(
+            recipient.id,
+            donationId,
+            reason
+          )
+        : this.ledger.reverseDonation(donationId, reason);
+
+    for (const entry of reversals.flatMap((reversal) => reversal.entries)) {
+      if (entry.debit === 0) continue;
+      const { type, id } = parseLedgerAccount(entry.account);
+      if (type === "challenge") {
+        const challenge = this.challenges.get(id);
+        if (challenge) challenge.currentAmount -= entry.debit;
+      } else if (type === "goal") {
+        const goal = this.getDonationGoal(id);
+        if (goal) {
+          goal.currentAmount = Math.max(0, goal.currentAmount - entry.debit);
+        }
+      }
+    }
+
+    if (donation) donation.status = "refunded";
+    return reversals;
+  }
+
   private async updateDonationGoals(donation: Donation) {
-    // Find relevant goals for this department
+    // Find the goals of this department that are taking donations
     const departmentGoals = this.donationGoals.filter(
-      (goal) => goal.departmentId === donation.departmentId
+      (goal) =>
+        goal.departmentId === donation.departmentId && this.isGoalOpen(goal)
     );
 
     for (const goal of departmentGoals) {
-      // Update current amount
-      goal.currentAmount += donation.amount;
-
-      // Check if goal is reached
-      if (
-        goal.currentAmount >= goal.targetAmount &&
-        goal.currentAmount - donation.amount < goal.targetAmount
-      ) {
-        // Goal just reached! Create celebration event
-        const celebrationEvent = {
-          id: `celebration-${goal.id}-${Date.now()}`,
-          title: goal.celebrationEvent.title,
-          description: goal.celebrationEvent.description,
-          category: goal.celebrationEvent.category,
-          severity: 0.3,
-          urgency: 0.3,
-          duration: goal.celebrationEvent.duration,
-          impact: goal.celebrationEvent.impact,
-          affectedDistricts: [donation.districtId],
-          requiredAgents: [],
-          timestamp: Date.now(),
-          status: "pending" as const,
-        };
-
-        // Emit celebration event
-        this.emit("donationGoalReached", {
-          goal,
-          donation: {
-            donorName: donation.donorName,
-            amount: donation.amount,
-          },
-          celebrationEvent,
-        });
+      await this.fundGoal(goal, donation, donation.amount, new Set());
+    }
+  }
 
-        // Trigger collaboration for celebration planning
-        await this.collaborationService.initiateCollaboration(celebrationEvent);
+  // Adds up to `amount` of a donation to a goal. Capped and rolled-over goals
+  // only take what they still need; a rolled-over goal passes the rest on.
+  private async fundGoal(
+    goal: DonationGoal,
+    donation: Donation,
+    amount: number,
+    visited: Set<string>
+  ) {
+    visited.add(goal.id);
+    const policy = goal.overfunding || { type: "repeat" };
+    const accepted =
+      policy.type === "repeat"
+        ? amount
+        : Math.min(amount, goal.targetAmount - goal.currentAmount);
+    if (accepted <= 0) return;
+
+    // A donation counts towards a goal once
+    const allocation = this.ledger.allocate(
+      donation.id,
+      ledgerAccount("goal", goal.id),
+      accepted
+    );
+    if (!allocation) return;
+
+    // Update current amount
+    goal.currentAmount += accepted;
+
+    // Check if goal is reached
+    if (
+      goal.currentAmount >= goal.targetAmount &&
+      goal.currentAmount - accepted < goal.targetAmount
+    ) {
+      // Goal just reached! Create celebration event
+      const celebrationEvent = {
+        id: `celebration-${goal.id}-${Date.now()}`,
+        title: goal.celebrationEvent.title,
+        description: goal.celebrationEvent.description,
+        category: goal.celebrationEvent.category,
+        severity: 0.3,
+        urgency: 0.3,
+        duration: goal.celebrationEvent.duration,
+        impact: goal.celebrationEvent.impact,
+        affectedDistricts: [donation.districtId],
+        requiredAgents: [],
+        timestamp: Date.now(),
+        status: "pending" as const,
+      };
+
+      // Emit celebration event
+      this.emit("donationGoalReached", {
+        goal,
+        donation: {
+          donorName: this.publicDonorName(donation),
+          amount: donation.amount,
+        },
+        celebrationEvent,
+      });
+
+      // Celebrate in the donor's district. The agents plan it in the
+      // background so the donation does not wait on them.
+      this.startCelebration({
+        ...goal.celebrationEvent,
+        districtId: donation.districtId,
+        source: `goal:${goal.id}`,
+      });
 
+      goal.reachedAt = Date.now();
+      if (policy.type === "repeat") {
         // Reset the goal for the next milestone
         goal.currentAmount = 0;
       } else {
-        // Emit progress update
-        this.emit("donationGoalProgress", {
-          goal: {
-            id: goal.id,
-            title: goal.title,
-            currentAmount: goal.currentAmount,
-            targetAmount: goal.targetAmount,
-          },
-          donation: {
-            donorName: donation.donorName,
-            amount: donation.amount,
-          },
-        });
+        goal.status = "reached";
+      }
+    } else {
+      // Emit progress update
+      this.emit("donationGoalProgress", {
+        goal: {
+          id: goal.id,
+          title: goal.title,
+          currentAmount: goal.currentAmount,
+          targetAmount: goal.targetAmount,
+        },
+        donation: {
+          donorName: this.publicDonorName(donation),
+          amount: donation.amount,
+        },
+      });
+    }
+
+    if (policy.type === "rollover" && amount > accepted) {
+      const next = this.getDonationGoal(policy.goalId);
+      if (next && !visited.has(next.id) && this.isGoalOpen(next)) {
+        await this.fundGoal(next, donation, amount - accepted, visited);
       }
     }
   }
 
+  // Open between its start and end dates until it expires or, unless it
+  // repeats, reaches its target
+  isGoalOpen(goal: DonationGoal, now = Date.now()): boolean {
+    return (
+      goal.status !== "reached" &&
+      goal.status !== "expired" &&
+      (goal.startDate ?? 0) <= now &&
+      now < (goal.endDate ?? Infinity)
+    );
+  }
+
   getDonationGoals(): DonationGoal[] {
     return this.donationGoals;
   }
 
+  getDonationGoal(goalId: string): DonationGoal | undefined {
+    return this.donationGoals.find((g) => g.id === goalId);
+  }
+
+  addDonationGoal(goal: DonationGoal): void {
+    this.donationGoals.push(goal);
+  }
+
+  removeDonationGoal(goalId: string): void {
+    this.donationGoals = this.donationGoals.filter((g) => g.id !== goalId);
+  }
+
   getDonationGoalProgress(
     goalId: string
   ): { current: number; target: number } | null {
@@ -442,6 +789,29 @@ export class DonationService extends EventEmitter {
       .sort((a, b) => b.timestamp - a.timestamp);
   }
 
+  // Oldest first
+  getDonationsByDonor(donorId: string): Donation[] {
+    return Array.from(this.donations.values())
+      .filter((d) => d.donorId === donorId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  getChallengesJoinedBy(donorId: string): DonationChallenge[] {
+    return Array.from(this.challenges.values()).filter((c) =>
+      c.participants.includes(donorId)
+    );
+  }
+
+  // Honours the donor's display name and anonymity preferences
+  private publicDonorName(donation: Donation): string {
+    return this.donorProfiles.publicName(donation.donorId, donation.donorName);
+  }
+
+  toPublicDonation(donation: Donation): PublicDonation {
+    const { donorId: _, ...visible } = donation;
+    return { ...visible, donorName: this.publicDonorName(donation) };
+  }
+
   async getDistrictAnnouncements(
     districtId: string
   ): Promise<DonationAnnouncement[]> {
@@ -464,7 +834,7 @@ export class DonationService extends EventEmitter {
       const donation = this.donations.get(announcement.donationId);
       if (donation) {
         // Broadcast the reaction update
-        this.eventBus.emit("donationReaction", {
+        this.eventBus.publish("donationReaction", {
           districtId: donation.districtId,
           announcementId: announcement.id,
           reaction,
@@ -473,7 +843,7 @@ export class DonationService extends EventEmitter {
         });
 
         // Update social dynamics
-        this.eventBus.emit("communityMoodUpdate", {
+        this.eventBus.publish("communityMoodUpdate", {
           districtId: donation.districtId,
           event: "donation_reaction",
           sentiment:
@@ -573,9 +943,9 @@ export class DonationService extends EventEmitter {
     const department = await this.departmentService.getDepartment(
       donation.departmentId
     );
-    let message = `🎉 Exciting news! ${
-      donation.donorName
-    } has made a generous donation of $${donation.amount.toLocaleString()} `;
+    let message = `🎉 Exciting news! ${this.publicDonorName(
+      donation
+    )} has made a generous donation of $${donation.amount.toLocaleString()} `;
 
     // Add category-specific messages
     switch (donation.category) {
@@ -674,7 +1044,7 @@ export class DonationService extends EventEmitter {
     announcement: DonationAnnouncement
   ): Promise<void> {
     // Emit event for district chat
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId,
       type: "donation",
       content: `${announcement.message}\n\n${announcement.impactDescription}`,
@@ -682,7 +1052,7 @@ export class DonationService extends EventEmitter {
     });
 
     // Update social dynamics through event bus
-    this.eventBus.emit("communityMoodUpdate", {
+    this.eventBus.publish("communityMoodUpdate", {
       districtId,
       event: "donation",
       sentiment: 0.8,
@@ -694,7 +1064,7 @@ export class DonationService extends EventEmitter {
   }
 
   private initializeImpactTracking(): void {
-    setInterval(() => this.updateDonationImpacts(), 60 * 60 * 1000); // Every hour
+    this.timers.setInterval(() => this.updateDonationImpacts(), 60 * 60 * 1000); // Every hour
   }
 
   private async updateDonationImpacts(): Promise<void> {
@@ -723,7 +1093,9 @@ export class DonationService extends EventEmitter {
     impact: DonationImpact
   ): Promise<void> {
     const completionMessage =
-      `🎯 Impact Update: The donation from ${donation.donorName} has been fully utilized! Here's what we achieved:\n\n` +
+      `🎯 Impact Update: The donation from ${this.publicDonorName(
+        donation
+      )} has been fully utilized! Here's what we achieved:\n\n` +
       `• Infrastructure: ${Math.round(
         impact.infrastructureImprovement * 100
       )}% improvement\n` +
@@ -741,7 +1113,7 @@ export class DonationService extends EventEmitter {
       )}% benefit\n\n` +
       `Thank you for making our district better! 🌟`;
 
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: donation.districtId,
       type: "donation_completion",
       content: completionMessage,
@@ -836,7 +1208,7 @@ export class DonationService extends EventEmitter {
     this.challenges.set(id, newChallenge);
 
     // Announce challenge
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: "all",
       type: "challenge_created",
       content: this.generateChallengeAnnouncement(newChallenge),
@@ -853,26 +1225,68 @@ export class DonationService extends EventEmitter {
     const donation = this.donations.get(donationId);
     const challenge = this.challenges.get(challengeId);
 
-    if (!donation || !challenge) return;
+    if (!donation || !challenge || !this.isChallengeOpen(challenge)) return;
+
+    // A donation counts towards a challenge once
+    const allocation = this.ledger.allocate(
+      donation.id,
+      ledgerAccount("challenge", challenge.id),
+      donation.amount
+    );
+    if (!allocation) return;
 
     // Update challenge
+    donation.challengeId = challenge.id;
     challenge.currentAmount += donation.amount;
-    challenge.participants.push(donation.donorId);
+    if (!challenge.participants.includes(donation.donorId)) {
+      challenge.participants.push(donation.donorId);
+    }
+
+    await this.evaluateChallenge(challenge);
+    this.challenges.set(challengeId, challenge);
+  }
 
-    // Check milestones
-    challenge.milestones.forEach((milestone) => {
+  // Unlocks the milestones the challenge has raised enough for and completes
+  // it the first time it reaches its target. Run again after the challenge's
+  // milestones or target change.
+  async evaluateChallenge(challenge: DonationChallenge): Promise<void> {
+    for (const milestone of challenge.milestones) {
       if (!milestone.achieved && challenge.currentAmount >= milestone.amount) {
         milestone.achieved = true;
+        milestone.achievedAt = Date.now();
         this.announceMilestoneAchievement(challenge, milestone);
       }
-    });
+    }
 
-    // Check if challenge completed
-    if (challenge.currentAmount >= challenge.targetAmount) {
+    if (
+      challenge.status !== "completed" &&
+      challenge.currentAmount >= challenge.targetAmount
+    ) {
+      challenge.status = "completed";
+      challenge.completedAt = Date.now();
       await this.completeDonationChallenge(challenge);
     }
+  }
 
-    this.challenges.set(challengeId, challenge);
+  // Takes donations between its start and end dates unless it has expired
+  isChallengeOpen(challenge: DonationChallenge, now = Date.now()): boolean {
+    return (
+      challenge.status !== "expired" &&
+      challenge.startDate <= now &&
+      now < challenge.endDate
+    );
+  }
+
+  getDonationChallenge(challengeId: string): DonationChallenge | undefined {
+    return this.challenges.get(challengeId);
+  }
+
+  getDonationChallenges(): DonationChallenge[] {
+    return Array.from(this.challenges.values());
+  }
+
+  removeDonationChallenge(challengeId: string): void {
+    this.challenges.delete(challengeId);
   }
 
   async createCulturalMilestone(
@@ -908,7 +1322,7 @@ export class DonationService extends EventEmitter {
     this.donations.set(donationId, donation);
 
     // Announce new story
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: donation.districtId,
       type: "community_story",
       content: `📖 New Community Story Added!\n\n"${story}"\n\nShare your story about this donation's impact!`,
@@ -919,7 +1333,7 @@ export class DonationService extends EventEmitter {
   async getActiveChallenges(): Promise<DonationChallenge[]> {
     const now = Date.now();
     return Array.from(this.challenges.values())
-      .filter((c) => c.startDate <= now && c.endDate >= now)
+      .filter((c) => this.isChallengeOpen(c, now))
       .sort(
         (a, b) =>
           b.currentAmount / b.targetAmount - a.currentAmount / a.targetAmount
@@ -941,11 +1355,12 @@ export class DonationService extends EventEmitter {
 
     const topDonors = donations
       .reduce((acc, d) => {
-        const existing = acc.find((x) => x.donorName === d.donorName);
+        const donorName = this.publicDonorName(d);
+        const existing = acc.find((x) => x.donorName === donorName);
         if (existing) {
           existing.amount += d.amount;
         } else {
-          acc.push({ donorName: d.donorName, amount: d.amount });
+          acc.push({ donorName, amount: d.amount });
         }
         return acc;
       }, [] as Array<{ donorName: string; amount: number }>)
@@ -956,7 +1371,8 @@ export class DonationService extends EventEmitter {
       .filter((m) => m.achieved)
       .map((m) => ({
         description: m.reward,
-        achievedDate: Date.now(), // In real implementation, store achievement dates
+        // Milestones achieved before dates were recorded have none
+        achievedDate: m.achievedAt ?? Date.now(),
       }));
 
     return {
@@ -993,12 +1409,30 @@ export class DonationService extends EventEmitter {
       )}\n\n` +
       `Thank you to all participants! Your badges and rewards are on the way! 🏆`;
 
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: "all",
       type: "challenge_completed",
       content: completionMessage,
       timestamp: Date.now(),
     });
+
+    if (challenge.celebrationEvent) {
+      this.startCelebration({
+        ...challenge.celebrationEvent,
+        source: `challenge:${challenge.id}`,
+      });
+    }
+  }
+
+  private startCelebration(celebration: CityCelebration) {
+    this.cityEvents
+      .startCelebration(celebration)
+      .catch((error) =>
+        console.error(
+          `Failed to start celebration ${celebration.title}:`,
+          error
+        )
+      );
   }
 
   private generateCommunityImpactSummary(challenge: DonationChallenge): string {
@@ -1043,7 +1477,7 @@ export class DonationService extends EventEmitter {
         )?.amount.toLocaleString() || "Final Goal"
       }`;
 
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: "all",
       type: "milestone_achieved",
       content: message,
@@ -1085,7 +1519,7 @@ export class DonationService extends EventEmitter {
         : "") +
       `\nJoin us in celebrating this achievement! 🌟`;
 
-    this.eventBus.emit("districtAnnouncement", {
+    this.eventBus.publish("districtAnnouncement", {
       districtId: "all",
       type: "cultural_milestone",
       content: message,
@@ -1208,4 +1642,8 @@ export class DonationService extends EventEmitter {
 
     console.log("🎉 Initial donations created successfully");
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -0,0 +1,57 @@
+import type { DonorPreferences } from "../types/donor.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export const ANONYMOUS_DONOR_NAME = "Anonymous donor";
+
+// Donors' display name and anonymity choices. Donors without stored
+// preferences appear under the name they gave with each donation.
+export class DonorProfileService implements PersistableService {
+  readonly persistenceKey = "donor_profiles";
+  private preferences: Map<string, DonorPreferences> = new Map();
+
+  exportState(): PersistedCollections {
+    return { preferences: mapToRecord(this.preferences) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.preferences = recordToMap<DonorPreferences>(state.preferences);
+  }
+
+  getPreferences(donorId: string): DonorPreferences {
+    return (
+      this.preferences.get(donorId) || {
+        donorId,
+        anonymous: false,
+        createdAt: 0,
+        updatedAt: 0,
+      }
+    );
+  }
+
+  updatePreferences(
+    donorId: string,
+    changes: { displayName?: string; anonymous?: boolean }
+  ): DonorPreferences {
+    const now = Date.now();
+    const existing = this.preferences.get(donorId);
+    const preferences: DonorPreferences = {
+      ...this.getPreferences(donorId),
+      ...changes,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    this.preferences.set(donorId, preferences);
+    return preferences;
+  }
+
+  // The name to show publicly for a donation given under `givenName`
+  publicName(donorId: string, givenName: string): string {
+    const preferences = this.preferences.get(donorId);
+    if (preferences?.anonymous) return ANONYMOUS_DONOR_NAME;
+    return preferences?.displayName || givenName;
+  }
+}
@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import type {
+  Donation,
+  DonationChallenge,
+  DonationService,
+} from "./donation.service";
+import type { DonationLedgerService } from "./donation-ledger.service";
+import type { DonorProfileService } from "./donor-profile.service";
+import type {
+  DonationReceipt,
+  DonorProfile,
+  GivingStatement,
+  StatementBreakdown,
+} from "../types/donor.types";
+
+export type DonorRecordErrorCode = "donation_not_found" | "invalid_year";
+
+export class DonorRecordError extends Error {
+  constructor(readonly code: DonorRecordErrorCode, message: string) {
+    super(message);
+    this.name = "DonorRecordError";
+  }
+}
+
+// Donations that reached the city; pending and failed ones never did
+const GIVEN_STATUSES: Donation["status"][] = [
+  "completed",
+  "announced",
+  "refunded",
+];
+
+const isGiven = (donation: Donation) =>
+  GIVEN_STATUSES.includes(donation.status);
+
+const counts = (donation: Donation) =>
+  isGiven(donation) && donation.status !== "refunded";
+
+function breakdown(
+  donations: Donation[],
+  keyOf: (donation: Donation) => string
+): StatementBreakdown[] {
+  const totals = new Map<string, StatementBreakdown>();
+  for (const donation of donations) {
+    const key = keyOf(donation);
+    const entry = totals.get(key) || { key, amount: 0, count: 0 };
+    entry.amount += donation.amount;
+    entry.count += 1;
+    totals.set(key, entry);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+}
+
+// Everything a donor keeps for their records: their profile with badges and
+// challenges, a receipt per donation and a yearly giving statement
+export class DonorRecordsService {
+  constructor(
+    private donationService: DonationService,
+    private donorProfiles: DonorProfileService,
+    private ledger: DonationLedgerService
+  ) {}
+
+  getProfile(donorId: string): DonorProfile {
+    const donations = this.donationService
+      .getDonationsByDonor(donorId)
+      .filter(isGiven);
+    const preferences = this.donorProfiles.getPreferences(donorId);
+    const given = donations.filter(counts);
+
+    return {
+      donorId,
+      displayName:
+        preferences.displayName ||
+        donations[donations.length - 1]?.donorName ||
+        donorId,
+      anonymous: preferences.anonymous,
+      donationCount: given.length,
+      totalDonated: given.reduce((sum, d) => sum + d.amount, 0),
+      firstDonationAt: donations[0]?.timestamp,
+      lastDonationAt: donations[donations.length - 1]?.timestamp,
+      badges: donations.flatMap((donation) =>
+        donation.specialRecognition
+          ? [{ ...donation.specialRecognition, donationId: donation.id }]
+          : []
+      ),
+      challenges: this.donationService
+        .getChallengesJoinedBy(donorId)
+        .map((challenge) => this.participation(challenge, given)),
+    };
+  }
+
+  // Newest first
+  getReceipts(donorId: string): DonationReceipt[] {
+    return this.donationService
+      .getDonationsByDonor(donorId)
+      .filter(isGiven)
+      .reverse()
+      .map((donation) => this.receiptFor(donation));
+  }
+
+  getReceipt(donorId: string, donationId: string): DonationReceipt {
+    const donation = this.donationService.getDonation(donationId);
+    if (!donation || donation.donorId !== donorId || !isGiven(donation)) {
+      throw new DonorRecordError(
+        "donation_not_found",
+        `Donor ${donorId} has no donation ${donationId}`
+      );
+    }
+    return this.receiptFor(donation);
+  }
+
+  getYearlyStatement(donorId: string, year: number): GivingStatement {
+    if (!Number.isInteger(year) || year < 2000 || year > 9999) {
+      throw new DonorRecordError("invalid_year", `Invalid year ${year}`);
+    }
+    const from = Date.UTC(year, 0, 1);
+    const to = Date.UTC(year + 1, 0, 1);
+    const donations = this.donationService
+      .getDonationsByDonor(donorId)
+      .filter((d) => isGiven(d) && d.timestamp >= from && d.timestamp < to);
+    const given = donations.filter(counts);
+
+    return {
+      donorId,
+      donorName: this.getProfile(donorId).displayName,
+      year,
+      total: given.reduce((sum, d) => sum + d.amount, 0),
+      donationCount: given.length,
+      refunded: donations
+        .filter((d) => d.status === "refunded")
+        .reduce((sum, d) => sum + d.amount, 0),
+      byCategory: breakdown(given, (d) => d.category),
+      byDistrict: breakdown(given, (d) => d.districtId),
+      byDepartment: breakdown(given, (d) => d.departmentId),
+      receipts: donations.map((donation) => this.receiptFor(donation)),
+      generatedAt: Date.now(),
+    };
+  }
+
+  private receiptFor(donation: Donation): DonationReceipt {
+    const year = new Date(donation.timestamp).getUTCFullYear();
+    const suffix = crypto
+      .createHash("sha256")
+      .update(donation.id)
+      .digest("hex")
+      .slice(0, 8)
+      .toUpperCase();
+    return {
+      receiptNumber: `NVR-${year}-${suffix}`,
+      donationId: donation.id,
+      donorId: donation.donorId,
+      donorName: donation.donorName,
+      amount: donation.amount,
+      currency: "USD",
+      status: donation.status,
+      category: donation.category,
+      purpose: donation.purpose,
+      districtId: donation.districtId,
+      departmentId: donation.departmentId,
+      donatedAt: donation.timestamp,
+      paymentId: donation.paymentId,
+      ledgerHash: this.ledger.getDonation(donation.id)?.hash,
+      issuedAt: Date.now(),
+    };
+  }
+
+  private participation(challenge: DonationChallenge, given: Donation[]) {
+    return {
+      challengeId: challenge.id,
+      title: challenge.title,
+      donated: given
+        .filter((d) => d.challengeId === challenge.id)
+        .reduce((sum, d) => sum + d.amount, 0),
+      targetAmount: challenge.targetAmount,
+      currentAmount: challenge.currentAmount,
+      endDate: challenge.endDate,
+      completed: challenge.currentAmount >= challenge.targetAmount,
+    };
+  }
+}
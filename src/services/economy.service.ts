@@ -1,6 +1,8 @@
 import { EventEmitter } from "events";
 import { VectorStoreService } from "./vector-store.service";
 import { DistrictService } from "./district.service";
+import { SimulationClock } from "./simulation-clock.service";
+import type { SeededRandom } from "../utils/seeded-random";
 
 interface MarketMetrics {
   businessActivity: number;
@@ -73,6 +75,7 @@ interface Investment {
 }
 
 export class EconomyService extends EventEmitter {
+  private readonly random: SeededRandom;
   private marketMetrics: Map<string, MarketMetrics> = new Map();
   private economicIndicators: EconomicIndicators = {
     gdp: 0,
@@ -91,16 +94,30 @@ export class EconomyService extends EventEmitter {
 
   constructor(
     private vectorStore: VectorStoreService,
-    private districtService: DistrictService
+    private districtService: DistrictService,
+    private readonly clock: SimulationClock
   ) {
     super();
+    this.random = clock.randomFor("economy");
     this.initializeMonitoring();
   }
 
   private initializeMonitoring() {
-    setInterval(() => this.updateAIEconomicMetrics(), 1000 * 60 * 5); // Every 5 minutes
-    setInterval(() => this.analyzeDataMarket(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.calculateInnovationMetrics(), 1000 * 60 * 30); // Every 30 minutes
+    this.clock.every(
+      1000 * 60 * 5,
+      () => this.updateAIEconomicMetrics(),
+      "economy.updateAIEconomicMetrics"
+    ); // Every 5 minutes
+    this.clock.every(
+      1000 * 60 * 15,
+      () => this.analyzeDataMarket(),
+      "economy.analyzeDataMarket"
+    ); // Every 15 minutes
+    this.clock.every(
+      1000 * 60 * 30,
+      () => this.calculateInnovationMetrics(),
+      "economy.calculateInnovationMetrics"
+    ); // Every 30 minutes
   }
 
   private async updateAIEconomicMetrics() {
@@ -375,7 +392,7 @@ export class EconomyService extends EventEmitter {
           districtId: investment.districtId,
           return_rate,
           cultural_impact,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
         },
       });
 
@@ -21,8 +21,10 @@ import {
   SystemMetrics,
   WaterQualityScore,
 } from "../types/environment.types";
+import { ServiceTimers } from "../utils/service-timers";
 
 export class EnvironmentService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private activeAlerts = new Set<EnvironmentalAlert>();
   private districtMetrics = new Map<string, EnvironmentalMetrics>();
   private sustainabilityProjects = new Map<string, SustainabilityProject>();
@@ -90,11 +92,20 @@ export class EnvironmentService extends EventEmitter {
   }
 
   private initializeEnvironmentalMonitoring() {
-    setInterval(() => this.monitorEnvironmentalMetrics(), 1000 * 60 * 5); // Every 5 minutes
-    setInterval(() => this.processEnvironmentalAlerts(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.updateSustainabilityProjects(), 1000 * 60 * 30); // Every 30 minutes
-    setInterval(() => this.trackResourceUsage(), 1000 * 60 * 10); // Every 10 minutes
-    setInterval(() => this.monitorEmissions(), 1000 * 60 * 20); // Every 20 minutes
+    this.timers.setInterval(
+      () => this.monitorEnvironmentalMetrics(),
+      1000 * 60 * 5
+    ); // Every 5 minutes
+    this.timers.setInterval(
+      () => this.processEnvironmentalAlerts(),
+      1000 * 60 * 15
+    ); // Every 15 minutes
+    this.timers.setInterval(
+      () => this.updateSustainabilityProjects(),
+      1000 * 60 * 30
+    ); // Every 30 minutes
+    this.timers.setInterval(() => this.trackResourceUsage(), 1000 * 60 * 10); // Every 10 minutes
+    this.timers.setInterval(() => this.monitorEmissions(), 1000 * 60 * 20); // Every 20 minutes
   }
 
   private async monitorEnvironmentalMetrics() {
@@ -978,4 +989,8 @@ export class EnvironmentService extends EventEmitter {
     // Start monitoring sensors
     this.monitorSensors();
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
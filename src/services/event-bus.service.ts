@@ -1,7 +1,18 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { EventEmitter } from "events";
+import type { ZodIssue } from "zod";
 import { Message, ConversationState } from "../types/conversation.types";
+import {
+  eventCatalogue,
+  type CityEventName,
+  type CityEventPayload,
+} from "../types/event-catalogue";
+import { ServiceTimers } from "../utils/service-timers";
 
-interface EventMetadata {
+// Environmental alerts at or above this severity are published as critical
+const CRITICAL_ALERT_SEVERITY = 0.8;
+
+export interface EventMetadata {
   priority: "low" | "medium" | "high" | "critical";
   timestamp: number;
   source: string;
@@ -16,9 +27,12 @@ interface EventMetadata {
     | "cultural"
     | "environmental";
   ttl?: number; // Time to live in milliseconds
+  // Id of the event whose listener published this one
+  triggeredBy?: string;
 }
 
-interface EventFilter {
+export interface EventFilter {
+  type?: string[];
   priority?: EventMetadata["priority"][];
   category?: EventMetadata["category"][];
   source?: string[];
@@ -26,38 +40,94 @@ interface EventFilter {
   acknowledged?: boolean;
 }
 
-interface PersistentEvent {
+export interface PersistentEvent {
   id: string;
   type: string;
   data: any;
   metadata: EventMetadata;
 }
 
+export class EventValidationError extends Error {
+  constructor(readonly eventType: string, readonly issues: ZodIssue[]) {
+    super(
+      `Invalid "${eventType}" payload: ${issues
+        .map((issue) => `${issue.path.join(".") || "(root)"} ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "EventValidationError";
+  }
+}
+
+// Append-only sink that receives every persistent event
+export interface EventLogWriter {
+  append(event: PersistentEvent): void;
+}
+
+export function matchesEventFilter(
+  event: PersistentEvent,
+  filter: EventFilter
+): boolean {
+  return !(
+    (filter.type && !filter.type.includes(event.type)) ||
+    (filter.priority && !filter.priority.includes(event.metadata.priority)) ||
+    (filter.category && !filter.category.includes(event.metadata.category)) ||
+    (filter.source && !filter.source.includes(event.metadata.source)) ||
+    (filter.timeRange &&
+      (event.metadata.timestamp < filter.timeRange.start ||
+        event.metadata.timestamp > filter.timeRange.end)) ||
+    (filter.acknowledged !== undefined &&
+      filter.acknowledged !== event.metadata.acknowledged)
+  );
+}
+
+// Each city container builds its own bus, so cities never hear each other's
+// events. stop() drops the listeners and the log along with the cleanup timer.
 export class EventBus extends EventEmitter {
-  private static instance: EventBus;
+  private readonly timers = new ServiceTimers();
   private eventHistory: Map<string, PersistentEvent> = new Map();
   private eventFilters: Map<string, EventFilter> = new Map();
   private readonly MAX_HISTORY_SIZE = 1000;
   private readonly CLEANUP_INTERVAL = 1000 * 60 * 5; // 5 minutes
+  private eventLog?: EventLogWriter;
+  private tracers = new Set<(event: PersistentEvent) => void>();
+  // The event whose listeners are running, followed through their async work
+  private readonly causes = new AsyncLocalStorage<string>();
 
-  private constructor() {
+  constructor() {
     super();
     this.initializeEventCleanup();
+    // Without a listener EventEmitter throws on "error" and takes the process down
+    this.on("error", ({ error }) => console.error("EventBus error:", error));
   }
 
-  static getInstance(): EventBus {
-    if (!EventBus.instance) {
-      EventBus.instance = new EventBus();
-    }
-    return EventBus.instance;
+  attachLog(eventLog: EventLogWriter) {
+    this.eventLog = eventLog;
   }
 
   private initializeEventCleanup() {
-    setInterval(() => {
+    this.timers.setInterval(() => {
       this.cleanupExpiredEvents();
     }, this.CLEANUP_INTERVAL);
   }
 
+  // Calls the tracer with every event dispatched, persistent or not
+  trace(tracer: (event: PersistentEvent) => void): () => void {
+    this.tracers.add(tracer);
+    return () => {
+      this.tracers.delete(tracer);
+    };
+  }
+
+  stop() {
+    this.timers.clearAll();
+    this.eventLog = undefined;
+    this.tracers.clear();
+    // The "error" listener stays so a late publish cannot throw
+    for (const name of this.eventNames()) {
+      if (name !== "error") this.removeAllListeners(name);
+    }
+  }
+
   private cleanupExpiredEvents() {
     const now = Date.now();
     for (const [id, event] of this.eventHistory) {
@@ -99,6 +169,7 @@ export class EventBus extends EventEmitter {
       persistent,
       category,
       ttl,
+      triggeredBy: this.causes.getStore(),
     };
   }
 
@@ -110,35 +181,57 @@ export class EventBus extends EventEmitter {
     // Store if persistent
     if (metadata.persistent) {
       this.eventHistory.set(eventId, event);
+      this.eventLog?.append(event);
     }
 
+    this.dispatch(event);
+    return eventId;
+  }
+
+  // Re-emits a recorded event with its original id and metadata and waits for
+  // its listeners, so what they publish is traced back to it. The recorded
+  // cause is dropped; it is worked out again from this run.
+  async replayEvent(event: PersistentEvent): Promise<void> {
+    const { triggeredBy, ...metadata } = event.metadata;
+    const replayed: PersistentEvent = {
+      ...event,
+      metadata: { ...metadata, acknowledgments: [] },
+    };
+    this.eventHistory.set(replayed.id, replayed);
+    this.tracers.forEach((tracer) => tracer(replayed));
+    if (!this.shouldEmitEvent(replayed)) return;
+
+    const data = { ...replayed.data, _eventId: replayed.id };
+    await this.causes.run(replayed.id, () =>
+      Promise.allSettled(
+        this.rawListeners(replayed.type).map(async (listener) =>
+          listener.call(this, data)
+        )
+      )
+    );
+    this.acknowledgeLowPriority(replayed);
+  }
+
+  private dispatch(event: PersistentEvent) {
+    this.tracers.forEach((tracer) => tracer(event));
     // Apply filters before emitting
     if (this.shouldEmitEvent(event)) {
-      this.emit(type, { ...data, _eventId: eventId });
-
-      // Auto-acknowledge low priority events
-      if (metadata.priority === "low") {
-        this.acknowledgeEvent(eventId, "system");
-      }
+      this.causes.run(event.id, () =>
+        this.emit(event.type, { ...event.data, _eventId: event.id })
+      );
+      this.acknowledgeLowPriority(event);
     }
+  }
 
-    return eventId;
+  private acknowledgeLowPriority(event: PersistentEvent) {
+    if (event.metadata.priority === "low") {
+      this.acknowledgeEvent(event.id, "system");
+    }
   }
 
   private shouldEmitEvent(event: PersistentEvent): boolean {
     for (const filter of this.eventFilters.values()) {
-      if (
-        (filter.priority &&
-          !filter.priority.includes(event.metadata.priority)) ||
-        (filter.category &&
-          !filter.category.includes(event.metadata.category)) ||
-        (filter.source && !filter.source.includes(event.metadata.source)) ||
-        (filter.timeRange &&
-          (event.metadata.timestamp < filter.timeRange.start ||
-            event.metadata.timestamp > filter.timeRange.end)) ||
-        (filter.acknowledged !== undefined &&
-          filter.acknowledged !== event.metadata.acknowledged)
-      ) {
+      if (!matchesEventFilter(event, filter)) {
         return false;
       }
     }
@@ -175,106 +268,111 @@ export class EventBus extends EventEmitter {
     let events = Array.from(this.eventHistory.values());
 
     if (filter) {
-      events = events.filter((event) => {
-        return this.shouldEmitEvent(event);
-      });
+      events = events.filter((event) => matchesEventFilter(event, filter));
     }
 
-    return events;
+    return events.sort((a, b) => a.metadata.timestamp - b.metadata.timestamp);
   }
 
-  // Enhanced event emitters for different scenarios
-  emitMessageCreated(conversationId: string, message: Message) {
+  // Validates the payload against the event catalogue before emitting.
+  // Invalid payloads are not emitted; they surface as an "error" event instead.
+  publish<K extends CityEventName>(
+    type: K,
+    data: CityEventPayload<K>,
+    overrides: Partial<Pick<EventMetadata, "priority" | "source">> = {}
+  ): string | undefined {
+    const definition = eventCatalogue[type];
+    const result = definition.schema.safeParse(data);
+    if (!result.success) {
+      const error = new EventValidationError(type, result.error.issues);
+      if (type === "error") {
+        console.error(error);
+      } else {
+        this.emitError(error);
+      }
+      return undefined;
+    }
+
     return this.emitWithMetadata(
-      "messageCreated",
-      { conversationId, message },
+      type,
+      data,
       this.createEventMetadata(
-        "low",
-        "conversation",
-        "chat",
-        true,
-        1000 * 60 * 60
-      ) // 1 hour TTL
+        overrides.priority || definition.priority,
+        definition.category,
+        overrides.source || definition.source,
+        definition.persistent,
+        "ttl" in definition ? definition.ttl : undefined
+      )
     );
   }
 
+  subscribe<K extends CityEventName>(
+    type: K,
+    listener: (data: CityEventPayload<K> & { _eventId: string }) => void
+  ): () => void {
+    this.on(type, listener);
+    return () => {
+      this.off(type, listener);
+    };
+  }
+
+  // Enhanced event emitters for different scenarios
+  emitMessageCreated(conversationId: string, message: Message) {
+    return this.publish("messageCreated", { conversationId, message });
+  }
+
   emitStateUpdated(conversationId: string, state: ConversationState) {
-    return this.emitWithMetadata(
-      "stateUpdated",
-      { conversationId, state },
-      this.createEventMetadata("low", "conversation", "system", true)
-    );
+    return this.publish("stateUpdated", { conversationId, state });
   }
 
   emitAgentTyping(conversationId: string, agentId: string) {
-    return this.emitWithMetadata(
+    return this.publish(
       "agentTyping",
       { conversationId, agentId },
-      this.createEventMetadata("low", "conversation", agentId, false, 1000 * 10) // 10 second TTL
+      { source: agentId }
     );
   }
 
   emitError(error: Error) {
-    return this.emitWithMetadata(
-      "error",
-      { error },
-      this.createEventMetadata("high", "infrastructure", "system", true)
-    );
+    return this.publish("error", { error });
   }
 
   // New AI city-specific event emitters
-  emitEmergencyAlert(emergencyData: any) {
-    return this.emitWithMetadata(
-      "emergencyAlert",
-      emergencyData,
-      this.createEventMetadata(
-        "critical",
-        "emergency",
-        "emergency-system",
-        true
-      )
-    );
+  emitEmergencyAlert(emergencyData: CityEventPayload<"emergencyAlert">) {
+    return this.publish("emergencyAlert", emergencyData);
   }
 
-  emitInfrastructureUpdate(updateData: any) {
-    return this.emitWithMetadata(
-      "infrastructureUpdate",
-      updateData,
-      this.createEventMetadata(
-        "medium",
-        "infrastructure",
-        "infrastructure-system",
-        true
-      )
-    );
+  emitInfrastructureUpdate(
+    updateData: CityEventPayload<"infrastructureUpdate">
+  ) {
+    return this.publish("infrastructureUpdate", updateData);
   }
 
-  emitAIAgentAction(actionData: any) {
-    return this.emitWithMetadata(
-      "aiAgentAction",
-      actionData,
-      this.createEventMetadata("medium", "ai", actionData.agentId, true)
-    );
+  emitAIAgentAction(actionData: CityEventPayload<"aiAgentAction">) {
+    return this.publish("aiAgentAction", actionData, {
+      source: actionData.agentId,
+    });
   }
 
-  emitCulturalEvent(eventData: any) {
-    return this.emitWithMetadata(
-      "culturalEvent",
-      eventData,
-      this.createEventMetadata("medium", "cultural", "cultural-system", true)
-    );
+  emitCulturalEvent(eventData: CityEventPayload<"culturalEvent">) {
+    return this.publish("culturalEvent", eventData);
   }
 
-  emitEnvironmentalAlert(alertData: any) {
-    return this.emitWithMetadata(
-      "environmentalAlert",
-      alertData,
-      this.createEventMetadata(
-        alertData.severity === "critical" ? "critical" : "high",
-        "environmental",
-        "environmental-system",
-        true
-      )
-    );
+  emitEnvironmentalAlert(alertData: CityEventPayload<"environmentalAlert">) {
+    return this.publish("environmentalAlert", alertData, {
+      priority:
+        alertData.severity >= CRITICAL_ALERT_SEVERITY ? "critical" : "high",
+    });
+  }
+
+  // Random city events, including secondary events spawned by cascades
+  emitCityEventGenerated(eventData: CityEventPayload<"cityEventGenerated">) {
+    return this.publish("cityEventGenerated", eventData, {
+      priority: eventData.priority,
+    });
+  }
+
+  emitCityEventResolved(eventData: CityEventPayload<"cityEventResolved">) {
+    return this.publish("cityEventResolved", eventData);
   }
 }
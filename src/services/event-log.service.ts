@@ -0,0 +1,120 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import {
+  matchesEventFilter,
+  type EventFilter,
+  type EventLogWriter,
+  type PersistentEvent,
+} from "./event-bus.service";
+
+export type EventLogType = "file" | "memory" | "off";
+
+export interface EventLogConfig {
+  type: EventLogType;
+  filePath: string;
+}
+
+export interface EventLog extends EventLogWriter {
+  readonly type: Exclude<EventLogType, "off">;
+  read(filter?: EventFilter, limit?: number): Promise<PersistentEvent[]>;
+}
+
+export function loadEventLogConfig(
+  env: Record<string, string | undefined> = process.env
+): EventLogConfig {
+  return {
+    type: (env.EVENT_LOG || "file") as EventLogType,
+    filePath: env.EVENT_LOG_FILE || "./data/events/events.jsonl",
+  };
+}
+
+export function createEventLog(config: EventLogConfig): EventLog | undefined {
+  switch (config.type) {
+    case "off":
+      return undefined;
+    case "memory":
+      return new MemoryEventLog();
+    case "file":
+      return new FileEventLog(config.filePath);
+    default:
+      throw new Error(
+        `Unknown EVENT_LOG "${config.type}". Expected file, memory or off`
+      );
+  }
+}
+
+// Event payloads are arbitrary service objects, so flatten what JSON cannot hold
+function serializeEvent(event: PersistentEvent): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(event, (_key, value) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (value instanceof Map) return Object.fromEntries(value);
+    if (value instanceof Set) return Array.from(value);
+    if (value && typeof value === "object") {
+      if (seen.has(value)) return "[Circular]";
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
+function selectEvents(
+  events: PersistentEvent[],
+  filter?: EventFilter,
+  limit?: number
+): PersistentEvent[] {
+  const matching = filter
+    ? events.filter((event) => matchesEventFilter(event, filter))
+    : events;
+  // Keep the most recent events when a limit is given
+  return limit !== undefined && matching.length > limit
+    ? matching.slice(matching.length - limit)
+    : matching;
+}
+
+export class MemoryEventLog implements EventLog {
+  readonly type = "memory" as const;
+  private events: PersistentEvent[] = [];
+
+  append(event: PersistentEvent) {
+    this.events.push(JSON.parse(serializeEvent(event)));
+  }
+
+  async read(filter?: EventFilter, limit?: number) {
+    return selectEvents(this.events, filter, limit);
+  }
+}
+
+// One JSON event per line; lines are only ever appended
+export class FileEventLog implements EventLog {
+  readonly type = "file" as const;
+
+  constructor(private readonly filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  append(event: PersistentEvent) {
+    try {
+      appendFileSync(this.filePath, serializeEvent(event) + "\n");
+    } catch (error) {
+      console.error("Failed to append to event log:", error);
+    }
+  }
+
+  async read(filter?: EventFilter, limit?: number) {
+    if (!existsSync(this.filePath)) return [];
+
+    const events: PersistentEvent[] = [];
+    for (const line of readFileSync(this.filePath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash is skipped rather than failing the read
+      }
+    }
+    return selectEvents(events, filter, limit);
+  }
+}
@@ -0,0 +1,111 @@
+import type { CityServices } from "./app.services";
+import type { EventFilter, PersistentEvent } from "./event-bus.service";
+import type { EventLog } from "./event-log.service";
+import type { ServiceContainer } from "./service-container.service";
+
+export interface CascadeNode {
+  eventId: string;
+  type: string;
+  source: string;
+  timestamp: number;
+  children: CascadeNode[];
+}
+
+export interface ReplayResult {
+  replayId: string;
+  replayed: number;
+  range: { start: number; end: number } | null;
+  byType: Record<string, number>;
+  cascades: CascadeNode[];
+  events: PersistentEvent[];
+}
+
+// Re-emits a recorded range of the event log into a freshly built city, so the
+// services listening on its bus react again and what they publish in turn is
+// traced back to the replayed event
+export class EventReplayService {
+  constructor(
+    private readonly eventLog: EventLog | undefined,
+    private readonly createCity: () => ServiceContainer<CityServices>
+  ) {}
+
+  get enabled(): boolean {
+    return !!this.eventLog;
+  }
+
+  async replay(
+    filter: EventFilter = {},
+    options: { limit?: number } = {}
+  ): Promise<ReplayResult> {
+    if (!this.eventLog) {
+      throw new Error("Event log is disabled (EVENT_LOG=off)");
+    }
+
+    const events = (await this.eventLog.read(filter, options.limit)).sort(
+      (a, b) => a.metadata.timestamp - b.metadata.timestamp
+    );
+    const byType: Record<string, number> = {};
+    const traced: PersistentEvent[] = [];
+
+    // The city is never started: only the services that listen on the bus
+    // are built, along with what they depend on
+    const city = this.createCity();
+    try {
+      const bus = city.get("eventBus");
+      for (const name of city.dependentsOf("eventBus")) {
+        city.get(name);
+      }
+
+      const untrace = bus.trace((event) => traced.push(event));
+      for (const event of events) {
+        await bus.replayEvent(event);
+        byType[event.type] = (byType[event.type] || 0) + 1;
+      }
+      untrace();
+
+      return {
+        replayId: crypto.randomUUID(),
+        replayed: events.length,
+        range:
+          events.length > 0
+            ? {
+                start: events[0].metadata.timestamp,
+                end: events[events.length - 1].metadata.timestamp,
+              }
+            : null,
+        byType,
+        cascades: this.buildCascades(traced),
+        events: bus.getEventHistory(),
+      };
+    } finally {
+      await city.stop();
+    }
+  }
+
+  // Hangs every event published during the replay under the event whose
+  // listener published it. Replayed events with no consequences are left out.
+  private buildCascades(events: PersistentEvent[]): CascadeNode[] {
+    const nodes = new Map<string, CascadeNode>();
+    for (const event of events) {
+      nodes.set(event.id, {
+        eventId: event.id,
+        type: event.type,
+        source: event.metadata.source,
+        timestamp: event.metadata.timestamp,
+        children: [],
+      });
+    }
+
+    const roots: CascadeNode[] = [];
+    for (const event of events) {
+      const node = nodes.get(event.id)!;
+      const parent = nodes.get(event.metadata.triggeredBy || "");
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots.filter((root) => root.children.length > 0);
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import type {
+  Repository,
+  RepositoryEntry,
+  StateStore,
+} from "../types/persistence.types";
+import { decodeState, encodeState } from "../utils/state-codec";
+
+class FileRepository<T> implements Repository<T> {
+  private cache?: Record<string, unknown>;
+
+  constructor(private readonly filePath: string) {}
+
+  async findAll(): Promise<RepositoryEntry<T>[]> {
+    return Object.entries(this.read()).map(([id, value]) => ({
+      id,
+      value: decodeState<T>(value),
+    }));
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    const value = this.read()[id];
+    return value === undefined ? undefined : decodeState<T>(value);
+  }
+
+  async save(id: string, value: T): Promise<void> {
+    const data = this.read();
+    data[id] = encodeState(value);
+    this.write(data);
+  }
+
+  async replaceAll(entries: RepositoryEntry<T>[]): Promise<void> {
+    const data: Record<string, unknown> = {};
+    for (const entry of entries) {
+      data[entry.id] = encodeState(entry.value);
+    }
+    this.write(data);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const data = this.read();
+    if (!(id in data)) return false;
+    delete data[id];
+    this.write(data);
+    return true;
+  }
+
+  private read(): Record<string, unknown> {
+    if (!this.cache) {
+      this.cache = existsSync(this.filePath)
+        ? JSON.parse(readFileSync(this.filePath, "utf-8"))
+        : {};
+    }
+    return this.cache!;
+  }
+
+  // Write to a temp file first so a crash never leaves a half-written collection
+  private write(data: Record<string, unknown>) {
+    this.cache = data;
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data));
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+// Embedded store: one JSON document per collection under a data directory
+export class FileStateStore implements StateStore {
+  readonly type = "file" as const;
+  private repositories: Map<string, FileRepository<any>> = new Map();
+
+  constructor(private readonly directory: string) {}
+
+  async connect(): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  repository<T>(collection: string): Repository<T> {
+    let repository = this.repositories.get(collection);
+    if (!repository) {
+      repository = new FileRepository<T>(
+        join(this.directory, `${collection}.json`)
+      );
+      this.repositories.set(collection, repository);
+    }
+    return repository;
+  }
+
+  async close(): Promise<void> {
+    this.repositories.clear();
+  }
+}
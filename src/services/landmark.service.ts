@@ -2,6 +2,12 @@ import { EventBus } from "./event-bus.service";
 import { VectorStoreService } from "./vector-store.service";
 import { AnalyticsService } from "./analytics.service";
 import { RecordMetadata } from "@pinecone-database/pinecone";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface LandmarkVisit {
   landmarkId: string;
@@ -90,7 +96,9 @@ const LANDMARK_SYSTEM_AGENT = {
   emotionalRange: { min: 0.3, max: 0.8 },
 };
 
-export class LandmarkService {
+export class LandmarkService implements PersistableService {
+  private readonly timers = new ServiceTimers();
+  readonly persistenceKey = "landmarks";
   private landmarks: Map<string, Landmark> = new Map();
   private visits: Map<string, LandmarkVisit[]> = new Map();
   private ratings: Map<string, LandmarkRating[]> = new Map();
@@ -98,15 +106,19 @@ export class LandmarkService {
 
   constructor(
     private vectorStore: VectorStoreService,
-    private analyticsService: AnalyticsService
+    private analyticsService: AnalyticsService,
+    eventBus: EventBus
   ) {
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.initializeMonitoring();
   }
 
   private initializeMonitoring() {
-    setInterval(() => this.updateCulturalMetrics(), 1000 * 60 * 60); // Every hour
-    setInterval(() => this.analyzeVisitationPatterns(), 1000 * 60 * 30); // Every 30 minutes
+    this.timers.setInterval(() => this.updateCulturalMetrics(), 1000 * 60 * 60); // Every hour
+    this.timers.setInterval(
+      () => this.analyzeVisitationPatterns(),
+      1000 * 60 * 30
+    ); // Every 30 minutes
   }
 
   async getAllLandmarks(): Promise<Landmark[]> {
@@ -398,4 +410,22 @@ export class LandmarkService {
       topics: ["landmark", "information"],
     });
   }
+
+  exportState(): PersistedCollections {
+    return {
+      landmarks: mapToRecord(this.landmarks),
+      visits: mapToRecord(this.visits),
+      ratings: mapToRecord(this.ratings),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.landmarks = recordToMap<Landmark>(state.landmarks);
+    this.visits = recordToMap<LandmarkVisit[]>(state.visits);
+    this.ratings = recordToMap<LandmarkRating[]>(state.ratings);
+  }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -0,0 +1,62 @@
+import type {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+} from "../types/llm.types";
+import { TogetherService } from "./together.service";
+import { LocalLLMProvider } from "./local-llm.service";
+import { OpenAICompatibleProvider } from "./openai-compatible.service";
+
+const PROVIDER_NAMES: LLMProviderName[] = [
+  "together",
+  "local",
+  "openai-compatible",
+];
+
+export function loadLLMProviderConfig(
+  env: Record<string, string | undefined> = process.env
+): LLMProviderConfig {
+  const requested = (env.LLM_PROVIDER || "together") as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(requested)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${requested}". Expected one of: ${PROVIDER_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return {
+    provider: requested,
+    togetherApiKey: env.TOGETHER_API_KEY,
+    seed: env.LLM_SEED ? parseInt(env.LLM_SEED, 10) : undefined,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    chatModel: env.LLM_CHAT_MODEL,
+    embeddingModel: env.LLM_EMBEDDING_MODEL,
+    embeddingDimensions: env.LLM_EMBEDDING_DIMENSIONS
+      ? parseInt(env.LLM_EMBEDDING_DIMENSIONS, 10)
+      : undefined,
+  };
+}
+
+export function createLLMProvider(
+  config: LLMProviderConfig = loadLLMProviderConfig()
+): LLMProvider {
+  switch (config.provider) {
+    case "local":
+      return new LocalLLMProvider(config.seed, config.embeddingDimensions);
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl || "http://localhost:8080/v1",
+        apiKey: config.apiKey,
+        chatModel: config.chatModel,
+        embeddingModel: config.embeddingModel,
+      });
+    case "together":
+    default:
+      if (!config.togetherApiKey) {
+        throw new Error("TOGETHER_API_KEY environment variable is not set");
+      }
+      return new TogetherService(config.togetherApiKey);
+  }
+}
@@ -0,0 +1,534 @@
+import crypto from "crypto";
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type { LLMProvider, TextGenerationOptions } from "../types/llm.types";
+import type {
+  BudgetAction,
+  LLMBudget,
+  LLMBudgetStatus,
+  LLMCallMethod,
+  LLMCallRecord,
+  LLMUsageGroup,
+  LLMUsageQuery,
+  LLMUsageReport,
+  LLMUsageTotals,
+} from "../types/llm-usage.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { PromptTemplateService } from "./prompt-template.service";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+import {
+  type ProviderUsage,
+  withProviderUsage,
+} from "../utils/llm-usage-context";
+
+const BUDGET_ACTIONS: BudgetAction[] = ["cheaper-model", "canned"];
+
+// LLM_DAILY_TOKEN_BUDGETS="chroniclesService=200000,*=1000000:canned"; "*" is
+// the budget of every service without its own
+export function parseBudgets(value: string | undefined) {
+  const budgets = new Map<string, LLMBudget>();
+  for (const entry of (value || "").split(",")) {
+    if (!entry.trim()) continue;
+    const match = entry.trim().match(/^([\w*-]+)=(\d+)(?::([\w-]+))?$/);
+    const action = (match?.[3] || "cheaper-model") as BudgetAction;
+    if (!match || !BUDGET_ACTIONS.includes(action)) {
+      throw new Error(
+        `Invalid LLM budget "${entry}". Expected service=tokens[:${BUDGET_ACTIONS.join(
+          "|"
+        )}]`
+      );
+    }
+    budgets.set(match[1], { dailyTokens: parseInt(match[2], 10), action });
+  }
+  return budgets;
+}
+
+export function loadLLMUsageConfig(
+  env: Record<string, string | undefined> = process.env
+) {
+  return {
+    budgets: parseBudgets(env.LLM_DAILY_TOKEN_BUDGETS),
+    // Used once a cheaper-model budget is spent; without it those services
+    // get canned replies too
+    cheaperModel: env.LLM_CHEAPER_MODEL || undefined,
+    costPerMillionTokens: parseFloat(env.LLM_COST_PER_MILLION_TOKENS || "0"),
+    maxStoredCalls: 10000,
+  };
+}
+
+// What an over-budget service gets instead of a model reply
+const CANNED_TEXT = "No further details are available right now.";
+const CANNED_REPLY = "Let me come back to that a little later.";
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const dayOf = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+interface PendingCall {
+  service: string;
+  method: LLMCallMethod;
+  agentId?: string;
+  // Everything sent to the model, for estimates and template lookup
+  input: string;
+  // Text the prompt template is looked up by
+  prompt?: string;
+  model: string;
+  degraded?: BudgetAction;
+}
+
+// Accounts every LLM call by the service that made it and enforces daily
+// token budgets. Services get their own provider from forService; it forwards
+// to the real one and records agent, prompt template, tokens and latency.
+export class LLMUsageService implements PersistableService {
+  readonly persistenceKey = "llm_usage";
+  private calls: Map<string, LLMCallRecord> = new Map();
+  // Tokens each service spent on the current day
+  private spent: Map<string, { day: string; tokens: number }> = new Map();
+  private providers: Map<string, LLMProvider> = new Map();
+  private budgets: Map<string, LLMBudget>;
+  private warned = new Set<string>();
+
+  constructor(
+    private provider: LLMProvider,
+    private promptTemplates: PromptTemplateService,
+    readonly config = loadLLMUsageConfig()
+  ) {
+    this.budgets = new Map(config.budgets);
+  }
+
+  exportState(): PersistedCollections {
+    return {
+      calls: mapToRecord(this.calls),
+      spent: mapToRecord(this.spent),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.calls = recordToMap<LLMCallRecord>(state.calls);
+    this.spent = recordToMap<{ day: string; tokens: number }>(state.spent);
+  }
+
+  forService(service: string): LLMProvider {
+    let provider = this.providers.get(service);
+    if (!provider) {
+      provider = {
+        name: this.provider.name,
+        generateText: (prompt: string, options: TextGenerationOptions = {}) =>
+          this.generateText(service, prompt, options),
+        generateResponse: (
+          agent: Agent,
+          messages: Message[],
+          systemPrompt?: string,
+          maxHistory?: number
+        ) =>
+          this.generateResponse(
+            service,
+            agent,
+            messages,
+            systemPrompt,
+            maxHistory
+          ),
+        streamResponse: (
+          agent: Agent,
+          messages: Message[],
+          systemPrompt?: string,
+          maxHistory?: number
+        ) =>
+          this.streamResponse(
+            service,
+            agent,
+            messages,
+            systemPrompt,
+            maxHistory
+          ),
+        createEmbedding: (text: string) => this.createEmbedding(service, text),
+      };
+      this.providers.set(service, provider);
+    }
+    return provider;
+  }
+
+  getBudgets(): LLMBudgetStatus[] {
+    const today = dayOf(Date.now());
+    const services = new Set([
+      ...this.budgets.keys(),
+      ...Array.from(this.spent.entries())
+        .filter(([, spent]) => spent.day === today)
+        .map(([service]) => service),
+    ]);
+
+    return Array.from(services).flatMap((service) => {
+      const budget = this.budgetFor(service);
+      if (!budget) return [];
+      const usedToday = service === "*" ? 0 : this.spentToday(service);
+      return [
+        {
+          service,
+          ...budget,
+          usedToday,
+          remaining: Math.max(0, budget.dailyTokens - usedToday),
+          exceeded: usedToday >= budget.dailyTokens,
+        },
+      ];
+    });
+  }
+
+  // Sets or (with null) removes daily budgets until the next restart
+  updateBudgets(updates: Record<string, LLMBudget | null>): LLMBudgetStatus[] {
+    for (const [service, budget] of Object.entries(updates)) {
+      if (budget === null) {
+        this.budgets.delete(service);
+      } else {
+        this.budgets.set(service, budget);
+      }
+    }
+    return this.getBudgets();
+  }
+
+  // Newest first
+  getCalls(query: LLMUsageQuery & { limit?: number } = {}): LLMCallRecord[] {
+    return this.filter(query)
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  getReport(query: LLMUsageQuery = {}): LLMUsageReport {
+    const calls = this.filter(query);
+    const group = (keyOf: (call: LLMCallRecord) => string | undefined) => {
+      const groups = new Map<string, LLMCallRecord[]>();
+      for (const call of calls) {
+        const key = keyOf(call);
+        if (key === undefined) continue;
+        groups.set(key, [...(groups.get(key) || []), call]);
+      }
+      return Array.from(groups.entries())
+        .map(
+          ([key, members]): LLMUsageGroup => ({ key, ...this.totals(members) })
+        )
+        .sort((a, b) => b.totalTokens - a.totalTokens);
+    };
+
+    return {
+      from: query.from,
+      to: query.to,
+      totals: this.totals(calls),
+      byService: group((call) => call.service),
+      byPromptTemplate: group((call) =>
+        call.promptTemplate
+          ? `${call.promptTemplate}@${call.promptVersion}`
+          : undefined
+      ),
+      byAgent: group((call) => call.agentId),
+      byModel: group((call) => call.model),
+      byDay: group((call) => dayOf(call.timestamp)).sort((a, b) =>
+        a.key.localeCompare(b.key)
+      ),
+      budgets: this.getBudgets(),
+    };
+  }
+
+  private async generateText(
+    service: string,
+    prompt: string,
+    options: TextGenerationOptions
+  ): Promise<string> {
+    const degraded = this.degradationFor(service);
+    const model =
+      degraded === "cheaper-model" ? this.config.cheaperModel : options.model;
+    return this.track(
+      {
+        service,
+        method: "generateText",
+        input: prompt,
+        prompt,
+        model: model || this.provider.name,
+        degraded,
+      },
+      () =>
+        degraded === "canned"
+          ? Promise.resolve(CANNED_TEXT)
+          : this.provider.generateText(prompt, { ...options, model }),
+      (text) => text
+    );
+  }
+
+  private async generateResponse(
+    service: string,
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory?: number
+  ): Promise<string> {
+    const call = this.chatCall(
+      service,
+      "generateResponse",
+      agent,
+      messages,
+      systemPrompt,
+      maxHistory
+    );
+    return this.track(
+      call,
+      () =>
+        call.degraded === "canned"
+          ? Promise.resolve(CANNED_REPLY)
+          : this.provider.generateResponse(
+              this.withModel(agent, call.degraded),
+              messages,
+              systemPrompt,
+              maxHistory
+            ),
+      (reply) => reply
+    );
+  }
+
+  private async *streamResponse(
+    service: string,
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory?: number
+  ): AsyncGenerator<string> {
+    const call = this.chatCall(
+      service,
+      "streamResponse",
+      agent,
+      messages,
+      systemPrompt,
+      maxHistory
+    );
+    const usage: ProviderUsage = {};
+    const started = performance.now();
+    let output = "";
+    let error: string | undefined;
+
+    try {
+      if (call.degraded === "canned") {
+        output = CANNED_REPLY;
+        yield CANNED_REPLY;
+        return;
+      }
+      const iterator = this.provider
+        .streamResponse(
+          this.withModel(agent, call.degraded),
+          messages,
+          systemPrompt,
+          maxHistory
+        )
+        [Symbol.asyncIterator]();
+      while (true) {
+        const next = await withProviderUsage(usage, () => iterator.next());
+        if (next.done) return;
+        output += next.value;
+        yield next.value;
+      }
+    } catch (streamError) {
+      error =
+        streamError instanceof Error
+          ? streamError.message
+          : String(streamError);
+      throw streamError;
+    } finally {
+      this.record(call, usage, output, performance.now() - started, error);
+    }
+  }
+
+  private async createEmbedding(
+    service: string,
+    text: string
+  ): Promise<number[]> {
+    // Embeddings are never degraded: a canned vector would corrupt search
+    return this.track(
+      { service, method: "createEmbedding", input: text, model: "embedding" },
+      () => this.provider.createEmbedding(text),
+      () => ""
+    );
+  }
+
+  private async track<T>(
+    call: PendingCall,
+    run: () => Promise<T>,
+    outputOf: (result: T) => string
+  ): Promise<T> {
+    const usage: ProviderUsage = {};
+    const started = performance.now();
+    try {
+      const result = await withProviderUsage(usage, run);
+      this.record(call, usage, outputOf(result), performance.now() - started);
+      return result;
+    } catch (error) {
+      this.record(
+        call,
+        usage,
+        "",
+        performance.now() - started,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+  }
+
+  private chatCall(
+    service: string,
+    method: LLMCallMethod,
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory = 10
+  ): PendingCall {
+    const degraded = this.degradationFor(service);
+    const prompt = systemPrompt || messages[messages.length - 1]?.content;
+    return {
+      service,
+      method,
+      agentId: agent.id,
+      input: [
+        systemPrompt || agent.systemPrompt || "",
+        ...messages.slice(-maxHistory).map((message) => message.content),
+      ].join("\n"),
+      prompt,
+      model:
+        (degraded === "cheaper-model" && this.config.cheaperModel) ||
+        agent.model ||
+        this.provider.name,
+      degraded,
+    };
+  }
+
+  private withModel(agent: Agent, degraded?: BudgetAction): Agent {
+    return degraded === "cheaper-model"
+      ? { ...agent, model: this.config.cheaperModel }
+      : agent;
+  }
+
+  private record(
+    call: PendingCall,
+    usage: ProviderUsage,
+    output: string,
+    latencyMs: number,
+    error?: string
+  ) {
+    // Cached and canned replies cost nothing
+    const free = usage.cacheHit || call.degraded === "canned";
+    const estimated =
+      !free &&
+      (usage.promptTokens === undefined ||
+        (call.method !== "createEmbedding" &&
+          usage.completionTokens === undefined));
+    const prompt = call.prompt
+      ? this.promptTemplates.identify(call.prompt)
+      : undefined;
+
+    const record: LLMCallRecord = {
+      id: crypto.randomUUID(),
+      service: call.service,
+      method: call.method,
+      agentId: call.agentId,
+      promptTemplate: prompt?.template,
+      promptVersion: prompt?.version,
+      model: usage.model || call.model,
+      promptTokens: free ? 0 : usage.promptTokens ?? estimateTokens(call.input),
+      completionTokens: free
+        ? 0
+        : usage.completionTokens ?? estimateTokens(output),
+      estimated,
+      latencyMs: Math.round(latencyMs),
+      cacheHit: !!usage.cacheHit,
+      degraded: call.degraded,
+      error,
+      timestamp: Date.now(),
+    };
+    this.calls.set(record.id, record);
+    // Maps keep insertion order, so the first key is the oldest
+    while (this.calls.size > this.config.maxStoredCalls) {
+      this.calls.delete(this.calls.keys().next().value!);
+    }
+
+    const today = dayOf(record.timestamp);
+    const spent = this.spent.get(call.service);
+    this.spent.set(call.service, {
+      day: today,
+      tokens:
+        (spent?.day === today ? spent.tokens : 0) +
+        record.promptTokens +
+        record.completionTokens,
+    });
+  }
+
+  private degradationFor(service: string): BudgetAction | undefined {
+    const budget = this.budgetFor(service);
+    if (!budget || this.spentToday(service) < budget.dailyTokens) {
+      return undefined;
+    }
+
+    const action =
+      budget.action === "cheaper-model" && this.config.cheaperModel
+        ? "cheaper-model"
+        : "canned";
+    const warning = `${dayOf(Date.now())}|${service}`;
+    if (!this.warned.has(warning)) {
+      this.warned.add(warning);
+      console.warn(
+        `⚠️ ${service} spent its daily LLM budget of ${budget.dailyTokens} tokens; using ${action} until tomorrow`
+      );
+    }
+    return action;
+  }
+
+  private budgetFor(service: string): LLMBudget | undefined {
+    return this.budgets.get(service) || this.budgets.get("*");
+  }
+
+  private spentToday(service: string) {
+    const spent = this.spent.get(service);
+    return spent?.day === dayOf(Date.now()) ? spent.tokens : 0;
+  }
+
+  private filter(query: LLMUsageQuery): LLMCallRecord[] {
+    return Array.from(this.calls.values()).filter(
+      (call) =>
+        (!query.service || call.service === query.service) &&
+        (query.from === undefined || call.timestamp >= query.from) &&
+        (query.to === undefined || call.timestamp <= query.to)
+    );
+  }
+
+  private totals(calls: LLMCallRecord[]): LLMUsageTotals {
+    const promptTokens = calls.reduce(
+      (sum, call) => sum + call.promptTokens,
+      0
+    );
+    const completionTokens = calls.reduce(
+      (sum, call) => sum + call.completionTokens,
+      0
+    );
+    const totalTokens = promptTokens + completionTokens;
+    return {
+      calls: calls.length,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      cacheHits: calls.filter((call) => call.cacheHit).length,
+      degraded: calls.filter((call) => call.degraded).length,
+      errors: calls.filter((call) => call.error).length,
+      averageLatencyMs:
+        calls.length > 0
+          ? Math.round(
+              calls.reduce((sum, call) => sum + call.latencyMs, 0) /
+                calls.length
+            )
+          : 0,
+      estimatedCost: round(
+        (totalTokens / 1_000_000) * this.config.costPerMillionTokens,
+        4
+      ),
+    };
+  }
+}
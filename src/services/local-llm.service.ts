@@ -0,0 +1,137 @@
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type { LLMProvider, TextGenerationOptions } from "../types/llm.types";
+import { SeededRandom, hashString } from "../utils/seeded-random";
+
+const OPENERS = [
+  "Honestly,",
+  "From where I stand,",
+  "I've been thinking that",
+  "You know,",
+  "It seems to me that",
+  "Looking around the district,",
+];
+
+const REFLECTIONS = [
+  "{topic} deserves more attention than it gets.",
+  "we could do a lot more with {topic} if we worked together.",
+  "people keep bringing up {topic} at the market.",
+  "{topic} has been changing quickly this week.",
+  "the way we handle {topic} says a lot about Neurova City.",
+];
+
+const CLOSERS = [
+  "What do you think?",
+  "I'd love to hear your take.",
+  "Maybe we can raise it at the next district meeting.",
+  "Let's keep an eye on it.",
+  "",
+];
+
+const NARRATIVE_SENTENCES = [
+  "Residents of Neurova City went about their day with quiet determination.",
+  "Local departments reported steady progress on ongoing projects.",
+  "Community members gathered to discuss the week's developments.",
+  "The district remained calm as city services operated normally.",
+  "Observers noted a gradual shift in how neighbours shared public spaces.",
+];
+
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = "local" as const;
+  private readonly dimensions: number;
+
+  constructor(private readonly seed: number = 42, dimensions: number = 768) {
+    this.dimensions = dimensions;
+  }
+
+  async generateResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory: number = 10
+  ): Promise<string> {
+    const recentMessages = messages.slice(-maxHistory);
+    const lastMessage = recentMessages[recentMessages.length - 1];
+    const rng = this.rngFor(
+      agent.id,
+      systemPrompt || agent.systemPrompt,
+      ...recentMessages.map((m) => `${m.role}:${m.content}`)
+    );
+
+    const topic = this.pickTopic(rng, lastMessage?.content, agent.interests);
+    const opener = rng.pick(OPENERS);
+    const reflection = rng.pick(REFLECTIONS).replace("{topic}", topic);
+    const closer = rng.pick(CLOSERS);
+
+    return [opener, reflection, closer].filter(Boolean).join(" ").trim();
+  }
+
+  // Replays the same reply generateResponse gives, one word at a time
+  async *streamResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory: number = 10
+  ): AsyncGenerator<string> {
+    const reply = await this.generateResponse(
+      agent,
+      messages,
+      systemPrompt,
+      maxHistory
+    );
+    for (const word of reply.match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+
+  async generateText(
+    prompt: string,
+    options: TextGenerationOptions = {}
+  ): Promise<string> {
+    const rng = this.rngFor(prompt, options.model || "");
+    const maxSentences = Math.max(
+      1,
+      Math.min(5, Math.floor((options.maxTokens || 512) / 40))
+    );
+    const sentenceCount = rng.int(1, maxSentences);
+
+    return rng.shuffle(NARRATIVE_SENTENCES).slice(0, sentenceCount).join(" ");
+  }
+
+  // Feature-hashed bag of words so similar texts land close together
+  async createEmbedding(text: string): Promise<number[]> {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    if (tokens.length === 0) {
+      return new Array(this.dimensions).fill(0.1);
+    }
+
+    for (const token of tokens) {
+      const hash = hashString(token, this.seed);
+      // The bucket comes from the low bits, so the sign takes the top one
+      const sign = hash >>> 31 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  private rngFor(...parts: string[]): SeededRandom {
+    return new SeededRandom(hashString(parts.join("|"), this.seed));
+  }
+
+  private pickTopic(
+    rng: SeededRandom,
+    content: string | undefined,
+    interests: string[]
+  ): string {
+    const mentioned = interests.find((interest) =>
+      content?.toLowerCase().includes(interest.toLowerCase())
+    );
+    if (mentioned) return mentioned;
+    if (interests.length > 0) return rng.pick(interests);
+    return "city life";
+  }
+}
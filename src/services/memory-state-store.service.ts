@@ -0,0 +1,55 @@
+import type {
+  Repository,
+  RepositoryEntry,
+  StateStore,
+} from "../types/persistence.types";
+import { decodeState, encodeState } from "../utils/state-codec";
+
+class MemoryRepository<T> implements Repository<T> {
+  private entries: Map<string, unknown> = new Map();
+
+  async findAll(): Promise<RepositoryEntry<T>[]> {
+    return Array.from(this.entries.entries()).map(([id, value]) => ({
+      id,
+      value: decodeState<T>(value),
+    }));
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    const value = this.entries.get(id);
+    return value === undefined ? undefined : decodeState<T>(value);
+  }
+
+  async save(id: string, value: T): Promise<void> {
+    this.entries.set(id, encodeState(value));
+  }
+
+  async replaceAll(entries: RepositoryEntry<T>[]): Promise<void> {
+    this.entries = new Map(
+      entries.map((entry) => [entry.id, encodeState(entry.value)])
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+}
+
+// Non-durable store for tests and throwaway runs
+export class MemoryStateStore implements StateStore {
+  readonly type = "memory" as const;
+  private repositories: Map<string, MemoryRepository<any>> = new Map();
+
+  async connect(): Promise<void> {}
+
+  repository<T>(collection: string): Repository<T> {
+    let repository = this.repositories.get(collection);
+    if (!repository) {
+      repository = new MemoryRepository<T>();
+      this.repositories.set(collection, repository);
+    }
+    return repository;
+  }
+
+  async close(): Promise<void> {}
+}
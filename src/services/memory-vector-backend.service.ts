@@ -0,0 +1,184 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type {
+  VectorBackend,
+  VectorBackendMatch,
+  VectorBackendRecord,
+  VectorFilter,
+  VectorFilterCondition,
+  VectorFilterValue,
+} from "../types/vector-store.types";
+
+type MetadataValue = string | number;
+
+// In-process cosine similarity store, optionally persisted to a JSON file
+export class MemoryVectorBackend implements VectorBackend {
+  readonly type = "memory" as const;
+  private records: Map<string, VectorBackendRecord> = new Map();
+
+  constructor(private readonly filePath?: string) {
+    if (filePath) {
+      this.load();
+    }
+  }
+
+  async query({
+    vector,
+    filter,
+    topK,
+    includeMetadata,
+  }: {
+    vector: number[];
+    filter?: VectorFilter;
+    topK: number;
+    includeMetadata: boolean;
+  }): Promise<{ matches: VectorBackendMatch[] }> {
+    const matches: VectorBackendMatch[] = [];
+
+    for (const record of this.records.values()) {
+      if (filter && !this.matchesFilter(record.metadata, filter)) {
+        continue;
+      }
+      matches.push({
+        id: record.id,
+        score: this.cosineSimilarity(vector, record.values),
+        ...(includeMetadata ? { metadata: { ...record.metadata } } : {}),
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    return { matches: matches.slice(0, topK) };
+  }
+
+  async upsert(records: VectorBackendRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, {
+        id: record.id,
+        values: [...record.values],
+        metadata: { ...record.metadata },
+      });
+    }
+    this.persist();
+  }
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  private matchesFilter(
+    metadata: Record<string, MetadataValue>,
+    filter: VectorFilter
+  ): boolean {
+    return Object.entries(filter).every(([key, condition]) =>
+      this.matchesCondition(metadata[key], condition)
+    );
+  }
+
+  private matchesCondition(
+    value: MetadataValue | undefined,
+    condition: VectorFilterCondition
+  ): boolean {
+    const exists = value !== undefined && value !== null;
+
+    if (condition.$exists !== undefined && condition.$exists !== exists) {
+      return false;
+    }
+    if (condition.$eq !== undefined) {
+      if (!exists || !this.isEqual(value, condition.$eq)) return false;
+    }
+    if (condition.$ne !== undefined) {
+      if (exists && this.isEqual(value, condition.$ne)) return false;
+    }
+    if (condition.$in !== undefined) {
+      if (!exists || !condition.$in.some((v) => this.isEqual(value, v))) {
+        return false;
+      }
+    }
+    if (condition.$nin !== undefined) {
+      if (exists && condition.$nin.some((v) => this.isEqual(value, v))) {
+        return false;
+      }
+    }
+
+    const numeric = exists ? this.toNumber(value) : undefined;
+    if (condition.$gt !== undefined) {
+      if (numeric === undefined || !(numeric > condition.$gt)) return false;
+    }
+    if (condition.$gte !== undefined) {
+      if (numeric === undefined || !(numeric >= condition.$gte)) return false;
+    }
+    if (condition.$lt !== undefined) {
+      if (numeric === undefined || !(numeric < condition.$lt)) return false;
+    }
+    if (condition.$lte !== undefined) {
+      if (numeric === undefined || !(numeric <= condition.$lte)) return false;
+    }
+
+    return true;
+  }
+
+  // Metadata is flattened to strings on upsert, so compare numerically when both sides parse
+  private isEqual(value: MetadataValue, expected: VectorFilterValue): boolean {
+    const a = this.toNumber(value);
+    const b = this.toNumber(expected);
+    if (a !== undefined && b !== undefined) {
+      return a === b;
+    }
+    return String(value) === String(expected);
+  }
+
+  private toNumber(value: unknown): number | undefined {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value.trim() !== "") {
+      const parsed = Number(value);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
+  private load() {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      for (const record of data.records || []) {
+        this.records.set(record.id, record);
+      }
+      console.log(
+        `📦 Loaded ${this.records.size} vectors from ${this.filePath}`
+      );
+    } catch (error) {
+      console.error("Failed to load vector store file:", error);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) return;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(
+        this.filePath,
+        JSON.stringify({ records: Array.from(this.records.values()) })
+      );
+    } catch (error) {
+      console.error("Failed to persist vector store file:", error);
+    }
+  }
+}
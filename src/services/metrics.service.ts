@@ -2,6 +2,7 @@ import { EventEmitter } from "events";
 import { CityMetrics } from "../types/city-metrics";
 import { VectorStoreService } from "./vector-store.service";
 import { EnvironmentService } from "./environment.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface AIMetrics {
   agentActivity: {
@@ -52,6 +53,7 @@ type VectorStoreType =
   | "transport";
 
 export class MetricsService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private currentMetrics: EnhancedCityMetrics;
   private metricsHistory: Array<{
     timestamp: number;
@@ -69,11 +71,11 @@ export class MetricsService extends EventEmitter {
 
   private initializeMonitoring() {
     // Monitor AI metrics every minute
-    setInterval(() => this.monitorAIMetrics(), 60 * 1000);
+    this.timers.setInterval(() => this.monitorAIMetrics(), 60 * 1000);
     // Analyze AI performance every 5 minutes
-    setInterval(() => this.analyzeAIPerformance(), 5 * 60 * 1000);
+    this.timers.setInterval(() => this.analyzeAIPerformance(), 5 * 60 * 1000);
     // Update AI safety metrics every 15 minutes
-    setInterval(() => this.updateAISafetyMetrics(), 15 * 60 * 1000);
+    this.timers.setInterval(() => this.updateAISafetyMetrics(), 15 * 60 * 1000);
   }
 
   private async monitorAIMetrics() {
@@ -728,4 +730,8 @@ export class MetricsService extends EventEmitter {
       },
     };
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type {
+  PaymentAuthorization,
+  PaymentCapture,
+  PaymentProcessor,
+  PaymentRefund,
+  PaymentRequest,
+  PaymentWebhookEvent,
+  PaymentWebhookType,
+} from "../types/payment.types";
+import { PaymentError } from "./payment.service";
+import { ServiceTimers } from "../utils/service-timers";
+import {
+  isValidWebhookSignature,
+  signWebhook,
+} from "../utils/webhook-signature";
+
+// Payment method tokens the mock understands; any other token is declined
+export const MOCK_PAYMENT_METHODS = {
+  success: "mock_card_success",
+  decline: "mock_card_decline",
+  // Captures stay pending until a payment.captured webhook settles them
+  delayed: "mock_card_delayed",
+} as const;
+
+type MockOutcome = keyof typeof MOCK_PAYMENT_METHODS;
+
+interface MockPayment {
+  amount: number;
+  outcome: MockOutcome;
+  status: "authorized" | "declined" | "pending" | "captured" | "refunded";
+}
+
+// Stand-in for a card processor when running locally and in tests. It keeps
+// payments in memory and delivers signed webhooks in-process.
+export class MockPaymentProcessor implements PaymentProcessor {
+  readonly name = "mock" as const;
+  private readonly timers = new ServiceTimers();
+  private payments: Map<string, MockPayment> = new Map();
+  private listeners: Array<(payload: string, signature: string) => void> = [];
+
+  constructor(
+    private readonly config: { webhookSecret: string; settlementMs: number }
+  ) {}
+
+  async authorize(request: PaymentRequest): Promise<PaymentAuthorization> {
+    const paymentId = `mock_pay_${crypto.randomUUID()}`;
+    const outcome = (Object.keys(MOCK_PAYMENT_METHODS) as MockOutcome[]).find(
+      (key) =>
+        MOCK_PAYMENT_METHODS[key] ===
+        (request.paymentMethod || MOCK_PAYMENT_METHODS.success)
+    );
+    const declineReason = !outcome
+      ? "unknown_payment_method"
+      : outcome === "decline" || request.amount <= 0
+      ? "card_declined"
+      : undefined;
+
+    this.payments.set(paymentId, {
+      amount: request.amount,
+      outcome: outcome || "decline",
+      status: declineReason ? "declined" : "authorized",
+    });
+    return declineReason
+      ? { paymentId, status: "declined", declineReason }
+      : { paymentId, status: "authorized" };
+  }
+
+  async capture(paymentId: string): Promise<PaymentCapture> {
+    const payment = this.requirePayment(paymentId, "authorized");
+    if (payment.outcome !== "delayed") {
+      payment.status = "captured";
+      return { paymentId, status: "captured" };
+    }
+
+    payment.status = "pending";
+    this.timers.setTimeout(() => {
+      payment.status = "captured";
+      this.deliver("payment.captured", paymentId);
+    }, this.config.settlementMs);
+    return { paymentId, status: "pending" };
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<PaymentRefund> {
+    const payment = this.requirePayment(paymentId, "captured");
+    payment.status = "refunded";
+    return {
+      paymentId,
+      refundId: `mock_refund_${crypto.randomUUID()}`,
+      amount: amount ?? payment.amount,
+    };
+  }
+
+  verifyWebhook(
+    payload: string,
+    signature: string | undefined
+  ): PaymentWebhookEvent {
+    if (
+      !isValidWebhookSignature(payload, signature, this.config.webhookSecret)
+    ) {
+      throw new PaymentError(
+        "invalid_signature",
+        "Webhook signature is missing, invalid or expired"
+      );
+    }
+    try {
+      return JSON.parse(payload) as PaymentWebhookEvent;
+    } catch {
+      throw new PaymentError(
+        "invalid_payload",
+        "Webhook body is not valid JSON"
+      );
+    }
+  }
+
+  onWebhook(listener: (payload: string, signature: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  stop() {
+    this.timers.clearAll();
+  }
+
+  private deliver(type: PaymentWebhookType, paymentId: string) {
+    const event: PaymentWebhookEvent = {
+      id: `mock_evt_${crypto.randomUUID()}`,
+      type,
+      paymentId,
+      createdAt: Date.now(),
+    };
+    const payload = JSON.stringify(event);
+    const signature = signWebhook(payload, this.config.webhookSecret);
+    for (const listener of this.listeners) listener(payload, signature);
+  }
+
+  private requirePayment(
+    paymentId: string,
+    status: MockPayment["status"]
+  ): MockPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new PaymentError(
+        "payment_not_found",
+        `Payment ${paymentId} not found`
+      );
+    }
+    if (payment.status !== status) {
+      throw new PaymentError(
+        "invalid_state",
+        `Payment ${paymentId} is ${payment.status}, not ${status}`
+      );
+    }
+    return payment;
+  }
+}
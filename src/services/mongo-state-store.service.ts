@@ -0,0 +1,110 @@
+import { MongoClient, type Db } from "mongodb";
+import type {
+  Repository,
+  RepositoryEntry,
+  StateStore,
+} from "../types/persistence.types";
+import { decodeState, encodeState } from "../utils/state-codec";
+
+interface StateDocument {
+  _id: string;
+  payload: string;
+  updatedAt: number;
+}
+
+class MongoRepository<T> implements Repository<T> {
+  constructor(
+    private readonly getDb: () => Db,
+    private readonly collectionName: string
+  ) {}
+
+  private get collection() {
+    return this.getDb().collection<StateDocument>(this.collectionName);
+  }
+
+  async findAll(): Promise<RepositoryEntry<T>[]> {
+    const documents = await this.collection.find({}).toArray();
+    return documents.map((doc) => ({
+      id: doc._id,
+      value: this.decode(doc.payload),
+    }));
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    const doc = await this.collection.findOne({ _id: id });
+    return doc ? this.decode(doc.payload) : undefined;
+  }
+
+  async save(id: string, value: T): Promise<void> {
+    await this.collection.replaceOne(
+      { _id: id },
+      { payload: this.encode(value), updatedAt: Date.now() },
+      { upsert: true }
+    );
+  }
+
+  async replaceAll(entries: RepositoryEntry<T>[]): Promise<void> {
+    const ids = entries.map((entry) => entry.id);
+    await this.collection.deleteMany({ _id: { $nin: ids } });
+    if (entries.length === 0) return;
+
+    const updatedAt = Date.now();
+    await this.collection.bulkWrite(
+      entries.map((entry) => ({
+        replaceOne: {
+          filter: { _id: entry.id },
+          replacement: { payload: this.encode(entry.value), updatedAt },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  // Payloads are stored as JSON strings so Map keys with dots or $ stay legal
+  private encode(value: T): string {
+    return JSON.stringify(encodeState(value));
+  }
+
+  private decode(payload: string): T {
+    return decodeState<T>(JSON.parse(payload));
+  }
+}
+
+export class MongoStateStore implements StateStore {
+  readonly type = "mongodb" as const;
+  private client: MongoClient;
+  private db?: Db;
+
+  constructor(uri: string, private readonly databaseName: string = "aicity") {
+    if (!uri) {
+      throw new Error("MONGODB_URI environment variable is not set");
+    }
+    this.client = new MongoClient(uri);
+  }
+
+  async connect(): Promise<void> {
+    if (this.db) return;
+    await this.client.connect();
+    this.db = this.client.db(this.databaseName);
+    console.log(`🍃 Connected to MongoDB database "${this.databaseName}"`);
+  }
+
+  repository<T>(collection: string): Repository<T> {
+    return new MongoRepository<T>(() => {
+      if (!this.db) {
+        throw new Error("MongoStateStore used before connect()");
+      }
+      return this.db;
+    }, collection);
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    this.db = undefined;
+  }
+}
@@ -30,10 +30,11 @@ export class MoodHarmonizationService extends EventEmitter {
   constructor(
     private districtService: DistrictService,
     private metricsService: MetricsService,
-    private vectorStore: VectorStoreService
+    private vectorStore: VectorStoreService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.initializeAIHarmonization();
   }
 
@@ -58,7 +59,7 @@ export class MoodHarmonizationService extends EventEmitter {
         district as EnhancedDistrict
       );
       if (harmonyMetrics.agentMoodIndex < 0.6) {
-        this.eventBus.emit("aiHarmonyAlert", {
+        this.eventBus.publish("aiHarmonyAlert", {
           districtId: district.id,
           metrics: harmonyMetrics,
           severity: "high",
@@ -74,7 +75,7 @@ export class MoodHarmonizationService extends EventEmitter {
         district as EnhancedDistrict
       );
       if (integrationScore < 0.5) {
-        this.eventBus.emit("culturalIntegrationNeeded", {
+        this.eventBus.publish("culturalIntegrationNeeded", {
           districtId: district.id,
           score: integrationScore,
           recommendations: await this.generateIntegrationRecommendations(
@@ -408,7 +409,7 @@ export class MoodHarmonizationService extends EventEmitter {
 
   private async implementHarmonization(interventions: any) {
     for (const intervention of interventions) {
-      this.eventBus.emit("harmonyEvent", {
+      this.eventBus.publish("harmonyEvent", {
         districtId: intervention.districtId,
         suggestedEvents: intervention.suggestedEvents,
         environmentalChanges: intervention.environmentalAdjustments,
@@ -0,0 +1,196 @@
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type { LLMProvider, TextGenerationOptions } from "../types/llm.types";
+import { reportProviderUsage } from "../utils/llm-usage-context";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+}
+
+// Talks to any server exposing the OpenAI REST shape (llama.cpp, vLLM, Ollama, LM Studio)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai-compatible" as const;
+  private readonly baseUrl: string;
+  private readonly chatModel: string;
+  private readonly embeddingModel: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    if (!config.baseUrl) {
+      throw new Error("OpenAI-compatible provider requires a base URL");
+    }
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.chatModel = config.chatModel || "local-model";
+    this.embeddingModel = config.embeddingModel || this.chatModel;
+  }
+
+  async generateResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory: number = 10
+  ): Promise<string> {
+    const response = await this.post(
+      "/chat/completions",
+      this.chatBody(agent, messages, systemPrompt, maxHistory)
+    );
+
+    const content = response.choices?.[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error("Response generation failed: empty completion");
+    }
+    return content;
+  }
+
+  // Reads the server-sent events of a streamed chat completion
+  async *streamResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory: number = 10
+  ): AsyncGenerator<string> {
+    const body = this.chatBody(agent, messages, systemPrompt, maxHistory);
+    reportProviderUsage({ model: body.model });
+    const response = await this.request("/chat/completions", {
+      ...body,
+      stream: true,
+    });
+    if (!response.body) {
+      throw new Error("Response generation failed: empty stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice("data:".length).trim();
+          if (data === "[DONE]") return;
+          let delta: string | undefined;
+          try {
+            delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          } catch {
+            // A malformed chunk loses its text, not the rest of the stream
+            console.warn("Skipping malformed stream chunk:", data);
+            continue;
+          }
+          if (delta) yield delta;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async generateText(
+    prompt: string,
+    options: TextGenerationOptions = {}
+  ): Promise<string> {
+    const response = await this.post("/completions", {
+      model: options.model || this.chatModel,
+      prompt,
+      max_tokens: options.maxTokens || 512,
+      temperature: options.temperature || 0.7,
+      top_p: options.topP || 0.95,
+      stop: options.stopSequences,
+    });
+
+    const text = response.choices?.[0]?.text?.trim();
+    if (!text) {
+      throw new Error("Text generation failed");
+    }
+    return text;
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      return new Array(768).fill(0.1);
+    }
+
+    try {
+      const response = await this.post("/embeddings", {
+        model: this.embeddingModel,
+        input: text.trim(),
+      });
+      const embedding = response.data?.[0]?.embedding;
+      if (!Array.isArray(embedding) || embedding.length === 0) {
+        console.error("Received invalid embedding from local server");
+        return new Array(768).fill(0.1);
+      }
+      return embedding;
+    } catch (error) {
+      console.error("Embedding request failed:", error);
+      return new Array(768).fill(0.1);
+    }
+  }
+
+  private chatBody(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt: string | undefined,
+    maxHistory: number
+  ) {
+    const effectiveSystemPrompt = (
+      systemPrompt ||
+      agent.systemPrompt ||
+      "You are an AI assistant living in Neurova City."
+    ).trim();
+
+    return {
+      model: agent.model || this.chatModel,
+      messages: [
+        { role: "system", content: effectiveSystemPrompt },
+        ...messages.slice(-maxHistory).map((msg) => ({
+          role: msg.role === "user" ? "user" : "assistant",
+          content: msg.content.trim(),
+        })),
+      ],
+      temperature: agent.temperature || 0.7,
+      max_tokens: agent.maxTokens || 512,
+    };
+  }
+
+  private async post(path: string, body: Record<string, unknown>) {
+    const response = await this.request(path, body);
+    const json = (await response.json()) as any;
+    reportProviderUsage({
+      model: typeof body.model === "string" ? body.model : undefined,
+      promptTokens: json.usage?.prompt_tokens,
+      completionTokens: json.usage?.completion_tokens,
+    });
+    return json;
+  }
+
+  private async request(path: string, body: Record<string, unknown>) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible request to ${path} failed with status ${response.status}`
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import type {
+  PaymentProcessor,
+  PaymentProcessorConfig,
+  PaymentProcessorName,
+} from "../types/payment.types";
+import { MockPaymentProcessor } from "./mock-payment-processor.service";
+
+const PROCESSOR_NAMES: PaymentProcessorName[] = ["mock"];
+
+export function loadPaymentProcessorConfig(
+  env: Record<string, string | undefined> = process.env
+): PaymentProcessorConfig {
+  const requested = (env.PAYMENT_PROCESSOR || "mock") as PaymentProcessorName;
+  if (!PROCESSOR_NAMES.includes(requested)) {
+    throw new Error(
+      `Unknown PAYMENT_PROCESSOR "${requested}". Expected one of: ${PROCESSOR_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return {
+    processor: requested,
+    // A random secret only works for the in-process mock
+    webhookSecret:
+      env.PAYMENT_WEBHOOK_SECRET || crypto.randomBytes(32).toString("hex"),
+    mockSettlementMs: parseInt(env.PAYMENT_MOCK_SETTLEMENT_MS || "5000", 10),
+  };
+}
+
+export function createPaymentProcessor(
+  config: PaymentProcessorConfig = loadPaymentProcessorConfig()
+): PaymentProcessor {
+  switch (config.processor) {
+    case "mock":
+    default:
+      return new MockPaymentProcessor({
+        webhookSecret: config.webhookSecret,
+        settlementMs: config.mockSettlementMs,
+      });
+  }
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from "events";
+import type {
+  Payment,
+  PaymentProcessor,
+  PaymentPurpose,
+  PaymentRequest,
+  PaymentStatus,
+} from "../types/payment.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export type PaymentErrorCode =
+  | "declined"
+  | "payment_not_found"
+  | "invalid_signature"
+  | "invalid_payload"
+  | "invalid_state";
+
+export class PaymentError extends Error {
+  constructor(readonly code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// Keeps a record of every payment taken through the processor and applies
+// its webhooks. Emits "captured" and "failed" when a delayed settlement is
+// confirmed, so whatever the payment was for can be completed then, and
+// "refunded" when the processor reports a refund the city did not ask for.
+export class PaymentService extends EventEmitter implements PersistableService {
+  readonly persistenceKey = "payments";
+  private payments: Map<string, Payment> = new Map();
+
+  constructor(private processor: PaymentProcessor) {
+    super();
+    processor.onWebhook?.((payload, signature) => {
+      try {
+        this.handleWebhook(payload, signature);
+      } catch (error) {
+        console.error("Failed to apply payment webhook:", error);
+      }
+    });
+  }
+
+  exportState(): PersistedCollections {
+    return { payments: mapToRecord(this.payments) };
+  }
+
+  importState(state: PersistedCollections) {
+    this.payments = recordToMap<Payment>(state.payments);
+  }
+
+  // Authorizes and captures a payment. A decline rejects with a PaymentError;
+  // a capture that settles later resolves with status "pending_settlement".
+  async charge(purpose: PaymentPurpose, request: PaymentRequest) {
+    const authorization = await this.processor.authorize(request);
+    const now = Date.now();
+    const payment: Payment = {
+      id: authorization.paymentId,
+      processor: this.processor.name,
+      purpose,
+      donorId: request.donorId,
+      amount: request.amount,
+      currency: request.currency,
+      status: "authorized",
+      webhookEvents: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.payments.set(payment.id, payment);
+
+    if (authorization.status === "declined") {
+      this.update(payment, "declined", {
+        failureReason: authorization.declineReason,
+      });
+      throw new PaymentError(
+        "declined",
+        `Payment declined: ${authorization.declineReason || "unknown reason"}`
+      );
+    }
+
+    const capture = await this.processor.capture(payment.id);
+    return capture.status === "captured"
+      ? this.update(payment, "captured", { capturedAt: Date.now() })
+      : this.update(payment, "pending_settlement");
+  }
+
+  async refund(paymentId: string): Promise<Payment> {
+    const payment = this.requirePayment(paymentId);
+    if (payment.status !== "captured") {
+      throw new PaymentError(
+        "invalid_state",
+        `Only captured payments can be refunded (payment is ${payment.status})`
+      );
+    }
+    await this.processor.refund(paymentId);
+    return this.update(payment, "refunded", { refundedAt: Date.now() });
+  }
+
+  // Applies a signed webhook; redelivered events, event types this service
+  // does not know and payments this city did not take are ignored
+  handleWebhook(
+    payload: string,
+    signature: string | undefined
+  ): Payment | undefined {
+    const event = this.processor.verifyWebhook(payload, signature);
+    const payment = this.payments.get(event.paymentId);
+    if (!payment || payment.webhookEvents.includes(event.id)) return payment;
+    payment.webhookEvents.push(event.id);
+
+    if (event.type === "payment.captured") {
+      if (payment.status === "pending_settlement") {
+        this.update(payment, "captured", { capturedAt: event.createdAt });
+        this.emit("captured", payment);
+      }
+    } else if (event.type === "payment.failed") {
+      if (payment.status === "pending_settlement") {
+        this.update(payment, "failed", { failureReason: event.failureReason });
+        this.emit("failed", payment);
+      }
+    } else if (event.type === "payment.refunded") {
+      if (payment.status === "captured") {
+        this.update(payment, "refunded", { refundedAt: event.createdAt });
+        this.emit("refunded", payment);
+      }
+    }
+    return payment;
+  }
+
+  getPayment(paymentId: string): Payment | undefined {
+    return this.payments.get(paymentId);
+  }
+
+  // Newest first
+  getPayments(query: { status?: PaymentStatus; limit?: number } = {}) {
+    return Array.from(this.payments.values())
+      .filter((payment) => !query.status || payment.status === query.status)
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  stop() {
+    this.processor.stop?.();
+  }
+
+  private requirePayment(paymentId: string): Payment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new PaymentError(
+        "payment_not_found",
+        `Payment ${paymentId} not found`
+      );
+    }
+    return payment;
+  }
+
+  private update(
+    payment: Payment,
+    status: PaymentStatus,
+    changes: Partial<Payment> = {}
+  ): Payment {
+    Object.assign(payment, changes, { status, updatedAt: Date.now() });
+    return payment;
+  }
+}
@@ -0,0 +1,269 @@
+import type {
+  CitySnapshot,
+  PersistableService,
+  PersistedCollections,
+  StateStore,
+  StateStoreConfig,
+  StateStoreType,
+} from "../types/persistence.types";
+import { FileStateStore } from "./file-state-store.service";
+import { MemoryStateStore } from "./memory-state-store.service";
+import { MongoStateStore } from "./mongo-state-store.service";
+import { decodeState, encodeState } from "../utils/state-codec";
+
+// Bump when a service changes the shape of its exported collections
+export const CITY_SNAPSHOT_VERSION = 1;
+
+export function loadStateStoreConfig(
+  env: Record<string, string | undefined> = process.env
+): StateStoreConfig {
+  return {
+    type: (env.STATE_STORE || "file") as StateStoreType,
+    directory: env.STATE_DIR || "./data/state",
+    mongoUri: env.MONGODB_URI,
+    mongoDatabase: env.MONGODB_DB,
+    autosaveIntervalMs: env.STATE_AUTOSAVE_MS
+      ? parseInt(env.STATE_AUTOSAVE_MS, 10)
+      : 60 * 1000,
+  };
+}
+
+export function createStateStore(config: StateStoreConfig): StateStore {
+  switch (config.type) {
+    case "memory":
+      return new MemoryStateStore();
+    case "file":
+      return new FileStateStore(config.directory || "./data/state");
+    case "mongodb":
+      return new MongoStateStore(config.mongoUri!, config.mongoDatabase);
+    default:
+      throw new Error(
+        `Unknown STATE_STORE "${config.type}". Expected memory, file or mongodb`
+      );
+  }
+}
+
+// Snapshots registered services into the state store and restores them on boot
+export class PersistenceService {
+  private services: Map<string, PersistableService> = new Map();
+  private snapshotExcluded: Set<string> = new Set();
+  private autosaveTimer?: ReturnType<typeof setInterval>;
+  private connected = false;
+  private lastSnapshotAt?: number;
+
+  constructor(
+    private readonly stateStore: StateStore,
+    private readonly autosaveIntervalMs: number = 60 * 1000
+  ) {}
+
+  get storeType(): StateStoreType {
+    return this.stateStore.type;
+  }
+
+  register(...services: PersistableService[]) {
+    for (const service of services) {
+      this.services.set(service.persistenceKey, service);
+    }
+  }
+
+  // Persisted like any other service but never exported in a city snapshot
+  registerPrivate(...services: PersistableService[]) {
+    this.register(...services);
+    for (const service of services) {
+      this.snapshotExcluded.add(service.persistenceKey);
+    }
+  }
+
+  async restore(): Promise<string[]> {
+    await this.ensureConnected();
+    const restored: string[] = [];
+
+    for (const service of this.services.values()) {
+      const collections = Object.keys(service.exportState());
+      const state: PersistedCollections = {};
+      let hasData = false;
+
+      for (const collection of collections) {
+        const entries = await this.stateStore
+          .repository(this.collectionName(service, collection))
+          .findAll();
+        state[collection] = Object.fromEntries(
+          entries.map((entry) => [entry.id, entry.value])
+        );
+        hasData = hasData || entries.length > 0;
+      }
+
+      if (hasData) {
+        service.importState(state);
+        restored.push(service.persistenceKey);
+      }
+    }
+
+    if (restored.length > 0) {
+      console.log(
+        `💾 Restored state for ${restored.join(", ")} from ${
+          this.stateStore.type
+        } store`
+      );
+    }
+    return restored;
+  }
+
+  async snapshot(): Promise<void> {
+    await this.ensureConnected();
+
+    for (const service of this.services.values()) {
+      const state = service.exportState();
+      for (const [collection, entities] of Object.entries(state)) {
+        await this.stateStore
+          .repository(this.collectionName(service, collection))
+          .replaceAll(
+            Object.entries(entities).map(([id, value]) => ({ id, value }))
+          );
+      }
+    }
+    this.lastSnapshotAt = Date.now();
+  }
+
+  exportSnapshot(simulationTime?: number): CitySnapshot {
+    const services: Record<string, PersistedCollections> = {};
+    for (const service of this.services.values()) {
+      if (this.snapshotExcluded.has(service.persistenceKey)) continue;
+      services[service.persistenceKey] = encodeState(
+        service.exportState()
+      ) as PersistedCollections;
+    }
+
+    return {
+      version: CITY_SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      simulationTime,
+      services,
+    };
+  }
+
+  // Checks every service and collection before touching any of them, and puts
+  // back what was already imported when a service rejects its state, so a bad
+  // import is a no-op
+  async importSnapshot(snapshot: CitySnapshot): Promise<string[]> {
+    if (snapshot.version !== CITY_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported snapshot version ${snapshot.version}, expected ${CITY_SNAPSHOT_VERSION}`
+      );
+    }
+
+    const unknown = Object.keys(snapshot.services).filter(
+      (key) => !this.services.has(key) || this.snapshotExcluded.has(key)
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Snapshot contains unknown services: ${unknown.join(", ")}`
+      );
+    }
+
+    const states = new Map<string, PersistedCollections>();
+    for (const [key, encoded] of Object.entries(snapshot.services)) {
+      const state = decodeState<PersistedCollections>(encoded);
+      this.validateCollections(this.services.get(key)!, state);
+      states.set(key, state);
+    }
+
+    const previous = new Map<string, PersistedCollections>();
+    let current = "";
+    try {
+      for (const [key, state] of states) {
+        const service = this.services.get(key)!;
+        current = key;
+        previous.set(key, service.exportState());
+        service.importState(state);
+      }
+    } catch (error) {
+      for (const [key, state] of previous) {
+        this.services.get(key)!.importState(state);
+      }
+      throw new Error(
+        `Failed to import "${current}", the city state was left as it was: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    await this.snapshot();
+    return Array.from(states.keys());
+  }
+
+  startAutosave() {
+    if (this.autosaveTimer || this.autosaveIntervalMs <= 0) return;
+    this.autosaveTimer = setInterval(() => {
+      this.snapshot().catch((error) =>
+        console.error("Failed to autosave city state:", error)
+      );
+    }, this.autosaveIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.autosaveTimer) {
+      clearInterval(this.autosaveTimer);
+      this.autosaveTimer = undefined;
+    }
+    if (this.connected) {
+      await this.snapshot();
+      await this.stateStore.close();
+      this.connected = false;
+    }
+  }
+
+  getStatus() {
+    return {
+      store: this.stateStore.type,
+      services: Array.from(this.services.keys()),
+      autosaveIntervalMs: this.autosaveIntervalMs,
+      lastSnapshotAt: this.lastSnapshotAt,
+    };
+  }
+
+  private async ensureConnected() {
+    if (this.connected) return;
+    await this.stateStore.connect();
+    this.connected = true;
+  }
+
+  private collectionName(service: PersistableService, collection: string) {
+    return `${service.persistenceKey}_${collection}`;
+  }
+
+  // A service's state must carry exactly the collections it exports, each a
+  // record of entities by id
+  private validateCollections(
+    service: PersistableService,
+    state: PersistedCollections
+  ) {
+    const expected = Object.keys(service.exportState());
+    const received = Object.keys(state);
+    const problems = [
+      ...expected
+        .filter((collection) => !received.includes(collection))
+        .map((collection) => `missing "${collection}"`),
+      ...received
+        .filter((collection) => !expected.includes(collection))
+        .map((collection) => `unknown "${collection}"`),
+      ...received
+        .filter((collection) => {
+          const entities = state[collection];
+          return (
+            !entities ||
+            typeof entities !== "object" ||
+            Array.isArray(entities) ||
+            entities instanceof Map ||
+            entities instanceof Set
+          );
+        })
+        .map((collection) => `"${collection}" is not a record`),
+    ];
+    if (problems.length > 0) {
+      throw new Error(
+        `Invalid "${service.persistenceKey}" state: ${problems.join(", ")}`
+      );
+    }
+  }
+}
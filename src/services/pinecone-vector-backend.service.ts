@@ -0,0 +1,75 @@
+import { Pinecone } from "@pinecone-database/pinecone";
+import type {
+  VectorBackend,
+  VectorBackendMatch,
+  VectorBackendRecord,
+  VectorFilter,
+} from "../types/vector-store.types";
+
+export class PineconeVectorBackend implements VectorBackend {
+  readonly type = "pinecone" as const;
+  private client: Pinecone;
+  private index: any;
+
+  constructor(apiKey: string, private readonly indexName: string = "aicity") {
+    if (!apiKey) {
+      throw new Error("PINECONE_API_KEY environment variable is not set");
+    }
+    console.log("🔑 Initializing Pinecone client...");
+    this.client = new Pinecone({ apiKey });
+    this.index = this.client.index(indexName);
+  }
+
+  async query({
+    vector,
+    filter,
+    topK,
+    includeMetadata,
+  }: {
+    vector: number[];
+    filter?: VectorFilter;
+    topK: number;
+    includeMetadata: boolean;
+  }): Promise<{ matches: VectorBackendMatch[]; usage?: unknown }> {
+    const response = await this.index.query({
+      vector,
+      filter,
+      topK,
+      includeValues: false,
+      includeMetadata,
+    });
+
+    console.log("Raw Pinecone response:", JSON.stringify(response, null, 2));
+
+    if (!response || typeof response !== "object") {
+      console.warn("Invalid response from Pinecone");
+      return { matches: [] };
+    }
+
+    return {
+      matches: response.matches || [],
+      usage: response.usage,
+    };
+  }
+
+  async upsert(
+    records: VectorBackendRecord[],
+    namespace?: string
+  ): Promise<void> {
+    if (namespace) {
+      await this.index.namespace(namespace).upsert(records);
+      return;
+    }
+    await this.index.upsert(records);
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.client.describeIndex(this.indexName);
+      return true;
+    } catch (error) {
+      console.error("Pinecone ping failed:", error);
+      return false;
+    }
+  }
+}
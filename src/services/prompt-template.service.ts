@@ -0,0 +1,303 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { builtinPromptTemplates } from "../config/prompt-templates";
+import type {
+  PromptOutputQuery,
+  PromptOutputRecord,
+  PromptTemplate,
+  PromptTemplateDefinition,
+  PromptTemplateFile,
+  PromptTemplateReload,
+  PromptTemplateSummary,
+  RenderedPrompt,
+} from "../types/prompt-template.types";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export function loadPromptTemplateConfig(
+  env: Record<string, string | undefined> = process.env
+) {
+  return {
+    // JSON files adding template versions; unset runs on the built-in ones
+    directory: env.PROMPT_TEMPLATES_DIR || undefined,
+    maxStoredOutputs: 5000,
+  };
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const MAX_RECENT_RENDERS = 200;
+
+const placeholdersOf = (template: string) =>
+  Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+
+// Named, versioned LLM prompts. Each template has a built-in version and any
+// number of versions loaded from disk; the newest loaded version is used unless
+// an admin pins another. Services record which version produced each output.
+export class PromptTemplateService implements PersistableService {
+  readonly persistenceKey = "prompt_templates";
+  // Versions of each template: the built-in one, then files in name order
+  private templates: Map<string, PromptTemplate[]> = new Map();
+  private pinned: Map<string, string> = new Map();
+  private outputs: Map<string, PromptOutputRecord> = new Map();
+  // Recently rendered texts, so an LLM call can be traced back to its template
+  private recentRenders: Map<
+    string,
+    Pick<RenderedPrompt, "template" | "version">
+  > = new Map();
+
+  constructor(
+    readonly config = loadPromptTemplateConfig(),
+    private readonly builtins: PromptTemplateDefinition[] = builtinPromptTemplates
+  ) {
+    for (const definition of builtins) {
+      this.templates.set(definition.name, [
+        { ...definition, source: "builtin", loadedAt: Date.now() },
+      ]);
+    }
+    if (this.config.directory) {
+      for (const { path, error } of this.reload().errors) {
+        console.warn(`Skipped prompt template ${path}: ${error}`);
+      }
+    }
+  }
+
+  exportState(): PersistedCollections {
+    return {
+      pinned: mapToRecord(this.pinned),
+      outputs: mapToRecord(this.outputs),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.pinned = recordToMap<string>(state.pinned);
+    this.outputs = recordToMap<PromptOutputRecord>(state.outputs);
+  }
+
+  render(
+    name: string,
+    variables: Record<string, string | number | undefined>
+  ): RenderedPrompt {
+    const template = this.getTemplate(name);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template: ${name}`);
+    }
+    const rendered = {
+      template: name,
+      version: template.version,
+      text: template.template.replace(PLACEHOLDER, (_, key: string) =>
+        variables[key] === undefined ? "" : String(variables[key])
+      ),
+    };
+    this.recentRenders.delete(rendered.text);
+    this.recentRenders.set(rendered.text, {
+      template: rendered.template,
+      version: rendered.version,
+    });
+    if (this.recentRenders.size > MAX_RECENT_RENDERS) {
+      this.recentRenders.delete(this.recentRenders.keys().next().value!);
+    }
+    return rendered;
+  }
+
+  // The template a prompt was rendered from, also when text was appended to it
+  identify(
+    text: string
+  ): Pick<RenderedPrompt, "template" | "version"> | undefined {
+    const exact = this.recentRenders.get(text);
+    if (exact) return exact;
+    for (const [rendered, prompt] of this.recentRenders) {
+      if (text.startsWith(rendered)) return prompt;
+    }
+    return undefined;
+  }
+
+  recordOutput(
+    outputId: string,
+    prompt: Pick<RenderedPrompt, "template" | "version">
+  ) {
+    this.outputs.delete(outputId);
+    this.outputs.set(outputId, {
+      outputId,
+      template: prompt.template,
+      version: prompt.version,
+      createdAt: Date.now(),
+    });
+
+    // Maps keep insertion order, so the first key is the oldest
+    while (this.outputs.size > this.config.maxStoredOutputs) {
+      this.outputs.delete(this.outputs.keys().next().value!);
+    }
+  }
+
+  getOutput(outputId: string): PromptOutputRecord | undefined {
+    return this.outputs.get(outputId);
+  }
+
+  // Newest first
+  getOutputs(query: PromptOutputQuery = {}): PromptOutputRecord[] {
+    return Array.from(this.outputs.values())
+      .filter(
+        (output) =>
+          (!query.template || output.template === query.template) &&
+          (!query.version || output.version === query.version)
+      )
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  // The version in use, or a specific one
+  getTemplate(name: string, version?: string): PromptTemplate | undefined {
+    const versions = this.templates.get(name) || [];
+    const wanted = version ?? this.pinned.get(name);
+    return (
+      (wanted && versions.find((template) => template.version === wanted)) ||
+      (version ? undefined : versions[versions.length - 1])
+    );
+  }
+
+  list(): PromptTemplateSummary[] {
+    const counts = new Map<string, number>();
+    for (const output of this.outputs.values()) {
+      counts.set(output.template, (counts.get(output.template) || 0) + 1);
+    }
+    return Array.from(this.templates.keys()).map((name) =>
+      this.summarise(name, counts.get(name) || 0)
+    );
+  }
+
+  getSummary(name: string): PromptTemplateSummary | undefined {
+    if (!this.templates.has(name)) return undefined;
+    return this.summarise(
+      name,
+      this.getOutputs({ template: name, limit: Infinity }).length
+    );
+  }
+
+  // Uses one version of a template regardless of what is loaded later; null
+  // goes back to the newest
+  activate(name: string, version: string | null): PromptTemplateSummary {
+    if (!this.templates.has(name)) {
+      throw new PromptTemplateError(`Unknown prompt template: ${name}`);
+    }
+    if (version === null) {
+      this.pinned.delete(name);
+    } else if (this.getTemplate(name, version)) {
+      this.pinned.set(name, version);
+    } else {
+      throw new PromptTemplateError(
+        `Prompt template ${name} has no version ${version}`
+      );
+    }
+    return this.getSummary(name)!;
+  }
+
+  // Replaces every file version with what is in the directory now
+  reload(): PromptTemplateReload {
+    for (const [name, versions] of this.templates) {
+      this.templates.set(
+        name,
+        versions.filter((template) => template.source === "builtin")
+      );
+    }
+
+    const result: PromptTemplateReload = { loaded: [], errors: [] };
+    const directory = this.config.directory;
+    if (!directory || !existsSync(directory)) return result;
+
+    const files = readdirSync(directory)
+      .filter((file) => file.endsWith(".json"))
+      .sort();
+    for (const file of files) {
+      const path = join(directory, file);
+      try {
+        const template = this.parseFile(
+          JSON.parse(readFileSync(path, "utf-8")),
+          path
+        );
+        this.templates.get(template.name)!.push(template);
+        result.loaded.push(`${template.name}@${template.version}`);
+      } catch (error) {
+        result.errors.push({
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  }
+
+  private parseFile(file: PromptTemplateFile, path: string): PromptTemplate {
+    const builtin = this.builtins.find(
+      (definition) => definition.name === file?.name
+    );
+    if (!builtin) {
+      throw new PromptTemplateError(`Unknown prompt template: ${file?.name}`);
+    }
+    if (typeof file.version !== "string" || !file.version.trim()) {
+      throw new PromptTemplateError("version must be a non-empty string");
+    }
+    const template = Array.isArray(file.template)
+      ? file.template.join("\n")
+      : file.template;
+    if (typeof template !== "string" || !template.trim()) {
+      throw new PromptTemplateError("template must be a string or lines");
+    }
+    // Only variables the calling code fills in can be used
+    const unknown = placeholdersOf(template).filter(
+      (variable) => !builtin.variables.includes(variable)
+    );
+    if (unknown.length > 0) {
+      throw new PromptTemplateError(
+        `Unknown variables ${unknown.join(", ")}; ${
+          builtin.name
+        } provides ${builtin.variables.join(", ")}`
+      );
+    }
+    if (this.getTemplate(builtin.name, file.version)) {
+      throw new PromptTemplateError(
+        `${builtin.name} version ${file.version} is already loaded`
+      );
+    }
+
+    return {
+      name: builtin.name,
+      version: file.version,
+      description: file.description ?? builtin.description,
+      variables: builtin.variables,
+      template,
+      source: "file",
+      path,
+      loadedAt: Date.now(),
+    };
+  }
+
+  private summarise(name: string, outputs: number): PromptTemplateSummary {
+    const versions = this.templates.get(name)!;
+    const active = this.getTemplate(name)!;
+    return {
+      name,
+      description: active.description,
+      variables: active.variables,
+      activeVersion: active.version,
+      pinned: this.pinned.get(name) === active.version,
+      versions: versions.map((template) => ({
+        version: template.version,
+        template: template.template,
+        source: template.source,
+        path: template.path,
+        loadedAt: template.loadedAt,
+      })),
+      outputs,
+    };
+  }
+}
@@ -8,6 +8,8 @@ import { SmartInfrastructureService } from "./smart-infrastructure.service";
 import { EventBus } from "./event-bus.service";
 import { VectorStoreService } from "./vector-store.service";
 import type { DistrictInfrastructure } from "../types/smart-infrastructure.types";
+import { SimulationClock } from "./simulation-clock.service";
+import type { SeededRandom } from "../utils/seeded-random";
 
 interface ResourceNode {
   id: string;
@@ -36,44 +38,61 @@ interface ResourceTransfer {
 }
 
 export class ResourceDistributionService extends EventEmitter {
+  private readonly random: SeededRandom;
   private resourceNodes: Map<string, ResourceNode> = new Map();
   private distributionNetwork: DistributionNetwork = {
     nodes: new Map<string, ResourceNode>(),
     connections: [],
     efficiency: 1,
-    lastOptimized: Date.now(),
+    lastOptimized: 0,
   };
   private readonly eventBus: EventBus;
 
   constructor(
     private districtService: DistrictService,
     private smartInfrastructure: SmartInfrastructureService,
-    private vectorStore: VectorStoreService
+    private vectorStore: VectorStoreService,
+    private readonly clock: SimulationClock,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.random = clock.randomFor("resource-distribution");
+    this.distributionNetwork.lastOptimized = clock.now();
+    this.eventBus = eventBus;
     this.initializeDistribution();
     this.initializeDefaultNodes();
   }
 
   private async initializeDistribution() {
-    setInterval(() => this.optimizeNetwork(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.monitorResourceUsage(), 1000 * 60 * 5); // Every 5 minutes
-    setInterval(() => this.balanceLoads(), 1000 * 60 * 10); // Every 10 minutes
+    this.clock.every(
+      1000 * 60 * 15,
+      () => this.optimizeNetwork(),
+      "resource-distribution.optimizeNetwork"
+    ); // Every 15 minutes
+    this.clock.every(
+      1000 * 60 * 5,
+      () => this.monitorResourceUsage(),
+      "resource-distribution.monitorResourceUsage"
+    ); // Every 5 minutes
+    this.clock.every(
+      1000 * 60 * 10,
+      () => this.balanceLoads(),
+      "resource-distribution.balanceLoads"
+    ); // Every 10 minutes
   }
 
   private async optimizeNetwork() {
     const metrics = await this.calculateResourceMetrics();
     if (metrics.efficiency < 0.7) {
       await this.rebalanceResources();
-      this.eventBus.emit("resourcesOptimized", metrics);
+      this.eventBus.publish("resourcesOptimized", metrics);
     }
 
     const hotspots = await this.identifyDemandHotspots();
     const supplyChains = await this.calculateOptimalSupplyChains(hotspots);
     await this.adjustDistributionNetwork(supplyChains);
 
-    this.distributionNetwork.lastOptimized = Date.now();
+    this.distributionNetwork.lastOptimized = this.clock.now();
     this.emit("networkOptimized", metrics);
   }
 
@@ -123,7 +142,7 @@ export class ResourceDistributionService extends EventEmitter {
       );
       await this.transferLoad(node, targetNode, redistributionAmount);
 
-      this.eventBus.emit("loadRedistributed", {
+      this.eventBus.publish("loadRedistributed", {
         sourceId: node.id,
         targetId: targetNode.id,
         amount: redistributionAmount,
@@ -162,18 +181,18 @@ export class ResourceDistributionService extends EventEmitter {
       targetId: target.id,
       amount,
       efficiency: 0.9,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     };
 
     await this.vectorStore.upsert({
-      id: `transfer-${Date.now()}`,
+      id: `transfer-${this.clock.now()}`,
       values: await this.vectorStore.createEmbedding(
         `Resource transfer from ${source.id} to ${target.id}: ${amount}`
       ),
       metadata: {
         type: "district" as const,
         transfer: JSON.stringify(transfer),
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       },
     });
   }
@@ -0,0 +1,221 @@
+// Builds services on first use from their declared dependencies and runs their
+// lifecycle hooks in dependency order (stop runs in reverse)
+
+type Hook<T> = (service: T) => void | Promise<void>;
+
+export interface ServiceDefinition<
+  S,
+  K extends keyof S,
+  D extends keyof S,
+  L extends keyof S
+> {
+  // Built before this service and passed to create
+  deps?: readonly D[];
+  // Passed as forwarding proxies that build the real service on first access,
+  // which is how a pair of services that need each other is wired
+  lazy?: readonly L[];
+  create(deps: Pick<S, D | L>): S[K];
+  init?: Hook<S[K]>;
+  start?: Hook<S[K]>;
+  // Defaults to the service's own stop() when it has one
+  stop?: Hook<S[K]>;
+}
+
+export class ServiceCycleError extends Error {
+  constructor(readonly path: string[]) {
+    super(`Circular service dependency: ${path.join(" -> ")}`);
+    this.name = "ServiceCycleError";
+  }
+}
+
+export class UnknownServiceError extends Error {
+  constructor(readonly service: string, readonly requiredBy?: string) {
+    super(
+      requiredBy
+        ? `Unknown service "${service}" required by "${requiredBy}"`
+        : `Unknown service "${service}"`
+    );
+    this.name = "UnknownServiceError";
+  }
+}
+
+type ContainerState = "idle" | "starting" | "started" | "stopping" | "stopped";
+
+export class ServiceContainer<S extends object> {
+  private definitions = new Map<keyof S, ServiceDefinition<S, any, any, any>>();
+  private instances = new Map<keyof S, S[keyof S]>();
+  // Construction order, which is always a valid dependency order
+  private built: Array<keyof S> = [];
+  private resolving: Array<keyof S> = [];
+  private state: ContainerState = "idle";
+
+  register<
+    K extends keyof S,
+    D extends keyof S = never,
+    L extends keyof S = never
+  >(name: K, definition: ServiceDefinition<S, K, D, L>): this {
+    if (this.definitions.has(name)) {
+      throw new Error(`Service "${String(name)}" is already registered`);
+    }
+    this.definitions.set(name, definition);
+    return this;
+  }
+
+  keys(): Array<keyof S> {
+    return Array.from(this.definitions.keys());
+  }
+
+  // Services that take the given one as an eager or lazy dependency
+  dependentsOf(name: keyof S): Array<keyof S> {
+    return this.keys().filter((key) => {
+      const definition = this.definitions.get(key)!;
+      return (
+        (definition.deps || []).includes(name) ||
+        (definition.lazy || []).includes(name)
+      );
+    });
+  }
+
+  isBuilt(name: keyof S): boolean {
+    return this.instances.has(name);
+  }
+
+  get<K extends keyof S>(name: K): S[K] {
+    if (this.instances.has(name)) {
+      return this.instances.get(name) as S[K];
+    }
+
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new UnknownServiceError(
+        String(name),
+        this.resolving.length > 0
+          ? String(this.resolving[this.resolving.length - 1])
+          : undefined
+      );
+    }
+    if (this.resolving.includes(name)) {
+      const start = this.resolving.indexOf(name);
+      throw new ServiceCycleError(
+        [...this.resolving.slice(start), name].map(String)
+      );
+    }
+
+    this.resolving.push(name);
+    try {
+      const deps = {} as Record<keyof S, unknown>;
+      for (const dep of definition.deps || []) {
+        deps[dep as keyof S] = this.get(dep);
+      }
+      for (const dep of definition.lazy || []) {
+        deps[dep as keyof S] = this.forward(dep);
+      }
+      const instance = definition.create(deps as Pick<S, keyof S>);
+      this.instances.set(name, instance);
+      this.built.push(name);
+      return instance as S[K];
+    } finally {
+      this.resolving.pop();
+    }
+  }
+
+  // Builds every registered service, then runs all init hooks followed by all
+  // start hooks
+  async start(): Promise<void> {
+    if (this.state !== "idle") {
+      throw new Error(`Cannot start a container that is ${this.state}`);
+    }
+    this.state = "starting";
+    this.validate();
+    for (const name of this.definitions.keys()) {
+      this.get(name);
+    }
+    const order = [...this.built];
+    for (const name of order) {
+      await this.definitions.get(name)!.init?.(this.instances.get(name)!);
+    }
+    for (const name of order) {
+      await this.definitions.get(name)!.start?.(this.instances.get(name)!);
+    }
+    this.state = "started";
+  }
+
+  // Stops services in reverse construction order. A failing hook is logged so
+  // the rest of the city still shuts down.
+  async stop(): Promise<void> {
+    if (this.state === "stopping" || this.state === "stopped") return;
+    this.state = "stopping";
+    for (const name of [...this.built].reverse()) {
+      const instance = this.instances.get(name) as any;
+      const hook = this.definitions.get(name)!.stop;
+      try {
+        if (hook) {
+          await hook(instance);
+        } else if (typeof instance?.stop === "function") {
+          await instance.stop();
+        }
+      } catch (error) {
+        console.error(`Failed to stop service "${String(name)}":`, error);
+      }
+    }
+    this.state = "stopped";
+  }
+
+  getStatus() {
+    return {
+      state: this.state,
+      registered: this.definitions.size,
+      built: this.built.map(String),
+    };
+  }
+
+  // Reports unknown and circular eager dependencies before anything is built
+  private validate() {
+    const visiting: Array<keyof S> = [];
+    const done = new Set<keyof S>();
+
+    const visit = (name: keyof S, requiredBy?: keyof S) => {
+      if (done.has(name)) return;
+      const definition = this.definitions.get(name);
+      if (!definition) {
+        throw new UnknownServiceError(
+          String(name),
+          requiredBy === undefined ? undefined : String(requiredBy)
+        );
+      }
+      if (visiting.includes(name)) {
+        throw new ServiceCycleError(
+          [...visiting.slice(visiting.indexOf(name)), name].map(String)
+        );
+      }
+      visiting.push(name);
+      for (const dep of definition.deps || []) visit(dep, name);
+      visiting.pop();
+      for (const dep of definition.lazy || []) {
+        if (!this.definitions.has(dep)) {
+          throw new UnknownServiceError(String(dep), String(name));
+        }
+      }
+      done.add(name);
+    };
+
+    for (const name of this.definitions.keys()) visit(name);
+  }
+
+  private forward<K extends keyof S>(name: K): S[K] {
+    const resolve = () => this.get(name) as object;
+    return new Proxy({} as object, {
+      get(_, property) {
+        const target = resolve();
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+      set(_, property, value) {
+        return Reflect.set(resolve(), property, value);
+      },
+      has(_, property) {
+        return Reflect.has(resolve(), property);
+      },
+    }) as S[K];
+  }
+}
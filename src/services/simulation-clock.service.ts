@@ -0,0 +1,219 @@
+import { EventEmitter } from "events";
+import type {
+  ClockTask,
+  SimulationClockConfig,
+  SimulationClockState,
+} from "../types/simulation.types";
+import { SeededRandom } from "../utils/seeded-random";
+
+export function loadSimulationClockConfig(
+  env: Record<string, string | undefined> = process.env
+): SimulationClockConfig {
+  return {
+    seed: env.SIMULATION_SEED
+      ? parseInt(env.SIMULATION_SEED, 10)
+      : Math.floor(Math.random() * 2 ** 31),
+    startTime: env.SIMULATION_START_TIME
+      ? new Date(env.SIMULATION_START_TIME).getTime()
+      : Date.now(),
+    speed: env.SIMULATION_SPEED ? parseFloat(env.SIMULATION_SPEED) : 1,
+    tickMs: env.SIMULATION_TICK_MS
+      ? parseInt(env.SIMULATION_TICK_MS, 10)
+      : 1000,
+    autoStart: env.SIMULATION_PAUSED !== "true",
+  };
+}
+
+// Virtual time source for the simulation. Services schedule work here instead of
+// setInterval so the whole city can be paused, stepped and sped up together.
+export class SimulationClock extends EventEmitter {
+  readonly random: SeededRandom;
+  private currentTime: number;
+  private speed: number;
+  private tasks: Map<string, ClockTask> = new Map();
+  private driver?: ReturnType<typeof setInterval>;
+  private taskCounter = 0;
+  private processing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: SimulationClockConfig) {
+    super();
+    this.random = new SeededRandom(config.seed);
+    this.currentTime = config.startTime;
+    this.speed = config.speed;
+
+    if (config.autoStart) {
+      this.resume();
+    }
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  isRunning(): boolean {
+    return this.driver !== undefined;
+  }
+
+  // Independent PRNG stream per consumer so adding a service doesn't shift the others
+  randomFor(label: string): SeededRandom {
+    return this.random.fork(label);
+  }
+
+  every(intervalMs: number, callback: () => unknown, label = "task"): string {
+    if (intervalMs <= 0) {
+      throw new Error("Clock interval must be positive");
+    }
+    return this.schedule({
+      label,
+      dueAt: this.currentTime + intervalMs,
+      interval: intervalMs,
+      callback,
+    });
+  }
+
+  after(delayMs: number, callback: () => unknown, label = "timeout"): string {
+    return this.schedule({
+      label,
+      dueAt: this.currentTime + Math.max(0, delayMs),
+      callback,
+    });
+  }
+
+  cancel(taskId: string): boolean {
+    return this.tasks.delete(taskId);
+  }
+
+  pause() {
+    if (!this.driver) return;
+    clearInterval(this.driver);
+    this.driver = undefined;
+    this.emit("paused", this.getState());
+  }
+
+  resume() {
+    if (this.driver) return;
+    this.driver = setInterval(() => {
+      this.advance(this.config.tickMs * this.speed, false).catch((error) =>
+        console.error("Simulation clock tick failed:", error)
+      );
+    }, this.config.tickMs);
+    this.emit("resumed", this.getState());
+  }
+
+  setSpeed(multiplier: number) {
+    if (!(multiplier > 0)) {
+      throw new Error("Speed multiplier must be greater than 0");
+    }
+    this.speed = multiplier;
+    this.emit("speedChanged", this.getState());
+  }
+
+  async step(ms: number): Promise<SimulationClockState> {
+    if (!(ms > 0)) {
+      throw new Error("Step duration must be greater than 0");
+    }
+    await this.advance(ms, true);
+    this.emit("stepped", this.getState());
+    return this.getState();
+  }
+
+  // Moves the clock to a restored time, for instance from a city snapshot.
+  // Scheduled tasks move with it and keep the time they had left to run.
+  async restoreTime(time: number): Promise<SimulationClockState> {
+    if (!Number.isFinite(time)) {
+      throw new Error("Restored time must be a finite number");
+    }
+    this.processing = this.processing.then(() => {
+      const shift = time - this.currentTime;
+      for (const task of this.tasks.values()) {
+        task.dueAt += shift;
+      }
+      this.currentTime = time;
+    });
+    await this.processing;
+    this.emit("timeRestored", this.getState());
+    return this.getState();
+  }
+
+  // Stops the driver and drops every scheduled task
+  stop() {
+    this.pause();
+    this.tasks.clear();
+  }
+
+  getState(): SimulationClockState {
+    return {
+      now: this.currentTime,
+      isoTime: new Date(this.currentTime).toISOString(),
+      running: this.isRunning(),
+      speed: this.speed,
+      seed: this.config.seed,
+      tickMs: this.config.tickMs,
+      startTime: this.config.startTime,
+      elapsedMs: this.currentTime - this.config.startTime,
+      scheduledTasks: Array.from(this.tasks.values())
+        .sort((a, b) => a.dueAt - b.dueAt)
+        .map(({ id, label, dueAt, interval }) => ({
+          id,
+          label,
+          dueAt,
+          interval,
+        })),
+    };
+  }
+
+  private schedule(task: Omit<ClockTask, "id">): string {
+    const id = `${task.label}-${++this.taskCounter}`;
+    this.tasks.set(id, { ...task, id });
+    return id;
+  }
+
+  // Advances are serialised; manual steps also await each task so a stepped run
+  // is reproducible, while realtime ticks fire tasks like setInterval would
+  private advance(ms: number, awaitTasks: boolean): Promise<void> {
+    this.processing = this.processing.then(() =>
+      this.runUntil(this.currentTime + ms, awaitTasks)
+    );
+    return this.processing;
+  }
+
+  private async runUntil(target: number, awaitTasks: boolean) {
+    while (true) {
+      const next = this.nextDueTask(target);
+      if (!next) break;
+
+      this.currentTime = Math.max(this.currentTime, next.dueAt);
+      if (next.interval) {
+        next.dueAt += next.interval;
+      } else {
+        this.tasks.delete(next.id);
+      }
+
+      const label = next.label;
+      try {
+        const result = next.callback();
+        if (awaitTasks) {
+          await result;
+        } else if (result instanceof Promise) {
+          result.catch((error) =>
+            console.error(`Scheduled task ${label} failed:`, error)
+          );
+        }
+      } catch (error) {
+        console.error(`Scheduled task ${label} failed:`, error);
+      }
+    }
+    this.currentTime = Math.max(this.currentTime, target);
+  }
+
+  private nextDueTask(target: number): ClockTask | undefined {
+    let next: ClockTask | undefined;
+    for (const task of this.tasks.values()) {
+      if (task.dueAt > target) continue;
+      if (!next || task.dueAt < next.dueAt) {
+        next = task;
+      }
+    }
+    return next;
+  }
+}
@@ -7,8 +7,10 @@ import {
 import { VectorStoreService } from "./vector-store.service";
 import { MetricsService } from "./metrics.service";
 import { TransportService } from "./transport.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 export class SmartInfrastructureService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private systems: Map<string, SmartSystem> = new Map();
   private districts: Map<string, DistrictInfrastructure[]> = new Map();
 
@@ -32,7 +34,10 @@ export class SmartInfrastructureService extends EventEmitter {
 
   private initializeMetricsTracking() {
     // Update metrics every 5 minutes
-    setInterval(() => this.updateInfrastructureMetrics(), 5 * 60 * 1000);
+    this.timers.setInterval(
+      () => this.updateInfrastructureMetrics(),
+      5 * 60 * 1000
+    );
   }
 
   private async updateInfrastructureMetrics(transportMetrics?: any) {
@@ -259,4 +264,8 @@ export class SmartInfrastructureService extends EventEmitter {
       `Initialized ${this.systems.size} smart infrastructure systems`
     );
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
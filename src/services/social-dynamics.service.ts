@@ -9,6 +9,7 @@ import { CitizenService } from "./citizen.service";
 import { WeatherService } from "./weather.service";
 import { CityRhythmService } from "./city-rhythm.service";
 import { EventBus } from "./event-bus.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 // Update the type to include AI-specific activities
 type ExtendedActivityType =
@@ -18,6 +19,7 @@ type ExtendedActivityType =
   | "smart_community_gathering";
 
 export class SocialDynamicsService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private activities: Map<string, SocialActivity> = new Map();
   private communityMood: Record<string, number> = {}; // by district
   private readonly eventBus: EventBus;
@@ -27,10 +29,11 @@ export class SocialDynamicsService extends EventEmitter {
     private departmentService: DepartmentService,
     private citizenService: CitizenService,
     private weatherService: WeatherService,
-    private cityRhythmService: CityRhythmService
+    private cityRhythmService: CityRhythmService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.initializeSocialSystem();
   }
 
@@ -44,13 +47,25 @@ export class SocialDynamicsService extends EventEmitter {
       "rhythmUpdated",
       this.adjustActivities.bind(this)
     );
-    this.eventBus.on("aiAgentAction", this.handleAIAgentAction.bind(this));
-    this.eventBus.on("culturalEvent", this.handleCulturalEvent.bind(this));
+    this.eventBus.subscribe(
+      "aiAgentAction",
+      this.handleAIAgentAction.bind(this)
+    );
+    this.eventBus.subscribe(
+      "culturalEvent",
+      this.handleCulturalEvent.bind(this)
+    );
 
     // Start social simulation cycles
-    setInterval(() => this.simulateSocialDynamics(), 1000 * 60 * 15); // Every 15 minutes
-    setInterval(() => this.analyzeAIHumanInteractions(), 1000 * 60 * 10); // Every 10 minutes
-    setInterval(() => this.updateSocialMetrics(), 1000 * 60 * 5); // Every 5 minutes
+    this.timers.setInterval(
+      () => this.simulateSocialDynamics(),
+      1000 * 60 * 15
+    ); // Every 15 minutes
+    this.timers.setInterval(
+      () => this.analyzeAIHumanInteractions(),
+      1000 * 60 * 10
+    ); // Every 10 minutes
+    this.timers.setInterval(() => this.updateSocialMetrics(), 1000 * 60 * 5); // Every 5 minutes
   }
 
   private async analyzeAIHumanInteractions() {
@@ -60,7 +75,7 @@ export class SocialDynamicsService extends EventEmitter {
 
     for (const activity of activities) {
       const aiImpact = await this.calculateAIImpact(activity);
-      this.eventBus.emit("aiInteractionAnalyzed", {
+      this.eventBus.publish("aiInteractionAnalyzed", {
         activityId: activity.id,
         impact: aiImpact,
         timestamp: Date.now(),
@@ -138,7 +153,7 @@ export class SocialDynamicsService extends EventEmitter {
       };
 
       const impact = await this.calculateAIImpact(newActivity);
-      this.eventBus.emit("aiSocialImpactAnalyzed", {
+      this.eventBus.publish("aiSocialImpactAnalyzed", {
         actionId: action.id,
         impact,
         timestamp: Date.now(),
@@ -150,7 +165,7 @@ export class SocialDynamicsService extends EventEmitter {
     const aiParticipation = await this.analyzeAIParticipation(event);
     if (aiParticipation.level > 0.3) {
       // Significant AI involvement
-      this.eventBus.emit("aiCulturalParticipation", {
+      this.eventBus.publish("aiCulturalParticipation", {
         eventId: event.id,
         participation: aiParticipation,
         timestamp: Date.now(),
@@ -445,10 +460,11 @@ export class SocialDynamicsService extends EventEmitter {
       aiIntegrationLevel: await this.calculateAIIntegrationLevel(activities),
     };
 
-    this.eventBus.emit("socialMetricsUpdated", metrics);
+    this.eventBus.publish("socialMetricsUpdated", metrics);
   }
 
   private calculateAverageImpact(activities: SocialActivity[]): number {
+    if (activities.length === 0) return 0;
     return (
       activities.reduce((sum, a) => sum + a.impact.satisfaction, 0) /
       activities.length
@@ -458,6 +474,7 @@ export class SocialDynamicsService extends EventEmitter {
   private async calculateAIIntegrationLevel(
     activities: SocialActivity[]
   ): Promise<number> {
+    if (activities.length === 0) return 0;
     const aiActivities = activities.filter((a) =>
       [
         "ai_assisted_learning",
@@ -500,4 +517,8 @@ export class SocialDynamicsService extends EventEmitter {
       : 1.0;
     return baseImpact * aiInvolvement;
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
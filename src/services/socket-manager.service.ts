@@ -4,6 +4,7 @@ import { AgentCollaborationService } from "./agent-collaboration.service";
 import { CityEvent } from "../types/city-events";
 import { getAgent } from "../config/city-agents";
 import { EventBus } from "./event-bus.service";
+import { ServiceTimers } from "../utils/service-timers";
 
 interface WebSocketConnection extends WebSocket {
   sessionId?: string;
@@ -19,13 +20,17 @@ interface BroadcastOptions {
 }
 
 export class SocketManagerService extends EventEmitter {
+  private readonly timers = new ServiceTimers();
   private connections: Map<string, Set<WebSocketConnection>> = new Map();
   private readonly eventBus: EventBus;
   private heartbeatInterval!: NodeJS.Timer;
 
-  constructor(private collaborationService: AgentCollaborationService) {
+  constructor(
+    private collaborationService: AgentCollaborationService,
+    eventBus: EventBus
+  ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.setupCollaborationListeners();
     this.setupEventBusListeners();
     this.initializeHeartbeat();
@@ -70,7 +75,7 @@ export class SocketManagerService extends EventEmitter {
   }
 
   private setupEventBusListeners() {
-    this.eventBus.on("emergencyAlert", (alert) => {
+    this.eventBus.subscribe("emergencyAlert", (alert) => {
       this.broadcastToAll(
         {
           type: "emergency",
@@ -80,7 +85,7 @@ export class SocketManagerService extends EventEmitter {
       );
     });
 
-    this.eventBus.on("cityMetricsUpdate", (metrics) => {
+    this.eventBus.subscribe("cityMetricsUpdate", (metrics) => {
       this.broadcastToAll(
         {
           type: "metrics",
@@ -90,7 +95,7 @@ export class SocketManagerService extends EventEmitter {
       );
     });
 
-    this.eventBus.on("districtEvent", (event) => {
+    this.eventBus.subscribe("districtEvent", (event) => {
       this.broadcastToAll(
         {
           type: "districtUpdate",
@@ -284,7 +289,7 @@ export class SocketManagerService extends EventEmitter {
   }
 
   private initializeHeartbeat() {
-    this.heartbeatInterval = setInterval(() => {
+    this.heartbeatInterval = this.timers.setInterval(() => {
       const now = Date.now();
       for (const connections of this.connections.values()) {
         for (const client of connections) {
@@ -303,7 +308,7 @@ export class SocketManagerService extends EventEmitter {
   }
 
   private handleAgentAction(ws: WebSocketConnection, data: any) {
-    this.eventBus.emit("agentAction", {
+    this.eventBus.publish("agentAction", {
       sessionId: ws.sessionId,
       agentId: ws.agentId,
       action: data.action,
@@ -312,10 +317,14 @@ export class SocketManagerService extends EventEmitter {
   }
 
   private handleDistrictUpdate(ws: WebSocketConnection, data: any) {
-    this.eventBus.emit("districtUpdate", {
+    this.eventBus.publish("districtUpdate", {
       district: ws.district,
       update: data.update,
       timestamp: Date.now(),
     });
   }
+
+  stop() {
+    this.timers.clearAll();
+  }
 }
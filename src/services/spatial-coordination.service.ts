@@ -55,18 +55,22 @@ export class SpatialCoordinationService extends EventEmitter {
   constructor(
     private vectorStore: VectorStoreService,
     private districtService: DistrictService,
-    private emergencyService: EmergencyService
+    private emergencyService: EmergencyService,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.eventBus = eventBus;
     this.initializeCoordinateSystem();
     this.setupEventListeners();
   }
 
   private setupEventListeners() {
-    this.eventBus.on("emergencyAlert", this.handleEmergency.bind(this));
-    this.eventBus.on("congestionDetected", this.optimizeTraffic.bind(this));
-    this.eventBus.on("aiSystemUpdate", this.updateAINodes.bind(this));
+    this.eventBus.subscribe("emergencyAlert", this.handleEmergency.bind(this));
+    this.eventBus.subscribe(
+      "congestionDetected",
+      this.optimizeTraffic.bind(this)
+    );
+    this.eventBus.subscribe("aiSystemUpdate", this.updateAINodes.bind(this));
   }
 
   async moveAgent(
@@ -126,7 +130,7 @@ export class SpatialCoordinationService extends EventEmitter {
 
   private async handleHighCongestion(plan: MovementPlan) {
     const optimizedRoute = await this.optimizeRoute(plan);
-    this.eventBus.emit("congestionHandled", {
+    this.eventBus.publish("congestionHandled", {
       area: plan.path[0],
       congestionLevel: plan.congestionLevel,
       optimizedRoute,
@@ -249,7 +253,7 @@ export class SpatialCoordinationService extends EventEmitter {
     const nearbyNodes = this.findNodesInRadius(alert.location, 1.0);
     for (const node of nearbyNodes) {
       node.smartFeatures!.emergencyResponse = true;
-      this.eventBus.emit("nodeStateChanged", {
+      this.eventBus.publish("nodeStateChanged", {
         nodeId: node.id,
         type: "emergency_mode",
         active: true,
@@ -293,7 +297,7 @@ export class SpatialCoordinationService extends EventEmitter {
 
   private async adjustTrafficControl(node: LocationNode, congestionData: any) {
     // Implementation for smart traffic control adjustment
-    this.eventBus.emit("trafficControlAdjusted", {
+    this.eventBus.publish("trafficControlAdjusted", {
       nodeId: node.id,
       adjustments: {
         signalTiming: congestionData.recommendedTiming,
@@ -1,6 +1,8 @@
 import { Together } from "together-ai";
 import type { Agent } from "../types/agent.types";
 import type { Message } from "../types/conversation.types";
+import type { LLMProvider, TextGenerationOptions } from "../types/llm.types";
+import { reportProviderUsage } from "../utils/llm-usage-context";
 
 interface RetryConfig {
   maxRetries: number;
@@ -22,7 +24,8 @@ interface ConversationMessage {
   timestamp?: number;
 }
 
-export class TogetherService {
+export class TogetherService implements LLMProvider {
+  readonly name = "together" as const;
   private client: Together;
   private readonly embeddingModel = "togethercomputer/m2-bert-80M-8k-retrieval";
   private readonly chatModel = "meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo";
@@ -141,6 +144,7 @@ export class TogetherService {
     const conversationId =
       messages[messages.length - 1]?.metadata?.conversationId;
     const maxRetries = this.retryConfig.maxRetries;
+    const model = agent.model || this.chatModel;
 
     // Check for exact conversation state duplicates
     if (
@@ -158,6 +162,7 @@ export class TogetherService {
         `${conversationId}:response`
       );
       if (cachedResponse) {
+        reportProviderUsage({ cacheHit: true });
         return cachedResponse.content;
       }
     }
@@ -167,37 +172,25 @@ export class TogetherService {
         await this.delay(attempt === 0 ? 2000 : 5000);
         await this.waitForRateLimit();
 
-        const effectiveSystemPrompt = (
-          systemPrompt ||
-          agent.systemPrompt ||
-          "You are an AI assistant living in Neurova City."
-        ).trim();
-
-        const recentMessages = messages.slice(-maxHistory);
-
-        const formattedMessages = [
-          {
-            role: "system" as const,
-            content: effectiveSystemPrompt + "\n\nAssistant: ",
-          },
-          ...recentMessages.map((msg) => ({
-            role:
-              msg.role === "user" ? ("user" as const) : ("assistant" as const),
-            content:
-              msg.content.trim() +
-              (msg.role === "user" ? "\n\nAssistant: " : "\n\nHuman: "),
-          })),
-        ];
+        const effectiveSystemPrompt = this.effectiveSystemPrompt(
+          agent,
+          systemPrompt
+        );
+        const formattedMessages = this.formatChatMessages(
+          effectiveSystemPrompt,
+          messages,
+          maxHistory
+        );
 
         console.log("Sending request to Together API:", {
-          model: this.chatModel,
+          model,
           messageCount: formattedMessages.length,
           historyLength: maxHistory,
           systemPrompt: effectiveSystemPrompt.substring(0, 100) + "...",
         });
 
         const response = await this.client.chat.completions.create({
-          model: this.chatModel,
+          model,
           messages: formattedMessages,
           temperature: Math.min(
             (agent.temperature || 0.7) + 0.05 * attempt,
@@ -210,6 +203,11 @@ export class TogetherService {
           stop: this.defaultStopSequences,
           stream: false,
         });
+        reportProviderUsage({
+          model,
+          promptTokens: response.usage?.prompt_tokens,
+          completionTokens: response.usage?.completion_tokens,
+        });
 
         const content = response.choices[0]?.message?.content?.trim();
 
@@ -261,6 +259,67 @@ export class TogetherService {
     throw new Error("Response generation failed after all retries");
   }
 
+  // Streams straight from the API, so unlike generateResponse there is no
+  // duplicate check or retry once tokens have been sent
+  async *streamResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory: number = 10
+  ): AsyncGenerator<string> {
+    await this.waitForRateLimit();
+
+    const model = agent.model || this.chatModel;
+    reportProviderUsage({ model });
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages: this.formatChatMessages(
+        this.effectiveSystemPrompt(agent, systemPrompt),
+        messages,
+        maxHistory
+      ),
+      temperature: agent.temperature || 0.7,
+      max_tokens: 512,
+      top_p: 0.95,
+      frequency_penalty: 0.5,
+      presence_penalty: 0.5,
+      stop: this.defaultStopSequences,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private effectiveSystemPrompt(agent: Agent, systemPrompt?: string) {
+    return (
+      systemPrompt ||
+      agent.systemPrompt ||
+      "You are an AI assistant living in Neurova City."
+    ).trim();
+  }
+
+  private formatChatMessages(
+    systemPrompt: string,
+    messages: Message[],
+    maxHistory: number
+  ) {
+    return [
+      {
+        role: "system" as const,
+        content: systemPrompt + "\n\nAssistant: ",
+      },
+      ...messages.slice(-maxHistory).map((msg) => ({
+        role: msg.role === "user" ? ("user" as const) : ("assistant" as const),
+        content:
+          msg.content.trim() +
+          (msg.role === "user" ? "\n\nAssistant: " : "\n\nHuman: "),
+      })),
+    ];
+  }
+
   private cleanStopSequences(content: string): string {
     let cleaned = content;
     for (const stop of this.defaultStopSequences) {
@@ -271,24 +330,17 @@ export class TogetherService {
 
   async generateText(
     prompt: string,
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      topP?: number;
-      topK?: number;
-      repetitionPenalty?: number;
-      stopSequences?: string[];
-      model?: string;
-    } = {}
+    options: TextGenerationOptions = {}
   ): Promise<string> {
-    const defaultModel = "meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo";
+    const model =
+      options.model || "meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo";
 
     for (let attempt = 0; attempt < this.retryConfig.maxRetries; attempt++) {
       try {
         await this.waitForRateLimit();
 
         const response = await this.client.completions.create({
-          model: options.model || defaultModel,
+          model,
           prompt: prompt + "\n\nAssistant: ",
           max_tokens: options.maxTokens || 512,
           temperature: options.temperature || 0.7,
@@ -298,6 +350,11 @@ export class TogetherService {
           stop: options.stopSequences || this.defaultStopSequences,
           stream: false,
         });
+        reportProviderUsage({
+          model,
+          promptTokens: response.usage?.prompt_tokens,
+          completionTokens: response.usage?.completion_tokens,
+        });
 
         const generatedText = response.choices[0]?.text?.trim();
 
@@ -14,8 +14,20 @@ import { CityRhythmService } from "./city-rhythm.service";
 import { EmergencyService } from "./emergency.service";
 import { DistrictService } from "./district.service";
 import { MetricsService } from "./metrics.service";
-
-export class TransportService extends EventEmitter {
+import { SimulationClock } from "./simulation-clock.service";
+import type { SeededRandom } from "../utils/seeded-random";
+import type {
+  PersistableService,
+  PersistedCollections,
+} from "../types/persistence.types";
+import { mapToRecord, recordToMap } from "../utils/state-codec";
+
+export class TransportService
+  extends EventEmitter
+  implements PersistableService
+{
+  readonly persistenceKey = "transport";
+  private readonly random: SeededRandom;
   private routes: Map<string, TransportRoute> = new Map();
   private stops: Map<string, TransportStop> = new Map();
   private systemEfficiency: number = 1.0;
@@ -27,9 +39,11 @@ export class TransportService extends EventEmitter {
     private cityRhythmService: CityRhythmService,
     private emergencyService: EmergencyService,
     private districtService: DistrictService,
-    private metricsService: MetricsService
+    private metricsService: MetricsService,
+    private readonly clock: SimulationClock
   ) {
     super();
+    this.random = clock.randomFor("transport");
     this.initializeTransportSystem();
     this.setupEventListeners();
     this.startMetricsTracking();
@@ -44,8 +58,16 @@ export class TransportService extends EventEmitter {
     await this.generateBaseNetwork();
 
     // Start simulation cycles
-    setInterval(() => this.updateTransportMetrics(), 1000 * 60 * 5); // Every 5 minutes
-    setInterval(() => this.simulatePassengerFlow(), 1000 * 60); // Every minute
+    this.clock.every(
+      1000 * 60 * 5,
+      () => this.updateTransportMetrics(),
+      "transport.updateTransportMetrics"
+    ); // Every 5 minutes
+    this.clock.every(
+      1000 * 60,
+      () => this.simulatePassengerFlow(),
+      "transport.simulatePassengerFlow"
+    ); // Every minute
   }
 
   private setupEventListeners() {
@@ -81,7 +103,7 @@ export class TransportService extends EventEmitter {
 
   private async storeRouteUpdate(route: TransportRoute) {
     await this.vectorStore.upsert({
-      id: `transport-route-${route.id}-${Date.now()}`,
+      id: `transport-route-${route.id}-${this.clock.now()}`,
       values: await this.vectorStore.createEmbedding(
         `${route.mode} route ${route.name} with efficiency ${route.metrics.efficiency}`
       ),
@@ -90,7 +112,7 @@ export class TransportService extends EventEmitter {
         routeId: route.id,
         mode: route.mode,
         efficiency: route.metrics.efficiency,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       },
     });
   }
@@ -107,7 +129,7 @@ export class TransportService extends EventEmitter {
 
   private createRoute(mode: TransportMode): TransportRoute {
     return {
-      id: crypto.randomUUID(),
+      id: this.random.uuid(),
       mode,
       type:
         mode === "subway"
@@ -164,7 +186,7 @@ export class TransportService extends EventEmitter {
       ],
       weekend: [{ start: 8, end: 23, frequency: 20, capacity: 0.6 }],
       frequency: mode === "subway" ? 5 : mode === "tram" ? 10 : 15,
-      lastUpdated: Date.now(),
+      lastUpdated: this.clock.now(),
     };
   }
 
@@ -313,7 +335,7 @@ export class TransportService extends EventEmitter {
   private createDefaultRoutes(): TransportRoute[] {
     return [
       {
-        id: crypto.randomUUID(),
+        id: this.random.uuid(),
         mode: "bus" as TransportMode,
         name: "Downtown Express",
         type: "bus",
@@ -539,7 +561,7 @@ export class TransportService extends EventEmitter {
         { start: 12, end: 20, frequency: 45, capacity: 30 },
       ],
       frequency: 30,
-      lastUpdated: Date.now(),
+      lastUpdated: this.clock.now(),
     };
   }
 
@@ -559,7 +581,7 @@ export class TransportService extends EventEmitter {
             stops: [
               ...route.stops,
               {
-                id: crypto.randomUUID(),
+                id: this.random.uuid(),
                 name: adjustment.suggestedStops.primaryStop.name,
                 location: {
                   coordinates:
@@ -600,7 +622,7 @@ export class TransportService extends EventEmitter {
           for (const stop of adjustment.temporaryStops) {
             const districtId = await this.findNearestDistrict(stop.coordinates);
             updatedStops.push({
-              id: crypto.randomUUID(),
+              id: this.random.uuid(),
               name: stop.name,
               location: {
                 coordinates: stop.coordinates,
@@ -718,7 +740,11 @@ export class TransportService extends EventEmitter {
 
   private startMetricsTracking() {
     // Update metrics every 5 minutes
-    setInterval(() => this.updateTransportMetrics(), 5 * 60 * 1000);
+    this.clock.every(
+      5 * 60 * 1000,
+      () => this.updateTransportMetrics(),
+      "transport.updateTransportMetrics"
+    );
   }
 
   private async adjustService(rhythm: { mood: string; intensity: number }) {
@@ -740,7 +766,7 @@ export class TransportService extends EventEmitter {
     this.emit("serviceAdjusted", {
       rhythmMood: rhythm.mood,
       adjustmentFactor,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     });
   }
 
@@ -780,7 +806,7 @@ export class TransportService extends EventEmitter {
       ...schedule,
       weekday: adjustedWeekday,
       weekend: adjustedWeekend,
-      lastUpdated: Date.now(),
+      lastUpdated: this.clock.now(),
     };
   }
 
@@ -801,4 +827,16 @@ export class TransportService extends EventEmitter {
       rhythm.mood === "busy" ? 1.2 : rhythm.mood === "quiet" ? 0.8 : 1.0;
     return Math.max(0.3, Math.min(1.0, baseCapacity * factor));
   }
+
+  exportState(): PersistedCollections {
+    return {
+      routes: mapToRecord(this.routes),
+      stops: mapToRecord(this.stops),
+    };
+  }
+
+  importState(state: PersistedCollections) {
+    this.routes = recordToMap<TransportRoute>(state.routes);
+    this.stops = recordToMap<TransportStop>(state.stops);
+  }
 }
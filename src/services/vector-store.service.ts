@@ -1,11 +1,16 @@
 // src/services/vector-store.service.ts
-import { Pinecone } from "@pinecone-database/pinecone";
 import {
   RecordMetadata,
   RecordMetadataValue,
 } from "@pinecone-database/pinecone";
-import { TogetherService } from "./together.service";
-import { VectorStoreType } from "../types/vector-store.types";
+import type { LLMProvider } from "../types/llm.types";
+import type {
+  VectorBackend,
+  VectorBackendType,
+  VectorFilter,
+} from "../types/vector-store.types";
+import { PineconeVectorBackend } from "./pinecone-vector-backend.service";
+import { MemoryVectorBackend } from "./memory-vector-backend.service";
 import type { ConversationStyle } from "../types/common.types";
 import type { Message } from "../types/conversation.types";
 
@@ -64,22 +69,31 @@ export interface CCTVMetadata extends BaseMetadata {
   alert_level: string;
 }
 
+export function createVectorBackend(
+  env: Record<string, string | undefined> = process.env
+): VectorBackend {
+  const type = (env.VECTOR_BACKEND || "pinecone") as VectorBackendType;
+
+  switch (type) {
+    case "memory":
+      return new MemoryVectorBackend(env.VECTOR_STORE_FILE);
+    case "pinecone":
+      return new PineconeVectorBackend(env.PINECONE_API_KEY!);
+    default:
+      throw new Error(
+        `Unknown VECTOR_BACKEND "${type}". Expected "pinecone" or "memory"`
+      );
+  }
+}
+
 export class VectorStoreService {
-  private client: Pinecone;
-  private index: any;
+  constructor(
+    private togetherService: LLMProvider,
+    private readonly backend: VectorBackend = createVectorBackend()
+  ) {}
 
-  constructor(private togetherService: TogetherService) {
-    console.log("🔑 Initializing Pinecone client...");
-    this.client = new Pinecone({
-      apiKey: process.env.PINECONE_API_KEY!,
-    });
-    this.index = this.client.index<
-      | ChatMetadata
-      | LocationMetadata
-      | CulturalHotspotMetadata
-      | AISystemMetadata
-      | CCTVMetadata
-    >("aicity");
+  get backendType(): VectorBackendType {
+    return this.backend.type;
   }
 
   async query({
@@ -89,44 +103,19 @@ export class VectorStoreService {
     includeMetadata = true,
   }: {
     vector: number[];
-    filter?: {
-      [key: string]: {
-        $eq?: string | number | boolean;
-        $ne?: string | number | boolean;
-        $gt?: number;
-        $gte?: number;
-        $lt?: number;
-        $lte?: number;
-        $in?: (string | number)[];
-        $nin?: (string | number)[];
-        $exists?: boolean;
-      };
-    };
+    filter?: VectorFilter;
     topK?: number;
     includeMetadata?: boolean;
-  }) {
+  }): Promise<{ matches: any; usage?: any }> {
     try {
-      const response = await this.index.query({
+      return await this.backend.query({
         vector,
         filter,
         topK,
-        includeValues: false,
         includeMetadata,
       });
-
-      console.log("Raw Pinecone response:", JSON.stringify(response, null, 2));
-
-      if (!response || typeof response !== "object") {
-        console.warn("Invalid response from Pinecone");
-        return { matches: [] };
-      }
-
-      return {
-        matches: response.matches || [],
-        usage: response.usage,
-      };
     } catch (error) {
-      console.error("Pinecone query failed:", error);
+      console.error(`Vector query failed (${this.backend.type}):`, error);
       throw error;
     }
   }
@@ -170,7 +159,7 @@ export class VectorStoreService {
         {} as Record<string, string | number>
       );
 
-      await this.index.upsert([
+      await this.backend.upsert([
         {
           id,
           values,
@@ -224,10 +213,10 @@ export class VectorStoreService {
         };
       });
 
-      await this.index.upsert(processedVectors, data.namespace);
+      await this.backend.upsert(processedVectors, data.namespace);
       return { ...data, vectors: processedVectors };
     } catch (error) {
-      console.error("Pinecone upsert failed:", error);
+      console.error(`Vector upsert failed (${this.backend.type}):`, error);
       throw error;
     }
   }
@@ -255,17 +244,11 @@ export class VectorStoreService {
   }
 
   async ping(): Promise<boolean> {
-    try {
-      await this.client.describeIndex("aicity");
-      return true;
-    } catch (error) {
-      console.error("Pinecone ping failed:", error);
-      return false;
-    }
+    return this.backend.ping();
   }
 
   async close(): Promise<void> {
-    console.log("🔑 Closing Pinecone client...");
+    console.log(`🔑 Closing ${this.backend.type} vector backend...`);
   }
 
   async analyzeSentiment(content: string): Promise<number> {
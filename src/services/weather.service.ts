@@ -8,6 +8,8 @@ import { EmergencyType } from "../types/emergency.types";
 import { EmergencyService } from "./emergency.service";
 import { EventBus } from "./event-bus.service";
 import { District } from "../types/district.types";
+import { SimulationClock } from "./simulation-clock.service";
+import type { SeededRandom } from "../utils/seeded-random";
 
 interface WeatherState {
   type: WeatherImpact["type"];
@@ -39,6 +41,7 @@ interface WeatherPrediction {
 }
 
 export class WeatherService extends EventEmitter {
+  private readonly random: SeededRandom;
   private currentWeather: WeatherState | null = null;
   private weatherHistory: WeatherState[] = [];
   private readonly eventBus: EventBus;
@@ -49,27 +52,48 @@ export class WeatherService extends EventEmitter {
     private cityService: CityService,
     private transportService: TransportService | null,
     private cityRhythmService: CityRhythmService,
-    private emergencyService: EmergencyService
+    private emergencyService: EmergencyService,
+    private readonly clock: SimulationClock,
+    eventBus: EventBus
   ) {
     super();
-    this.eventBus = EventBus.getInstance();
+    this.random = clock.randomFor("weather");
+    this.eventBus = eventBus;
     this.initializeWeatherSystem();
   }
 
   private async initializeWeatherSystem() {
-    setInterval(() => this.simulateWeatherChanges(), 1000 * 60 * 60); // Every hour
-    setInterval(() => this.updateWeatherPredictions(), 1000 * 60 * 30); // Every 30 minutes
-    setInterval(() => this.monitorEnvironmentalMetrics(), 1000 * 60 * 15); // Every 15 minutes
+    this.clock.every(
+      1000 * 60 * 60,
+      () => this.simulateWeatherChanges(),
+      "weather.simulateWeatherChanges"
+    ); // Every hour
+    this.clock.every(
+      1000 * 60 * 30,
+      () => this.updateWeatherPredictions(),
+      "weather.updateWeatherPredictions"
+    ); // Every 30 minutes
+    this.clock.every(
+      1000 * 60 * 15,
+      () => this.monitorEnvironmentalMetrics(),
+      "weather.monitorEnvironmentalMetrics"
+    ); // Every 15 minutes
     this.setupEventListeners();
   }
 
   private setupEventListeners() {
-    this.eventBus.on("aiPredictionUpdate", this.handleAIPrediction.bind(this));
-    this.eventBus.on(
+    this.eventBus.subscribe(
+      "aiPredictionUpdate",
+      this.handleAIPrediction.bind(this)
+    );
+    this.eventBus.subscribe(
       "environmentalAlert",
       this.handleEnvironmentalAlert.bind(this)
     );
-    this.eventBus.on("emergencyResponse", this.adjustForEmergency.bind(this));
+    this.eventBus.subscribe(
+      "emergencyResponse",
+      this.adjustForEmergency.bind(this)
+    );
   }
 
   private async updateWeatherPredictions() {
@@ -81,9 +105,9 @@ export class WeatherService extends EventEmitter {
     );
 
     if (highRiskPredictions.length > 0) {
-      this.eventBus.emit("weatherWarning", {
+      this.eventBus.publish("weatherWarning", {
         predictions: highRiskPredictions,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       });
     }
   }
@@ -143,10 +167,10 @@ export class WeatherService extends EventEmitter {
     this.currentWeather.environmentalMetrics = metrics;
 
     if (this.detectAnomalies(metrics)) {
-      this.eventBus.emit("environmentalAnomaly", {
+      this.eventBus.publish("environmentalAnomaly", {
         metrics,
         weather: this.currentWeather,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       });
     }
   }
@@ -154,11 +178,11 @@ export class WeatherService extends EventEmitter {
   private async measureEnvironmentalMetrics() {
     // Simulated environmental measurements
     return {
-      airQuality: Math.random() * 100,
-      humidity: Math.random() * 100,
-      pressure: 980 + Math.random() * 40,
-      windSpeed: Math.random() * 30,
-      visibility: Math.random() * 10,
+      airQuality: this.random.next() * 100,
+      humidity: this.random.next() * 100,
+      pressure: 980 + this.random.next() * 40,
+      windSpeed: this.random.next() * 30,
+      visibility: this.random.next() * 10,
     };
   }
 
@@ -190,7 +214,7 @@ export class WeatherService extends EventEmitter {
 
   private async prepareForWeatherChange(prediction: any) {
     // Notify relevant services
-    this.eventBus.emit("weatherPreparation", {
+    this.eventBus.publish("weatherPreparation", {
       prediction,
       recommendedActions: this.generatePreparationActions(prediction),
     });
@@ -229,7 +253,7 @@ export class WeatherService extends EventEmitter {
   }
 
   private async simulateWeatherChanges() {
-    if (Math.random() < 0.3) {
+    if (this.random.next() < 0.3) {
       const newWeather = await this.generateWeatherCondition();
       await this.setWeatherCondition(newWeather);
     }
@@ -237,14 +261,14 @@ export class WeatherService extends EventEmitter {
 
   private async generateWeatherCondition(): Promise<WeatherState> {
     const types: WeatherImpact["type"][] = ["rain", "snow", "heat", "storm"];
-    const type = types[Math.floor(Math.random() * types.length)];
-    const severity = Math.random();
-    const duration = Math.floor(Math.random() * 12) + 1;
+    const type = types[Math.floor(this.random.next() * types.length)];
+    const severity = this.random.next();
+    const duration = Math.floor(this.random.next() * 12) + 1;
 
     const districtsContext = this.cityService.getContext();
     const districts = Array.from(districtsContext.districts.values());
     const affectedDistricts = districts
-      .filter((district: District) => Math.random() > 0.5)
+      .filter((district: District) => this.random.next() > 0.5)
       .map((district: District) => district.id);
 
     return {
@@ -252,7 +276,7 @@ export class WeatherService extends EventEmitter {
       severity,
       duration,
       affectedDistricts,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       environmentalMetrics: await this.measureEnvironmentalMetrics(),
     };
   }
@@ -264,7 +288,7 @@ export class WeatherService extends EventEmitter {
     await this.storeWeatherData(weather);
     await this.applyWeatherImpacts(weather);
 
-    this.eventBus.emit("weatherChanged", {
+    this.eventBus.publish("weatherChanged", {
       ...weather,
       predictions: this.weatherPredictions,
       recommendations: this.generatePreparationActions(weather),
@@ -275,7 +299,7 @@ export class WeatherService extends EventEmitter {
     const { environmentalMetrics, ...weatherData } = weather;
 
     await this.vectorStore.upsert({
-      id: `weather-${Date.now()}`,
+      id: `weather-${this.clock.now()}`,
       values: await this.vectorStore.createEmbedding(
         `${weather.type} weather with severity ${weather.severity}`
       ),
@@ -367,7 +391,7 @@ export class WeatherService extends EventEmitter {
     const emergencyType = this.determineEmergencyType(weather);
     if (emergencyType) {
       await this.emergencyService.handleEmergency({
-        id: `weather-emergency-${Date.now()}`,
+        id: `weather-emergency-${this.clock.now()}`,
         type: emergencyType,
         priority: weather.severity > 0.9 ? "critical" : "high",
         location: {
@@ -382,7 +406,7 @@ export class WeatherService extends EventEmitter {
           districtIds: weather.affectedDistricts,
         },
         status: "reported",
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         responseUnits: [],
       });
     }
@@ -434,7 +458,7 @@ export class WeatherService extends EventEmitter {
   }
 
   getWeatherHistory(hours: number = 24): WeatherState[] {
-    const cutoff = Date.now() - hours * 60 * 60 * 1000;
+    const cutoff = this.clock.now() - hours * 60 * 60 * 1000;
     return this.weatherHistory.filter((w) => w.startTime >= cutoff);
   }
 
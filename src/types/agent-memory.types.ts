@@ -0,0 +1,45 @@
+export type MemoryKind = "episodic" | "semantic";
+
+export interface AgentMemory {
+  id: string;
+  agentId: string;
+  // episodic: one ended conversation, semantic: a fact distilled from several
+  kind: MemoryKind;
+  content: string;
+  topics: string[];
+  // What the agent itself said, so it can avoid saying it again
+  said: string[];
+  withAgentIds: string[];
+  districtId?: string;
+  conversationId?: string;
+  // Episodic memories a semantic one was summarised from
+  sourceIds?: string[];
+  // 0-1 importance when the memory was formed
+  strength: number;
+  createdAt: number;
+  lastRecalledAt?: number;
+  recallCount: number;
+}
+
+// A memory with its current, decayed relevance
+export interface RecalledMemory extends AgentMemory {
+  relevance: number;
+}
+
+export interface AgentMemoryConfig {
+  // Time for an unrecalled memory to lose half its relevance
+  episodicHalfLifeMs: number;
+  semanticHalfLifeMs: number;
+  // Memories whose relevance falls below this are forgotten
+  forgetThreshold: number;
+  maintenanceIntervalMs: number;
+  // Episodic memories folded into one summary
+  summaryBatchSize: number;
+  maxSaidPerMemory: number;
+}
+
+export interface MemoryRecallQuery {
+  topic?: string;
+  withAgentIds?: string[];
+  limit?: number;
+}
@@ -0,0 +1,52 @@
+export interface RelationshipConflict {
+  source: "conversation" | "collaboration";
+  // Conversation or collaboration session id
+  sourceId: string;
+  reason: string;
+  timestamp: number;
+}
+
+// Undirected: one relationship per pair of agents
+export interface AgentRelationship {
+  id: string;
+  agentIds: [string, string];
+  // -1 (dislike) to 1 (close friends)
+  affinity: number;
+  // 0-1, grows with successful collaborations and calm conversations
+  trust: number;
+  conversations: number;
+  collaborations: { completed: number; failed: number };
+  // Most recent first
+  conflicts: RelationshipConflict[];
+  lastInteractionAt: number;
+}
+
+export interface RelationshipGraphNode {
+  id: string;
+  name: string;
+  role?: string;
+  degree: number;
+}
+
+export interface RelationshipGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  affinity: number;
+  trust: number;
+  conversations: number;
+  collaborationsCompleted: number;
+  collaborationsFailed: number;
+  conflicts: number;
+  lastInteractionAt: number;
+}
+
+export interface RelationshipGraph {
+  nodes: RelationshipGraphNode[];
+  edges: RelationshipGraphEdge[];
+}
+
+export interface RelationshipGraphQuery {
+  agentId?: string;
+  minAffinity?: number;
+}
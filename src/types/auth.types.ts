@@ -0,0 +1,51 @@
+export type Role = "admin" | "department_operator" | "donor" | "viewer";
+
+export type PrincipalKind = "user" | "service";
+
+// The authenticated caller attached to a request
+export interface Principal {
+  id: string;
+  kind: PrincipalKind;
+  name: string;
+  roles: Role[];
+  departmentIds: string[];
+}
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  passwordHash: string;
+  roles: Role[];
+  departmentIds: string[];
+  createdAt: number;
+  lastLoginAt?: number;
+}
+
+export interface ServiceAccount {
+  id: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  roles: Role[];
+  departmentIds: string[];
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+  createdAt: number;
+}
+
+export interface AuthConfig {
+  jwtSecret: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlMs: number;
+  adminUsername?: string;
+  adminPassword?: string;
+  legacyApiKey?: string;
+}
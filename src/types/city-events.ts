@@ -9,6 +9,24 @@ export type CityEventCategory =
   | "transport"
   | "environmental";
 
+// A celebration of something the city achieved, such as a funded donation
+// goal. Without a district one is picked like for any other city event.
+export interface CityCelebration {
+  title: string;
+  description: string;
+  duration: number;
+  category: CityEventCategory;
+  impact: {
+    social: number;
+    economic: number;
+    cultural: number;
+    environmental: number;
+  };
+  districtId?: string;
+  // What earned it, e.g. "goal:green-spaces-initiative"
+  source: string;
+}
+
 export interface CityEvent {
   id: string;
   title: string;
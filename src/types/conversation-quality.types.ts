@@ -0,0 +1,73 @@
+// Every metric is 0-1; higher is better except toxicity
+export interface QualityMetrics {
+  // 1 when no agent says the same thing twice
+  repetition: number;
+  // How well agents stay in character with their systemPrompt and traits
+  personaConsistency: number;
+  // Consecutive messages and the topic staying connected
+  topicCoherence: number;
+  // Share of messages with abusive language
+  toxicity: number;
+  overall: number;
+}
+
+export interface AgentQualityScore {
+  agentId: string;
+  messages: number;
+  repetition: number;
+  personaConsistency: number;
+}
+
+export interface ConversationQualityScore {
+  conversationId: string;
+  districtId: string;
+  topic: string;
+  // Prompt set the conversation ran with, to compare prompt changes
+  promptVersion: string;
+  startedAt: number;
+  endedAt: number;
+  evaluatedAt: number;
+  messageCount: number;
+  metrics: QualityMetrics;
+  agents: AgentQualityScore[];
+  // Ids of messages that were repeated or toxic
+  flaggedMessageIds: string[];
+}
+
+export interface QualityReportQuery {
+  districtId?: string;
+  promptVersion?: string;
+  from?: number;
+  to?: number;
+  // Prompt version the others are compared against
+  baseline?: string;
+}
+
+export interface QualityGroup {
+  key: string;
+  count: number;
+  averages: QualityMetrics;
+}
+
+export interface QualityReport {
+  count: number;
+  averages: QualityMetrics;
+  byPromptVersion: QualityGroup[];
+  byAgent: Array<{
+    agentId: string;
+    conversations: number;
+    repetition: number;
+    personaConsistency: number;
+  }>;
+  // Metric change of each prompt version against the baseline; negative
+  // overall, repetition, persona or coherence (or positive toxicity) is a regression
+  comparison?: {
+    baseline: string;
+    versions: Array<{
+      promptVersion: string;
+      delta: QualityMetrics;
+      regressions: Array<keyof QualityMetrics>;
+    }>;
+  };
+  lowest: ConversationQualityScore[];
+}
@@ -0,0 +1,66 @@
+export interface QuietHoursPolicy {
+  // "rhythm" treats the hours before a district's first and after its last
+  // CityRhythm pattern as quiet, "fixed" uses start and end
+  source: "rhythm" | "fixed" | "off";
+  // First quiet hour and the hour activity resumes (fixed only, may wrap midnight)
+  start: number;
+  end: number;
+  maxConcurrentConversations: number;
+}
+
+export interface EventPriorityPolicy {
+  enabled: boolean;
+  // Slots above the district limit that only conversations about an active
+  // city event may take
+  extraSlots: number;
+}
+
+export interface ConversationPolicy {
+  maxConcurrentConversations: number;
+  messageIntervalMs: number;
+  minConversationDurationMs: number;
+  maxConversationDurationMs: number;
+  // Minimum gap between two conversations starting in the same district
+  cooldownMs: number;
+  quietHours: QuietHoursPolicy;
+  eventPriority: EventPriorityPolicy;
+}
+
+export type ConversationPolicyOverride = Partial<
+  Omit<ConversationPolicy, "quietHours" | "eventPriority">
+> & {
+  quietHours?: Partial<QuietHoursPolicy>;
+  eventPriority?: Partial<EventPriorityPolicy>;
+};
+
+export interface ConversationSchedulingPolicy {
+  defaults: ConversationPolicy;
+  // Per-district overrides merged over the defaults
+  districts: Record<string, ConversationPolicyOverride>;
+}
+
+export interface ConversationPolicyUpdate {
+  defaults?: ConversationPolicyOverride;
+  // null removes a district's override
+  districts?: Record<string, ConversationPolicyOverride | null>;
+}
+
+// A conversation the scheduler has room for, most urgent first
+export interface ConversationSlot {
+  districtId: string;
+  // Set when the slot is reserved for talking about an active city event
+  event?: {
+    id: string;
+    title: string;
+    priority: "low" | "medium" | "high" | "critical";
+  };
+}
+
+export interface DistrictScheduleStatus {
+  districtId: string;
+  quiet: boolean;
+  limit: number;
+  active: number;
+  activeEvents: string[];
+  policy: ConversationPolicy;
+}
@@ -16,6 +16,12 @@ export interface Message {
     eventId?: string;
     culturalImpact?: number;
     conversationId?: string;
+    // Set on messages from human participants
+    participantName?: string;
+    // Agent ids addressed with @name
+    mentions?: string[];
+    // Message an agent reply answers
+    inReplyTo?: string;
     coordinates?: string[];
     style?: string;
     contextualRelevance?: number;
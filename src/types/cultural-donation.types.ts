@@ -66,6 +66,9 @@ export interface CulturalDonation {
   anonymous?: boolean;
   recurringInterval?: "monthly" | "quarterly" | "yearly";
   earmarkForPhase?: string;
+  // Payment method token to charge; recurring donations reuse it
+  paymentMethod?: string;
+  paymentId?: string;
   status: "pending" | "processed" | "failed";
   processedAt?: number;
   createdAt: number;
@@ -113,7 +116,7 @@ export interface CulturalDonationService {
   processDonation(
     donation: Omit<
       CulturalDonation,
-      "id" | "status" | "processedAt" | "createdAt"
+      "id" | "status" | "processedAt" | "createdAt" | "paymentId"
     >
-  ): Promise<void>;
+  ): Promise<CulturalDonation>;
 }
@@ -41,7 +41,8 @@ export interface Donation {
   donorId?: string;
   timestamp: number;
   message?: string;
-  transactionHash?: string; // For blockchain transactions
+  transactionHash?: string; // Hash of the ledger transaction that recorded it
+  refundedAt?: number;
 }
 
 export interface Department {
@@ -0,0 +1,64 @@
+import type { DonationChallenge } from "../services/donation.service";
+import type { DonationGoal } from "./donation-goals";
+
+export type CampaignKind = "goal" | "challenge";
+
+export type NewDonationGoal = Pick<
+  DonationGoal,
+  | "departmentId"
+  | "targetAmount"
+  | "title"
+  | "description"
+  | "celebrationEvent"
+  | "startDate"
+  | "endDate"
+  | "overfunding"
+> & {
+  // Derived from the title when left out
+  id?: string;
+};
+
+export type DonationGoalChanges = Partial<
+  Omit<NewDonationGoal, "id" | "departmentId">
+>;
+
+export type NewDonationChallenge = Pick<
+  DonationChallenge,
+  | "title"
+  | "description"
+  | "category"
+  | "targetAmount"
+  | "startDate"
+  | "endDate"
+  | "rewards"
+  | "communityGoal"
+  | "celebrationEvent"
+> & {
+  // Achievement is worked out from the amount raised
+  milestones: { amount: number; reward: string; achieved?: boolean }[];
+};
+
+export type DonationChallengeChanges = Partial<
+  Omit<NewDonationChallenge, "category">
+>;
+
+// Written when a goal or challenge runs out of time
+export interface CampaignExpiryReport {
+  id: string;
+  kind: CampaignKind;
+  campaignId: string;
+  title: string;
+  targetAmount: number;
+  raisedAmount: number;
+  shortfall: number;
+  // Whether the target was met at some point; repeating goals start over
+  // once they meet it
+  met: boolean;
+  endDate: number;
+  reportedAt: number;
+}
+
+export interface DonationCampaignConfig {
+  checkIntervalMs: number;
+  maxReports: number;
+}
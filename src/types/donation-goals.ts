@@ -1,5 +1,15 @@
 import { CityEventCategory } from "./city-events";
 
+// What a goal does with donations beyond its target: "repeat" starts over
+// towards the same target, "cap" stops taking donations and "rollover" passes
+// the excess on to another goal
+export type GoalOverfundingPolicy =
+  | { type: "repeat" }
+  | { type: "cap" }
+  | { type: "rollover"; goalId: string };
+
+export type DonationGoalStatus = "scheduled" | "active" | "reached" | "expired";
+
 export interface DonationGoal {
   id: string;
   departmentId: string;
@@ -19,6 +29,17 @@ export interface DonationGoal {
       environmental: number;
     };
   };
+  // Goals without a status or dates, like the ones below, are always open
+  status?: DonationGoalStatus;
+  startDate?: number;
+  endDate?: number;
+  // Defaults to repeat
+  overfunding?: GoalOverfundingPolicy;
+  // When the target was last met
+  reachedAt?: number;
+  expiredAt?: number;
+  createdAt?: number;
+  updatedAt?: number;
 }
 
 export const DONATION_GOALS: DonationGoal[] = [
@@ -0,0 +1,101 @@
+export type LedgerAccountType =
+  | "donor"
+  | "district"
+  | "department"
+  | "goal"
+  | "challenge"
+  | "external";
+
+// "opening" carries balances that existed before the ledger, "allocation"
+// earmarks part of a donation for a goal or challenge
+export type LedgerTransactionKind =
+  | "opening"
+  | "donation"
+  | "allocation"
+  | "reversal";
+
+// Accounts are named "<type>:<id>", e.g. "department:education-dept"
+export interface LedgerEntry {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  sequence: number;
+  kind: LedgerTransactionKind;
+  donationId?: string;
+  districtId?: string;
+  description: string;
+  // Debits and credits always add up to the same amount
+  entries: LedgerEntry[];
+  // Hash the donor supplied with the payment, if any
+  reference?: string;
+  // Transaction this one reverses
+  reverses?: string;
+  timestamp: number;
+  // Each hash covers the transaction and the hash before it, so editing or
+  // removing a recorded transaction breaks the chain
+  previousHash: string;
+  hash: string;
+}
+
+export interface LedgerDonationInput {
+  donationId: string;
+  donorId: string;
+  // Account that receives the funds
+  recipient: string;
+  amount: number;
+  districtId?: string;
+  description: string;
+  reference?: string;
+}
+
+export interface LedgerTransactionQuery {
+  account?: string;
+  donationId?: string;
+  kind?: LedgerTransactionKind;
+  limit?: number;
+}
+
+export interface LedgerAccountBalance {
+  account: string;
+  type: LedgerAccountType;
+  debits: number;
+  credits: number;
+  // Credits minus debits
+  balance: number;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  // Hash of the request body; the same key with another body is refused
+  fingerprint: string;
+  result: unknown;
+  createdAt: number;
+}
+
+export interface DepartmentReconciliation {
+  departmentId: string;
+  budgetDonations: number;
+  // Opening balance plus donations minus reversals, ignoring allocations
+  ledgerDonations: number;
+  difference: number;
+  // Donations in the budget history without a matching ledger transaction
+  unmatchedDonations: string[];
+  reconciled: boolean;
+}
+
+export interface LedgerReconciliation {
+  generatedAt: number;
+  transactions: number;
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+  chainValid: boolean;
+  // First transaction whose hash does not match its contents
+  brokenAt?: string;
+  departments: DepartmentReconciliation[];
+  reconciled: boolean;
+}
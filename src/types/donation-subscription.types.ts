@@ -0,0 +1,78 @@
+export type SubscriptionInterval = "weekly" | "monthly";
+
+// past_due subscriptions are waiting to retry a failed charge
+export type SubscriptionStatus = "active" | "paused" | "past_due" | "cancelled";
+
+// What each charge is donated to. A goal is given to through its department,
+// so the donation also counts towards that department's other goals.
+export type SubscriptionTarget =
+  | { type: "department"; departmentId: string }
+  | { type: "goal"; goalId: string }
+  | { type: "project"; projectId: string };
+
+export interface SubscriptionCharge {
+  // When the charge was due, not when it was attempted
+  scheduledFor: number;
+  attemptedAt: number;
+  attempt: number;
+  amount: number;
+  status: "succeeded" | "pending" | "failed";
+  donationId?: string;
+  error?: string;
+}
+
+export interface DonationSubscription {
+  id: string;
+  // The account that created the subscription and may manage it
+  ownerId: string;
+  donorId: string;
+  donorName: string;
+  districtId: string;
+  amount: number;
+  interval: SubscriptionInterval;
+  target: SubscriptionTarget;
+  paymentMethod?: string;
+  status: SubscriptionStatus;
+  // First charge date; monthly charges keep its day of the month
+  startAt: number;
+  // Charge date that is due next; keeps its schedule while retries happen
+  nextChargeAt: number;
+  // Set while a failed charge is waiting to be retried
+  retryAt?: number;
+  failedAttempts: number;
+  charges: SubscriptionCharge[];
+  cancelReason?: "donor" | "payment_failed";
+  createdAt: number;
+  updatedAt: number;
+  pausedAt?: number;
+  cancelledAt?: number;
+}
+
+export interface NewDonationSubscription {
+  donorName?: string;
+  districtId: string;
+  amount: number;
+  interval: SubscriptionInterval;
+  target: SubscriptionTarget;
+  paymentMethod?: string;
+  // First charge date; defaults to now
+  startAt?: number;
+}
+
+export interface UpcomingCharge {
+  subscriptionId: string;
+  chargeAt: number;
+  amount: number;
+  target: SubscriptionTarget;
+  // True for a retry of a charge that failed
+  retry: boolean;
+}
+
+export interface DonationSubscriptionConfig {
+  // Wait before each retry of a failed charge; once these run out the
+  // subscription is cancelled
+  retryBackoffMs: number[];
+  checkIntervalMs: number;
+  // Charges kept per subscription
+  maxChargeHistory: number;
+}
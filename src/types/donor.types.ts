@@ -0,0 +1,87 @@
+// What a donor has chosen about how they appear to the city
+export interface DonorPreferences {
+  donorId: string;
+  // Name shown in announcements and leaderboards instead of the one given
+  // with each donation
+  displayName?: string;
+  // Anonymous donors appear as "Anonymous donor" everywhere public
+  anonymous: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DonorBadge {
+  badge: string;
+  title: string;
+  achievementDate: number;
+  donationId: string;
+  story?: string;
+}
+
+export interface DonorChallengeParticipation {
+  challengeId: string;
+  title: string;
+  // What this donor gave towards the challenge
+  donated: number;
+  targetAmount: number;
+  currentAmount: number;
+  endDate: number;
+  completed: boolean;
+}
+
+export interface DonorProfile {
+  donorId: string;
+  displayName: string;
+  anonymous: boolean;
+  donationCount: number;
+  // Completed donations only; refunds are taken off
+  totalDonated: number;
+  firstDonationAt?: number;
+  lastDonationAt?: number;
+  badges: DonorBadge[];
+  challenges: DonorChallengeParticipation[];
+}
+
+export interface DonationReceipt {
+  // Stable for a donation, e.g. NVR-2025-1A2B3C4D
+  receiptNumber: string;
+  donationId: string;
+  donorId: string;
+  donorName: string;
+  amount: number;
+  currency: string;
+  status: string;
+  category: string;
+  purpose: string;
+  districtId: string;
+  departmentId: string;
+  donatedAt: number;
+  paymentId?: string;
+  // Hash of the donation's ledger transaction, for verification
+  ledgerHash?: string;
+  issuedAt: number;
+}
+
+export type StatementFormat = "json" | "html" | "csv";
+
+export interface StatementBreakdown {
+  key: string;
+  amount: number;
+  count: number;
+}
+
+// A donor's giving for one calendar year (UTC)
+export interface GivingStatement {
+  donorId: string;
+  donorName: string;
+  year: number;
+  total: number;
+  donationCount: number;
+  // Donations given this year and since refunded; not part of the total
+  refunded: number;
+  byCategory: StatementBreakdown[];
+  byDistrict: StatementBreakdown[];
+  byDepartment: StatementBreakdown[];
+  receipts: DonationReceipt[];
+  generatedAt: number;
+}
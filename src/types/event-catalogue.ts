@@ -0,0 +1,695 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { EventMetadata } from "../services/event-bus.service";
+import { EmergencyType } from "./emergency.types";
+
+// Every EventBus event name, its payload schema and default metadata.
+// Payload objects are passthrough: required fields are checked, extra fields are kept.
+
+interface CatalogueEntry<S extends z.ZodTypeAny> {
+  description: string;
+  schema: S;
+  priority: EventMetadata["priority"];
+  category: EventMetadata["category"];
+  source: string;
+  persistent: boolean;
+  ttl?: number;
+}
+
+const entry = <S extends z.ZodTypeAny>(definition: CatalogueEntry<S>) =>
+  definition;
+
+// Extra fields are kept when a payload is checked, but publishers are typed
+// against the declared ones, so whatever an emitter sends is listed here
+const payload = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape).passthrough() as unknown as z.ZodType<
+    z.infer<z.ZodObject<T>>
+  >;
+
+const anyPayload = payload({});
+const priority = z.enum(["low", "medium", "high", "critical"]);
+const share = z.number().min(0).max(1);
+// Spatial coordination's map position
+const coordinates = payload({ x: z.number(), y: z.number() });
+const chatMessage = payload({
+  id: z.string(),
+  agentId: z.string(),
+  content: z.string(),
+  timestamp: z.number(),
+  role: z.enum(["assistant", "user", "system"]),
+  sentiment: z.number().optional(),
+  topics: z.array(z.string()).optional(),
+});
+const weatherState = payload({
+  type: z.string(),
+  severity: z.number(),
+  duration: z.number(),
+  affectedDistricts: z.array(z.string()),
+  startTime: z.number(),
+});
+const weatherPrediction = payload({
+  type: z.string(),
+  probability: z.number(),
+  estimatedSeverity: z.number(),
+  estimatedDuration: z.number(),
+  confidence: z.number(),
+  potentialImpacts: z.array(z.string()),
+});
+// Social dynamics' score of how AI involvement affected an activity
+const aiImpact = payload({
+  socialCohesion: z.number(),
+  culturalIntegration: z.number(),
+  communityEngagement: z.number(),
+  aiTrust: z.number(),
+});
+
+export const eventCatalogue = {
+  // Conversations
+  messageCreated: entry({
+    description: "A chat message was added to a conversation",
+    schema: payload({
+      conversationId: z.string(),
+      message: chatMessage,
+    }),
+    priority: "low",
+    category: "conversation",
+    source: "chat",
+    persistent: true,
+    ttl: 1000 * 60 * 60,
+  }),
+  stateUpdated: entry({
+    description: "Conversation state (mood, topics, turn) changed",
+    schema: payload({
+      conversationId: z.string(),
+      state: anyPayload,
+    }),
+    priority: "low",
+    category: "conversation",
+    source: "system",
+    persistent: true,
+  }),
+  agentTyping: entry({
+    description: "An agent started composing a reply",
+    schema: payload({ conversationId: z.string(), agentId: z.string() }),
+    priority: "low",
+    category: "conversation",
+    source: "system",
+    persistent: false,
+    ttl: 1000 * 10,
+  }),
+
+  // System
+  error: entry({
+    description: "A service reported an error",
+    schema: payload({ error: z.instanceof(Error) }),
+    priority: "high",
+    category: "infrastructure",
+    source: "system",
+    persistent: true,
+  }),
+  processingError: entry({
+    description: "A data stream failed to process",
+    schema: payload({
+      streamId: z.string(),
+      error: z.string(),
+      timestamp: z.number(),
+    }),
+    priority: "high",
+    category: "infrastructure",
+    source: "data-management",
+    persistent: true,
+  }),
+
+  // Emergencies and city events
+  emergencyAlert: entry({
+    description: "An emergency was declared",
+    schema: payload({
+      type: z.string(),
+      location: coordinates,
+      districtId: z.string().optional(),
+    }),
+    priority: "critical",
+    category: "emergency",
+    source: "emergency-system",
+    persistent: true,
+  }),
+  emergencyResponse: entry({
+    description: "Emergency services responded to an incident",
+    schema: payload({
+      type: z.nativeEnum(EmergencyType),
+      incidentId: z.string().optional(),
+      districtId: z.string().optional(),
+    }),
+    priority: "high",
+    category: "emergency",
+    source: "emergency-system",
+    persistent: true,
+  }),
+  cityEventGenerated: entry({
+    description: "A random city event started, possibly caused by another",
+    schema: payload({
+      eventId: z.string(),
+      title: z.string(),
+      priority: priority,
+      severity: z.number(),
+      districtId: z.string().optional(),
+      causedBy: z.string().optional(),
+      startedAt: z.number().optional(),
+      endsAt: z.number().optional(),
+    }),
+    priority: "medium",
+    category: "emergency",
+    source: "city-events",
+    persistent: true,
+  }),
+  cityEventResolved: entry({
+    description: "A random city event ended",
+    schema: payload({
+      eventId: z.string(),
+      title: z.string(),
+      districtId: z.string().optional(),
+      causedBy: z.string().optional(),
+    }),
+    priority: "low",
+    category: "emergency",
+    source: "city-events",
+    persistent: true,
+  }),
+
+  // Infrastructure and traffic
+  infrastructureUpdate: entry({
+    description: "Infrastructure state changed",
+    schema: payload({
+      systemId: z.string(),
+      type: z.enum([
+        "traffic",
+        "power",
+        "water",
+        "waste",
+        "transportation",
+        "digital",
+        "pedestrian",
+        "recycling",
+      ]),
+      status: z.enum(["active", "inactive", "maintenance"]),
+      districtId: z.string().optional(),
+    }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "infrastructure-system",
+    persistent: true,
+  }),
+  congestionDetected: entry({
+    description: "Traffic congestion was detected in an area",
+    schema: payload({ area: coordinates }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "transport",
+    persistent: true,
+  }),
+  congestionHandled: entry({
+    description: "A congestion plan was applied",
+    schema: payload({
+      area: coordinates,
+      congestionLevel: z.number(),
+      optimizedRoute: z.array(coordinates),
+    }),
+    priority: "low",
+    category: "infrastructure",
+    source: "spatial-coordination",
+    persistent: true,
+  }),
+  nodeStateChanged: entry({
+    description: "A location node switched operating mode",
+    schema: payload({
+      nodeId: z.string(),
+      type: z.string(),
+      active: z.boolean(),
+    }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "spatial-coordination",
+    persistent: true,
+  }),
+  trafficControlAdjusted: entry({
+    description: "Signal timing or diversions changed at a node",
+    schema: payload({ nodeId: z.string(), adjustments: anyPayload }),
+    priority: "low",
+    category: "infrastructure",
+    source: "spatial-coordination",
+    persistent: false,
+  }),
+  resourcesOptimized: entry({
+    description: "The resource distribution network was rebalanced",
+    schema: payload({ utilization: z.number(), efficiency: z.number() }),
+    priority: "low",
+    category: "infrastructure",
+    source: "resource-distribution",
+    persistent: false,
+  }),
+  loadRedistributed: entry({
+    description: "Load moved between two resource nodes",
+    schema: payload({
+      sourceId: z.string(),
+      targetId: z.string(),
+      amount: z.number(),
+      efficiency: z.number(),
+    }),
+    priority: "low",
+    category: "infrastructure",
+    source: "resource-distribution",
+    persistent: false,
+  }),
+  cityMetricsUpdate: entry({
+    description: "City-wide metrics were recalculated",
+    schema: payload({
+      carbonEmissions: z.number(),
+      energyRatio: z.number(),
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "infrastructure",
+    source: "metrics",
+    persistent: false,
+  }),
+
+  // Environment
+  environmentalAlert: entry({
+    description: "An environmental threshold was crossed",
+    schema: payload({
+      type: z.string(),
+      severity: share,
+      districtId: z.string().optional(),
+      estimatedDuration: z.number().optional(),
+    }),
+    priority: "high",
+    category: "environmental",
+    source: "environmental-system",
+    persistent: true,
+  }),
+  environmentalAnomaly: entry({
+    description: "Measured environmental metrics look anomalous",
+    schema: payload({
+      metrics: anyPayload,
+      weather: weatherState,
+      timestamp: z.number(),
+    }),
+    priority: "medium",
+    category: "environmental",
+    source: "weather",
+    persistent: true,
+  }),
+  weatherChanged: entry({
+    description: "The current weather changed",
+    schema: payload({
+      type: z.string(),
+      severity: z.number(),
+      affectedDistricts: z.array(z.string()),
+      predictions: z.array(weatherPrediction).optional(),
+      recommendations: z.array(z.string()).optional(),
+    }),
+    priority: "low",
+    category: "environmental",
+    source: "weather",
+    persistent: false,
+  }),
+  weatherWarning: entry({
+    description: "High-risk weather is predicted",
+    schema: payload({
+      predictions: z.array(weatherPrediction),
+      timestamp: z.number(),
+    }),
+    priority: "high",
+    category: "environmental",
+    source: "weather",
+    persistent: true,
+  }),
+  weatherPreparation: entry({
+    description: "Recommended actions ahead of predicted weather",
+    schema: payload({
+      prediction: weatherPrediction,
+      recommendedActions: z.array(z.string()),
+    }),
+    priority: "medium",
+    category: "environmental",
+    source: "weather",
+    persistent: true,
+  }),
+  aiPredictionUpdate: entry({
+    description: "An AI model published a new prediction",
+    schema: payload({
+      nextChange: z.number(),
+      confidence: share,
+      severity: share,
+      impacts: z.array(z.string()),
+    }),
+    priority: "low",
+    category: "ai",
+    source: "ai",
+    persistent: false,
+  }),
+
+  // AI agents and social dynamics
+  aiAgentAction: entry({
+    description: "An AI agent performed an action",
+    schema: payload({
+      agentId: z.string(),
+      type: z.string(),
+      id: z.string().optional(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      location: payload({
+        districtId: z.string(),
+        venue: z.string(),
+      }).optional(),
+    }),
+    priority: "medium",
+    category: "ai",
+    source: "ai",
+    persistent: true,
+  }),
+  aiSystemUpdate: entry({
+    description: "AI node configuration changed",
+    schema: payload({ utilizationRate: share, efficiency: share }),
+    priority: "low",
+    category: "ai",
+    source: "ai",
+    persistent: false,
+  }),
+  agentAction: entry({
+    description: "A connected client triggered an agent action",
+    schema: payload({
+      sessionId: z.string().optional(),
+      agentId: z.string().optional(),
+      action: anyPayload,
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "ai",
+    source: "socket-manager",
+    persistent: true,
+  }),
+  aiInteractionAnalyzed: entry({
+    description: "AI involvement in a social activity was scored",
+    schema: payload({
+      activityId: z.string(),
+      impact: aiImpact,
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "ai",
+    source: "social-dynamics",
+    persistent: false,
+  }),
+  aiSocialImpactAnalyzed: entry({
+    description: "The social impact of an AI action was scored",
+    schema: payload({
+      actionId: z.string().optional(),
+      impact: aiImpact,
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "ai",
+    source: "social-dynamics",
+    persistent: false,
+  }),
+  aiCulturalParticipation: entry({
+    description: "AI agents took part in a cultural event",
+    schema: payload({
+      eventId: z.string().optional(),
+      participation: anyPayload,
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "cultural",
+    source: "social-dynamics",
+    persistent: false,
+  }),
+  socialMetricsUpdated: entry({
+    description: "Social dynamics metrics were recalculated",
+    schema: payload({
+      totalParticipants: z.number(),
+      activeEvents: z.number(),
+      averageImpact: z.number(),
+      aiIntegrationLevel: share,
+    }),
+    priority: "low",
+    category: "cultural",
+    source: "social-dynamics",
+    persistent: false,
+  }),
+  aiHarmonyAlert: entry({
+    description: "A district's human/AI harmony dropped",
+    schema: payload({
+      districtId: z.string(),
+      metrics: anyPayload,
+      severity: z.string(),
+    }),
+    priority: "high",
+    category: "cultural",
+    source: "mood-harmonization",
+    persistent: true,
+  }),
+  culturalIntegrationNeeded: entry({
+    description: "A district needs AI cultural integration work",
+    schema: payload({
+      districtId: z.string(),
+      score: z.number(),
+      recommendations: z.array(z.string()),
+    }),
+    priority: "medium",
+    category: "cultural",
+    source: "mood-harmonization",
+    persistent: true,
+  }),
+  harmonyEvent: entry({
+    description: "A harmony intervention was scheduled for a district",
+    schema: payload({
+      districtId: z.string(),
+      suggestedEvents: z
+        .array(payload({ type: z.string(), priority: priority }))
+        .optional(),
+      environmentalChanges: z.array(anyPayload).optional(),
+      culturalActivities: z.array(anyPayload).optional(),
+      aiIntegrationPlans: anyPayload.optional(),
+    }),
+    priority: "medium",
+    category: "cultural",
+    source: "mood-harmonization",
+    persistent: true,
+  }),
+  culturalEvent: entry({
+    description: "A cultural event or landmark change happened",
+    schema: payload({
+      type: z.string(),
+      landmarkId: z.string().optional(),
+      landmarkType: z.string().optional(),
+      districtId: z.string().optional(),
+      culturalSignificance: anyPayload.optional(),
+      changes: anyPayload.optional(),
+    }),
+    priority: "medium",
+    category: "cultural",
+    source: "cultural-system",
+    persistent: true,
+  }),
+
+  // Districts and donations
+  districtEvent: entry({
+    description: "Something happened in a district",
+    schema: payload({
+      districtId: z.string(),
+      type: z.string(),
+      timestamp: z.number().optional(),
+    }),
+    priority: "low",
+    category: "cultural",
+    source: "district",
+    persistent: true,
+  }),
+  districtUpdate: entry({
+    description: "A client pushed a district update",
+    schema: payload({
+      district: z.string().optional(),
+      update: anyPayload,
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "infrastructure",
+    source: "socket-manager",
+    persistent: true,
+  }),
+  districtAnnouncement: entry({
+    description: "An announcement was posted to a district (or all)",
+    schema: payload({
+      districtId: z.string(),
+      type: z.string(),
+      content: z.string(),
+      timestamp: z.number(),
+    }),
+    priority: "medium",
+    category: "cultural",
+    source: "donations",
+    persistent: true,
+  }),
+  departmentBudgetUpdate: entry({
+    description: "A department budget changed",
+    schema: payload({
+      departmentId: z.string().optional(),
+      type: z.string(),
+      amount: z.number(),
+      source: z.string().optional(),
+      timestamp: z.number(),
+    }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "donations",
+    persistent: true,
+  }),
+  donationReaction: entry({
+    description: "A district reacted to a donation announcement",
+    schema: payload({
+      districtId: z.string().optional(),
+      announcementId: z.string(),
+      reaction: z.string(),
+      count: z.number(),
+      timestamp: z.number(),
+    }),
+    priority: "low",
+    category: "cultural",
+    source: "donations",
+    persistent: true,
+  }),
+  communityMoodUpdate: entry({
+    description: "Community sentiment in a district shifted",
+    schema: payload({
+      districtId: z.string().optional(),
+      event: z.string(),
+      sentiment: z.number(),
+      intensity: z.number(),
+    }),
+    priority: "low",
+    category: "cultural",
+    source: "donations",
+    persistent: true,
+  }),
+
+  // Data marketplace
+  dataProcessed: entry({
+    description: "A data stream batch was processed",
+    schema: payload({
+      streamId: z.string(),
+      size: z.number(),
+      metrics: payload({
+        latency: z.number(),
+        throughput: z.number(),
+        errorRate: z.number(),
+        processingCost: z.number(),
+        qualityScore: z.number(),
+      }).optional(),
+    }),
+    priority: "low",
+    category: "infrastructure",
+    source: "data-management",
+    persistent: false,
+  }),
+  privacySettingsUpdated: entry({
+    description: "Privacy settings for a data type changed",
+    schema: payload({ dataType: z.string(), settings: anyPayload }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "data-management",
+    persistent: true,
+  }),
+  marketListingCreated: entry({
+    description: "A data market listing was created",
+    schema: payload({ id: z.string() }),
+    priority: "low",
+    category: "infrastructure",
+    source: "data-management",
+    persistent: true,
+  }),
+  dataPurchased: entry({
+    description: "A buyer purchased a data listing",
+    schema: payload({
+      listingId: z.string(),
+      buyerId: z.string(),
+      timestamp: z.number(),
+    }),
+    priority: "medium",
+    category: "infrastructure",
+    source: "data-management",
+    persistent: true,
+  }),
+};
+
+export type CityEventName = keyof typeof eventCatalogue;
+
+export type CityEventPayload<K extends CityEventName> = z.infer<
+  (typeof eventCatalogue)[K]["schema"]
+>;
+
+const eventMetadataSchema = z.object({
+  priority: priority,
+  timestamp: z.number(),
+  source: z.string(),
+  acknowledged: z.boolean(),
+  acknowledgments: z
+    .array(z.object({ agentId: z.string(), timestamp: z.number() }))
+    .optional(),
+  persistent: z.boolean().optional(),
+  category: z.enum([
+    "conversation",
+    "emergency",
+    "infrastructure",
+    "ai",
+    "cultural",
+    "environmental",
+  ]),
+  ttl: z.number().optional(),
+  triggeredBy: z.string().optional(),
+});
+
+let jsonSchemaDocument: Record<string, unknown> | undefined;
+
+// JSON Schema (draft-07) for the envelope EventBus listeners and /api/events receive
+export function buildEventJsonSchema(): Record<string, unknown> {
+  if (jsonSchemaDocument) return jsonSchemaDocument;
+
+  const toJsonSchema = (schema: z.ZodTypeAny) =>
+    zodToJsonSchema(schema, { target: "jsonSchema7", $refStrategy: "none" });
+  const names = Object.keys(eventCatalogue) as CityEventName[];
+  const definitions: Record<string, unknown> = {
+    EventMetadata: toJsonSchema(eventMetadataSchema),
+  };
+  for (const name of names) {
+    definitions[name] = {
+      ...toJsonSchema(eventCatalogue[name].schema),
+      description: eventCatalogue[name].description,
+    };
+  }
+
+  jsonSchemaDocument = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "CityEvent",
+    description: "An event published on the AI City EventBus",
+    definitions,
+    oneOf: names.map((name) => ({
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        type: { const: name },
+        data: { $ref: `#/definitions/${name}` },
+        metadata: { $ref: "#/definitions/EventMetadata" },
+      },
+      required: ["id", "type", "data", "metadata"],
+    })),
+    "x-defaults": Object.fromEntries(
+      names.map((name) => {
+        const { schema, description, ...defaults } = eventCatalogue[name];
+        return [name, defaults];
+      })
+    ),
+  };
+  return jsonSchemaDocument;
+}
@@ -0,0 +1,74 @@
+export type LLMCallMethod =
+  | "generateResponse"
+  | "streamResponse"
+  | "generateText"
+  | "createEmbedding";
+
+// What a service falls back to once its daily budget is spent
+export type BudgetAction = "cheaper-model" | "canned";
+
+export interface LLMBudget {
+  dailyTokens: number;
+  action: BudgetAction;
+}
+
+export interface LLMCallRecord {
+  id: string;
+  // Container service (or controller) that made the call
+  service: string;
+  method: LLMCallMethod;
+  agentId?: string;
+  promptTemplate?: string;
+  promptVersion?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Token counts were estimated because the provider did not report them
+  estimated: boolean;
+  latencyMs: number;
+  cacheHit: boolean;
+  degraded?: BudgetAction;
+  error?: string;
+  timestamp: number;
+}
+
+export interface LLMUsageQuery {
+  service?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheHits: number;
+  degraded: number;
+  errors: number;
+  averageLatencyMs: number;
+  estimatedCost: number;
+}
+
+export interface LLMUsageGroup extends LLMUsageTotals {
+  key: string;
+}
+
+export interface LLMBudgetStatus extends LLMBudget {
+  service: string;
+  usedToday: number;
+  remaining: number;
+  exceeded: boolean;
+}
+
+export interface LLMUsageReport {
+  from?: number;
+  to?: number;
+  totals: LLMUsageTotals;
+  byService: LLMUsageGroup[];
+  byPromptTemplate: LLMUsageGroup[];
+  byAgent: LLMUsageGroup[];
+  byModel: LLMUsageGroup[];
+  byDay: LLMUsageGroup[];
+  budgets: LLMBudgetStatus[];
+}
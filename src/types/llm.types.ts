@@ -0,0 +1,47 @@
+import type { Agent } from "./agent.types";
+import type { Message } from "./conversation.types";
+
+export type LLMProviderName = "together" | "local" | "openai-compatible";
+
+export interface TextGenerationOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  repetitionPenalty?: number;
+  stopSequences?: string[];
+  model?: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generateResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory?: number
+  ): Promise<string>;
+  // Yields the reply as it is generated; the chunks joined make up the whole reply
+  streamResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string,
+    maxHistory?: number
+  ): AsyncIterable<string>;
+  generateText(
+    prompt: string,
+    options?: TextGenerationOptions
+  ): Promise<string>;
+  createEmbedding(text: string): Promise<number[]>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  togetherApiKey?: string;
+  seed?: number;
+  baseUrl?: string;
+  apiKey?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+}
@@ -0,0 +1,48 @@
+// A resident taking part in a live agent conversation
+export interface HumanParticipant {
+  // Public id, used as the agentId of the participant's messages
+  id: string;
+  // Secret handed out on join; sending a message requires it
+  sessionId: string;
+  conversationId: string;
+  displayName: string;
+  // Account the participant joined with, when they were authenticated
+  principalId?: string;
+  joinedAt: number;
+  lastActiveAt: number;
+}
+
+export type PublicParticipant = Omit<HumanParticipant, "sessionId">;
+
+export interface ParticipationConfig {
+  // Messages one user may send per window, across all their sessions
+  maxMessagesPerWindow: number;
+  rateWindowMs: number;
+  maxMessageLength: number;
+  maxDisplayNameLength: number;
+  maxParticipantsPerConversation: number;
+  // Sessions idle for longer are dropped
+  sessionTtlMs: number;
+  blockedTerms: string[];
+}
+
+export type ModerationReason =
+  | "empty"
+  | "too_long"
+  | "blocked_term"
+  | "prompt_injection";
+
+export interface ModerationResult {
+  allowed: boolean;
+  // Normalised text, which is what reaches the conversation when allowed
+  content: string;
+  reasons: ModerationReason[];
+}
+
+export interface ParticipantMessageResult {
+  messageId: string;
+  // Agents addressed with @name, in the order they were mentioned
+  mentions: string[];
+  // Agents that will reply, mentioned ones first
+  respondingAgents: string[];
+}
@@ -0,0 +1,94 @@
+export type PaymentProcessorName = "mock";
+
+export interface PaymentProcessorConfig {
+  processor: PaymentProcessorName;
+  // Signs and verifies webhooks
+  webhookSecret: string;
+  // How long the mock takes to settle a delayed capture
+  mockSettlementMs: number;
+}
+
+export interface PaymentRequest {
+  amount: number;
+  currency: string;
+  donorId: string;
+  description: string;
+  // Token of the card or account being charged, as issued by the processor
+  paymentMethod?: string;
+}
+
+export interface PaymentAuthorization {
+  paymentId: string;
+  status: "authorized" | "declined";
+  declineReason?: string;
+}
+
+// "pending" captures settle later and are confirmed by a webhook
+export interface PaymentCapture {
+  paymentId: string;
+  status: "captured" | "pending";
+}
+
+export interface PaymentRefund {
+  paymentId: string;
+  refundId: string;
+  amount: number;
+}
+
+export type PaymentWebhookType =
+  | "payment.captured"
+  | "payment.failed"
+  | "payment.refunded";
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookType;
+  paymentId: string;
+  failureReason?: string;
+  createdAt: number;
+}
+
+export interface PaymentProcessor {
+  readonly name: PaymentProcessorName;
+  authorize(request: PaymentRequest): Promise<PaymentAuthorization>;
+  capture(paymentId: string): Promise<PaymentCapture>;
+  refund(paymentId: string, amount?: number): Promise<PaymentRefund>;
+  // Parses a webhook body after checking its signature header
+  verifyWebhook(
+    payload: string,
+    signature: string | undefined
+  ): PaymentWebhookEvent;
+  // Processors running in-process (the mock) deliver their webhooks here
+  // instead of over HTTP
+  onWebhook?(listener: (payload: string, signature: string) => void): void;
+  stop?(): void;
+}
+
+export type PaymentPurpose =
+  | { type: "donation"; id: string }
+  | { type: "cultural-donation"; id: string };
+
+export type PaymentStatus =
+  | "authorized"
+  | "pending_settlement"
+  | "captured"
+  | "declined"
+  | "failed"
+  | "refunded";
+
+export interface Payment {
+  id: string;
+  processor: PaymentProcessorName;
+  purpose: PaymentPurpose;
+  donorId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  // Webhook events already applied, so redelivered ones are ignored
+  webhookEvents: string[];
+  createdAt: number;
+  updatedAt: number;
+  capturedAt?: number;
+  refundedAt?: number;
+}
@@ -0,0 +1,46 @@
+export type StateStoreType = "memory" | "file" | "mongodb";
+
+export interface StateStoreConfig {
+  type: StateStoreType;
+  directory?: string;
+  mongoUri?: string;
+  mongoDatabase?: string;
+  autosaveIntervalMs?: number;
+}
+
+export interface RepositoryEntry<T> {
+  id: string;
+  value: T;
+}
+
+export interface Repository<T> {
+  findAll(): Promise<RepositoryEntry<T>[]>;
+  findById(id: string): Promise<T | undefined>;
+  save(id: string, value: T): Promise<void>;
+  replaceAll(entries: RepositoryEntry<T>[]): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface StateStore {
+  readonly type: StateStoreType;
+  connect(): Promise<void>;
+  repository<T>(collection: string): Repository<T>;
+  close(): Promise<void>;
+}
+
+// collection name -> entity id -> entity
+export type PersistedCollections = Record<string, Record<string, unknown>>;
+
+export interface PersistableService {
+  readonly persistenceKey: string;
+  exportState(): PersistedCollections;
+  importState(state: PersistedCollections): void;
+}
+
+// Portable point-in-time export of every registered service
+export interface CitySnapshot {
+  version: number;
+  createdAt: number;
+  simulationTime?: number;
+  services: Record<string, PersistedCollections>;
+}
@@ -0,0 +1,65 @@
+export interface PromptTemplateDefinition {
+  name: string;
+  version: string;
+  description?: string;
+  // Values the caller fills in, written {{name}} in the template
+  variables: string[];
+  template: string;
+}
+
+export interface PromptTemplate extends PromptTemplateDefinition {
+  source: "builtin" | "file";
+  // Override file the version was loaded from
+  path?: string;
+  loadedAt: number;
+}
+
+// What an override file in PROMPT_TEMPLATES_DIR contains; a template given as
+// an array is joined with newlines
+export interface PromptTemplateFile {
+  name: string;
+  version: string;
+  description?: string;
+  template: string | string[];
+}
+
+export interface RenderedPrompt {
+  template: string;
+  version: string;
+  text: string;
+}
+
+// Which template version an LLM output was generated from
+export interface PromptOutputRecord {
+  outputId: string;
+  template: string;
+  version: string;
+  createdAt: number;
+}
+
+export interface PromptOutputQuery {
+  template?: string;
+  version?: string;
+  limit?: number;
+}
+
+export interface PromptTemplateSummary {
+  name: string;
+  description?: string;
+  variables: string[];
+  activeVersion: string;
+  // Set when an admin chose the active version instead of the newest override
+  pinned: boolean;
+  versions: Array<
+    Pick<
+      PromptTemplate,
+      "version" | "template" | "source" | "path" | "loadedAt"
+    >
+  >;
+  outputs: number;
+}
+
+export interface PromptTemplateReload {
+  loaded: string[];
+  errors: Array<{ path: string; error: string }>;
+}
@@ -0,0 +1,32 @@
+export interface ClockTask {
+  id: string;
+  label: string;
+  dueAt: number;
+  interval?: number;
+  callback: () => unknown;
+}
+
+export interface SimulationClockConfig {
+  seed: number;
+  startTime: number;
+  speed: number;
+  tickMs: number;
+  autoStart: boolean;
+}
+
+export interface SimulationClockState {
+  now: number;
+  isoTime: string;
+  running: boolean;
+  speed: number;
+  seed: number;
+  tickMs: number;
+  startTime: number;
+  elapsedMs: number;
+  scheduledTasks: Array<{
+    id: string;
+    label: string;
+    dueAt: number;
+    interval?: number;
+  }>;
+}
@@ -1,5 +1,5 @@
 import { CultureService } from "../services/culture.service";
-import { TogetherService } from "../services/together.service";
+import type { LLMProvider } from "./llm.types";
 import { VectorStoreService } from "../services/vector-store.service";
 import { AgentConversationService } from "../services/agent-conversation.service";
 import { AgentCollaborationService } from "../services/agent-collaboration.service";
@@ -7,17 +7,21 @@ import { DepartmentService } from "../services/department.service";
 import { DonationService } from "../services/donation.service";
 import { DistrictWebSocketService } from "../services/district-websocket.service";
 import { ChroniclesService } from "../services/chronicles.service";
+import { LLMUsageService } from "../services/llm-usage.service";
+import { SimulationClock } from "../services/simulation-clock.service";
 
 export interface Store {
   services: {
     donationService: DonationService;
     districtWebSocket: DistrictWebSocketService;
-    togetherService: TogetherService;
+    togetherService: LLMProvider;
+    llmUsage: LLMUsageService;
     vectorStore: VectorStoreService;
     agentConversationService: AgentConversationService;
     collaborationService: AgentCollaborationService;
     departmentService: DepartmentService;
     cultureService: CultureService;
     chroniclesService: ChroniclesService;
+    simulationClock: SimulationClock;
   };
 }
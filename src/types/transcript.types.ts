@@ -0,0 +1,53 @@
+export type TranscriptFormat = "md" | "jsonl" | "html";
+
+export interface TranscriptParticipant {
+  id: string;
+  name: string;
+  role?: string;
+  kind: "agent" | "resident";
+}
+
+export interface TranscriptEntry {
+  id: string;
+  speakerId: string;
+  speakerName: string;
+  role: "assistant" | "user" | "system";
+  content: string;
+  timestamp: number;
+  sentiment?: number;
+  inReplyTo?: string;
+}
+
+export interface ConversationTranscript {
+  id: string;
+  // live: still running, archive: ended and kept in memory, vector_store:
+  // rebuilt from the per-message vectors
+  source: "live" | "archive" | "vector_store";
+  status: "active" | "ended";
+  districtId?: string;
+  districtName?: string;
+  eventId?: string;
+  topic?: string;
+  topics: string[];
+  location?: string;
+  activity?: string;
+  startedAt: number;
+  endedAt?: number;
+  participants: TranscriptParticipant[];
+  messages: TranscriptEntry[];
+  sentimentTimeline: Array<{ timestamp: number; sentiment: number }>;
+  averageSentiment?: number;
+  culturalContext: {
+    events: string[];
+    traditions: string[];
+    mood?: string;
+  };
+}
+
+export interface TranscriptQuery {
+  districtId?: string;
+  // Conversations overlapping [from, to]
+  from?: number;
+  to?: number;
+  limit?: number;
+}
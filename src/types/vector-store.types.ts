@@ -41,3 +41,45 @@ export interface VectorStore {
     matches: Array<VectorRecord<T>>;
   }>;
 }
+
+export type VectorBackendType = "pinecone" | "memory";
+
+export type VectorFilterValue = string | number | boolean;
+
+export interface VectorFilterCondition {
+  $eq?: VectorFilterValue;
+  $ne?: VectorFilterValue;
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+  $in?: (string | number)[];
+  $nin?: (string | number)[];
+  $exists?: boolean;
+}
+
+export type VectorFilter = { [key: string]: VectorFilterCondition };
+
+export interface VectorBackendRecord {
+  id: string;
+  values: number[];
+  metadata: Record<string, string | number>;
+}
+
+export interface VectorBackendMatch {
+  id: string;
+  score: number;
+  metadata?: Record<string, string | number>;
+}
+
+export interface VectorBackend {
+  readonly type: VectorBackendType;
+  query(params: {
+    vector: number[];
+    filter?: VectorFilter;
+    topK: number;
+    includeMetadata: boolean;
+  }): Promise<{ matches: VectorBackendMatch[]; usage?: unknown }>;
+  upsert(records: VectorBackendRecord[], namespace?: string): Promise<void>;
+  ping(): Promise<boolean>;
+}
@@ -0,0 +1,73 @@
+import { jwt } from "@elysiajs/jwt";
+import type { AppStore } from "../services/app.services";
+import { hasRole, loadAuthConfig } from "../services/auth.service";
+import type { AuthConfig, Principal, Role } from "../types/auth.types";
+
+interface TokenVerifier {
+  verify: (token?: string) => Promise<Record<string, string | number> | false>;
+}
+
+interface GuardContext {
+  request: Request;
+  store: unknown;
+  set: { status?: number | string };
+  params?: Record<string, string>;
+  authJwt?: TokenVerifier;
+}
+
+export interface RoleGuardOptions {
+  // Route param holding the department id that department_operator must be assigned to
+  departmentParam?: string;
+}
+
+// Access tokens are signed by their own plugin instance so they carry an expiry
+export const authJwt = (config: AuthConfig = loadAuthConfig()) =>
+  jwt({
+    name: "authJwt",
+    secret: config.jwtSecret,
+    exp: `${config.accessTokenTtlSeconds}s`,
+  });
+
+export async function resolvePrincipal(
+  context: GuardContext
+): Promise<Principal | null> {
+  const authService = (context.store as AppStore).services.authService;
+
+  const apiKey = context.request.headers.get("x-api-key");
+  if (apiKey) {
+    return authService.authenticateApiKey(apiKey);
+  }
+
+  const authorization = context.request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ") && context.authJwt) {
+    const payload = await context.authJwt.verify(authorization.slice(7));
+    if (!payload || payload.type !== "access" || !payload.sub) return null;
+    // Roles are re-read from the account so revocations apply before the token expires
+    return authService.getUserPrincipal(String(payload.sub));
+  }
+
+  return null;
+}
+
+// beforeHandle hook: 401 without credentials, 403 when no listed role matches
+export const requireRole =
+  (roles: Role[], options: RoleGuardOptions = {}) =>
+  async (context: any) => {
+    const principal = await resolvePrincipal(context);
+    if (!principal) {
+      context.set.status = 401;
+      return { success: false, error: "Authentication required", code: 401 };
+    }
+
+    const departmentId = options.departmentParam
+      ? context.params?.[options.departmentParam]
+      : undefined;
+    if (!hasRole(principal, roles, departmentId)) {
+      context.set.status = 403;
+      return {
+        success: false,
+        error: `Requires role: ${roles.join(" or ")}`,
+        code: 403,
+      };
+    }
+  };
@@ -0,0 +1,43 @@
+import type {
+  ModerationReason,
+  ModerationResult,
+} from "../types/participant.types";
+
+// Phrases that try to take over the agent's instructions rather than talk to it
+const PROMPT_INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget)\b.{0,20}\b(previous|prior|above|earlier|all)\b.{0,20}\b(instructions|prompts?|rules)\b/i,
+  /\byou are (now|no longer)\b/i,
+  /\b(new|updated) (system )?instructions\b/i,
+  /(^|\n)\s*(system|assistant)\s*:/i,
+  /\[\/?(INST|SYS)\]|<\|?(system|im_start|im_end)\|?>/i,
+];
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Checks text a resident wrote before it is shown to agents or placed in a prompt
+export function moderateUserContent(
+  text: string,
+  options: { maxLength: number; blockedTerms: string[] }
+): ModerationResult {
+  const content = text
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+  const reasons: ModerationReason[] = [];
+
+  if (!content) reasons.push("empty");
+  if (content.length > options.maxLength) reasons.push("too_long");
+  if (
+    options.blockedTerms.some((term) =>
+      new RegExp(`\\b${escapeRegExp(term)}\\b`, "i").test(content)
+    )
+  ) {
+    reasons.push("blocked_term");
+  }
+  if (PROMPT_INJECTION_PATTERNS.some((pattern) => pattern.test(content))) {
+    reasons.push("prompt_injection");
+  }
+
+  return { allowed: reasons.length === 0, content, reasons };
+}
@@ -0,0 +1,193 @@
+import type { Agent } from "../types/agent.types";
+import type { Message } from "../types/conversation.types";
+import type {
+  AgentQualityScore,
+  QualityMetrics,
+} from "../types/conversation-quality.types";
+
+export interface EvaluatedConversation {
+  topic: string;
+  participants: Array<
+    Pick<
+      Agent,
+      "id" | "role" | "systemPrompt" | "personality" | "interests"
+    > & {
+      traits?: Partial<Agent["traits"]>;
+    }
+  >;
+  messages: Message[];
+}
+
+export interface ConversationEvaluation {
+  metrics: QualityMetrics;
+  agents: AgentQualityScore[];
+  flaggedMessageIds: string[];
+}
+
+const STOP_WORDS = new Set(
+  (
+    "the and for are but not you your yours with this that have has had was were " +
+    "will would could should there their they them then than what when where which " +
+    "who whom how about into from just like also been being its it's our ours out " +
+    "over some such very can all any more most much only own same too yes well " +
+    "really think know going get got one lot things thing here now today"
+  ).split(" ")
+);
+
+// Abusive language that has no place in a city conversation
+const TOXIC_PATTERNS = [
+  /\b(idiot|idiotic|moron|stupid|dumb|loser|pathetic|worthless|imbecile)\b/i,
+  /\bshut up\b/i,
+  /\b(i|we) hate (you|them|him|her)\b/i,
+  /\bkill (yourself|yourselves)\b/i,
+  /\b(damn|crap|bullshit|shit|fuck\w*)\b/i,
+];
+
+const INFORMAL_MARKERS =
+  /\b\w+'(s|re|ll|ve|d|m|t)\b|!|\b(gonna|wanna|yeah|hey|cool|awesome|lol|kinda|sorta)\b/gi;
+
+// A message this similar to an earlier one by the same agent repeats it; below
+// OVERLAP_ALLOWANCE the shared words are just the topic carrying on
+const REPEAT_SIMILARITY = 0.6;
+const OVERLAP_ALLOWANCE = 0.25;
+
+const words = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z']+/)
+      .map((word) => word.replace(/^'+|'+$/g, ""))
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+const mean = (values: number[], fallback = 1) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : fallback;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// How formal a message reads, from 0.2 (chatty) to 0.8 (measured)
+const formalityOf = (text: string) =>
+  Math.max(0.2, 0.8 - 0.15 * (text.match(INFORMAL_MARKERS) || []).length);
+
+export const isToxic = (text: string) =>
+  TOXIC_PATTERNS.some((pattern) => pattern.test(text));
+
+export function overallScore(metrics: Omit<QualityMetrics, "overall">) {
+  return round(
+    0.3 * metrics.repetition +
+      0.3 * metrics.personaConsistency +
+      0.25 * metrics.topicCoherence +
+      0.15 * (1 - metrics.toxicity)
+  );
+}
+
+// Scores an ended conversation's agent dialogue; system and resident messages
+// are ignored
+export function evaluateConversation(
+  conversation: EvaluatedConversation
+): ConversationEvaluation {
+  const spoken = conversation.messages
+    .filter((message) => message.role === "assistant" && message.content)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const vocabulary = spoken.map((message) => words(message.content));
+  const flagged = new Set<string>();
+
+  const agents: AgentQualityScore[] = conversation.participants.map((agent) => {
+    const own = spoken
+      .map((message, index) => ({ message, vocabulary: vocabulary[index] }))
+      .filter(({ message }) => message.agentId === agent.id);
+
+    const repeats = own.slice(1).map(({ message, vocabulary }, index) => {
+      const closest = Math.max(
+        ...own
+          .slice(0, index + 1)
+          .map((earlier) => similarity(vocabulary, earlier.vocabulary))
+      );
+      if (closest >= REPEAT_SIMILARITY) flagged.add(message.id);
+      return Math.min(
+        1,
+        Math.max(0, closest - OVERLAP_ALLOWANCE) /
+          (REPEAT_SIMILARITY - OVERLAP_ALLOWANCE)
+      );
+    });
+
+    const persona = words(
+      [
+        agent.role,
+        agent.systemPrompt,
+        agent.personality,
+        ...(agent.interests || []),
+      ].join(" ")
+    );
+    const inCharacter = own.filter(({ vocabulary }) =>
+      Array.from(vocabulary).some(
+        (word) => word.length > 3 && persona.has(word)
+      )
+    ).length;
+    const style =
+      1 -
+      Math.abs(
+        (agent.traits?.formality ?? 0.5) -
+          mean(
+            own.map(({ message }) => formalityOf(message.content)),
+            agent.traits?.formality ?? 0.5
+          )
+      );
+
+    return {
+      agentId: agent.id,
+      messages: own.length,
+      repetition: round(1 - mean(repeats, 0)),
+      personaConsistency: round(
+        own.length > 0 ? 0.6 * (inCharacter / own.length) + 0.4 * style : 0
+      ),
+    };
+  });
+
+  const speakers = agents.filter((agent) => agent.messages > 0);
+  const weighted = (key: "repetition" | "personaConsistency") =>
+    speakers.length > 0
+      ? speakers.reduce((sum, agent) => sum + agent[key] * agent.messages, 0) /
+        speakers.reduce((sum, agent) => sum + agent.messages, 0)
+      : 0;
+
+  const topicWords = words(conversation.topic || "");
+  const consecutive = vocabulary
+    .slice(1)
+    .map((current, index) =>
+      Math.min(1, 3 * similarity(vocabulary[index], current))
+    );
+  const onTopic =
+    topicWords.size > 0
+      ? vocabulary.filter((set) =>
+          Array.from(topicWords).some((word) => set.has(word))
+        ).length / Math.max(1, vocabulary.length)
+      : 1;
+
+  const toxic = spoken.filter((message) => isToxic(message.content));
+  toxic.forEach((message) => flagged.add(message.id));
+
+  const metrics = {
+    repetition: round(weighted("repetition")),
+    personaConsistency: round(weighted("personaConsistency")),
+    topicCoherence: round(
+      spoken.length > 0 ? 0.5 * mean(consecutive, 0) + 0.5 * onTopic : 0
+    ),
+    toxicity: round(spoken.length > 0 ? toxic.length / spoken.length : 0),
+  };
+
+  return {
+    metrics: { ...metrics, overall: overallScore(metrics) },
+    agents,
+    flaggedMessageIds: Array.from(flagged),
+  };
+}
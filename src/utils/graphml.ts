@@ -0,0 +1,63 @@
+import type { RelationshipGraph } from "../types/agent-relationship.types";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const NODE_KEYS = [
+  { id: "name", type: "string" },
+  { id: "role", type: "string" },
+  { id: "degree", type: "int" },
+] as const;
+
+const EDGE_KEYS = [
+  { id: "affinity", type: "double" },
+  { id: "trust", type: "double" },
+  { id: "conversations", type: "int" },
+  { id: "collaborationsCompleted", type: "int" },
+  { id: "collaborationsFailed", type: "int" },
+  { id: "conflicts", type: "int" },
+  { id: "lastInteractionAt", type: "long" },
+] as const;
+
+const data = (key: string, value: unknown) =>
+  value === undefined
+    ? ""
+    : `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+// Undirected GraphML readable by Gephi, yEd, NetworkX and Cytoscape
+export function renderGraphML(graph: RelationshipGraph): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...NODE_KEYS.map(
+      ({ id, type }) =>
+        `  <key id="${id}" for="node" attr.name="${id}" attr.type="${type}"/>`
+    ),
+    ...EDGE_KEYS.map(
+      ({ id, type }) =>
+        `  <key id="${id}" for="edge" attr.name="${id}" attr.type="${type}"/>`
+    ),
+    '  <graph id="agent-relationships" edgedefault="undirected">',
+    ...graph.nodes.map(
+      (node) =>
+        `    <node id="${escapeXml(node.id)}">${NODE_KEYS.map(({ id }) =>
+          data(id, node[id])
+        ).join("")}</node>`
+    ),
+    ...graph.edges.map(
+      (edge) =>
+        `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(
+          edge.source
+        )}" target="${escapeXml(edge.target)}">${EDGE_KEYS.map(({ id }) =>
+          data(id, edge[id])
+        ).join("")}</edge>`
+    ),
+    "  </graph>",
+    "</graphml>",
+  ].join("\n");
+}
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// What a provider learned about a call from the API it talks to
+export interface ProviderUsage {
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  cacheHit?: boolean;
+}
+
+const storage = new AsyncLocalStorage<ProviderUsage>();
+
+// Runs a provider call so that reportProviderUsage inside it fills in usage
+export function withProviderUsage<T>(usage: ProviderUsage, call: () => T): T {
+  return storage.run(usage, call);
+}
+
+// Providers call this after each API request; token counts add up across
+// retries. Outside a metered call it does nothing.
+export function reportProviderUsage(update: ProviderUsage) {
+  const usage = storage.getStore();
+  if (!usage) return;
+  if (update.model) usage.model = update.model;
+  if (update.cacheHit) usage.cacheHit = true;
+  if (typeof update.promptTokens === "number") {
+    usage.promptTokens = (usage.promptTokens || 0) + update.promptTokens;
+  }
+  if (typeof update.completionTokens === "number") {
+    usage.completionTokens =
+      (usage.completionTokens || 0) + update.completionTokens;
+  }
+}
@@ -0,0 +1,65 @@
+// Small deterministic PRNG helpers (mulberry32 + FNV-1a string hashing)
+
+export function hashString(value: string, seed: number = 0): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(private readonly initialSeed: number) {
+    this.state = initialSeed >>> 0;
+  }
+
+  get seed(): number {
+    return this.initialSeed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // RFC 4122 v4 layout, but drawn from the seeded stream
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () =>
+      Math.floor(this.next() * 16).toString(16)
+    );
+    hex[12] = "4";
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    const s = hex.join("");
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(
+      16,
+      20
+    )}-${s.slice(20)}`;
+  }
+
+  fork(label: string): SeededRandom {
+    return new SeededRandom(hashString(label, this.initialSeed));
+  }
+}
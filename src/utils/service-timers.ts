@@ -0,0 +1,41 @@
+// Keeps the handles of the timers a service starts so stop() can clear them all
+export class ServiceTimers {
+  private intervals = new Set<ReturnType<typeof setInterval>>();
+  private timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  setInterval(callback: () => unknown, ms: number) {
+    const handle = setInterval(callback, ms);
+    this.intervals.add(handle);
+    return handle;
+  }
+
+  setTimeout(callback: () => unknown, ms: number) {
+    const handle = setTimeout(() => {
+      this.timeouts.delete(handle);
+      callback();
+    }, ms);
+    this.timeouts.add(handle);
+    return handle;
+  }
+
+  clearInterval(handle: ReturnType<typeof setInterval>) {
+    clearInterval(handle);
+    this.intervals.delete(handle);
+  }
+
+  clearTimeout(handle: ReturnType<typeof setTimeout>) {
+    clearTimeout(handle);
+    this.timeouts.delete(handle);
+  }
+
+  get size() {
+    return this.intervals.size + this.timeouts.size;
+  }
+
+  clearAll() {
+    this.intervals.forEach((handle) => clearInterval(handle));
+    this.timeouts.forEach((handle) => clearTimeout(handle));
+    this.intervals.clear();
+    this.timeouts.clear();
+  }
+}
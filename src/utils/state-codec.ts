@@ -0,0 +1,72 @@
+// JSON encoding that survives Map and Set round-trips
+
+type EncodedCollection =
+  | { __type: "Map"; entries: [unknown, unknown][] }
+  | { __type: "Set"; values: unknown[] };
+
+export function encodeState(value: unknown): unknown {
+  if (value instanceof Map) {
+    return {
+      __type: "Map",
+      entries: Array.from(value.entries()).map(([k, v]) => [
+        encodeState(k),
+        encodeState(v),
+      ]),
+    } as EncodedCollection;
+  }
+  if (value instanceof Set) {
+    return {
+      __type: "Set",
+      values: Array.from(value.values()).map(encodeState),
+    } as EncodedCollection;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeState);
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== undefined && typeof v !== "function") {
+        result[key] = encodeState(v);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+export function decodeState<T = unknown>(value: unknown): T {
+  if (Array.isArray(value)) {
+    return value.map((v) => decodeState(v)) as T;
+  }
+  if (value && typeof value === "object") {
+    const tagged = value as Partial<EncodedCollection> & Record<string, any>;
+    if (tagged.__type === "Map" && Array.isArray(tagged.entries)) {
+      return new Map(
+        tagged.entries.map(([k, v]: [unknown, unknown]) => [
+          decodeState(k),
+          decodeState(v),
+        ])
+      ) as T;
+    }
+    if (tagged.__type === "Set" && Array.isArray(tagged.values)) {
+      return new Set(tagged.values.map((v: unknown) => decodeState(v))) as T;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = decodeState(v);
+    }
+    return result as T;
+  }
+  return value as T;
+}
+
+export function mapToRecord<T>(map: Map<string, T>): Record<string, T> {
+  return Object.fromEntries(map.entries());
+}
+
+export function recordToMap<T>(
+  record: Record<string, unknown> = {}
+): Map<string, T> {
+  return new Map(Object.entries(record) as [string, T][]);
+}
@@ -0,0 +1,227 @@
+import type {
+  DonationReceipt,
+  GivingStatement,
+  StatementBreakdown,
+  StatementFormat,
+} from "../types/donor.types";
+
+export const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+const day = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+const money = (amount: number, currency = "USD") =>
+  `${amount.toFixed(2)} ${currency}`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Quotes fields containing separators, quotes or line breaks
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (fields: Array<string | number | undefined>) =>
+  fields.map(csvField).join(",");
+
+function receiptFields(receipt: DonationReceipt): [string, string][] {
+  return [
+    ["Receipt number", receipt.receiptNumber],
+    ["Donor", `${receipt.donorName} (${receipt.donorId})`],
+    ["Date", day(receipt.donatedAt)],
+    ["Amount", money(receipt.amount, receipt.currency)],
+    ["Status", receipt.status],
+    ["Purpose", receipt.purpose],
+    ["Category", receipt.category],
+    ["District", receipt.districtId],
+    ["Department", receipt.departmentId],
+    ["Donation", receipt.donationId],
+    ["Payment", receipt.paymentId || "-"],
+    ["Ledger hash", receipt.ledgerHash || "-"],
+    ["Issued", new Date(receipt.issuedAt).toISOString()],
+  ];
+}
+
+const htmlDocument = (title: string, body: string[]) =>
+  [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title>`,
+    "<style>body{font-family:sans-serif;max-width:48rem;margin:auto}dt{font-weight:bold}table{border-collapse:collapse;width:100%}th,td{border-bottom:1px solid #ddd;padding:.25rem;text-align:left}td.amount{text-align:right}.refunded{color:#888;text-decoration:line-through}</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+  ].join("\n");
+
+export function renderReceiptHtml(receipt: DonationReceipt): string {
+  const fields = receiptFields(receipt)
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    )
+    .join("");
+  return htmlDocument(`Donation receipt ${receipt.receiptNumber}`, [
+    `<h1>Donation receipt ${escapeHtml(receipt.receiptNumber)}</h1>`,
+    `<dl>${fields}</dl>`,
+  ]);
+}
+
+function breakdownTable(title: string, rows: StatementBreakdown[]): string {
+  const body = rows
+    .map(
+      (row) =>
+        `<tr><td>${escapeHtml(row.key)}</td><td>${
+          row.count
+        }</td><td class="amount">${money(row.amount)}</td></tr>`
+    )
+    .join("\n");
+  return [
+    `<h2>By ${escapeHtml(title)}</h2>`,
+    `<table><thead><tr><th>${escapeHtml(
+      title
+    )}</th><th>Donations</th><th>Amount</th></tr></thead>`,
+    `<tbody>\n${body}\n</tbody></table>`,
+  ].join("\n");
+}
+
+function toHtml(statement: GivingStatement): string {
+  const donations = statement.receipts
+    .map(
+      (receipt) =>
+        `<tr class="${escapeHtml(receipt.status)}"><td>${day(
+          receipt.donatedAt
+        )}</td><td>${escapeHtml(receipt.receiptNumber)}</td><td>${escapeHtml(
+          receipt.purpose
+        )}</td><td>${escapeHtml(receipt.districtId)}</td><td>${escapeHtml(
+          receipt.departmentId
+        )}</td><td class="amount">${money(
+          receipt.amount,
+          receipt.currency
+        )}</td></tr>`
+    )
+    .join("\n");
+  return htmlDocument(
+    `Giving statement ${statement.year} - ${statement.donorName}`,
+    [
+      `<h1>Giving statement ${statement.year}</h1>`,
+      `<dl><dt>Donor</dt><dd>${escapeHtml(
+        `${statement.donorName} (${statement.donorId})`
+      )}</dd><dt>Total given</dt><dd>${money(
+        statement.total
+      )}</dd><dt>Donations</dt><dd>${
+        statement.donationCount
+      }</dd><dt>Refunded</dt><dd>${money(
+        statement.refunded
+      )}</dd><dt>Generated</dt><dd>${new Date(
+        statement.generatedAt
+      ).toISOString()}</dd></dl>`,
+      breakdownTable("category", statement.byCategory),
+      breakdownTable("district", statement.byDistrict),
+      breakdownTable("department", statement.byDepartment),
+      "<h2>Donations</h2>",
+      "<table><thead><tr><th>Date</th><th>Receipt</th><th>Purpose</th><th>District</th><th>Department</th><th>Amount</th></tr></thead>",
+      `<tbody>\n${donations}\n</tbody></table>`,
+    ]
+  );
+}
+
+// One table: a row per donation, then the totals by category, district and
+// department, then the year's total
+function toCsv(statement: GivingStatement): string {
+  const rows = [
+    csvRow([
+      "type",
+      "key",
+      "date",
+      "receipt_number",
+      "donation_id",
+      "status",
+      "purpose",
+      "district",
+      "department",
+      "count",
+      "amount",
+    ]),
+    ...statement.receipts.map((receipt) =>
+      csvRow([
+        "donation",
+        receipt.category,
+        day(receipt.donatedAt),
+        receipt.receiptNumber,
+        receipt.donationId,
+        receipt.status,
+        receipt.purpose,
+        receipt.districtId,
+        receipt.departmentId,
+        1,
+        receipt.amount.toFixed(2),
+      ])
+    ),
+  ];
+  const totals: [string, StatementBreakdown[]][] = [
+    ["category", statement.byCategory],
+    ["district", statement.byDistrict],
+    ["department", statement.byDepartment],
+  ];
+  for (const [type, breakdown] of totals) {
+    for (const row of breakdown) {
+      rows.push(
+        csvRow([
+          type,
+          row.key,
+          "",
+          "",
+          "",
+          "",
+          "",
+          "",
+          "",
+          row.count,
+          row.amount.toFixed(2),
+        ])
+      );
+    }
+  }
+  rows.push(
+    csvRow([
+      "total",
+      String(statement.year),
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      statement.donationCount,
+      statement.total.toFixed(2),
+    ])
+  );
+  return rows.join("\r\n") + "\r\n";
+}
+
+export function renderStatement(
+  statement: GivingStatement,
+  format: StatementFormat
+): string {
+  switch (format) {
+    case "html":
+      return toHtml(statement);
+    case "csv":
+      return toCsv(statement);
+    default:
+      return JSON.stringify(statement);
+  }
+}
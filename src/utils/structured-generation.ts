@@ -0,0 +1,93 @@
+import type { ZodIssue, ZodTypeAny, z } from "zod";
+import type { LLMProvider, TextGenerationOptions } from "../types/llm.types";
+
+export interface StructuredGenerationOptions<T extends ZodTypeAny> {
+  prompt: string;
+  schema: T;
+  // Tries including the first; every retry tells the model what was wrong
+  maxAttempts?: number;
+  generation?: TextGenerationOptions;
+}
+
+export interface StructuredAttempt {
+  reply: string;
+  error: string;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(readonly attempts: StructuredAttempt[]) {
+    super(
+      `No valid reply after ${attempts.length} attempt${
+        attempts.length === 1 ? "" : "s"
+      }: ${attempts[attempts.length - 1]?.error}`
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+export type StructuredResult<T> =
+  | { ok: true; value: T; attempts: number }
+  | { ok: false; error: StructuredOutputError; attempts: number };
+
+const describeIssues = (issues: ZodIssue[]) =>
+  issues
+    .map((issue) => `${issue.path.join(".") || "(root)"} ${issue.message}`)
+    .join("; ");
+
+// The JSON value in a reply, ignoring code fences and any text around it
+function extractJson(reply: string): unknown {
+  const text = reply.replace(/```(?:json)?/gi, "").trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start === -1 || end < start) {
+    throw new SyntaxError("Reply does not contain a JSON value");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+// Asks for JSON matching the schema until a reply validates. Errors from the
+// provider itself are not retried and reject as usual.
+export async function generateStructured<T extends ZodTypeAny>(
+  llm: LLMProvider,
+  {
+    prompt,
+    schema,
+    maxAttempts = 3,
+    generation,
+  }: StructuredGenerationOptions<T>
+): Promise<StructuredResult<z.infer<T>>> {
+  const attempts: StructuredAttempt[] = [];
+
+  while (attempts.length < maxAttempts) {
+    const previous = attempts[attempts.length - 1];
+    const reply = await llm.generateText(
+      previous
+        ? `${prompt}
+
+Your previous reply was rejected: ${previous.error}
+Reply again with only the corrected JSON.`
+        : prompt,
+      generation
+    );
+
+    let error: string;
+    try {
+      const result = schema.safeParse(extractJson(reply));
+      if (result.success) {
+        return { ok: true, value: result.data, attempts: attempts.length + 1 };
+      }
+      error = describeIssues(result.error.issues);
+    } catch (parseError) {
+      error = `Reply is not valid JSON (${
+        parseError instanceof Error ? parseError.message : String(parseError)
+      })`;
+    }
+    attempts.push({ reply, error });
+  }
+
+  return {
+    ok: false,
+    error: new StructuredOutputError(attempts),
+    attempts: attempts.length,
+  };
+}
@@ -0,0 +1,160 @@
+import type {
+  ConversationTranscript,
+  TranscriptFormat,
+} from "../types/transcript.types";
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+const iso = (timestamp?: number) =>
+  timestamp === undefined ? "-" : new Date(timestamp).toISOString();
+
+const titleOf = (transcript: ConversationTranscript) =>
+  transcript.topic || `Conversation ${transcript.id}`;
+
+const participantLabel = ({
+  name,
+  role,
+  kind,
+}: ConversationTranscript["participants"][number]) =>
+  kind === "resident"
+    ? `${name} (resident)`
+    : role
+    ? `${name} (${role})`
+    : name;
+
+const districtLabel = (transcript: ConversationTranscript) =>
+  transcript.districtName
+    ? `${transcript.districtName} (${transcript.districtId})`
+    : transcript.districtId || "-";
+
+function summaryFields(transcript: ConversationTranscript): [string, string][] {
+  const { culturalContext } = transcript;
+  return [
+    ["Conversation", transcript.id],
+    ["Status", transcript.status],
+    ["District", districtLabel(transcript)],
+    [
+      "Setting",
+      [transcript.location, transcript.activity].filter(Boolean).join(", ") ||
+        "-",
+    ],
+    ["Started", iso(transcript.startedAt)],
+    ["Ended", iso(transcript.endedAt)],
+    ["Participants", transcript.participants.map(participantLabel).join(", ")],
+    ["Topics", transcript.topics.join(", ") || "-"],
+    ["Cultural events", culturalContext.events.join(", ") || "-"],
+    ["Traditions", culturalContext.traditions.join(", ") || "-"],
+    ["Mood", culturalContext.mood || "-"],
+    [
+      "Average sentiment",
+      transcript.averageSentiment === undefined
+        ? "-"
+        : transcript.averageSentiment.toFixed(2),
+    ],
+  ];
+}
+
+function toMarkdown(transcript: ConversationTranscript): string {
+  const lines = [`# ${titleOf(transcript)}`, ""];
+  for (const [label, value] of summaryFields(transcript)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+
+  if (transcript.sentimentTimeline.length > 0) {
+    lines.push("", "## Sentiment", "", "| Time | Sentiment |", "| --- | --- |");
+    for (const point of transcript.sentimentTimeline) {
+      lines.push(`| ${iso(point.timestamp)} | ${point.sentiment.toFixed(2)} |`);
+    }
+  }
+
+  lines.push("", "## Transcript", "");
+  for (const entry of transcript.messages) {
+    // Keep multi-line messages inside the speaker's paragraph
+    const content = entry.content.replace(/\n+/g, " ");
+    lines.push(
+      entry.role === "system"
+        ? `_[${iso(entry.timestamp)}] ${content}_`
+        : `**[${iso(entry.timestamp)}] ${entry.speakerName}:** ${content}`,
+      ""
+    );
+  }
+  return lines.join("\n");
+}
+
+function toJsonLines(transcript: ConversationTranscript): string {
+  const { messages, ...header } = transcript;
+  return [
+    JSON.stringify({ type: "conversation", ...header }),
+    ...messages.map((entry) =>
+      JSON.stringify({
+        type: "message",
+        conversationId: transcript.id,
+        ...entry,
+      })
+    ),
+  ].join("\n");
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+function toHtmlArticle(transcript: ConversationTranscript): string {
+  const summary = summaryFields(transcript)
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    )
+    .join("");
+  const messages = transcript.messages
+    .map(
+      (entry) =>
+        `<li class="${entry.role}"><time datetime="${iso(
+          entry.timestamp
+        )}">${iso(entry.timestamp)}</time> <strong>${escapeHtml(
+          entry.speakerName
+        )}</strong> <span>${escapeHtml(entry.content)}</span></li>`
+    )
+    .join("\n");
+  return [
+    `<article id="${escapeHtml(transcript.id)}">`,
+    `<h1>${escapeHtml(titleOf(transcript))}</h1>`,
+    `<dl>${summary}</dl>`,
+    `<ol>\n${messages}\n</ol>`,
+    `</article>`,
+  ].join("\n");
+}
+
+// Several transcripts render as one document: articles in HTML, sections
+// separated by a rule in Markdown, consecutive records in JSON-L
+export function renderTranscripts(
+  transcripts: ConversationTranscript[],
+  format: TranscriptFormat
+): string {
+  switch (format) {
+    case "jsonl":
+      return transcripts.map(toJsonLines).join("\n") + "\n";
+    case "html":
+      return [
+        "<!DOCTYPE html>",
+        '<html lang="en">',
+        '<head><meta charset="utf-8"><title>Neurova conversation transcripts</title>',
+        "<style>body{font-family:sans-serif;max-width:48rem;margin:auto}dt{font-weight:bold}li.system{font-style:italic;color:#666}time{color:#888;font-size:.8em}</style>",
+        "</head>",
+        "<body>",
+        ...transcripts.map(toHtmlArticle),
+        "</body>",
+        "</html>",
+      ].join("\n");
+    default:
+      return transcripts.map(toMarkdown).join("\n\n---\n\n");
+  }
+}
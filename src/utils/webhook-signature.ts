@@ -0,0 +1,41 @@
+import crypto from "crypto";
+
+// Older signatures are refused so a captured webhook cannot be replayed later
+const TOLERANCE_MS = 5 * 60 * 1000;
+
+const hmac = (secret: string, timestamp: number, payload: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+
+// Signature header for a webhook body: "t=<ms>,v1=<hex hmac of t.body>"
+export function signWebhook(
+  payload: string,
+  secret: string,
+  timestamp = Date.now()
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, payload)}`;
+}
+
+export function isValidWebhookSignature(
+  payload: string,
+  signature: string | undefined,
+  secret: string,
+  now = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    (signature || "").split(",").map((part) => part.trim().split("=", 2))
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now - timestamp) > TOLERANCE_MS) return false;
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(hmac(secret, timestamp, payload));
+  const received = encoder.encode(parts.v1);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,246 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const DOWNTOWN = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("AdminController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  const departmentIds = () =>
+    Object.keys(
+      city.store.services.departmentService.exportState().departments
+    );
+
+  const exportSnapshot = async () =>
+    (await city.get("/api/admin/snapshot", { as: "admin" })).body;
+
+  test("a snapshot brings back the city state and its simulation time", async () => {
+    const snapshot = await exportSnapshot();
+    expect(snapshot.simulationTime).toBe(
+      city.store.services.simulationClock.now()
+    );
+
+    const created = await city.post(
+      "/api/departments",
+      {
+        name: "Snapshot Department",
+        type: "urban_planning",
+        description: "Only exists after the snapshot",
+      },
+      { as: "admin" }
+    );
+    expect(departmentIds()).toContain(created.body.id);
+    await city.post(
+      "/api/simulation/clock/step",
+      { ms: 60000 },
+      { as: "admin" }
+    );
+
+    const imported = await city.post("/api/admin/snapshot", snapshot, {
+      as: "admin",
+    });
+    expect(imported.status).toBe(200);
+    expect(imported.body.data).toEqual({
+      imported: expect.arrayContaining(["departments", "city_events"]),
+      simulationTime: snapshot.simulationTime,
+    });
+    expect(departmentIds()).not.toContain(created.body.id);
+    expect(city.store.services.simulationClock.now()).toBe(
+      snapshot.simulationTime
+    );
+  });
+
+  test("a snapshot that does not load leaves the city as it was", async () => {
+    const snapshot = await exportSnapshot();
+    const departments = departmentIds();
+    const now = city.store.services.simulationClock.now();
+
+    const unknownCollection = await city.post(
+      "/api/admin/snapshot",
+      {
+        ...snapshot,
+        services: {
+          ...snapshot.services,
+          departments: { ...snapshot.services.departments, budgets: {} },
+        },
+      },
+      { as: "admin" }
+    );
+    expect(unknownCollection.status).toBe(400);
+    expect(unknownCollection.body.error).toContain('unknown "budgets"');
+
+    // Departments load fine; the broken event only fails once they have
+    const broken = await city.post(
+      "/api/admin/snapshot",
+      {
+        ...snapshot,
+        simulationTime: now + HOUR_MS,
+        services: {
+          departments: { ...snapshot.services.departments, departments: {} },
+          city_events: { activeEvents: { broken: null } },
+        },
+      },
+      { as: "admin" }
+    );
+    expect(broken.status).toBe(400);
+    expect(broken.body.error).toContain('Failed to import "city_events"');
+    expect(departmentIds()).toEqual(departments);
+    expect(city.store.services.simulationClock.now()).toBe(now);
+
+    const unsupported = await city.post(
+      "/api/admin/snapshot",
+      { ...snapshot, version: 99 },
+      { as: "admin" }
+    );
+    expect(unsupported.status).toBe(400);
+  });
+
+  test("PUT /api/admin/conversation-policy overrides a district at runtime", async () => {
+    const updated = await city.request(
+      "PUT",
+      "/api/admin/conversation-policy",
+      {
+        as: "admin",
+        body: {
+          districts: {
+            [DOWNTOWN]: {
+              maxConcurrentConversations: 5,
+              quietHours: { source: "off" },
+            },
+          },
+        },
+      }
+    );
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.districts[DOWNTOWN]).toEqual({
+      maxConcurrentConversations: 5,
+      quietHours: { source: "off" },
+      eventPriority: {},
+    });
+
+    const current = await city.get("/api/admin/conversation-policy", {
+      as: "admin",
+    });
+    expect(current.status).toBe(200);
+    expect(current.body.data.districts).toContainEqual(
+      expect.objectContaining({
+        districtId: DOWNTOWN,
+        quiet: false,
+        limit: 5,
+        active: 0,
+      })
+    );
+  });
+
+  test("PUT /api/admin/conversation-policy rejects inconsistent durations", async () => {
+    const response = await city.request(
+      "PUT",
+      "/api/admin/conversation-policy",
+      {
+        as: "admin",
+        body: {
+          defaults: {
+            minConversationDurationMs: 60000,
+            maxConversationDurationMs: 30000,
+          },
+        },
+      }
+    );
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  test("GET /api/admin/conversation-policy requires the admin role", async () => {
+    const response = await city.get("/api/admin/conversation-policy", {
+      as: "donor",
+    });
+    expect(response.status).toBe(403);
+  });
+
+  test("GET /api/admin/prompt-outputs shows the template version behind a stored output", async () => {
+    city.llm.queueReply("Subject reads a map near the fountain.");
+    const observed = await city.post("/api/cctv/observe/luna");
+    expect(observed.status).toBe(200);
+
+    const outputs = await city.get(
+      "/api/admin/prompt-outputs?template=cctv-report",
+      { as: "admin" }
+    );
+    expect(outputs.status).toBe(200);
+    const [latest] = outputs.body.data;
+    expect(latest.outputId).toStartWith("observation-luna-");
+    expect(latest.version).toBe("1");
+
+    const output = await city.get(
+      `/api/admin/prompt-outputs/${latest.outputId}`,
+      { as: "admin" }
+    );
+    expect(output.body.data).toEqual(latest);
+
+    const templates = await city.get("/api/admin/prompt-templates", {
+      as: "admin",
+    });
+    expect(templates.body.data).toContainEqual(
+      expect.objectContaining({
+        name: "cctv-report",
+        activeVersion: "1",
+        pinned: false,
+        outputs: 1,
+      })
+    );
+  });
+
+  test("PUT /api/admin/prompt-templates/:name/active rejects unknown versions", async () => {
+    const response = await city.request(
+      "PUT",
+      "/api/admin/prompt-templates/cctv-report/active",
+      { as: "admin", body: { version: "42" } }
+    );
+    expect(response.status).toBe(400);
+
+    const missing = await city.get("/api/admin/prompt-templates/nope", {
+      as: "admin",
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  test("GET /api/admin/llm-usage reports CCTV calls and PUT budgets degrades them", async () => {
+    city.llm.queueReply("Subject feeds pigeons by the canal.");
+    await city.post("/api/cctv/observe/luna");
+
+    const report = await city.get("/api/admin/llm-usage?service=cctv", {
+      as: "admin",
+    });
+    expect(report.status).toBe(200);
+    expect(report.body.data.byService).toEqual([
+      expect.objectContaining({ key: "cctv", estimatedCost: 0 }),
+    ]);
+    expect(report.body.data.byPromptTemplate[0].key).toBe("cctv-report@1");
+
+    const budgets = await city.request("PUT", "/api/admin/llm-usage/budgets", {
+      as: "admin",
+      body: { budgets: { cctv: { dailyTokens: 1, action: "canned" } } },
+    });
+    expect(budgets.body.data).toContainEqual(
+      expect.objectContaining({ service: "cctv", exceeded: true })
+    );
+
+    const cctvCalls = () =>
+      city.llm.calls.filter((call) => call.prompt.includes("[CCTV")).length;
+    const before = cctvCalls();
+    await city.post("/api/cctv/observe/luna");
+    expect(cctvCalls()).toBe(before);
+
+    const calls = await city.get("/api/admin/llm-usage/calls?service=cctv", {
+      as: "admin",
+    });
+    expect(calls.body.data[0].degraded).toBe("canned");
+  });
+});
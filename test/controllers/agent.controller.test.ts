@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+import { residentAgents } from "../../src/config/agents";
+
+const newAgent = {
+  name: "Ines",
+  role: "Urban Gardener",
+  personality: "Patient and practical",
+  systemPrompt: "You are Ines, who tends the city's rooftop gardens.",
+  interests: ["gardening", "sustainability"],
+  preferredStyle: "casual",
+  memoryWindowSize: 10,
+  emotionalRange: { min: 0.2, max: 0.8 },
+};
+
+describe("AgentController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/agents lists every agent group", async () => {
+    const response = await city.get("/api/agents");
+    expect(response.status).toBe(200);
+    expect(response.body.custom.length).toBeGreaterThan(0);
+    expect(response.body.city.length).toBeGreaterThan(0);
+    expect(response.body.management.length).toBeGreaterThan(0);
+    expect(response.body.resident.length).toBeGreaterThan(0);
+  });
+
+  test("GET /api/agents/:id returns a resident agent", async () => {
+    const response = await city.get("/api/agents/luna");
+    expect(response.status).toBe(200);
+    expect(response.body.name).toBe("Luna");
+  });
+
+  test("GET /api/agents/compatible/:agentId fails for an unknown agent", async () => {
+    const response = await city.get("/api/agents/compatible/nobody");
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe("Agent not found");
+  });
+
+  test("creating, updating and deleting an agent requires an admin", async () => {
+    const denied = await city.post("/api/agents", newAgent, { as: "donor" });
+    expect(denied.status).toBe(403);
+
+    const created = await city.post("/api/agents", newAgent, { as: "admin" });
+    expect(created.status).toBe(200);
+    expect(created.body.traits.curiosity).toBe(0.5);
+    const id = created.body.id;
+
+    const updated = await city.request("PUT", `/api/agents/${id}`, {
+      body: { role: "Head Gardener" },
+      as: "admin",
+    });
+    expect(updated.body).toEqual(
+      expect.objectContaining({ id, name: "Ines", role: "Head Gardener" })
+    );
+
+    const deleted = await city.request("DELETE", `/api/agents/${id}`, {
+      as: "admin",
+    });
+    expect(deleted.body.success).toBe(true);
+
+    const missing = await city.get(`/api/agents/${id}`);
+    expect(missing.body.error).toBe("Agent not found");
+  });
+
+  test("DELETE /api/agents/:id keeps the default residents", async () => {
+    const response = await city.request("DELETE", "/api/agents/luna", {
+      as: "admin",
+    });
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe("Cannot delete default agent");
+  });
+
+  test("GET and DELETE /api/agents/:id/memories expose and clear what an agent remembers", async () => {
+    const [luna, guest] = residentAgents;
+    await city.store.services.agentMemory.recordConversation({
+      id: "conv-memories",
+      districtId: "a42ed892-3878-45a5-9a1a-4ceaf9524f1c",
+      topic: "the night market",
+      location: "Central Plaza",
+      participants: [luna, guest],
+      sentiment: 0.5,
+      messages: [
+        {
+          id: "m1",
+          agentId: luna.id,
+          content: "The lanterns made the square glow.",
+          timestamp: Date.now(),
+          role: "assistant",
+        },
+      ],
+    });
+
+    const listed = await city.get(`/api/agents/${luna.id}/memories`);
+    expect(listed.status).toBe(200);
+    expect(listed.body.data).toEqual([
+      expect.objectContaining({
+        kind: "episodic",
+        conversationId: "conv-memories",
+        said: ["The lanterns made the square glow."],
+      }),
+    ]);
+    // Only agents that spoke remember the conversation
+    expect(
+      (await city.get(`/api/agents/${guest.id}/memories`)).body.data
+    ).toEqual([]);
+    expect((await city.get("/api/agents/nobody/memories")).status).toBe(404);
+
+    const path = `/api/agents/${luna.id}/memories`;
+    expect((await city.request("DELETE", path, { as: "donor" })).status).toBe(
+      403
+    );
+    const cleared = await city.request("DELETE", path, { as: "admin" });
+    expect(cleared.body.data.removed).toBe(1);
+    expect((await city.get(path)).body.data).toEqual([]);
+  });
+
+  test("GET /api/agents/relationships exports the graph as JSON or GraphML", async () => {
+    const [luna, guest] = residentAgents;
+    city.store.services.agentRelationships.recordCollaboration(
+      { sessionId: "session-graph", agents: [luna.id, guest.id] },
+      true
+    );
+
+    const json = await city.get(`/api/agents/relationships?agentId=${luna.id}`);
+    expect(json.body.data.edges).toEqual([
+      expect.objectContaining({
+        collaborationsCompleted: 1,
+        source: [luna.id, guest.id].sort()[0],
+      }),
+    ]);
+    expect(json.body.data.nodes).toContainEqual(
+      expect.objectContaining({ id: luna.id, name: luna.name, degree: 1 })
+    );
+
+    const graphml = await city.get("/api/agents/relationships?format=graphml");
+    expect(graphml.body).toContain('<graph id="agent-relationships"');
+    expect(graphml.body).toContain(`<node id="${luna.id}">`);
+    expect(graphml.body).toContain('<data key="trust">0.6</data>');
+  });
+});
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("AuthController", () => {
+  let city: TestCity;
+
+  const login = (password = "correct-horse") =>
+    city.post("/api/auth/login", { username: "ada", password });
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    await city.store.services.authService.createUser({
+      username: "ada",
+      password: "correct-horse",
+      roles: ["viewer"],
+    });
+  });
+
+  afterAll(() => city.close());
+
+  test("POST /api/auth/login issues tokens the other routes accept", async () => {
+    expect((await login("wrong-password")).status).toBe(401);
+
+    const { status, body } = await login();
+    expect(status).toBe(200);
+    expect(body.data).toEqual(
+      expect.objectContaining({
+        tokenType: "Bearer",
+        accessToken: expect.any(String),
+        refreshToken: expect.any(String),
+      })
+    );
+
+    const me = await city.get("/api/auth/me", {
+      headers: { authorization: `Bearer ${body.data.accessToken}` },
+    });
+    expect(me.body.data).toEqual(
+      expect.objectContaining({ id: body.data.principal.id, roles: ["viewer"] })
+    );
+    expect(
+      (
+        await city.get("/api/auth/me", {
+          headers: { authorization: "Bearer not-a-token" },
+        })
+      ).status
+    ).toBe(401);
+  });
+
+  test("POST /api/auth/refresh rotates the refresh token", async () => {
+    const { refreshToken } = (await login()).body.data;
+
+    const rotated = await city.post("/api/auth/refresh", { refreshToken });
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.data.refreshToken).not.toBe(refreshToken);
+
+    const reused = await city.post("/api/auth/refresh", { refreshToken });
+    expect(reused.status).toBe(401);
+  });
+
+  test("POST /api/auth/logout revokes the refresh token", async () => {
+    const { refreshToken } = (await login()).body.data;
+
+    const logout = await city.post("/api/auth/logout", { refreshToken });
+    expect(logout.body.data.revoked).toBe(true);
+    expect(
+      (await city.post("/api/auth/refresh", { refreshToken })).status
+    ).toBe(401);
+    expect(
+      (await city.post("/api/auth/logout", { refreshToken })).body.data.revoked
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("CCTVController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("POST /api/cctv/observe/:agentId narrates an idle agent with the LLM", async () => {
+    city.llm.queueReply(
+      "  Subject walks north along the canal carrying a notebook.  "
+    );
+
+    const response = await city.post("/api/cctv/observe/luna");
+    expect(response.status).toBe(200);
+    expect(response.body.data.narrative).toBe(
+      "Subject walks north along the canal carrying a notebook."
+    );
+    expect(response.body.data.area).toBe("Unclassified");
+
+    const prompt = city.llm.calls.find(
+      (call) =>
+        call.method === "generateText" &&
+        call.prompt.includes("[CCTV SURVEILLANCE LOG]")
+    );
+    expect(prompt?.prompt).toContain("Target: Agent luna");
+  });
+
+  test("GET /api/cctv/history/:agentId returns stored observations", async () => {
+    const response = await city.get("/api/cctv/history/luna?limit=5");
+    expect(response.status).toBe(200);
+    expect(response.body.data).toContainEqual(
+      expect.objectContaining({
+        narrative: "Subject walks north along the canal carrying a notebook.",
+      })
+    );
+  });
+
+  test("GET /api/cctv/history/:agentId is empty for an unobserved agent", async () => {
+    const response = await city.get("/api/cctv/history/nobody");
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("ChroniclesController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/chronicles/daily assembles the chronicle from LLM reports", async () => {
+    const response = await city.get("/api/chronicles/daily");
+    expect(response.status).toBe(200);
+
+    const chronicle = response.body.data;
+    expect(chronicle.headlines[0]).toEqual(
+      expect.objectContaining({
+        headline: "Riverside Market Extends Evening Hours",
+        category: "community",
+        importance: 6,
+      })
+    );
+    expect(chronicle.events[0]).toEqual(
+      expect.objectContaining({
+        title: "Lantern Walk Along the Canal",
+        type: "cultural",
+        location: "Canal Promenade",
+      })
+    );
+    expect(chronicle.incidents[0]).toEqual(
+      expect.objectContaining({
+        severity: "medium",
+        type: "infrastructure",
+        status: "ongoing",
+      })
+    );
+  });
+
+  test("GET /api/chronicles/news honours the limit", async () => {
+    const response = await city.get("/api/chronicles/news?limit=2");
+    expect(response.status).toBe(200);
+    expect(response.body.data.length).toBeLessThanOrEqual(2);
+  });
+
+  test("GET /api/chronicles/incidents/active only lists ongoing incidents", async () => {
+    const response = await city.get("/api/chronicles/incidents/active");
+    expect(response.status).toBe(200);
+    expect(response.body.data.length).toBeGreaterThan(0);
+    for (const incident of response.body.data) {
+      expect(incident.status).toBe("ongoing");
+    }
+  });
+
+  test("GET /api/chronicles/budgets and /metrics return generated figures", async () => {
+    const budgets = await city.get("/api/chronicles/budgets");
+    expect(budgets.status).toBe(200);
+    expect(budgets.body.data.length).toBeGreaterThan(0);
+
+    const metrics = await city.get("/api/chronicles/metrics/safety");
+    expect(metrics.status).toBe(200);
+    expect(metrics.body.data).toEqual(
+      expect.objectContaining({ overallSafety: expect.any(Number) })
+    );
+  });
+
+  test("GET /api/chronicles/metrics/:category rejects unknown categories", async () => {
+    const response = await city.get("/api/chronicles/metrics/weather");
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toContain("Invalid metrics category");
+  });
+});
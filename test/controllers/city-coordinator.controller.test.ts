@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const proposal = {
+  title: "Protected bike lanes on River Road",
+  description: "Separate cyclists from traffic along the river corridor",
+  category: "infrastructure",
+  domain: "transportation",
+  targetDistrict: "downtown",
+  stakeholders: ["transport-dept", "residents"],
+  estimatedImpact: { overall: 0.8, environmental: 0.7, social: 0.6 },
+  location: { coordinates: [52.1, 4.3], landmark: "River Bridge" },
+};
+
+describe("CityCoordinatorController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/coordinator/proposals lists active proposals", async () => {
+    const response = await city.get("/api/coordinator/proposals");
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(Array.isArray(response.body.data)).toBe(true);
+  });
+
+  test("POST /api/coordinator/proposals requires a department operator", async () => {
+    const anonymous = await city.post("/api/coordinator/proposals", proposal);
+    expect(anonymous.status).toBe(401);
+
+    const viewer = await city.post("/api/coordinator/proposals", proposal, {
+      as: "viewer",
+    });
+    expect(viewer.status).toBe(403);
+  });
+
+  test("POST /api/coordinator/proposals evaluates the proposal", async () => {
+    const response = await city.post("/api/coordinator/proposals", proposal, {
+      as: "department_operator",
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(typeof response.body.data.accepted).toBe("boolean");
+    expect(typeof response.body.data.score).toBe("number");
+
+    const active = await city.get("/api/coordinator/proposals");
+    const titles = active.body.data.map((p: any) => p.title);
+    expect(titles.includes(proposal.title)).toBe(response.body.data.accepted);
+  });
+
+  test("POST /api/coordinator/proposals rejects an unknown domain", async () => {
+    const response = await city.post(
+      "/api/coordinator/proposals",
+      { ...proposal, domain: "space_program" },
+      { as: "department_operator" }
+    );
+    expect(response.status).toBe(422);
+  });
+
+  test("GET /api/coordinator/insights groups memories", async () => {
+    const response = await city.get(
+      "/api/coordinator/insights?category=environmental"
+    );
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual(
+      expect.objectContaining({
+        successful: expect.any(Array),
+        failed: expect.any(Array),
+        patterns: expect.any(Object),
+      })
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("CityRhythmController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("POST /api/rhythm/patterns adds a pattern to the forecast", async () => {
+    const pattern = {
+      hour: 7,
+      type: "transport",
+      intensity: 0.9,
+      locations: ["Central Station"],
+    };
+
+    const created = await city.post("/api/rhythm/patterns", pattern);
+    expect(created.status).toBe(200);
+    expect(created.body).toEqual({ success: true, data: pattern });
+
+    const forecast = await city.get("/api/rhythm/forecast?type=transport");
+    expect(forecast.status).toBe(200);
+    const hour = forecast.body.data.find((entry: any) => entry.hour === 7);
+    expect(hour.predictions).toContainEqual(
+      expect.objectContaining({ type: "transport", intensity: 0.9 })
+    );
+  });
+
+  test("POST /api/rhythm/patterns validates the body", async () => {
+    const response = await city.post("/api/rhythm/patterns", {
+      hour: 30,
+      type: "transport",
+      intensity: 0.5,
+      locations: [],
+    });
+    expect(response.status).toBe(422);
+  });
+
+  test("POST /api/rhythm/simulate/:hour makes that hour current", async () => {
+    await city.post("/api/rhythm/patterns", {
+      hour: 12,
+      type: "business",
+      intensity: 0.6,
+      locations: ["Market Street"],
+    });
+
+    const simulated = await city.post("/api/rhythm/simulate/12");
+    expect(simulated.status).toBe(200);
+    expect(simulated.body.success).toBe(true);
+
+    const current = await city.get("/api/rhythm/current");
+    expect(current.status).toBe(200);
+    expect(current.body.data.length).toBeGreaterThan(0);
+    expect(current.body.data.every((pattern: any) => pattern.hour === 12)).toBe(
+      true
+    );
+  });
+
+  test("POST /api/rhythm/simulate/:hour rejects hours outside 0-23", async () => {
+    const response = await city.post("/api/rhythm/simulate/24");
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toContain("Invalid hour");
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createTestCity,
+  settle,
+  TEST_START_TIME,
+  type TestCity,
+} from "../support/harness";
+import { residentAgents } from "../../src/config/agents";
+
+const DISTRICT_ID = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+
+describe("ConversationController transcripts", () => {
+  let city: TestCity;
+  let conversationId: string;
+  const [host, guest] = residentAgents;
+
+  // Steps the frozen timers until the promise settles
+  async function drive<T>(promise: Promise<T>) {
+    let done = false;
+    promise.finally(() => (done = true)).catch(() => {});
+    for (let i = 0; i < 30 && !done; i++) {
+      await settle(5);
+      city.advanceTimers(5000);
+    }
+    return promise;
+  }
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    const service = city.store.services.agentConversationService;
+    for (const agent of [host, guest]) {
+      service.getRegisteredAgents().set(agent.id, agent);
+    }
+    const conversation = await drive(
+      service.startNewConversation([host.id, guest.id], {
+        districtId: DISTRICT_ID,
+        activity: "morning_coffee",
+        socialMood: { positivity: 0.7, engagement: 0.6 },
+        culturalContext: { events: ["Harvest Fair"], traditions: [] },
+      })
+    );
+    conversationId = conversation.id;
+
+    // Ended conversations leave the active map and must come from the archive
+    await service.concludeConversation(conversationId);
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /:id/transcript renders an ended conversation as Markdown", async () => {
+    const { status, body } = await city.get(
+      `/api/conversations/${conversationId}/transcript`
+    );
+    expect(status).toBe(200);
+    expect(body).toContain("- **Status:** ended");
+    expect(body).toContain(`${host.name} (${host.role})`);
+    expect(body).toContain("Harvest Fair");
+    expect(body).toContain("## Transcript");
+    expect(body).toContain("Conversation ended after");
+  });
+
+  test("JSON-L starts with the conversation record followed by its messages in order", async () => {
+    const { body } = await city.get(
+      `/api/conversations/${conversationId}/transcript?format=jsonl`
+    );
+    const [header, ...messages] = (body as string)
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(header).toEqual(
+      expect.objectContaining({
+        type: "conversation",
+        id: conversationId,
+        source: "archive",
+        districtId: DISTRICT_ID,
+      })
+    );
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.every((line) => line.type === "message")).toBe(true);
+    const timestamps = messages.map((line) => line.timestamp);
+    expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+  });
+
+  test("HTML escapes the transcript into a standalone document", async () => {
+    const { body } = await city.get(
+      `/api/conversations/${conversationId}/transcript?format=html`
+    );
+    expect(body).toStartWith("<!DOCTYPE html>");
+    expect(body).toContain(`<article id="${conversationId}">`);
+  });
+
+  test("GET /transcripts filters by district and time range", async () => {
+    const lines = async (query: string) =>
+      (
+        (await city.get(`/api/conversations/transcripts?${query}`))
+          .body as string
+      )
+        .trim()
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+        .filter((line) => line.type === "conversation")
+        .map((line) => line.id);
+
+    expect(await lines(`districtId=${DISTRICT_ID}`)).toContain(conversationId);
+    expect(await lines("districtId=elsewhere")).toEqual([]);
+    expect(
+      await lines(`end=${new Date(TEST_START_TIME - 1000).toISOString()}`)
+    ).toEqual([]);
+  });
+
+  test("an unknown conversation is a 404", async () => {
+    const { status } = await city.get("/api/conversations/missing/transcript");
+    expect(status).toBe(404);
+  });
+});
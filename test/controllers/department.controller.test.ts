@@ -0,0 +1,229 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("DepartmentController", () => {
+  let city: TestCity;
+  let departmentId: string;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    const created = await city.post(
+      "/api/departments",
+      {
+        name: "Parks Department",
+        type: "environmental",
+        description: "Looks after the city's parks",
+      },
+      { as: "admin" }
+    );
+    departmentId = created.body.id;
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/departments includes created departments", async () => {
+    const response = await city.get("/api/departments");
+    expect(response.status).toBe(200);
+    expect(response.body.map((d: any) => d.id)).toContain(departmentId);
+  });
+
+  test("POST /api/departments is limited to admins", async () => {
+    const response = await city.post(
+      "/api/departments",
+      { name: "Shadow", type: "environmental", description: "" },
+      { as: "department_operator" }
+    );
+    expect(response.status).toBe(403);
+  });
+
+  test("department actions need an operator of that department", async () => {
+    const heal = {
+      treatment: "rest",
+      duration: 60000,
+      cost: 500,
+    };
+    const path = `/api/departments/${departmentId}`;
+    expect((await city.post(`${path}/agents/luna/heal`, heal)).status).toBe(
+      401
+    );
+    expect(
+      (
+        await city.post(`${path}/agents/luna/heal`, heal, {
+          as: "department_operator",
+        })
+      ).status
+    ).toBe(403);
+    expect(
+      (
+        await city.post(`${path}/chat`, {
+          topic: "Budget",
+          participants: [],
+        })
+      ).status
+    ).toBe(401);
+    expect(
+      (
+        await city.post(
+          `/api/departments/collaborate/${departmentId}`,
+          {},
+          {
+            as: "donor",
+          }
+        )
+      ).status
+    ).toBe(403);
+  });
+
+  test("donations and expenses move the department budget", async () => {
+    const donated = await city.post(
+      `/api/departments/${departmentId}/budget/donate`,
+      { amount: 1000, donorId: "donor-1" },
+      { as: "donor" }
+    );
+    expect(donated.body).toEqual(
+      expect.objectContaining({ success: true, amount: 1000, departmentId })
+    );
+
+    const expense = await city.post(
+      `/api/departments/${departmentId}/budget/expense`,
+      {
+        amount: 250,
+        category: "maintenance",
+        description: "Bench repairs",
+        approvedBy: "parks-lead",
+      },
+      { as: "admin" }
+    );
+    expect(expense.status).toBe(200);
+
+    const budget = await city.get(`/api/departments/${departmentId}/budget`);
+    expect(budget.body).toEqual(
+      expect.objectContaining({ total: 1000, donations: 1000, spent: 250 })
+    );
+  });
+
+  test("a retried donation with the same Idempotency-Key is counted once and can be refunded", async () => {
+    const before = await city.get(`/api/departments/${departmentId}/budget`);
+    const donate = (amount: number) =>
+      city.post(
+        `/api/departments/${departmentId}/budget/donate`,
+        { amount, donorId: "donor-2" },
+        { as: "donor", headers: { "idempotency-key": "parks-retry-1" } }
+      );
+
+    const first = await donate(300);
+    const retry = await donate(300);
+    expect(retry.headers.get("idempotent-replayed")).toBe("true");
+    expect(retry.body.donationId).toBe(first.body.donationId);
+    expect((await donate(301)).status).toBe(422);
+
+    const after = await city.get(`/api/departments/${departmentId}/budget`);
+    expect(after.body.donations).toBe(before.body.donations + 300);
+
+    const refund = await city.post(
+      `/api/admin/ledger/donations/${first.body.donationId}/refund`,
+      { reason: "Donor asked for it back" },
+      { as: "admin" }
+    );
+    expect(refund.status).toBe(200);
+    const again = await city.post(
+      `/api/admin/ledger/donations/${first.body.donationId}/refund`,
+      { reason: "Twice" },
+      { as: "admin" }
+    );
+    expect(again.status).toBe(409);
+
+    const reconciliation = await city.get("/api/admin/ledger/reconciliation", {
+      as: "admin",
+    });
+    expect(reconciliation.body.data).toMatchObject({
+      balanced: true,
+      chainValid: true,
+    });
+    expect(reconciliation.body.data.departments).toContainEqual(
+      expect.objectContaining({
+        departmentId,
+        budgetDonations: before.body.donations,
+        reconciled: true,
+      })
+    );
+  });
+
+  test("a department cannot refund a donation another department received", async () => {
+    const other = await city.post(
+      "/api/departments",
+      {
+        name: "Transit Department",
+        type: "transportation",
+        description: "Runs the buses and trams",
+      },
+      { as: "admin" }
+    );
+    const donated = await city.post(
+      `/api/departments/${departmentId}/budget/donate`,
+      { amount: 80, donorId: "donor-3" },
+      { as: "donor" }
+    );
+    const { departmentService } = city.store.services;
+
+    await expect(
+      departmentService.refundDonation(
+        other.body.id,
+        donated.body.donationId,
+        "Wrong department"
+      )
+    ).rejects.toMatchObject({ code: "donation_not_found" });
+    expect(
+      (await departmentService.getDepartmentBudget(other.body.id)).donations
+    ).toBe(0);
+  });
+
+  test("POST /api/departments/:id/budget/expense refuses to overspend", async () => {
+    const response = await city.post(
+      `/api/departments/${departmentId}/budget/expense`,
+      {
+        amount: 1_000_000,
+        category: "equipment",
+        description: "Fleet of mowers",
+        approvedBy: "parks-lead",
+      },
+      { as: "admin" }
+    );
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe("Insufficient budget");
+  });
+
+  test("department operators are scoped to their own departments", async () => {
+    const { apiKey } = city.store.services.authService.createServiceAccount({
+      name: "other-operator",
+      roles: ["department_operator"],
+      departmentIds: ["some-other-department"],
+    });
+
+    const response = await city.post(
+      `/api/departments/${departmentId}/agents`,
+      { agentId: "luna" },
+      { headers: { "x-api-key": apiKey } }
+    );
+    expect(response.status).toBe(403);
+  });
+
+  test("POST /api/departments/:id/events creates an event", async () => {
+    const created = await city.post(
+      `/api/departments/${departmentId}/events`,
+      {
+        type: "environmental",
+        title: "Tree planting day",
+        description: "Plant 200 trees along the ring road",
+        requiredBudget: 5000,
+        districtId: "downtown",
+        participants: ["luna"],
+      },
+      { as: "admin" }
+    );
+    expect(created.status).toBe(200);
+
+    const events = await city.get(`/api/departments/${departmentId}/events`);
+    expect(events.body.map((e: any) => e.title)).toContain("Tree planting day");
+  });
+});
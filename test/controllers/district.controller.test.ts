@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("DistrictController", () => {
+  let city: TestCity;
+  let districtId: string;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    const districts = await city.get("/api/districts");
+    districtId = districts.body.data[0].id;
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/districts lists the seeded districts", async () => {
+    const response = await city.get("/api/districts");
+    expect(response.status).toBe(200);
+    expect(response.body.data.length).toBeGreaterThan(0);
+    expect(response.body.data[0]).toEqual(
+      expect.objectContaining({ id: districtId, name: expect.any(String) })
+    );
+  });
+
+  test("GET /api/districts/:districtId returns null for an unknown id", async () => {
+    const response = await city.get("/api/districts/unknown");
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, data: null });
+  });
+
+  test("POST /api/districts/:districtId/events shows up in the analytics", async () => {
+    const before = await city.get(`/api/districts/${districtId}/analytics`);
+
+    const created = await city.post(
+      `/api/districts/${districtId}/events`,
+      {
+        category: "community",
+        title: "Street food festival",
+        description: "Food stalls along the main square",
+        startTime: "2025-01-06T12:00:00.000Z",
+        endTime: "2025-01-06T20:00:00.000Z",
+        location: "Main Square",
+      },
+      { as: "admin" }
+    );
+    expect(created.status).toBe(200);
+    expect(created.body.data.name).toBe("Street food festival");
+
+    const after = await city.get(`/api/districts/${districtId}/analytics`);
+    expect(after.body.data.totalEvents).toBe(before.body.data.totalEvents + 1);
+  });
+
+  test("POST /api/districts/:districtId/events fails for an unknown district", async () => {
+    const response = await city.post(
+      "/api/districts/unknown/events",
+      {
+        category: "community",
+        title: "Nowhere party",
+        description: "",
+        startTime: "",
+        endTime: "",
+        location: "",
+      },
+      { as: "admin" }
+    );
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe("District not found");
+  });
+
+  test("POST /api/districts/:districtId/transport-hubs adds an active hub", async () => {
+    const response = await city.post(
+      `/api/districts/${districtId}/transport-hubs`,
+      {
+        name: "North Interchange",
+        type: "bus",
+        location: { lat: 1, lng: 2 },
+        capacity: 400,
+      },
+      { as: "admin" }
+    );
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual(
+      expect.objectContaining({
+        type: "bus",
+        capacity: 400,
+        status: "active",
+        currentUtilization: 0,
+      })
+    );
+  });
+
+  test("POST /api/districts/update is limited to admins", async () => {
+    const response = await city.post(
+      "/api/districts/update",
+      { districts: [] },
+      { as: "department_operator" }
+    );
+    expect(response.status).toBe(403);
+  });
+
+  test("routes that change a district need an admin", async () => {
+    const event = {
+      category: "community",
+      title: "Uninvited parade",
+      description: "",
+      startTime: "",
+      endTime: "",
+      location: "",
+    };
+    const path = `/api/districts/${districtId}`;
+    expect((await city.post(`${path}/events`, event)).status).toBe(401);
+    expect(
+      (await city.post(`${path}/events`, event, { as: "donor" })).status
+    ).toBe(403);
+    expect(
+      (
+        await city.post(`${path}/interactions`, {
+          agentId1: "luna",
+          agentId2: "raj",
+          content: "Hello",
+        })
+      ).status
+    ).toBe(401);
+    expect(
+      (await city.post(`${path}/memories`, { type: "event", content: "x" }))
+        .status
+    ).toBe(401);
+  });
+});
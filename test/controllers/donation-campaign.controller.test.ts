@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const celebrationEvent = {
+  title: "Reading Parade",
+  description: "A parade through the district's libraries",
+  duration: HOUR_MS,
+  category: "cultural",
+  impact: { social: 0.6, economic: 0.2, cultural: 0.8, environmental: 0.1 },
+};
+
+const goal = (overrides: Record<string, unknown> = {}) => ({
+  departmentId: "education",
+  title: "Reading Rooms",
+  description: "Quiet rooms in every school",
+  targetAmount: 100,
+  celebrationEvent,
+  ...overrides,
+});
+
+const challenge = (overrides: Record<string, unknown> = {}) => ({
+  title: "Spring Reading",
+  description: "Books for the spring term",
+  category: "educational",
+  targetAmount: 300,
+  startDate: Date.now() + HOUR_MS,
+  endDate: Date.now() + 24 * HOUR_MS,
+  rewards: { badge: "spring", title: "Spring Reader", perks: [] },
+  milestones: [{ amount: 150, reward: "Story hour" }],
+  communityGoal: { description: "300 books", progress: 0, target: 300 },
+  celebrationEvent,
+  ...overrides,
+});
+
+describe("DonationCampaignController", () => {
+  let city: TestCity;
+  let donorId: string;
+
+  const donate = async (amount: number, departmentId = "education") => {
+    const { body } = await city.post(
+      "/api/donations",
+      {
+        donorId,
+        donorName: "Mira",
+        departmentId,
+        districtId: "riverside",
+        amount,
+        purpose: "Reading",
+        category: "educational",
+        impact: {
+          category: "education",
+          description: "Books",
+          beneficiaries: 5,
+        },
+      },
+      { as: "donor" }
+    );
+    return body.donationId as string;
+  };
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    donorId = (await city.get("/api/auth/me", { as: "donor" })).body.data.id;
+  });
+
+  afterAll(() => city.close());
+
+  test("a capped goal passes what it did not need on to its rollover goal", async () => {
+    const overflow = await city.post(
+      "/api/donations/goals",
+      goal({
+        id: "reading-overflow",
+        departmentId: "libraries",
+        title: "Reading Overflow",
+        targetAmount: 500,
+        overfunding: { type: "cap" },
+      }),
+      { as: "admin" }
+    );
+    expect(overflow.status).toBe(201);
+
+    const rooms = await city.post(
+      "/api/donations/goals",
+      goal({ overfunding: { type: "rollover", goalId: "reading-overflow" } }),
+      { as: "admin" }
+    );
+    expect(rooms.body.data).toEqual(
+      expect.objectContaining({ id: "reading-rooms", status: "active" })
+    );
+
+    await donate(150);
+
+    const reached = await city.get("/api/donations/goals/reading-rooms");
+    expect(reached.body.data).toEqual(
+      expect.objectContaining({
+        status: "reached",
+        currentAmount: 100,
+        reachedAt: expect.any(Number),
+      })
+    );
+    const rolledOver = await city.get("/api/donations/goals/reading-overflow");
+    expect(rolledOver.body.data.currentAmount).toBe(50);
+
+    const events =
+      await city.store.services.cityEventsService.getActiveEvents();
+    expect(events.map((event) => event.title)).toContain("Reading Parade");
+
+    // Reached goals take no more; raising the target opens them again
+    await donate(20);
+    expect(
+      (await city.get("/api/donations/goals/reading-rooms")).body.data
+        .currentAmount
+    ).toBe(100);
+    const raised = await city.request(
+      "PUT",
+      "/api/donations/goals/reading-rooms",
+      {
+        as: "admin",
+        body: { targetAmount: 200 },
+      }
+    );
+    expect(raised.body.data.status).toBe("active");
+
+    expect(
+      (await city.post("/api/donations/goals", goal(), { as: "admin" })).status
+    ).toBe(409);
+    expect(
+      (
+        await city.post(
+          "/api/donations/goals",
+          goal({
+            id: "orphan",
+            overfunding: { type: "rollover", goalId: "missing" },
+          }),
+          { as: "admin" }
+        )
+      ).status
+    ).toBe(422);
+    expect(
+      (
+        await city.request("DELETE", "/api/donations/goals/reading-overflow", {
+          as: "admin",
+        })
+      ).status
+    ).toBe(409);
+  });
+
+  test("scheduled challenges open at their start and evaluate edited milestones", async () => {
+    const created = await city.post("/api/donations/challenges", challenge(), {
+      as: "admin",
+    });
+    const challengeId = created.body.challengeId;
+    expect(
+      (await city.get(`/api/donations/challenges/${challengeId}`)).body.data
+        .status
+    ).toBe("scheduled");
+
+    const donationId = await donate(200, "parks");
+    const early = await city.post(
+      `/api/donations/challenges/${challengeId}/participate`,
+      { donationId },
+      { as: "donor" }
+    );
+    expect(early.status).toBe(409);
+
+    await city.request("PUT", `/api/donations/challenges/${challengeId}`, {
+      as: "admin",
+      body: { startDate: Date.now() - 1000 },
+    });
+    await city.post(
+      `/api/donations/challenges/${challengeId}/participate`,
+      { donationId },
+      { as: "donor" }
+    );
+
+    const edited = await city.request(
+      "PUT",
+      `/api/donations/challenges/${challengeId}`,
+      {
+        as: "admin",
+        body: {
+          targetAmount: 200,
+          milestones: [
+            { amount: 150, reward: "Story hour" },
+            { amount: 180, reward: "Author visit" },
+          ],
+        },
+      }
+    );
+    expect(edited.body.data).toEqual(
+      expect.objectContaining({
+        status: "completed",
+        currentAmount: 200,
+        milestones: [
+          expect.objectContaining({ amount: 150, achieved: true }),
+          expect.objectContaining({
+            amount: 180,
+            achieved: true,
+            achievedAt: expect.any(Number),
+          }),
+        ],
+      })
+    );
+
+    const invalid = await city.request(
+      "PUT",
+      `/api/donations/challenges/${challengeId}`,
+      {
+        as: "admin",
+        body: { milestones: [{ amount: 500, reward: "Too far" }] },
+      }
+    );
+    expect(invalid.status).toBe(422);
+  });
+
+  test("goals and challenges still open at their end date are reported", async () => {
+    const endDate = Date.now() + 2 * HOUR_MS;
+    await city.post(
+      "/api/donations/goals",
+      goal({ id: "winter-coats", departmentId: "welfare", endDate }),
+      { as: "admin" }
+    );
+    await donate(40, "welfare");
+    await city.post(
+      "/api/donations/challenges",
+      challenge({ title: "Winter Reading", endDate }),
+      { as: "admin" }
+    );
+
+    const reports =
+      city.store.services.donationCampaigns.processLifecycle(endDate);
+    expect(reports).toHaveLength(2);
+
+    const unmet = await city.get(
+      "/api/donations/campaigns/reports?unmet=true",
+      {
+        as: "admin",
+      }
+    );
+    expect(unmet.body.data).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          kind: "goal",
+          campaignId: "winter-coats",
+          raisedAmount: 40,
+          shortfall: 60,
+          met: false,
+        }),
+        expect.objectContaining({ kind: "challenge", title: "Winter Reading" }),
+      ])
+    );
+
+    const expired = await city.request(
+      "PUT",
+      "/api/donations/goals/winter-coats",
+      {
+        as: "admin",
+        body: { targetAmount: 80 },
+      }
+    );
+    expect(expired.status).toBe(409);
+    expect(
+      (await city.get("/api/donations/challenges?status=expired")).body.data
+    ).toHaveLength(1);
+    expect(
+      (await city.get("/api/donations/campaigns/reports", { as: "donor" }))
+        .status
+    ).toBe(403);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createTestCity,
+  settle,
+  TEST_START_TIME,
+  type TestCity,
+} from "../support/harness";
+import { MOCK_PAYMENT_METHODS } from "../../src/services/mock-payment-processor.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const monthly = {
+  districtId: "riverside",
+  amount: 30,
+  interval: "monthly",
+  target: { type: "department", departmentId: "parks" },
+};
+
+describe("DonationSubscriptionController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("a monthly subscription is charged now and previews its next charges", async () => {
+    const created = await city.post("/api/donations/subscriptions", monthly, {
+      as: "donor",
+    });
+    expect(created.status).toBe(201);
+    const subscription = created.body.data;
+    expect(subscription.charges).toEqual([
+      expect.objectContaining({ status: "succeeded", attempt: 1, amount: 30 }),
+    ]);
+    expect(
+      city.store.services.donationService.getDonation(
+        subscription.charges[0].donationId
+      )?.status
+    ).toBe("completed");
+
+    const preview = await city.get(
+      `/api/donations/subscriptions/${subscription.id}/upcoming?count=2`,
+      { as: "donor" }
+    );
+    expect(preview.body.data.map((c: any) => c.chargeAt)).toEqual([
+      Date.parse("2025-02-06T09:00:00.000Z"),
+      Date.parse("2025-03-06T09:00:00.000Z"),
+    ]);
+
+    // Another donor can neither see nor cancel it
+    const { apiKey } = city.store.services.authService.createServiceAccount({
+      name: "other-donor",
+      roles: ["donor"],
+    });
+    const cancelled = await city.post(
+      `/api/donations/subscriptions/${subscription.id}/cancel`,
+      undefined,
+      { headers: { "x-api-key": apiKey } }
+    );
+    expect(cancelled.status).toBe(403);
+    const theirs = await city.get("/api/donations/subscriptions", {
+      headers: { "x-api-key": apiKey },
+    });
+    expect(theirs.body.data).toEqual([]);
+  });
+
+  test("a failing card is retried with backoff and then cancelled", async () => {
+    const created = await city.post(
+      "/api/donations/subscriptions",
+      { ...monthly, paymentMethod: MOCK_PAYMENT_METHODS.decline },
+      { as: "donor" }
+    );
+    const { id } = created.body.data;
+    expect(created.body.data).toEqual(
+      expect.objectContaining({
+        status: "past_due",
+        failedAttempts: 1,
+        retryAt: TEST_START_TIME + 24 * HOUR_MS,
+      })
+    );
+
+    const upcoming = await city.get(
+      `/api/donations/subscriptions/${id}/upcoming`,
+      {
+        as: "donor",
+      }
+    );
+    expect(upcoming.body.data[0]).toEqual(
+      expect.objectContaining({
+        chargeAt: TEST_START_TIME + 24 * HOUR_MS,
+        retry: true,
+      })
+    );
+
+    const subscriptions = city.store.services.donationSubscriptions;
+    await subscriptions.processDue(TEST_START_TIME + 24 * HOUR_MS);
+    await subscriptions.processDue(TEST_START_TIME + 96 * HOUR_MS);
+    await subscriptions.processDue(TEST_START_TIME + 264 * HOUR_MS);
+
+    const result = await city.get(`/api/donations/subscriptions/${id}`, {
+      as: "donor",
+    });
+    expect(result.body.data.status).toBe("cancelled");
+    expect(result.body.data.cancelReason).toBe("payment_failed");
+    expect(result.body.data.charges.map((c: any) => c.attempt)).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  test("a charge that settles later is pending until its payment is captured or fails", async () => {
+    const subscribe = async () =>
+      (
+        await city.post(
+          "/api/donations/subscriptions",
+          { ...monthly, paymentMethod: MOCK_PAYMENT_METHODS.delayed },
+          { as: "donor" }
+        )
+      ).body.data;
+    const { payments, donationService } = city.store.services;
+
+    const captured = await subscribe();
+    expect(captured.charges[0].status).toBe("pending");
+    city.advanceTimers(5000);
+    await settle();
+    const settled = await city.get(
+      `/api/donations/subscriptions/${captured.id}`,
+      { as: "donor" }
+    );
+    expect(settled.body.data.charges[0].status).toBe("succeeded");
+
+    const failing = await subscribe();
+    const paymentId = donationService.getDonation(
+      failing.charges[0].donationId
+    )!.paymentId!;
+    // What handleWebhook does with a signed payment.failed event
+    const payment = payments.getPayment(paymentId)!;
+    payments.emit("failed", { ...payment, status: "failed" });
+
+    const result = await city.get(
+      `/api/donations/subscriptions/${failing.id}`,
+      { as: "donor" }
+    );
+    expect(result.body.data).toEqual(
+      expect.objectContaining({
+        status: "past_due",
+        failedAttempts: 1,
+        nextChargeAt: failing.charges[0].scheduledFor,
+        retryAt: expect.any(Number),
+      })
+    );
+    expect(result.body.data.charges[0].status).toBe("failed");
+  });
+
+  test("paused subscriptions are not charged until resumed", async () => {
+    const created = await city.post(
+      "/api/donations/subscriptions",
+      { ...monthly, interval: "weekly" },
+      { as: "donor" }
+    );
+    const { id } = created.body.data;
+
+    const paused = await city.post(
+      `/api/donations/subscriptions/${id}/pause`,
+      undefined,
+      { as: "donor" }
+    );
+    expect(paused.body.data.status).toBe("paused");
+    await city.store.services.donationSubscriptions.processDue(
+      TEST_START_TIME + 8 * 24 * HOUR_MS
+    );
+
+    const resumed = await city.post(
+      `/api/donations/subscriptions/${id}/resume`,
+      undefined,
+      { as: "donor" }
+    );
+    expect(resumed.body.data.status).toBe("active");
+    expect(resumed.body.data.charges).toHaveLength(1);
+
+    const again = await city.post(
+      `/api/donations/subscriptions/${id}/resume`,
+      undefined,
+      { as: "donor" }
+    );
+    expect(again.status).toBe(409);
+
+    const missingGoal = await city.post(
+      "/api/donations/subscriptions",
+      { ...monthly, target: { type: "goal", goalId: "moon-base" } },
+      { as: "donor" }
+    );
+    expect(missingGoal.status).toBe(422);
+  });
+});
@@ -0,0 +1,369 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { createTestCity, settle, type TestCity } from "../support/harness";
+import { MOCK_PAYMENT_METHODS } from "../../src/services/mock-payment-processor.service";
+
+const donation = {
+  donorName: "Mira",
+  departmentId: "education",
+  districtId: "riverside",
+  amount: 2500,
+  purpose: "New library books",
+  category: "educational",
+  impact: {
+    category: "education",
+    description: "Stock the branch library",
+    beneficiaries: 300,
+  },
+};
+
+describe("DonationController", () => {
+  let city: TestCity;
+  let donorId: string;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    donorId = (await city.get("/api/auth/me", { as: "donor" })).body.data.id;
+  });
+
+  afterAll(() => city.close());
+
+  test("POST /api/donations requires the donor role", async () => {
+    const response = await city.post("/api/donations", donation);
+    expect(response.status).toBe(401);
+  });
+
+  test("POST /api/donations records the donation for its district and department", async () => {
+    const response = await city.post("/api/donations", donation, {
+      as: "donor",
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    const { donationId } = response.body;
+
+    const byDistrict = await city.get("/api/donations/district/riverside");
+    expect(byDistrict.body.map((d: any) => d.id)).toContain(donationId);
+
+    const byDepartment = await city.get("/api/donations/department/education");
+    expect(byDepartment.body).toContainEqual(
+      expect.objectContaining({ id: donationId, amount: 2500 })
+    );
+  });
+
+  test("only admins may donate on someone else's behalf", async () => {
+    const onBehalf = { ...donation, donorId: "donor-7" };
+    const refused = await city.post("/api/donations", onBehalf, {
+      as: "donor",
+    });
+    expect(refused.status).toBe(403);
+    const simple = await city.post(
+      "/api/donations/simple",
+      {
+        userId: "donor-7",
+        userName: "Sam",
+        amount: 40,
+        districtId: "riverside",
+        departmentId: "education",
+      },
+      { as: "donor" }
+    );
+    expect(simple.status).toBe(403);
+
+    const recorded = await city.post("/api/donations", onBehalf, {
+      as: "admin",
+    });
+    expect(
+      city.store.services.donationService.getDonation(recorded.body.donationId)
+        ?.donorId
+    ).toBe("donor-7");
+  });
+
+  test("public donation listings show the donor's public name and no donor id", async () => {
+    const { body } = await city.post(
+      "/api/donations",
+      { ...donation, category: "cultural", purpose: "Harbour lanterns" },
+      { as: "donor" }
+    );
+    await city.request("PUT", "/api/donors/me", {
+      as: "donor",
+      body: { anonymous: true },
+    });
+    // Indexed with the name the donor gave, before they chose anonymity.
+    // The metadata types do not cover donations, hence the cast.
+    const { vectorStore } = city.store.services;
+    await vectorStore.upsert({
+      id: `donation-${body.donationId}`,
+      values: await vectorStore.createEmbedding("Harbour lanterns"),
+      metadata: {
+        type: "donation",
+        donationId: body.donationId,
+        donorName: "Mira",
+        amount: 2500,
+        purpose: "Harbour lanterns",
+      } as any,
+    });
+
+    const listings = await Promise.all([
+      city.get("/api/donations/district/riverside"),
+      city.get("/api/donations/department/education"),
+      city.get("/api/donations/district/riverside/category/cultural"),
+      city.post("/api/donations/search/semantic", {
+        query: "Harbour lanterns",
+      }),
+    ]);
+    for (const listing of listings) {
+      const listed = listing.body.find(
+        (d: any) => (d.id ?? d.donationId) === body.donationId
+      );
+      expect(listed.donorName).toBe("Anonymous donor");
+      expect(listed).not.toHaveProperty("donorId");
+    }
+  });
+
+  test("POST /api/donations without a payment method charges the default one", async () => {
+    const response = await city.post("/api/donations", donation, {
+      as: "donor",
+    });
+    expect(response.body.status).toBe("completed");
+
+    const payment = await city.get(
+      `/api/admin/payments/${response.body.paymentId}`,
+      { as: "admin" }
+    );
+    expect(payment.body.data).toEqual(
+      expect.objectContaining({ status: "captured", amount: 2500 })
+    );
+  });
+
+  test("POST /api/donations with an Idempotency-Key records a retried donation once", async () => {
+    const options = {
+      as: "donor" as const,
+      headers: { "idempotency-key": "library-books-1" },
+    };
+    const first = await city.post("/api/donations", donation, options);
+    const retry = await city.post("/api/donations", donation, options);
+    expect(retry.body.donationId).toBe(first.body.donationId);
+
+    // Another donor reusing the key gets a donation of their own
+    const { apiKey } = city.store.services.authService.createServiceAccount({
+      name: "second-donor",
+      roles: ["donor"],
+    });
+    const second = await city.post("/api/donations", donation, {
+      headers: { ...options.headers, "x-api-key": apiKey },
+    });
+    expect(second.status).toBe(200);
+    expect(second.headers.get("idempotent-replayed")).toBeNull();
+    expect(second.body.donationId).not.toBe(first.body.donationId);
+
+    const ledger = await city.get(
+      `/api/admin/ledger/transactions?donationId=${first.body.donationId}`,
+      { as: "admin" }
+    );
+    // "education" is not a city department, so the district holds the funds
+    // and earmarks them for the education goal
+    expect(ledger.body.data.map((t: any) => t.entries)).toEqual([
+      [
+        { account: "district:riverside", debit: 2500, credit: 0 },
+        { account: "goal:education-tech-fund", debit: 0, credit: 2500 },
+      ],
+      [
+        { account: `donor:${donorId}`, debit: 2500, credit: 0 },
+        { account: "district:riverside", debit: 0, credit: 2500 },
+      ],
+    ]);
+  });
+
+  test("a paid donation completes only once its payment is captured", async () => {
+    const declined = await city.post(
+      "/api/donations",
+      { ...donation, paymentMethod: MOCK_PAYMENT_METHODS.decline },
+      { as: "donor" }
+    );
+    expect(declined.status).toBe(402);
+    expect(declined.body.code).toBe("declined");
+
+    const delayed = await city.post(
+      "/api/donations",
+      { ...donation, paymentMethod: MOCK_PAYMENT_METHODS.delayed },
+      { as: "donor" }
+    );
+    expect(delayed.status).toBe(202);
+    expect(delayed.body.status).toBe("pending");
+    const { donationId, paymentId } = delayed.body;
+    expect(
+      city.store.services.donationLedger.getDonation(donationId)
+    ).toBeUndefined();
+
+    city.advanceTimers(5000);
+    await settle();
+    expect(
+      city.store.services.donationService.getDonation(donationId)?.status
+    ).toBe("completed");
+    const payment = await city.get(`/api/admin/payments/${paymentId}`, {
+      as: "admin",
+    });
+    expect(payment.body.data.status).toBe("captured");
+  });
+
+  test("a paid donation the ledger cannot record fails and is refunded", async () => {
+    const { donationLedger, donationService } = city.store.services;
+    const record = spyOn(donationLedger, "recordDonation").mockImplementation(
+      () => {
+        throw new Error("Ledger unavailable");
+      }
+    );
+    const response = await city.post(
+      "/api/donations",
+      { ...donation, purpose: "Unrecorded books" },
+      { as: "donor" }
+    );
+    record.mockRestore();
+
+    expect(response.status).toBe(500);
+    const failed = donationService
+      .getDonationsByDonor(donorId)
+      .find((d) => d.purpose === "Unrecorded books")!;
+    expect(failed.status).toBe("failed");
+    expect(donationLedger.getDonation(failed.id)).toBeUndefined();
+    expect(city.store.services.payments.getPayment(failed.paymentId!)).toEqual(
+      expect.objectContaining({ status: "refunded" })
+    );
+  });
+
+  test("a refund the processor fails keeps the ledger reversal and can be retried", async () => {
+    const { body } = await city.post("/api/donations", donation, {
+      as: "donor",
+    });
+    const { payments, donationLedger } = city.store.services;
+    const path = `/api/admin/ledger/donations/${body.donationId}/refund`;
+
+    const refund = spyOn(payments, "refund").mockRejectedValueOnce(
+      new Error("Processor unavailable")
+    );
+    const failed = await city.post(
+      path,
+      { reason: "Duplicate" },
+      { as: "admin" }
+    );
+    refund.mockRestore();
+    expect(failed.status).toBe(500);
+    expect(donationLedger.isReversed(body.donationId)).toBe(true);
+    expect(payments.getPayment(body.paymentId)?.status).toBe("captured");
+
+    const retried = await city.post(
+      path,
+      { reason: "Duplicate" },
+      { as: "admin" }
+    );
+    expect(retried.status).toBe(200);
+    expect(retried.body.data).toEqual([]);
+    expect(payments.getPayment(body.paymentId)?.status).toBe("refunded");
+
+    const again = await city.post(
+      path,
+      { reason: "Duplicate" },
+      { as: "admin" }
+    );
+    expect(again.status).toBe(409);
+  });
+
+  test("a refund made at the processor reverses the donation without refunding twice", async () => {
+    const { body } = await city.post("/api/donations", donation, {
+      as: "donor",
+    });
+    const { payments, donationService, donationLedger } = city.store.services;
+    const payment = payments.getPayment(body.paymentId)!;
+
+    // What handleWebhook does with a signed payment.refunded event
+    payment.status = "refunded";
+    payments.emit("refunded", payment);
+    await settle();
+
+    expect(donationService.getDonation(body.donationId)?.status).toBe(
+      "refunded"
+    );
+    expect(
+      donationLedger.getTransactions({ donationId: body.donationId })
+    ).toContainEqual(expect.objectContaining({ kind: "reversal" }));
+  });
+
+  test("POST /api/payments/webhook rejects an unsigned event", async () => {
+    const response = await city.app.handle(
+      new Request("http://localhost/api/payments/webhook", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id: "evt-x", type: "payment.captured" }),
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  test("POST /api/donations/simple fills in a general donation", async () => {
+    const response = await city.post(
+      "/api/donations/simple",
+      {
+        userName: "Sam",
+        amount: 400,
+        districtId: "riverside",
+        departmentId: "education",
+      },
+      { as: "donor" }
+    );
+    expect(response.body).toEqual(
+      expect.objectContaining({ success: true, amount: 400, donor: "Sam" })
+    );
+  });
+
+  test("POST /api/donations validates the category", async () => {
+    const response = await city.post(
+      "/api/donations",
+      { ...donation, category: "lottery" },
+      { as: "donor" }
+    );
+    expect(response.status).toBe(422);
+  });
+
+  test("GET /api/donations/goals and /goals/:goalId/progress", async () => {
+    const goals = await city.get("/api/donations/goals");
+    expect(goals.status).toBe(200);
+    expect(goals.body.length).toBeGreaterThan(0);
+
+    const progress = await city.get(
+      `/api/donations/goals/${goals.body[0].id}/progress`
+    );
+    expect(progress.status).toBe(200);
+
+    const missing = await city.get("/api/donations/goals/unknown/progress");
+    expect(missing.body.success).toBe(false);
+    expect(missing.body.error).toBe("Goal not found");
+  });
+
+  test("challenges are created by admins and listed while active", async () => {
+    const challenge = {
+      title: "Winter coat drive",
+      description: "Coats for every school child",
+      category: "general",
+      targetAmount: 10000,
+      startDate: Date.now() - 1000,
+      endDate: Date.now() + 7 * 24 * 60 * 60 * 1000,
+      rewards: { badge: "warm-heart", title: "Coat Hero", perks: [] },
+      milestones: [{ amount: 5000, reward: "Halfway party", achieved: false }],
+      communityGoal: { description: "500 coats", progress: 0, target: 500 },
+    };
+
+    const denied = await city.post("/api/donations/challenges", challenge, {
+      as: "donor",
+    });
+    expect(denied.status).toBe(403);
+
+    const created = await city.post("/api/donations/challenges", challenge, {
+      as: "admin",
+    });
+    expect(created.body.success).toBe(true);
+
+    const active = await city.get("/api/donations/challenges/active");
+    expect(active.body.map((c: any) => c.id)).toContain(
+      created.body.challengeId
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const donation = (
+  donorId: string,
+  overrides: Record<string, unknown> = {}
+) => ({
+  donorId,
+  donorName: "Mira",
+  departmentId: "education",
+  districtId: "riverside",
+  amount: 120,
+  purpose: "Library books",
+  category: "educational",
+  impact: {
+    category: "education",
+    description: "Stock the branch library",
+    beneficiaries: 10,
+  },
+  ...overrides,
+});
+
+describe("DonorController", () => {
+  let city: TestCity;
+  let donorId: string;
+  const donationIds: string[] = [];
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    donorId = (await city.get("/api/auth/me", { as: "donor" })).body.data.id;
+
+    for (const overrides of [
+      {},
+      { amount: 80, category: "cultural", purpose: "Lantern festival" },
+      { amount: 50, districtId: "harbor", departmentId: "parks" },
+    ]) {
+      const response = await city.post(
+        "/api/donations",
+        donation(donorId, overrides),
+        { as: "donor" }
+      );
+      donationIds.push(response.body.donationId);
+    }
+    await city.post(
+      `/api/admin/ledger/donations/${donationIds[2]}/refund`,
+      { reason: "Donor asked" },
+      { as: "admin" }
+    );
+  });
+
+  afterAll(() => city.close());
+
+  test("the profile totals completed donations and honours anonymity", async () => {
+    const profile = await city.get("/api/donors/me", { as: "donor" });
+    expect(profile.body.data).toEqual(
+      expect.objectContaining({
+        donorId,
+        displayName: "Mira",
+        anonymous: false,
+        donationCount: 2,
+        totalDonated: 200,
+      })
+    );
+
+    const { body } = await city.post(
+      "/api/donations/challenges",
+      {
+        title: "Book week",
+        description: "Books for every classroom",
+        category: "educational",
+        targetAmount: 1000,
+        startDate: Date.now() - 1000,
+        endDate: Date.now() + 1000 * 60 * 60,
+        rewards: { badge: "reader", title: "Book Hero", perks: [] },
+        milestones: [],
+        communityGoal: { description: "100 books", progress: 0, target: 100 },
+      },
+      { as: "admin" }
+    );
+    await city.post(
+      `/api/donations/challenges/${body.challengeId}/participate`,
+      { donationId: donationIds[0] },
+      { as: "donor" }
+    );
+
+    const updated = await city.request("PUT", "/api/donors/me", {
+      as: "donor",
+      body: { anonymous: true },
+    });
+    expect(updated.body.data.anonymous).toBe(true);
+    expect(updated.body.data.challenges).toEqual([
+      expect.objectContaining({ title: "Book week", donated: 120 }),
+    ]);
+
+    const progress = await city.get(
+      `/api/donations/challenges/${body.challengeId}/progress`
+    );
+    expect(progress.body.topDonors).toEqual([
+      { donorName: "Anonymous donor", amount: 120 },
+    ]);
+  });
+
+  test("yearly statements export as CSV and HTML", async () => {
+    const statement = await city.get("/api/donors/me/statements/2025", {
+      as: "donor",
+    });
+    expect(statement.body.data).toEqual(
+      expect.objectContaining({ total: 200, donationCount: 2, refunded: 50 })
+    );
+    expect(statement.body.data.byCategory).toEqual([
+      { key: "educational", amount: 120, count: 1 },
+      { key: "cultural", amount: 80, count: 1 },
+    ]);
+
+    const csv = await city.get("/api/donors/me/statements/2025?format=csv", {
+      as: "donor",
+    });
+    expect(csv.headers.get("content-type")).toContain("text/csv");
+    const rows = csv.body.trim().split("\r\n");
+    expect(rows[0]).toStartWith("type,key,date,receipt_number");
+    expect(rows).toContain("district,riverside,,,,,,,,2,200.00");
+    expect(rows[rows.length - 1]).toBe("total,2025,,,,,,,,2,200.00");
+
+    const html = await city.get("/api/donors/me/statements/2025?format=html", {
+      as: "donor",
+    });
+    expect(html.headers.get("content-type")).toContain("text/html");
+    expect(html.body).toContain("<h1>Giving statement 2025</h1>");
+
+    const empty = await city.get("/api/donors/me/statements/2024", {
+      as: "donor",
+    });
+    expect(empty.body.data.receipts).toEqual([]);
+  });
+
+  test("receipts are only issued to their donor", async () => {
+    const receipt = await city.get(
+      `/api/donors/me/receipts/${donationIds[0]}`,
+      {
+        as: "donor",
+      }
+    );
+    expect(receipt.body.data).toEqual(
+      expect.objectContaining({
+        receiptNumber: expect.stringMatching(/^NVR-2025-[0-9A-F]{8}$/),
+        amount: 120,
+        ledgerHash: expect.any(String),
+      })
+    );
+
+    const { apiKey } = city.store.services.authService.createServiceAccount({
+      name: "other-donor",
+      roles: ["donor"],
+    });
+    const other = { headers: { "x-api-key": apiKey } };
+    expect((await city.get(`/api/donors/${donorId}`, other)).status).toBe(403);
+    expect(
+      (await city.get(`/api/donors/me/receipts/${donationIds[0]}`, other))
+        .status
+    ).toBe(404);
+
+    const asAdmin = await city.get(`/api/donors/${donorId}/receipts`, {
+      as: "admin",
+    });
+    expect(asAdmin.body.data).toHaveLength(3);
+  });
+});
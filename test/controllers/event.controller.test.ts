@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { EventValidationError } from "../../src/services/event-bus.service";
+import { createTestCity, settle, type TestCity } from "../support/harness";
+
+describe("EventController", () => {
+  let city: TestCity;
+  let festivalId: string;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+    const bus = city.store.services.eventBus;
+    festivalId = bus.emitCulturalEvent({ type: "festival" })!;
+    bus.emitAgentTyping("conversation-1", "agent-1");
+    await settle();
+  });
+
+  afterAll(() => city.close());
+
+  test("the event log records persistent events only", async () => {
+    const logged = await city.store.services.eventLog!.read();
+    const types = logged.map((event) => event.type);
+    expect(types).not.toContain("agentTyping");
+    expect(logged.find((event) => event.type === "culturalEvent")).toEqual(
+      expect.objectContaining({
+        id: festivalId,
+        data: { type: "festival" },
+        metadata: expect.objectContaining({ source: "cultural-system" }),
+      })
+    );
+  });
+
+  test("history reads from the log unless memory is asked for", async () => {
+    const fromLog = await city.get("/api/events/history?type=culturalEvent");
+    expect(fromLog.body.data).toEqual(
+      expect.objectContaining({ from: "log", count: 1 })
+    );
+    expect(fromLog.body.data.events[0].id).toBe(festivalId);
+
+    const fromMemory = await city.get(
+      "/api/events/history?from=memory&type=culturalEvent"
+    );
+    expect(fromMemory.body.data.from).toBe("memory");
+    expect(fromMemory.body.data.events.map((event: any) => event.id)).toEqual([
+      festivalId,
+    ]);
+
+    const none = await city.get("/api/events/history?type=emergencyAlert");
+    expect(none.body.data.count).toBe(0);
+  });
+
+  test("a replay runs the recorded events through a fresh city and traces what they set off", async () => {
+    expect(
+      (await city.post("/api/events/replay", {}, { as: "donor" })).status
+    ).toBe(403);
+
+    const replay = await city.post(
+      "/api/events/replay",
+      { type: ["culturalEvent"] },
+      { as: "admin" }
+    );
+    expect(replay.status).toBe(200);
+    expect(replay.body.data).toEqual(
+      expect.objectContaining({
+        replayed: 1,
+        byType: { culturalEvent: 1 },
+        cascades: [
+          expect.objectContaining({
+            eventId: festivalId,
+            type: "culturalEvent",
+            children: [
+              expect.objectContaining({
+                type: "aiCulturalParticipation",
+                source: "social-dynamics",
+                children: [],
+              }),
+            ],
+          }),
+        ],
+      })
+    );
+
+    // Nothing the replay set off reaches this city's bus or log
+    const logged = await city.store.services.eventLog!.read();
+    expect(logged.map((event) => event.type)).not.toContain(
+      "aiCulturalParticipation"
+    );
+    expect(
+      logged.filter((event) => event.type === "culturalEvent")
+    ).toHaveLength(1);
+    // The replay city's LLM calls are counted against this one
+    expect(
+      city.store.services.llmUsage.getCalls({ service: "eventReplay" }).length
+    ).toBeGreaterThan(0);
+    const summary = await city.post(
+      "/api/events/replay",
+      { includeEvents: false },
+      { as: "admin" }
+    );
+    expect(summary.body.data.events).toEqual([]);
+  });
+
+  test("publish refuses payloads that do not match the catalogue", () => {
+    const bus = city.store.services.eventBus;
+    const errors: unknown[] = [];
+    const unsubscribe = bus.subscribe("error", ({ error }) =>
+      errors.push(error)
+    );
+
+    expect(
+      bus.publish("districtEvent", { type: "festival" } as any)
+    ).toBeUndefined();
+    expect(
+      bus.publish("emergencyResponse", { type: "meteor" } as any)
+    ).toBeUndefined();
+    expect(
+      bus.publish("aiSystemUpdate", { utilizationRate: 3, efficiency: 0.5 })
+    ).toBeUndefined();
+    expect(
+      bus.publish("messageCreated", {
+        conversationId: "c1",
+        message: { content: "hi" },
+      } as any)
+    ).toBeUndefined();
+    expect(
+      bus.publish("congestionDetected", { area: "downtown" } as any)
+    ).toBeUndefined();
+    unsubscribe();
+
+    expect(errors).toHaveLength(5);
+    expect((errors[3] as Error).message).toContain("message.agentId");
+    expect((errors[4] as Error).message).toContain("area");
+    expect(errors[0]).toBeInstanceOf(EventValidationError);
+    expect((errors[0] as Error).message).toContain("districtId");
+    expect(
+      bus.publish("districtEvent", { districtId: "riverside", type: "fair" })
+    ).toEqual(expect.any(String));
+  });
+
+  test("GET /api/events/schema describes every payload and the metadata", async () => {
+    const { status, body } = await city.get("/api/events/schema");
+    expect(status).toBe(200);
+    expect(body.definitions.districtEvent).toEqual(
+      expect.objectContaining({
+        description: "Something happened in a district",
+        required: expect.arrayContaining(["districtId", "type"]),
+      })
+    );
+    expect(body.definitions.emergencyResponse.properties.type.enum).toContain(
+      "environmental"
+    );
+    expect(body.definitions.aiSystemUpdate.properties.utilizationRate).toEqual({
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+    });
+    expect(body.definitions.EventMetadata.properties).toHaveProperty(
+      "triggeredBy"
+    );
+    expect(body["x-defaults"].districtEvent).toEqual(
+      expect.objectContaining({ priority: "low", persistent: true })
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+describe("SimulationController", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("anyone can read the clock but only admins can change it", async () => {
+    expect((await city.get("/api/simulation/clock")).status).toBe(200);
+
+    expect((await city.post("/api/simulation/clock/pause")).status).toBe(401);
+    expect(
+      (
+        await city.post("/api/simulation/clock/pause", undefined, {
+          as: "donor",
+        })
+      ).status
+    ).toBe(403);
+    expect(
+      (
+        await city.request("PUT", "/api/simulation/clock/speed", {
+          as: "viewer",
+          body: { multiplier: 100 },
+        })
+      ).status
+    ).toBe(403);
+
+    const before = (await city.get("/api/simulation/clock")).body.data;
+    const stepped = await city.post(
+      "/api/simulation/clock/step",
+      { ms: 60000 },
+      { as: "admin" }
+    );
+    expect(stepped.status).toBe(200);
+    expect(stepped.body.data.now).toBe(before.now + 60000);
+
+    const speed = await city.request("PUT", "/api/simulation/clock/speed", {
+      as: "admin",
+      body: { multiplier: 4 },
+    });
+    expect(speed.body.data.speed).toBe(4);
+  });
+});
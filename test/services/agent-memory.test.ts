@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { AgentMemoryService } from "../../src/services/agent-memory.service";
+import { SimulationClock } from "../../src/services/simulation-clock.service";
+import { residentAgents } from "../../src/config/agents";
+import { FakeTogetherService } from "../support/fakes";
+
+const HOUR = 60 * 60 * 1000;
+const [host, guest] = residentAgents;
+
+const clock = () =>
+  new SimulationClock({
+    seed: 1,
+    startTime: Date.now(),
+    speed: 1,
+    tickMs: 1000,
+    autoStart: false,
+  });
+
+const conversation = (topic: string, content: string) => ({
+  id: `conv-${topic}`,
+  districtId: "a42ed892-3878-45a5-9a1a-4ceaf9524f1c",
+  topic,
+  location: "Central Plaza",
+  participants: [host, guest],
+  sentiment: 0.5,
+  messages: [
+    {
+      id: `msg-${topic}`,
+      agentId: host.id,
+      content,
+      timestamp: Date.now(),
+      role: "assistant" as const,
+    },
+  ],
+});
+
+describe("AgentMemoryService", () => {
+  test("episodes beyond the memory window are summarised into semantic facts", async () => {
+    const llm = new FakeTogetherService();
+    llm.respondTo("Condense these memories", "- I keep coming back to parks");
+    const memory = new AgentMemoryService(llm, clock());
+    const agent = { ...host, memoryWindowSize: 2 };
+
+    for (const topic of ["parks", "trees", "benches"]) {
+      await memory.recordConversation({
+        ...conversation(topic, `Let's talk ${topic}.`),
+        participants: [agent, guest],
+      });
+    }
+
+    expect(memory.list(host.id, "semantic")).toEqual([
+      expect.objectContaining({
+        content: "I keep coming back to parks",
+        sourceIds: expect.any(Array),
+      }),
+    ]);
+    expect(memory.list(host.id, "episodic").length).toBeLessThanOrEqual(2);
+    memory.stop();
+  });
+
+  test("memories fade unless recalled and are forgotten below the threshold", async () => {
+    const time = clock();
+    const memory = new AgentMemoryService(new FakeTogetherService(), time);
+    const halfLife = memory.config.episodicHalfLifeMs;
+    await memory.recordConversation(conversation("ferries", "Ferries!"));
+    const [formed] = memory.list(host.id);
+
+    await time.step(halfLife);
+    expect(memory.list(host.id)[0].relevance).toBeCloseTo(formed.relevance / 2);
+
+    // Recalling refreshes the memory
+    expect(memory.recall(host.id, { topic: "ferries" })).toHaveLength(1);
+    await time.step(HOUR);
+    expect(memory.list(host.id)[0].relevance).toBeGreaterThan(
+      formed.relevance * 0.9
+    );
+
+    await time.step(19 * halfLife - HOUR);
+    expect(memory.forgetFaded()).toBe(1);
+    expect(memory.list(host.id)).toEqual([]);
+    memory.stop();
+  });
+});
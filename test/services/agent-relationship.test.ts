@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+import { EventEmitter } from "events";
+import { residentAgents } from "../../src/config/agents";
+import { AgentRelationshipService } from "../../src/services/agent-relationship.service";
+import type { AgentCollaborationService } from "../../src/services/agent-collaboration.service";
+import { SimulationClock } from "../../src/services/simulation-clock.service";
+
+// Agents of their own, so the city's collaboration sessions never touch them
+const [luna, atlas, scholar] = ["luna", "atlas", "scholar"].map((name) => ({
+  ...residentAgents[0],
+  id: `relationship-${name}`,
+  name,
+}));
+
+const conversation = (id: string, sentiment: number) => ({
+  id,
+  participants: [luna, atlas],
+  sentiment,
+  messages: [luna, atlas].map((agent, index) => ({
+    id: `${id}-${index}`,
+    agentId: agent.id,
+    content: "...",
+    timestamp: Date.now(),
+    role: "assistant" as const,
+    sentiment,
+  })),
+});
+
+describe("AgentRelationshipService", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("conversation sentiment moves affinity and tense ones are kept as conflicts", () => {
+    const relationships = city.store.services.agentRelationships;
+    relationships.recordConversation(conversation("conv-warm", 0.9));
+    const warm = relationships.getRelationship(atlas.id, luna.id)!;
+    expect(warm.affinity).toBeGreaterThan(0);
+    expect(warm.conflicts).toEqual([]);
+
+    relationships.recordConversation(conversation("conv-tense", 0.1));
+    const tense = relationships.getRelationship(luna.id, atlas.id)!;
+    expect(tense.conversations).toBe(2);
+    expect(tense.conflicts[0]).toEqual(
+      expect.objectContaining({
+        source: "conversation",
+        sourceId: "conv-tense",
+      })
+    );
+  });
+
+  test("collaboration outcomes change trust", () => {
+    const collaboration = city.store.services.collaborationService;
+    const relationships = city.store.services.agentRelationships;
+
+    collaboration.emit("collaborationCompleted", {
+      sessionId: "s1",
+      agents: [atlas.id, scholar.id],
+    });
+    expect(
+      relationships.getRelationship(atlas.id, scholar.id)!.trust
+    ).toBeCloseTo(0.6);
+
+    collaboration.emit("collaborationFailed", {
+      sessionId: "s2",
+      agents: [luna.id, scholar.id],
+      reason: "No consensus reached after maximum rounds",
+    });
+    const failed = relationships.getRelationship(luna.id, scholar.id)!;
+    expect(failed.trust).toBeCloseTo(0.45);
+    expect(failed.collaborations).toEqual({ completed: 0, failed: 1 });
+    expect(failed.conflicts[0].source).toBe("collaboration");
+  });
+
+  test("participants are picked away from a recent conflict", () => {
+    // Luna and Atlas just argued, Atlas and Scholar work well together
+    const picked = city.store.services.agentRelationships.pickParticipants(
+      [atlas.id, luna.id, scholar.id],
+      2
+    );
+    expect(picked).toEqual([atlas.id, scholar.id]);
+  });
+
+  test("picks among strangers follow the simulation seed", () => {
+    const picks = (seed: number) => {
+      const relationships = new AgentRelationshipService(
+        new EventEmitter() as AgentCollaborationService,
+        new SimulationClock({
+          seed,
+          startTime: Date.now(),
+          speed: 1,
+          tickMs: 1000,
+          autoStart: false,
+        })
+      );
+      const strangers = Array.from({ length: 8 }, (_, i) => `stranger-${i}`);
+      return Array.from({ length: 5 }, () =>
+        relationships.pickParticipants(strangers, 3)
+      );
+    };
+
+    expect(picks(7)).toEqual(picks(7));
+    expect(picks(7)).not.toEqual(picks(8));
+  });
+});
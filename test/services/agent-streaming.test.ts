@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, settle, type TestCity } from "../support/harness";
+import { residentAgents } from "../../src/config/agents";
+import { OpenAICompatibleProvider } from "../../src/services/openai-compatible.service";
+import type {
+  MessageComplete,
+  MessageDelta,
+} from "../../src/services/agent-conversation.service";
+
+const DISTRICT_ID = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+
+describe("streamed agent replies", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("GET /api/ai/test-stream/:message streams the reply as text", async () => {
+    city.llm.queueReply("Morning from the river district.");
+    const response = await city.get("/api/ai/test-stream/hello");
+    expect(response.status).toBe(200);
+    expect(response.body).toBe("Morning from the river district.");
+    expect(city.llm.calls.at(-1)?.method).toBe("streamResponse");
+  });
+
+  test("agent replies emit deltas followed by a completed message", async () => {
+    const service = city.store.services.agentConversationService;
+    const agent = residentAgents[0];
+    service.getRegisteredAgents().set(agent.id, agent);
+
+    const deltas: MessageDelta[] = [];
+    const completed: MessageComplete[] = [];
+    service.on("message:delta", (delta) => deltas.push(delta));
+    service.on("message:complete", (complete) => completed.push(complete));
+
+    city.llm.respondTo(
+      `You are ${agent.name}`,
+      "The lantern walk starts at the canal tonight."
+    );
+    let result: Awaited<ReturnType<typeof service.generateRandomResponse>>;
+    const pending = service
+      .generateRandomResponse(DISTRICT_ID, agent.id, "Anything on tonight?")
+      .then((value) => (result = value));
+
+    // Step past the reply delay, which runs on the frozen timers
+    for (let i = 0; i < 20 && !result!; i++) {
+      await settle(5);
+      city.advanceTimers(1000);
+    }
+    await pending;
+
+    expect(result!).toEqual(
+      expect.objectContaining({
+        response: "The lantern walk starts at the canal tonight.",
+      })
+    );
+    expect(deltas.map((delta) => delta.index)).toEqual(
+      deltas.map((_, index) => index)
+    );
+    expect(deltas.map((delta) => delta.delta).join("")).toBe(
+      "The lantern walk starts at the canal tonight."
+    );
+    expect(completed).toEqual([
+      expect.objectContaining({
+        messageId: deltas[0].messageId,
+        agentId: agent.id,
+        content: "The lantern walk starts at the canal tonight.",
+        discarded: false,
+      }),
+    ]);
+  });
+
+  test("a reply that is not kept is completed as discarded", async () => {
+    const service = city.store.services.agentConversationService;
+    const agent = residentAgents[1];
+    service.getRegisteredAgents().set(agent.id, agent);
+
+    const completed: MessageComplete[] = [];
+    service.on("message:complete", (complete) => completed.push(complete));
+
+    city.llm.queueReply("");
+    let done = false;
+    const pending = service
+      .generateRandomResponse(DISTRICT_ID, agent.id, "Still there?")
+      .then(() => (done = true));
+    for (let i = 0; i < 20 && !done; i++) {
+      await settle(5);
+      city.advanceTimers(1000);
+    }
+    await pending;
+
+    expect(completed).toEqual([
+      expect.objectContaining({ agentId: agent.id, discarded: true }),
+    ]);
+  });
+});
+
+describe("OpenAICompatibleProvider.streamResponse", () => {
+  test("skips a malformed chunk and keeps reading the stream", async () => {
+    const chunk = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+    const server = Bun.serve({
+      port: 0,
+      fetch: () =>
+        new Response(
+          chunk("Canal ") +
+            "data: {not json\n" +
+            chunk("lanterns") +
+            "data: [DONE]\n"
+        ),
+    });
+
+    try {
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: `http://localhost:${server.port}`,
+      });
+      const deltas: string[] = [];
+      for await (const delta of provider.streamResponse(
+        residentAgents[0],
+        []
+      )) {
+        deltas.push(delta);
+      }
+      expect(deltas).toEqual(["Canal ", "lanterns"]);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
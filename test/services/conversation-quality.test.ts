@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+import { residentAgents } from "../../src/config/agents";
+import { evaluateConversation } from "../../src/utils/conversation-quality";
+import type { Message } from "../../src/types/conversation.types";
+
+const DISTRICT_ID = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+const [luna, atlas] = residentAgents;
+
+const say = (agentId: string, content: string, index: number): Message => ({
+  id: `msg-${index}`,
+  agentId,
+  content,
+  timestamp: 1000 + index,
+  role: "assistant",
+});
+
+const lively = [
+  say(luna.id, "The riverside garden needs more native plants this spring.", 0),
+  say(
+    atlas.id,
+    "Native plants along the riverside would help the bees too.",
+    1
+  ),
+  say(luna.id, "We could ask the school to grow seedlings for the garden.", 2),
+];
+
+const repetitive = [
+  say(luna.id, "The riverside garden needs more native plants this spring.", 0),
+  say(atlas.id, "Shut up, that is a stupid idea.", 1),
+  say(luna.id, "The riverside garden needs more native plants this spring.", 2),
+];
+
+describe("Conversation quality", () => {
+  test("repeated lines and abuse lower the scores", () => {
+    const evaluate = (messages: Message[]) =>
+      evaluateConversation({
+        topic: "riverside garden",
+        participants: [luna, atlas],
+        messages,
+      });
+    const good = evaluate(lively);
+    const bad = evaluate(repetitive);
+
+    expect(good.metrics.repetition).toBe(1);
+    expect(good.metrics.toxicity).toBe(0);
+    expect(bad.metrics.repetition).toBeLessThan(0.7);
+    expect(bad.metrics.toxicity).toBeCloseTo(1 / 3, 2);
+    expect(bad.flaggedMessageIds.sort()).toEqual(["msg-1", "msg-2"]);
+    expect(bad.metrics.overall).toBeLessThan(good.metrics.overall);
+  });
+
+  describe("GET /api/conversations/quality", () => {
+    let city: TestCity;
+
+    beforeAll(async () => {
+      city = await createTestCity();
+    });
+
+    afterAll(() => city.close());
+
+    test("compares prompt versions against a baseline", async () => {
+      const conversations = city.store.services.agentConversationService;
+      const quality = city.store.services.conversationQuality;
+      const archive = (id: string, messages: Message[]) => ({
+        id,
+        districtId: DISTRICT_ID,
+        topic: "riverside garden",
+        topics: ["riverside garden"],
+        location: "Riverside",
+        activity: "morning_coffee",
+        startTime: 1000,
+        endTime: 2000,
+        participants: [luna, atlas].map(({ id, name, role }) => ({
+          id,
+          name,
+          role,
+        })),
+        messages,
+        sentiment: 0.5,
+        culturalContext: {
+          currentEvents: [],
+          traditions: [],
+          atmosphere: { harmonyIndex: 0.8, culturalTension: 0.2, mood: "calm" },
+        },
+      });
+      conversations.importState({
+        ...conversations.exportState(),
+        archive: {
+          "conv-v1": archive("conv-v1", lively),
+          "conv-v2": archive("conv-v2", repetitive),
+        },
+      });
+
+      quality.config.promptVersion = "v1";
+      quality.evaluate("conv-v1");
+      quality.config.promptVersion = "v2";
+      quality.evaluate("conv-v2");
+
+      const { body } = await city.get(
+        `/api/conversations/quality?districtId=${DISTRICT_ID}&baseline=v1`
+      );
+      expect(body.data.count).toBe(2);
+      expect(body.data.byPromptVersion.map((group: any) => group.key)).toEqual([
+        "v1",
+        "v2",
+      ]);
+      expect(body.data.comparison.versions[0]).toEqual(
+        expect.objectContaining({
+          promptVersion: "v2",
+          regressions: expect.arrayContaining(["repetition", "toxicity"]),
+        })
+      );
+      expect(body.data.lowest[0].conversationId).toBe("conv-v2");
+
+      const single = await city.get("/api/conversations/conv-v1/quality");
+      expect(single.body.data.promptVersion).toBe("v1");
+      expect(
+        (await city.get("/api/conversations/unknown/quality")).status
+      ).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const DOWNTOWN = "a42ed892-3878-45a5-9a1a-4ceaf9524f1c";
+
+const active = (count: number, eventId?: string) =>
+  Array.from({ length: count }, () => ({
+    districtId: DOWNTOWN,
+    status: "active",
+    eventId,
+  }));
+
+describe("ConversationSchedulerService", () => {
+  let city: TestCity;
+
+  beforeAll(async () => {
+    city = await createTestCity();
+  });
+
+  afterAll(() => city.close());
+
+  test("offers a slot until the district reaches its limit, then waits out the cooldown", async () => {
+    const scheduler = city.store.services.conversationScheduler;
+    scheduler.updatePolicy({
+      defaults: { maxConcurrentConversations: 2, cooldownMs: 60000 },
+    });
+
+    expect(await scheduler.planSlots(active(1))).toEqual([
+      { districtId: DOWNTOWN },
+    ]);
+    expect(await scheduler.planSlots(active(2))).toEqual([]);
+
+    scheduler.recordStart(DOWNTOWN);
+    expect(await scheduler.planSlots([])).toEqual([]);
+    await city.clock.step(60000);
+    expect(await scheduler.planSlots([])).toHaveLength(1);
+  });
+
+  test("quiet hours follow the first and last rhythm pattern of the day", async () => {
+    const scheduler = city.store.services.conversationScheduler;
+    scheduler.updatePolicy({ defaults: { quietHours: { source: "rhythm" } } });
+
+    // The default rhythm runs from the 7am commute to the 8pm social hour
+    expect(scheduler.isQuietHour(DOWNTOWN, 6)).toBe(true);
+    expect(scheduler.isQuietHour(DOWNTOWN, 9)).toBe(false);
+    expect(scheduler.isQuietHour(DOWNTOWN, 21)).toBe(true);
+
+    await city.store.services.cityRhythm.addActivityPattern({
+      hour: 22,
+      type: "leisure",
+      intensity: 0.4,
+      locations: [DOWNTOWN],
+    });
+    expect(scheduler.isQuietHour(DOWNTOWN, 21)).toBe(false);
+    expect(scheduler.isQuietHour("another-district", 21)).toBe(true);
+  });
+
+  test("conversations about an active event may use the extra slots", async () => {
+    const scheduler = city.store.services.conversationScheduler;
+    const events = (city.store.services.cityEventsService as any).activeEvents;
+    events.set("event-flood", {
+      id: "event-flood",
+      title: "Flooded underpass",
+      priority: "high",
+      districtId: DOWNTOWN,
+    });
+    scheduler.updatePolicy({
+      defaults: {
+        maxConcurrentConversations: 1,
+        eventPriority: { enabled: true, extraSlots: 1 },
+      },
+    });
+
+    try {
+      await city.clock.step(60000);
+      expect(await scheduler.planSlots(active(1))).toEqual([
+        {
+          districtId: DOWNTOWN,
+          event: {
+            id: "event-flood",
+            title: "Flooded underpass",
+            priority: "high",
+          },
+        },
+      ]);
+      // Already being discussed, and the district is otherwise full
+      expect(await scheduler.planSlots(active(1, "event-flood"))).toEqual([]);
+    } finally {
+      events.delete("event-flood");
+    }
+  });
+
+  test("rejects an update that would leave an invalid policy", () => {
+    const scheduler = city.store.services.conversationScheduler;
+    const before = scheduler.getPolicy();
+
+    expect(() =>
+      scheduler.updatePolicy({
+        districts: {
+          [DOWNTOWN]: { minConversationDurationMs: 30 * 60 * 1000 },
+        },
+      })
+    ).toThrow("minConversationDurationMs cannot exceed");
+    expect(scheduler.getPolicy()).toEqual(before);
+  });
+});
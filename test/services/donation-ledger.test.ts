@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DonationLedgerService,
+  LedgerError,
+  ledgerAccount,
+} from "../../src/services/donation-ledger.service";
+
+const department = ledgerAccount("department", "parks-dept");
+const challenge = ledgerAccount("challenge", "tree-week");
+
+const donate = (ledger: DonationLedgerService, donationId: string) =>
+  ledger.recordDonation({
+    donationId,
+    donorId: "donor-1",
+    recipient: department,
+    amount: 120.5,
+    description: "Trees for the riverside",
+  });
+
+describe("DonationLedgerService", () => {
+  test("reversing a donation also reverses what was allocated from it", () => {
+    const ledger = new DonationLedgerService();
+    ledger.openAccount(department, 1000, "Donations before the ledger");
+    const donation = donate(ledger, "don-1");
+    expect(donate(ledger, "don-1").id).toBe(donation.id);
+    ledger.allocate("don-1", challenge, 120.5);
+    expect(ledger.allocate("don-1", challenge, 120.5)).toBeUndefined();
+
+    const balance = (account: string) =>
+      ledger.getBalances().find((b) => b.account === account)?.balance;
+    expect(balance(department)).toBe(1000);
+    expect(balance(challenge)).toBe(120.5);
+
+    const reversals = ledger.reverseDonation("don-1", "Card chargeback");
+    expect(reversals).toHaveLength(2);
+    expect(balance(department)).toBe(1000);
+    expect(balance(challenge)).toBe(0);
+    expect(balance(ledgerAccount("donor", "donor-1"))).toBe(0);
+    expect(() => ledger.reverseDonation("don-1", "Again")).toThrow(LedgerError);
+
+    const report = ledger.reconcile([
+      {
+        id: "parks-dept",
+        budget: {
+          total: 5000,
+          allocated: 0,
+          spent: 0,
+          donations: 1000,
+          expenses: [],
+          donations_history: [
+            {
+              id: "don-1",
+              amount: 120.5,
+              timestamp: 0,
+              transactionHash: donation.hash,
+            },
+          ],
+        },
+      },
+    ]);
+    expect(report).toMatchObject({
+      balanced: true,
+      chainValid: true,
+      reconciled: true,
+    });
+  });
+
+  test("reconciliation catches a transaction edited after it was recorded", () => {
+    const ledger = new DonationLedgerService();
+    donate(ledger, "don-1");
+    const tampered = donate(ledger, "don-2");
+    donate(ledger, "don-3");
+
+    tampered.entries[1].credit = 12;
+
+    const report = ledger.reconcile([]);
+    expect(report.chainValid).toBe(false);
+    expect(report.brokenAt).toBe(tampered.id);
+    expect(report.balanced).toBe(false);
+    expect(report.reconciled).toBe(false);
+  });
+
+  test("idempotency keys replay the first result and refuse a different body", async () => {
+    const ledger = new DonationLedgerService();
+    let runs = 0;
+    const run = async () => `donation-${++runs}`;
+
+    const [first, concurrent] = await Promise.all([
+      ledger.idempotent("donations", "key-1", { amount: 10 }, run),
+      ledger.idempotent("donations", "key-1", { amount: 10 }, run),
+    ]);
+    expect(first).toEqual({ result: "donation-1", replayed: false });
+    expect(concurrent).toEqual({ result: "donation-1", replayed: true });
+    expect(runs).toBe(1);
+
+    await expect(
+      ledger.idempotent("donations", "key-1", { amount: 99 }, run)
+    ).rejects.toMatchObject({ code: "idempotency_conflict" });
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestCity, type TestCity } from "../support/harness";
+
+const department = {
+  name: "Harbour Authority",
+  type: "infrastructure",
+  description: "Runs the ferry piers",
+};
+
+describe("isolated cities", () => {
+  let first: TestCity;
+  let second: TestCity;
+
+  beforeAll(async () => {
+    first = await createTestCity();
+    second = await createTestCity();
+  });
+
+  afterAll(() => second.close());
+
+  test("each city builds its own services", () => {
+    expect(first.store.services.departmentService).not.toBe(
+      second.store.services.departmentService
+    );
+    expect(first.store.container.getStatus().state).toBe("started");
+  });
+
+  test("state created in one city is not visible in the other", async () => {
+    const created = await first.post("/api/departments", department, {
+      as: "admin",
+    });
+    expect(created.status).toBe(200);
+
+    const firstList = await first.get("/api/departments");
+    const secondList = await second.get("/api/departments");
+    expect(firstList.body.map((d: any) => d.id)).toContain(created.body.id);
+    expect(secondList.body.map((d: any) => d.id)).not.toContain(
+      created.body.id
+    );
+  });
+
+  test("events published in one city do not reach the other", () => {
+    const heard: string[] = [];
+    first.store.services.eventBus.subscribe("departmentBudgetUpdate", () =>
+      heard.push("first")
+    );
+    second.store.services.eventBus.subscribe("departmentBudgetUpdate", () =>
+      heard.push("second")
+    );
+
+    const eventId = first.store.services.eventBus.publish(
+      "departmentBudgetUpdate",
+      { type: "grant", amount: 500, timestamp: Date.now() }
+    );
+    expect(heard).toEqual(["first"]);
+
+    const idsIn = (city: TestCity) =>
+      city.store.services.eventBus.getEventHistory().map((event) => event.id);
+    expect(idsIn(first)).toContain(eventId);
+    expect(idsIn(second)).not.toContain(eventId);
+  });
+
+  test("closing a city clears its timers and leaves the other running", async () => {
+    const timersOf = (city: TestCity) =>
+      (city.store.services.metricsService as any).timers.size;
+    const cultureTasksOf = (city: TestCity) =>
+      city.clock
+        .getState()
+        .scheduledTasks.filter((task) => task.label === "culture-expressions");
+    expect(timersOf(first)).toBeGreaterThan(0);
+    expect(cultureTasksOf(first)).toHaveLength(1);
+
+    await first.close();
+    expect(first.store.container.getStatus().state).toBe("stopped");
+    expect(timersOf(first)).toBe(0);
+    expect(cultureTasksOf(first)).toHaveLength(0);
+    expect(timersOf(second)).toBeGreaterThan(0);
+    expect(cultureTasksOf(second)).toHaveLength(1);
+    expect(
+      first.store.services.eventBus.listenerCount("departmentBudgetUpdate")
+    ).toBe(0);
+    expect(
+      second.store.services.eventBus.listenerCount("departmentBudgetUpdate")
+    ).toBeGreaterThan(0);
+
+    const response = await second.get("/api/departments");
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  LLMUsageService,
+  parseBudgets,
+} from "../../src/services/llm-usage.service";
+import { PromptTemplateService } from "../../src/services/prompt-template.service";
+import { residentAgents } from "../../src/config/agents";
+import { FakeTogetherService } from "../support/fakes";
+
+const [agent] = residentAgents;
+
+const createUsage = (budgets: string, cheaperModel?: string) => {
+  const llm = new FakeTogetherService();
+  const promptTemplates = new PromptTemplateService({
+    directory: undefined,
+    maxStoredOutputs: 10,
+  });
+  const usage = new LLMUsageService(llm, promptTemplates, {
+    budgets: parseBudgets(budgets),
+    cheaperModel,
+    costPerMillionTokens: 2,
+    maxStoredCalls: 100,
+  });
+  return { llm, promptTemplates, usage };
+};
+
+describe("LLMUsageService", () => {
+  test("attributes calls to the service, agent and prompt template that made them", async () => {
+    const { llm, promptTemplates, usage } = createUsage("");
+    llm.defaultReply = "Quiet night on the harbor front.";
+
+    const prompt = promptTemplates.render("cctv-report", {
+      agentId: agent.id,
+      timestamp: "09:00",
+      context: "Location: Harbor",
+    });
+    await usage.forService("cctv").generateText(prompt.text);
+    await usage.forService("conversationService").generateResponse(agent, [
+      {
+        id: "m1",
+        agentId: "user",
+        content: "Hello",
+        timestamp: 0,
+        role: "user",
+      },
+    ]);
+
+    const report = usage.getReport();
+    expect(report.totals.calls).toBe(2);
+    expect(report.byService.map((group) => group.key).sort()).toEqual([
+      "cctv",
+      "conversationService",
+    ]);
+    expect(report.byPromptTemplate).toEqual([
+      expect.objectContaining({ key: "cctv-report@1", calls: 1 }),
+    ]);
+    expect(report.byAgent).toEqual([
+      expect.objectContaining({ key: agent.id, calls: 1 }),
+    ]);
+    // The fake reports no usage, so tokens are estimated from the text
+    const [call] = usage.getCalls({ service: "cctv" });
+    expect(call.estimated).toBe(true);
+    expect(call.promptTokens).toBe(Math.ceil(prompt.text.length / 4));
+    expect(report.totals.estimatedCost).toBeGreaterThan(0);
+  });
+
+  test("a service over its daily budget degrades while others keep the model", async () => {
+    const { llm, usage } = createUsage(
+      "chroniclesService=10:canned,*=1000:cheaper-model",
+      "small-model"
+    );
+    const chronicles = usage.forService("chroniclesService");
+
+    await chronicles.generateText("Write a long news article about the city.");
+    expect(usage.getBudgets()).toContainEqual(
+      expect.objectContaining({ service: "chroniclesService", exceeded: true })
+    );
+
+    const canned = await chronicles.generateText("Write another article.");
+    expect(canned).toBe("No further details are available right now.");
+    expect(llm.calls).toHaveLength(1);
+
+    await usage.forService("culture").generateText("Describe a festival.");
+    expect(llm.calls).toHaveLength(2);
+
+    usage.updateBudgets({
+      culture: { dailyTokens: 1, action: "cheaper-model" },
+    });
+    await usage.forService("culture").generateText("Describe a festival.");
+    const [latest] = usage.getCalls({ service: "culture" });
+    expect(latest).toMatchObject({
+      degraded: "cheaper-model",
+      model: "small-model",
+    });
+
+    const [cannedCall] = usage.getCalls({ service: "chroniclesService" });
+    expect(cannedCall).toMatchObject({
+      degraded: "canned",
+      promptTokens: 0,
+      completionTokens: 0,
+    });
+  });
+
+  test("rejects malformed budget settings", () => {
+    expect(() => parseBudgets("chroniclesService=lots")).toThrow(
+      "Invalid LLM budget"
+    );
+    expect(parseBudgets("*=500:canned").get("*")).toEqual({
+      dailyTokens: 500,
+      action: "canned",
+    });
+  });
+});
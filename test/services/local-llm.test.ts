@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { LocalLLMProvider } from "../../src/services/local-llm.service";
+import {
+  createLLMProvider,
+  loadLLMProviderConfig,
+} from "../../src/services/llm-provider.service";
+import { residentAgents } from "../../src/config/agents";
+
+const agent = { ...residentAgents[0], interests: ["parks", "ferries"] };
+const messages = [
+  {
+    id: "m1",
+    agentId: "visitor",
+    content: "Should we open the ferries at night?",
+    timestamp: 0,
+    role: "user" as const,
+  },
+];
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("LocalLLMProvider", () => {
+  test("replies are reproducible for a seed and stay on the mentioned interest", async () => {
+    const reply = await new LocalLLMProvider(7).generateResponse(
+      agent,
+      messages
+    );
+    expect(reply).toContain("ferries");
+    expect(
+      await new LocalLLMProvider(7).generateResponse(agent, messages)
+    ).toBe(reply);
+
+    const chunks: string[] = [];
+    for await (const chunk of new LocalLLMProvider(7).streamResponse(
+      agent,
+      messages
+    )) {
+      chunks.push(chunk);
+    }
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(reply);
+  });
+
+  test("generated text is reproducible and shorter for a smaller token budget", async () => {
+    const llm = new LocalLLMProvider(7);
+    const text = await llm.generateText("Summarise the week", {
+      maxTokens: 40,
+    });
+    expect(text.split(". ")).toHaveLength(1);
+    expect(
+      await llm.generateText("Summarise the week", { maxTokens: 40 })
+    ).toBe(text);
+  });
+
+  test("embeddings are unit length and similar texts land closer", async () => {
+    const llm = new LocalLLMProvider(7, 64);
+    const ferries = await llm.createEmbedding("night ferries to the harbour");
+    const similar = await llm.createEmbedding(
+      "ferries to the harbour at night"
+    );
+    const unrelated = await llm.createEmbedding("budget report for parks");
+
+    expect(ferries).toHaveLength(64);
+    expect(dot(ferries, ferries)).toBeCloseTo(1);
+    expect(dot(ferries, similar)).toBeGreaterThan(dot(ferries, unrelated));
+    expect(await llm.createEmbedding("")).toEqual(new Array(64).fill(0.1));
+  });
+
+  test("LLM_PROVIDER=local builds it with the configured seed and dimensions", async () => {
+    const config = loadLLMProviderConfig({
+      LLM_PROVIDER: "local",
+      LLM_SEED: "7",
+      LLM_EMBEDDING_DIMENSIONS: "32",
+    });
+    const llm = createLLMProvider(config);
+
+    expect(llm.name).toBe("local");
+    expect(await llm.createEmbedding("ferries")).toHaveLength(32);
+    expect(await llm.generateResponse(agent, messages)).toBe(
+      await new LocalLLMProvider(7).generateResponse(agent, messages)
+    );
+    expect(() => loadLLMProviderConfig({ LLM_PROVIDER: "oracle" })).toThrow(
+      'Unknown LLM_PROVIDER "oracle"'
+    );
+  });
+});
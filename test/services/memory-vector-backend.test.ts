@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { MemoryVectorBackend } from "../../src/services/memory-vector-backend.service";
+import type {
+  VectorBackendRecord,
+  VectorFilter,
+} from "../../src/types/vector-store.types";
+
+// Metadata arrives flattened to strings, as the vector store upserts it
+const records: VectorBackendRecord[] = [
+  { id: "park", values: [1, 0], metadata: { type: "district", score: "0.9" } },
+  { id: "harbour", values: [0, 1], metadata: { type: "district", score: 0.4 } },
+  { id: "festival", values: [1, 1], metadata: { type: "event", score: "0.6" } },
+  { id: "note", values: [1, 0], metadata: { type: "note" } },
+];
+
+async function matching(filter: VectorFilter) {
+  const backend = new MemoryVectorBackend();
+  await backend.upsert(records);
+  const { matches } = await backend.query({
+    vector: [1, 0],
+    filter,
+    topK: 10,
+    includeMetadata: false,
+  });
+  return matches.map((match) => match.id).sort();
+}
+
+describe("MemoryVectorBackend", () => {
+  test("equality operators compare strings and numbers alike", async () => {
+    expect(await matching({ type: { $eq: "district" } })).toEqual([
+      "harbour",
+      "park",
+    ]);
+    expect(await matching({ score: { $eq: 0.9 } })).toEqual(["park"]);
+    expect(await matching({ type: { $ne: "district" } })).toEqual([
+      "festival",
+      "note",
+    ]);
+  });
+
+  test("set operators match any or none of the values", async () => {
+    expect(await matching({ type: { $in: ["event", "note"] } })).toEqual([
+      "festival",
+      "note",
+    ]);
+    expect(await matching({ type: { $nin: ["district", "note"] } })).toEqual([
+      "festival",
+    ]);
+  });
+
+  test("range operators parse flattened numbers and skip missing fields", async () => {
+    expect(await matching({ score: { $gt: 0.6 } })).toEqual(["park"]);
+    expect(await matching({ score: { $gte: 0.6 } })).toEqual([
+      "festival",
+      "park",
+    ]);
+    expect(await matching({ score: { $lt: 0.6 } })).toEqual(["harbour"]);
+    expect(await matching({ score: { $gte: 0.4, $lte: 0.6 } })).toEqual([
+      "festival",
+      "harbour",
+    ]);
+  });
+
+  test("$exists and combined fields narrow the matches together", async () => {
+    expect(await matching({ score: { $exists: false } })).toEqual(["note"]);
+    expect(
+      await matching({
+        type: { $eq: "district" },
+        score: { $exists: true, $lt: 0.5 },
+      })
+    ).toEqual(["harbour"]);
+  });
+
+  test("matches are ranked by cosine similarity and cut at topK", async () => {
+    const backend = new MemoryVectorBackend();
+    await backend.upsert(records);
+    const { matches } = await backend.query({
+      vector: [1, 0],
+      topK: 2,
+      includeMetadata: true,
+    });
+    expect(matches.map((match) => match.id)).toEqual(["note", "park"]);
+    expect(matches[1].metadata).toEqual({ type: "district", score: "0.9" });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import {
+  PaymentError,
+  PaymentService,
+} from "../../src/services/payment.service";
+import {
+  MOCK_PAYMENT_METHODS,
+  MockPaymentProcessor,
+} from "../../src/services/mock-payment-processor.service";
+import type { Payment } from "../../src/types/payment.types";
+import { signWebhook } from "../../src/utils/webhook-signature";
+
+const SECRET = "test-webhook-secret";
+
+const request = (paymentMethod: string) => ({
+  amount: 75,
+  currency: "USD",
+  donorId: "donor-1",
+  description: "Festival lanterns",
+  paymentMethod,
+});
+
+const purpose = { type: "donation" as const, id: "don-1" };
+
+describe("PaymentService with the mock processor", () => {
+  test("a delayed capture settles when the signed webhook arrives", async () => {
+    const processor = new MockPaymentProcessor({
+      webhookSecret: SECRET,
+      settlementMs: 5,
+    });
+    const payments = new PaymentService(processor);
+    const captured: Payment[] = [];
+    payments.on("captured", (payment) => captured.push(payment));
+
+    const payment = await payments.charge(
+      purpose,
+      request(MOCK_PAYMENT_METHODS.delayed)
+    );
+    expect(payment.status).toBe("pending_settlement");
+    await expect(payments.refund(payment.id)).rejects.toThrow(PaymentError);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(captured.map((p) => p.id)).toEqual([payment.id]);
+    expect(payments.getPayment(payment.id)).toEqual(
+      expect.objectContaining({
+        status: "captured",
+        webhookEvents: [expect.any(String)],
+      })
+    );
+
+    // A redelivered event is applied once
+    const event = JSON.stringify({
+      id: payment.webhookEvents[0],
+      type: "payment.captured",
+      paymentId: payment.id,
+      createdAt: Date.now(),
+    });
+    payments.handleWebhook(event, signWebhook(event, SECRET));
+    expect(captured).toHaveLength(1);
+
+    expect((await payments.refund(payment.id)).status).toBe("refunded");
+    processor.stop();
+  });
+
+  test("a declined card is recorded and rejected", async () => {
+    const payments = new PaymentService(
+      new MockPaymentProcessor({ webhookSecret: SECRET, settlementMs: 5 })
+    );
+    const error = await payments
+      .charge(purpose, request(MOCK_PAYMENT_METHODS.decline))
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("declined");
+    expect(payments.getPayments({ status: "declined" })).toEqual([
+      expect.objectContaining({ failureReason: "card_declined", amount: 75 }),
+    ]);
+
+    const success = await payments.charge(
+      purpose,
+      request(MOCK_PAYMENT_METHODS.success)
+    );
+    expect(success.status).toBe("captured");
+  });
+
+  test("webhooks with a wrong, missing or stale signature are refused", async () => {
+    const payments = new PaymentService(
+      new MockPaymentProcessor({ webhookSecret: SECRET, settlementMs: 5 })
+    );
+    const payment = await payments.charge(
+      purpose,
+      request(MOCK_PAYMENT_METHODS.success)
+    );
+    const event = JSON.stringify({
+      id: "evt-1",
+      type: "payment.refunded",
+      paymentId: payment.id,
+      createdAt: Date.now(),
+    });
+
+    for (const signature of [
+      signWebhook(event, "someone-elses-secret"),
+      undefined,
+      signWebhook(event, SECRET, Date.now() - 10 * 60 * 1000),
+      signWebhook(event.replace("evt-1", "evt-2"), SECRET),
+    ]) {
+      expect(() => payments.handleWebhook(event, signature)).toThrow(
+        expect.objectContaining({ code: "invalid_signature" })
+      );
+    }
+    expect(payments.getPayment(payment.id)?.status).toBe("captured");
+
+    const refunded: Payment[] = [];
+    payments.on("refunded", (p) => refunded.push(p));
+    payments.handleWebhook(event, signWebhook(event, SECRET));
+    expect(payments.getPayment(payment.id)?.status).toBe("refunded");
+    expect(refunded.map((p) => p.id)).toEqual([payment.id]);
+  });
+
+  test("webhooks of an unknown type leave the payment as it was", async () => {
+    const payments = new PaymentService(
+      new MockPaymentProcessor({ webhookSecret: SECRET, settlementMs: 5 })
+    );
+    const payment = await payments.charge(
+      purpose,
+      request(MOCK_PAYMENT_METHODS.success)
+    );
+    const event = JSON.stringify({
+      id: "evt-1",
+      type: "payment.disputed",
+      paymentId: payment.id,
+      createdAt: Date.now(),
+    });
+
+    const refunded: Payment[] = [];
+    payments.on("refunded", (p) => refunded.push(p));
+    payments.handleWebhook(event, signWebhook(event, SECRET));
+    expect(payments.getPayment(payment.id)?.status).toBe("captured");
+    expect(refunded).toEqual([]);
+  });
+
+  test("a signed webhook whose body is not JSON is refused", async () => {
+    const payments = new PaymentService(
+      new MockPaymentProcessor({ webhookSecret: SECRET, settlementMs: 5 })
+    );
+    const body = "{not json";
+
+    expect(() =>
+      payments.handleWebhook(body, signWebhook(body, SECRET))
+    ).toThrow(expect.objectContaining({ code: "invalid_payload" }));
+  });
+});
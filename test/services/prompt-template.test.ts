@@ -0,0 +1,97 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  PromptTemplateError,
+  PromptTemplateService,
+} from "../../src/services/prompt-template.service";
+
+const directory = mkdtempSync(join(tmpdir(), "prompt-templates-"));
+
+const writeTemplate = (file: string, content: object) =>
+  writeFileSync(join(directory, file), JSON.stringify(content));
+
+describe("PromptTemplateService", () => {
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  test("override files add versions that are used until an admin pins another", () => {
+    writeTemplate("cctv-report.v2.json", {
+      name: "cctv-report",
+      version: "2",
+      template: ["[CCTV LOG v2]", "Target: {{agentId}}", "{{context}}"],
+    });
+    writeTemplate("broken.json", {
+      name: "chronicles-news",
+      version: "3",
+      template: "Write about {{weather}}",
+    });
+
+    const templates = new PromptTemplateService({
+      directory,
+      maxStoredOutputs: 10,
+    });
+
+    const rendered = templates.render("cctv-report", {
+      agentId: "luna",
+      context: "Location: Harbor",
+    });
+    expect(rendered).toEqual({
+      template: "cctv-report",
+      version: "2",
+      text: "[CCTV LOG v2]\nTarget: luna\nLocation: Harbor",
+    });
+    // Unknown variables would never be filled in, so the file is skipped
+    expect(templates.getSummary("chronicles-news")?.activeVersion).toBe("2");
+
+    templates.activate("cctv-report", "1");
+    expect(templates.render("cctv-report", { agentId: "luna" }).text).toContain(
+      "[CCTV SURVEILLANCE LOG]"
+    );
+    expect(() => templates.activate("cctv-report", "9")).toThrow(
+      PromptTemplateError
+    );
+
+    writeTemplate("cctv-report.v3.json", {
+      name: "cctv-report",
+      version: "3",
+      template: "v3 {{agentId}}",
+    });
+    const reloaded = templates.reload();
+    expect(reloaded.loaded).toEqual(["cctv-report@2", "cctv-report@3"]);
+    expect(reloaded.errors).toHaveLength(1);
+    expect(templates.getSummary("cctv-report")).toMatchObject({
+      activeVersion: "1",
+      pinned: true,
+    });
+
+    templates.activate("cctv-report", null);
+    expect(templates.render("cctv-report", { agentId: "luna" }).text).toBe(
+      "v3 luna"
+    );
+  });
+
+  test("records which version produced each output", () => {
+    const templates = new PromptTemplateService({
+      directory: undefined,
+      maxStoredOutputs: 2,
+    });
+    const prompt = templates.render("chronicles-news", { context: "Rain" });
+    expect(prompt.text).toContain("[NEUROVA DAILY NEWS]\nContext: Rain");
+
+    for (const id of ["news-1", "news-2", "news-3"]) {
+      templates.recordOutput(id, prompt);
+    }
+
+    expect(templates.getOutput("news-1")).toBeUndefined();
+    expect(templates.getOutput("news-3")).toMatchObject({
+      template: "chronicles-news",
+      version: "2",
+    });
+    expect(
+      templates
+        .getOutputs({ template: "chronicles-news" })
+        .map((o) => o.outputId)
+    ).toEqual(["news-3", "news-2"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ServiceContainer,
+  ServiceCycleError,
+  UnknownServiceError,
+} from "../../src/services/service-container.service";
+
+interface Clock {
+  now(): number;
+}
+
+interface Pinger {
+  partner: Ponger;
+  ping(): string;
+}
+
+interface Ponger {
+  partner: Pinger;
+  pong(): string;
+}
+
+type Services = {
+  clock: Clock;
+  logger: { lines: string[] };
+  pinger: Pinger;
+  ponger: Ponger;
+};
+
+function createContainer(events: string[] = []) {
+  return new ServiceContainer<Services>()
+    .register("logger", {
+      create: () => {
+        events.push("create logger");
+        return { lines: [] };
+      },
+      init: () => void events.push("init logger"),
+      start: () => void events.push("start logger"),
+      stop: () => void events.push("stop logger"),
+    })
+    .register("clock", {
+      deps: ["logger"],
+      create: ({ logger }) => {
+        events.push("create clock");
+        logger.lines.push("clock ready");
+        return { now: () => 42 };
+      },
+      init: () => void events.push("init clock"),
+      start: () => void events.push("start clock"),
+      stop: () => void events.push("stop clock"),
+    });
+}
+
+describe("ServiceContainer", () => {
+  test("builds a service and its dependencies on first use", () => {
+    const events: string[] = [];
+    const container = createContainer(events);
+    expect(container.isBuilt("clock")).toBe(false);
+
+    expect(container.get("clock").now()).toBe(42);
+    expect(container.get("clock")).toBe(container.get("clock"));
+    expect(container.get("logger").lines).toEqual(["clock ready"]);
+    expect(events).toEqual(["create logger", "create clock"]);
+  });
+
+  test("runs init and start in dependency order and stop in reverse", async () => {
+    const events: string[] = [];
+    const container = createContainer(events);
+    await container.start();
+    await container.stop();
+
+    expect(events).toEqual([
+      "create logger",
+      "create clock",
+      "init logger",
+      "init clock",
+      "start logger",
+      "start clock",
+      "stop clock",
+      "stop logger",
+    ]);
+  });
+
+  test("calls a service's own stop() when no hook is given", async () => {
+    let stopped = false;
+    const container = new ServiceContainer<{ logger: { stop(): void } }>();
+    container.register("logger", {
+      create: () => ({ stop: () => (stopped = true) }),
+    });
+    await container.start();
+    await container.stop();
+    expect(stopped).toBe(true);
+  });
+
+  test("reports the path of a dependency cycle", async () => {
+    const container = new ServiceContainer<Services>()
+      .register("pinger", {
+        deps: ["ponger"],
+        create: ({ ponger }) => ({ partner: ponger, ping: () => "ping" }),
+      })
+      .register("ponger", {
+        deps: ["pinger"],
+        create: ({ pinger }) => ({ partner: pinger, pong: () => "pong" }),
+      });
+
+    expect(() => container.get("pinger")).toThrow(ServiceCycleError);
+    expect(() => container.get("pinger")).toThrow(
+      "Circular service dependency: pinger -> ponger -> pinger"
+    );
+    await expect(container.start()).rejects.toThrow(ServiceCycleError);
+  });
+
+  test("wires services that need each other through a lazy dependency", async () => {
+    const container = new ServiceContainer<Services>()
+      .register("pinger", {
+        deps: ["ponger"],
+        create: ({ ponger }) => ({ partner: ponger, ping: () => "ping" }),
+      })
+      .register("ponger", {
+        lazy: ["pinger"],
+        create: ({ pinger }) => ({ partner: pinger, pong: () => "pong" }),
+      });
+
+    await container.start();
+    const ponger = container.get("ponger");
+    expect(ponger.partner.ping()).toBe("ping");
+    expect(ponger.partner.partner).toBe(ponger);
+    expect(container.dependentsOf("pinger")).toEqual(["ponger"]);
+    expect(container.dependentsOf("ponger")).toEqual(["pinger"]);
+  });
+
+  test("rejects unknown dependencies before building anything", async () => {
+    const events: string[] = [];
+    const container = new ServiceContainer<Services>().register("clock", {
+      deps: ["logger"],
+      create: () => {
+        events.push("create clock");
+        return { now: () => 0 };
+      },
+    });
+
+    await expect(container.start()).rejects.toThrow(UnknownServiceError);
+    expect(events).toEqual([]);
+  });
+});
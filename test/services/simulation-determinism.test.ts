@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { createTestCity } from "../support/harness";
+
+// What the seeded services produced over half an hour of simulated time
+async function runCity() {
+  const city = await createTestCity();
+  try {
+    const { simulationClock, cityEventsService, eventBus } =
+      city.store.services;
+    const transportService = city.store.container.get("transportService");
+    for (let minute = 0; minute < 25; minute++) {
+      await simulationClock.step(60000);
+    }
+    return {
+      clock: simulationClock.getState(),
+      cityEvents: cityEventsService.exportState(),
+      transport: transportService.exportState(),
+      generated: eventBus
+        .getEventHistory({ type: ["cityEventGenerated"] })
+        .map((event) => event.data),
+    };
+  } finally {
+    await city.close();
+  }
+}
+
+describe("Simulation determinism", () => {
+  test("two runs with the same seed produce the same city", async () => {
+    const first = await runCity();
+    const second = await runCity();
+
+    expect(first.generated.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MongoClient } from "mongodb";
+import { createTestCity } from "../support/harness";
+import { FileStateStore } from "../../src/services/file-state-store.service";
+import { MongoStateStore } from "../../src/services/mongo-state-store.service";
+import type { StateStore } from "../../src/types/persistence.types";
+
+const department = {
+  name: "Harbour Authority",
+  type: "infrastructure",
+  description: "Runs the ferry piers",
+};
+
+// Boots a city the way src/index.ts does: start, then restore
+async function bootCity(stateStore: StateStore) {
+  const city = await createTestCity({ stateStore });
+  const restored = await city.store.services.persistence.restore();
+  return { city, restored };
+}
+
+// Runs one city against the store, then boots a fresh one from it
+async function expectRestoredOnBoot(createStore: () => StateStore) {
+  const first = await bootCity(createStore());
+  const created = await first.city.post("/api/departments", department, {
+    as: "admin",
+  });
+  expect(created.status).toBe(200);
+  // Stopping the city saves its state
+  await first.city.close();
+
+  const second = await bootCity(createStore());
+  try {
+    expect(second.restored).toContain("departments");
+    const departments = await second.city.get("/api/departments");
+    expect(departments.body).toContainEqual(
+      expect.objectContaining({ id: created.body.id, name: department.name })
+    );
+  } finally {
+    await second.city.close();
+  }
+}
+
+describe("state stores", () => {
+  const directory = mkdtempSync(join(tmpdir(), "aicity-state-"));
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  test("a file store restores the city on the next boot", async () => {
+    await expectRestoredOnBoot(() => new FileStateStore(directory));
+  });
+
+  // Needs a reachable MongoDB server
+  test.skipIf(!process.env.MONGODB_URI)(
+    "a MongoDB store restores the city on the next boot",
+    async () => {
+      const uri = process.env.MONGODB_URI!;
+      const database = `aicity_test_${Date.now()}`;
+      try {
+        await expectRestoredOnBoot(() => new MongoStateStore(uri, database));
+      } finally {
+        const client = new MongoClient(uri);
+        await client.db(database).dropDatabase();
+        await client.close();
+      }
+    }
+  );
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import {
+  StructuredOutputError,
+  generateStructured,
+} from "../../src/utils/structured-generation";
+import { FakeTogetherService } from "../support/fakes";
+
+const ForecastSchema = z.object({
+  district: z.string(),
+  rainChance: z.number().min(0).max(1),
+});
+
+describe("generateStructured", () => {
+  test("retries with the validation error until the reply matches the schema", async () => {
+    const llm = new FakeTogetherService();
+    llm.queueReply(
+      "Sure! Here is the forecast you asked for.",
+      '```json\n{"district": "Harbor", "rainChance": 40}\n```',
+      'Corrected: {"district": "Harbor", "rainChance": 0.4}'
+    );
+
+    const result = await generateStructured(llm, {
+      prompt: "Forecast the Harbor district as JSON.",
+      schema: ForecastSchema,
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: { district: "Harbor", rainChance: 0.4 },
+      attempts: 3,
+    });
+    expect(llm.calls[1].prompt).toContain("Reply is not valid JSON");
+    expect(llm.calls[2].prompt).toContain(
+      "Your previous reply was rejected: rainChance"
+    );
+  });
+
+  test("returns a typed failure once the attempts run out", async () => {
+    const llm = new FakeTogetherService();
+    llm.defaultReply = '{"district": "Harbor"}';
+
+    const result = await generateStructured(llm, {
+      prompt: "Forecast the Harbor district as JSON.",
+      schema: ForecastSchema,
+      maxAttempts: 2,
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(StructuredOutputError);
+    expect(result.error.attempts).toHaveLength(2);
+    expect(result.error.message).toContain("rainChance Required");
+    expect(llm.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Agent } from "../../src/types/agent.types";
+import type { Message } from "../../src/types/conversation.types";
+import type {
+  LLMProvider,
+  TextGenerationOptions,
+} from "../../src/types/llm.types";
+import { VectorStoreService } from "../../src/services/vector-store.service";
+import { MemoryVectorBackend } from "../../src/services/memory-vector-backend.service";
+
+export interface FakeLLMCall {
+  method:
+    | "generateResponse"
+    | "streamResponse"
+    | "generateText"
+    | "createEmbedding";
+  prompt: string;
+  agentId?: string;
+  options?: TextGenerationOptions;
+}
+
+type FakeReply = string | ((prompt: string) => string);
+
+// Stands in for TogetherService: records every call and answers from a queue,
+// then from the first rule whose pattern matches the prompt
+export class FakeTogetherService implements LLMProvider {
+  readonly name = "local" as const;
+  readonly calls: FakeLLMCall[] = [];
+  defaultReply = "This is a fake response from the city.";
+  private replies: string[] = [];
+  private rules: Array<{ pattern: string | RegExp; reply: FakeReply }> = [];
+
+  respondTo(pattern: string | RegExp, reply: FakeReply) {
+    this.rules.push({ pattern, reply });
+  }
+
+  queueReply(...replies: string[]) {
+    this.replies.push(...replies);
+  }
+
+  queueJson(...values: unknown[]) {
+    this.queueReply(...values.map((value) => JSON.stringify(value)));
+  }
+
+  reset() {
+    this.calls.length = 0;
+    this.replies = [];
+  }
+
+  async generateResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string
+  ): Promise<string> {
+    this.calls.push({
+      method: "generateResponse",
+      prompt: systemPrompt || messages[messages.length - 1]?.content || "",
+      agentId: agent.id,
+    });
+    return this.nextReply(systemPrompt || "");
+  }
+
+  // Streams the reply generateResponse would give, one word per chunk
+  async *streamResponse(
+    agent: Agent,
+    messages: Message[],
+    systemPrompt?: string
+  ): AsyncGenerator<string> {
+    this.calls.push({
+      method: "streamResponse",
+      prompt: systemPrompt || messages[messages.length - 1]?.content || "",
+      agentId: agent.id,
+    });
+    for (const word of this.nextReply(systemPrompt || "").match(/\S+\s*/g) ||
+      []) {
+      yield word;
+    }
+  }
+
+  async generateText(
+    prompt: string,
+    options?: TextGenerationOptions
+  ): Promise<string> {
+    this.calls.push({ method: "generateText", prompt, options });
+    return this.nextReply(prompt);
+  }
+
+  // Same text, same vector, so semantic queries in tests are stable
+  async createEmbedding(text: string): Promise<number[]> {
+    this.calls.push({ method: "createEmbedding", prompt: text });
+    const vector = new Array(16).fill(0);
+    for (let i = 0; i < text.length; i++) {
+      vector[i % vector.length] += text.charCodeAt(i) / 255;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  private nextReply(prompt: string) {
+    if (this.replies.length > 0) return this.replies.shift()!;
+
+    const rule = this.rules.find(({ pattern }) =>
+      typeof pattern === "string"
+        ? prompt.includes(pattern)
+        : pattern.test(prompt)
+    );
+    if (!rule) return this.defaultReply;
+    return typeof rule.reply === "function" ? rule.reply(prompt) : rule.reply;
+  }
+}
+
+// VectorStoreService over an in-process backend with nothing persisted to disk
+export class FakeVectorStoreService extends VectorStoreService {
+  readonly memory: MemoryVectorBackend;
+
+  constructor(llm: LLMProvider) {
+    const memory = new MemoryVectorBackend();
+    super(llm, memory);
+    this.memory = memory;
+  }
+}
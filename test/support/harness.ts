@@ -0,0 +1,203 @@
+import { jest } from "bun:test";
+import { createApp } from "../../src/app";
+import { createStore, type AppStore } from "../../src/services/app.services";
+import { SimulationClock } from "../../src/services/simulation-clock.service";
+import { MemoryStateStore } from "../../src/services/memory-state-store.service";
+import { MemoryEventLog } from "../../src/services/event-log.service";
+import type { Role } from "../../src/types/auth.types";
+import type { StateStore } from "../../src/types/persistence.types";
+import { FakeTogetherService, FakeVectorStoreService } from "./fakes";
+
+// The installed bun-types predate fake timers, which the runtime already supports
+const timers = jest as unknown as {
+  useFakeTimers(options?: { now?: number }): void;
+  advanceTimersByTime(ms: number): void;
+  clearAllTimers(): void;
+  useRealTimers(): void;
+};
+
+export const TEST_START_TIME = Date.parse("2025-01-06T09:00:00.000Z");
+
+// Fake timers are process-wide, so they stay on until the last open city closes
+let openCities = 0;
+
+// Captured before timers are faked so settling never depends on them
+const realSetImmediate = globalThis.setImmediate;
+
+// Lets the async initialisation services kick off in their constructors finish
+export async function settle(rounds = 20) {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise((resolve) => realSetImmediate(resolve));
+  }
+}
+
+// ChroniclesService only keeps replies that match its schemas
+function seedChronicleReplies(llm: FakeTogetherService) {
+  llm.respondTo(
+    "[NEUROVA DAILY NEWS]",
+    JSON.stringify({
+      headline: "Riverside Market Extends Evening Hours",
+      content:
+        "The Riverside market will stay open until ten on weekdays after a month-long trial drew steady crowds. Vendors reported higher sales and the transit office added two late buses to the route.",
+      category: "community",
+      importance: 6,
+    })
+  );
+  llm.respondTo(
+    "[NEUROVA EVENT]",
+    JSON.stringify({
+      title: "Lantern Walk Along the Canal",
+      description:
+        "Residents gather at dusk to walk the canal path with paper lanterns made in local workshops.",
+      type: "cultural",
+      location: "Canal Promenade",
+      impact: 5,
+    })
+  );
+  llm.respondTo(
+    "[NEUROVA INCIDENT]",
+    JSON.stringify({
+      description:
+        "A water main burst near the central library and flooded part of the lower road.",
+      severity: "medium",
+      location: "Library Square",
+      type: "infrastructure",
+      status: "ongoing",
+    })
+  );
+}
+
+export interface RequestOptions {
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Sends the API key of a service account holding this role
+  as?: Role;
+}
+
+export interface TestResponse<T = any> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface TestCity {
+  store: AppStore;
+  app: ReturnType<typeof createApp>;
+  llm: FakeTogetherService;
+  vectorStore: FakeVectorStoreService;
+  clock: SimulationClock;
+  request<T = any>(
+    method: string,
+    path: string,
+    options?: RequestOptions
+  ): Promise<TestResponse<T>>;
+  get<T = any>(
+    path: string,
+    options?: RequestOptions
+  ): Promise<TestResponse<T>>;
+  post<T = any>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<TestResponse<T>>;
+  // Fires the frozen setTimeout/setInterval callbacks due within `ms`
+  advanceTimers(ms: number): void;
+  // Stops every service in the city, then restores real timers
+  close(): Promise<void>;
+}
+
+// A full city wired to fakes. Timers are frozen while it exists, so the
+// setIntervals services start in their constructors never fire on their own.
+// Each call builds its own container, so several cities can run side by side.
+// State lives in memory unless a store is passed.
+export async function createTestCity(
+  options: { stateStore?: StateStore } = {}
+): Promise<TestCity> {
+  if (openCities++ === 0) {
+    timers.useFakeTimers({ now: TEST_START_TIME });
+  }
+
+  const llm = new FakeTogetherService();
+  seedChronicleReplies(llm);
+  const vectorStore = new FakeVectorStoreService(llm);
+  const clock = new SimulationClock({
+    seed: 42,
+    startTime: TEST_START_TIME,
+    speed: 1,
+    tickMs: 1000,
+    autoStart: false,
+  });
+  const store = createStore({
+    llmProvider: llm,
+    vectorStore,
+    simulationClock: clock,
+    stateStore: options.stateStore || new MemoryStateStore(),
+    eventLog: new MemoryEventLog(),
+    startAgents: false,
+  });
+  const app = createApp(store);
+  await store.container.start();
+  await settle();
+  const apiKeys = new Map<Role, string>();
+
+  const apiKeyFor = (role: Role) => {
+    if (!apiKeys.has(role)) {
+      const { apiKey } = store.services.authService.createServiceAccount({
+        name: `test-${role}`,
+        roles: [role],
+      });
+      apiKeys.set(role, apiKey);
+    }
+    return apiKeys.get(role)!;
+  };
+
+  const request = async <T>(
+    method: string,
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<TestResponse<T>> => {
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.body !== undefined) {
+      headers["content-type"] = "application/json";
+    }
+    if (options.as) {
+      headers["x-api-key"] = apiKeyFor(options.as);
+    }
+
+    const response = await app.handle(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers,
+        body:
+          options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      })
+    );
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Plain-text responses are returned as-is
+    }
+    return { status: response.status, headers: response.headers, body };
+  };
+
+  return {
+    store,
+    app,
+    llm,
+    vectorStore,
+    clock,
+    request,
+    get: (path, options) => request("GET", path, options),
+    post: (path, body, options) => request("POST", path, { ...options, body }),
+    advanceTimers: (ms) => timers.advanceTimersByTime(ms),
+    async close() {
+      await store.container.stop();
+      if (--openCities === 0) {
+        timers.clearAllTimers();
+        timers.useRealTimers();
+      }
+    },
+  };
+}